@@ -0,0 +1,9 @@
+#!/usr/bin/env node
+"use strict";
+
+const { runClientGenerator } = require("../lib/cjs/server/index.cjs");
+
+runClientGenerator(process.argv.slice(2)).catch((e) => {
+  console.error(e && e.message ? e.message : e);
+  process.exit(1);
+});
@@ -12,7 +12,12 @@ import {
 import { ServerEvent, ServerEventConnector } from "./event";
 import { HttpConfig, HttpFlags } from "./types";
 import { InternalError } from "@decaf-ts/db-decorators";
-import { DecafHeaders } from "./constants";
+import { Model } from "@decaf-ts/decorator-validation";
+import {
+  DecafHeaders,
+  EventConnectionState,
+  ResyncOperation,
+} from "./constants";
 import { HttpAdapter } from "./adapter";
 
 /**
@@ -23,7 +28,9 @@ import { HttpAdapter } from "./adapter";
  * also syncs the locally observed topics by subscribing/unsubscribing with the SSE
  * server, correlating each client through a `x-correlation-id` header
  * ({@link DecafHeaders.CORRELATION_ID}) so the server can scope subscriptions and
- * enforce a single connection per client.
+ * enforce a single connection per client. Reconnections resume from the last received
+ * event; when events may have been missed, every observed table is notified with
+ * {@link ResyncOperation} so observers refetch what they hold.
  * @class HttpDispatcher
  * @extends Dispatch
  * @memberOf module:for-http
@@ -50,9 +57,12 @@ export class HttpDispatcher extends Dispatch<
 > {
   private connector?: ServerEventConnector;
   private removeConnectorListener?: () => void;
+  private removeRotationListener?: () => void;
   private correlationId?: string;
   private subscriptionSync?: Promise<void>;
   private lastSubscriptionSignature?: string;
+  private stateListeners: Set<(state: EventConnectionState) => void> =
+    new Set();
 
   protected override initialized = false;
   private listening = false;
@@ -167,22 +177,26 @@ export class HttpDispatcher extends Dispatch<
     }
 
     log.info(`Opening ServerEventConnector for url: ${subscribedUrl}`);
-    this.connector = ServerEventConnector.open(subscribedUrl, async () => {
-      if (!this.adapter) throw new InternalError("Adapter not initialized");
-      let headers: Record<string, string> = {};
-      try {
-        headers = (await (this.adapter as any).getEventHeaders()) || {};
-      } catch (e: unknown) {
-        throw new InternalError(`Failed to get event headers: ${e}`);
-      }
-      if (subscriptionMode) {
-        headers = {
-          ...headers,
-          [DecafHeaders.CORRELATION_ID]: correlationId,
-        };
-      }
-      return headers;
-    });
+    this.connector = ServerEventConnector.open(
+      subscribedUrl,
+      async () => {
+        if (!this.adapter) throw new InternalError("Adapter not initialized");
+        let headers: Record<string, string> = {};
+        try {
+          headers = (await (this.adapter as any).getEventHeaders()) || {};
+        } catch (e: unknown) {
+          throw new InternalError(`Failed to get event headers: ${e}`);
+        }
+        if (subscriptionMode) {
+          headers = {
+            ...headers,
+            [DecafHeaders.CORRELATION_ID]: correlationId,
+          };
+        }
+        return headers;
+      },
+      (this.adapter as any)?.codecs
+    );
 
     log.debug(
       `ServerEventConnector opened successfully for url: ${subscribedUrl}`
@@ -194,6 +208,14 @@ export class HttpDispatcher extends Dispatch<
         const { log, ctxArgs } = (await this.logCtx(args, operation, true)).for(
           "onEvent"
         );
+        try {
+          await (this.adapter as any).invalidateCache?.(tableName, id);
+        } catch (e: unknown) {
+          log.error(
+            `Failed to invalidate cached responses of ${tableName}`,
+            e as Error
+          );
+        }
 
         super
           .updateObservers(
@@ -213,6 +235,19 @@ export class HttpDispatcher extends Dispatch<
           adapter: String(this.adapter),
         });
       },
+      onResync: (reason: string) => void this.resync(reason),
+      onStateChange: (state: EventConnectionState) =>
+        this.stateListeners.forEach((listener) => listener(state)),
+    });
+
+    this.removeRotationListener?.();
+    this.removeRotationListener = conf.credentials?.onRotate(() => {
+      log.info(`Access token rotated. Reopening ${subscribedUrl}`);
+      this.connector
+        ?.reconnect()
+        .catch((e: unknown) =>
+          log.error(`Failed to reopen ServerEventConnector`, e as Error)
+        );
     });
 
     // Avoid races where writes happen before the SSE stream finishes connecting.
@@ -222,6 +257,51 @@ export class HttpDispatcher extends Dispatch<
     log.info(`HttpDispatcher is now listening at ${subscribedUrl}.`);
   }
 
+  /**
+   * @description Subscribes to the state of the SSE connection
+   * @summary Notifies the listener whenever the connection is connecting, open,
+   * reconnecting or closed, e.g. to show the client is offline.
+   * @param {Function} listener - Called with each new {@link EventConnectionState}
+   * @return {Function} Removes the listener
+   */
+  onStateChange(listener: (state: EventConnectionState) => void): () => void {
+    this.stateListeners.add(listener);
+    return () => this.stateListeners.delete(listener);
+  }
+
+  /**
+   * @description Notifies the observers that events may have been missed
+   * @summary Called when the connection could not resume from its last event. Invalidates
+   * the cached responses of every observed table and updates its observers with
+   * {@link ResyncOperation} and no ids, so they refetch what they hold.
+   * @param {string} reason - Why events may have been missed
+   * @returns {Promise<void>} Resolves once every observed table was notified
+   */
+  protected async resync(reason: string): Promise<void> {
+    const { log, ctxArgs } = (await this.logCtx([], ResyncOperation, true)).for(
+      this.resync
+    );
+    log.warn(`Resyncing observers: ${reason}`);
+    for (const table of this.observedTables()) {
+      try {
+        await (this.adapter as any)?.invalidateCache?.(table);
+      } catch (e: unknown) {
+        log.error(
+          `Failed to invalidate cached responses of ${table}`,
+          e as Error
+        );
+      }
+      super
+        .updateObservers(
+          table,
+          ResyncOperation,
+          [],
+          ...(ctxArgs as [...any[], Context<HttpFlags>])
+        )
+        .catch((e) => log.error(`Failed to resync observers of ${table}`, e));
+    }
+  }
+
   /**
    * @description Serializes topic subscription syncs with the SSE server
    * @summary Runs {@link syncSubscriptionsInternal} exactly once per in-flight sync,
@@ -290,6 +370,20 @@ export class HttpDispatcher extends Dispatch<
     return [...topics].sort();
   }
 
+  private observedTables(): string[] {
+    const observers = (this.adapter as any)?.observerHandler?.observers;
+    if (!Array.isArray(observers)) return [];
+
+    const tables = new Set<string>();
+    for (const entry of observers) {
+      const candidate = (entry?.observer as any)?.class;
+      if (typeof candidate === "function")
+        tables.add(Model.tableName(candidate));
+      else if (typeof candidate === "string") tables.add(candidate);
+    }
+    return [...tables];
+  }
+
   /**
    * @description Derives the webhook topic from an observed model observer
    * @summary Resolves the observed model name (its class, string table or constructor
@@ -448,7 +542,14 @@ export class HttpDispatcher extends Dispatch<
 
     this.removeConnectorListener?.();
     this.removeConnectorListener = undefined;
+    this.removeRotationListener?.();
+    this.removeRotationListener = undefined;
     this.connector?.close();
+    // The connector no longer reaches the removed listener once closed.
+    if (this.listening)
+      this.stateListeners.forEach((listener) =>
+        listener(EventConnectionState.CLOSED)
+      );
     this.listening = false;
   }
 }
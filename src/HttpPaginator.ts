@@ -3,14 +3,19 @@ import {
   DirectionLimitOffset,
   MaybeContextualArg,
   Paginator,
+  PersistenceKeys,
   PreparedStatement,
   PreparedStatementKeys,
   Repository,
+  SerializedPage,
   UnsupportedError,
 } from "@decaf-ts/core";
 import { Model } from "@decaf-ts/decorator-validation";
 import { Constructor } from "@decaf-ts/decoration";
 import { HttpAdapter } from "./adapter";
+import { DefaultPaginationOptions } from "./constants";
+import { abortable, abortReason } from "./retry";
+import { ConditionQueryParams, HttpPaginationOptions } from "./types";
 
 export class HttpPaginator<
   M extends Model,
@@ -21,40 +26,196 @@ export class HttpPaginator<
     super(adapter, query, size, clazz);
   }
 
+  /**
+   * @description Whether the paginated query is a prepared statement
+   * @summary Any named statement can be paginated over HTTP, not only `findBy`/`listBy`.
+   * @return {RegExpMatchArray|null|string} A truthy value for prepared statements
+   */
+  protected override isPreparedStatement() {
+    const { method } = this.query as PreparedStatement<M>;
+    return method && method.match(/^[\w$]+$/);
+  }
+
   protected override async pagePrepared(
     page?: number,
     ...argz: ContextualArgs<any>
   ): Promise<M[]> {
+    return this.apply(await this.fetchPage(page ?? 1, this._bookmark, ...argz));
+  }
+
+  /**
+   * @description Requests a page without moving the paginator to it
+   * @summary `findBy`/`listBy` statements are sent as `pageBy`, `find` as `page`, condition queries
+   * with their limit and offset, and any other statement (e.g. custom `@query` methods) with the
+   * `limit`, `offset` and `bookmark` params. Statements answering with a plain list are wrapped in
+   * a page whose total is only known once a short page is received.
+   * @param {number} page - The page number, starting at 1
+   * @param {any} bookmark - The bookmark returned with the previous page, if any
+   * @param {...any[]} argz - The contextual arguments
+   * @return {Promise<SerializedPage<M>>} The page
+   */
+  protected async fetchPage(
+    page: number,
+    bookmark: any,
+    ...argz: ContextualArgs<any>
+  ): Promise<SerializedPage<M>> {
     const repo = Repository.forModel(this.clazz, this.adapter.alias);
-    const statement = this.query as PreparedStatement<M>;
-    const { method, args, params } = statement;
-    const regexp = new RegExp(
-      `^${PreparedStatementKeys.FIND_BY}|${PreparedStatementKeys.LIST_BY}`,
-      "gi"
+    const result = await repo.statement(
+      ...(this.pagedStatement(page, bookmark) as [string, any]),
+      ...argz
     );
-    if (!method.match(regexp))
+    if (Paginator.isSerializedPage(result)) return result as SerializedPage<M>;
+    if (!Array.isArray(result))
       throw new UnsupportedError(
-        `Method ${method} is not supported for pagination`
+        `Method ${(this.query as PreparedStatement<M>).method} did not return a page`
       );
-    regexp.lastIndex = 0;
-    const pagedMethod = method.replace(regexp, PreparedStatementKeys.PAGE_BY);
+    return {
+      data: result,
+      current: page,
+      count: undefined,
+      total: result.length < this.size ? page : undefined,
+    } as unknown as SerializedPage<M>;
+  }
 
-    const preparedArgs = [pagedMethod, ...args];
-    const preparedParams: DirectionLimitOffset = {
-      direction: params.direction,
+  /**
+   * @description Builds the statement name and arguments requesting a page
+   * @param {number} page - The page number, starting at 1
+   * @param {any} bookmark - The bookmark returned with the previous page, if any
+   * @return {any[]} The statement name followed by its arguments
+   */
+  protected pagedStatement(page: number, bookmark: any): any[] {
+    const {
+      method,
+      args = [],
+      params = {},
+    } = this.query as PreparedStatement<M>;
+    const regexp = new RegExp(
+      `^${PreparedStatementKeys.FIND_BY}|${PreparedStatementKeys.LIST_BY}`,
+      "gi"
+    );
+    const ref: DirectionLimitOffset = {
       limit: this.size,
       offset: page,
-      bookmark: this._bookmark,
+      bookmark,
     };
 
-    preparedArgs.push(preparedParams);
+    if (method.match(regexp)) {
+      regexp.lastIndex = 0;
+      return [
+        method.replace(regexp, PreparedStatementKeys.PAGE_BY),
+        ...args,
+        Object.assign({ direction: params.direction }, ref),
+      ];
+    }
 
-    const result = await repo.statement(
-      ...(preparedArgs as [string, any]),
-      ...argz
+    switch (method) {
+      case PreparedStatementKeys.FIND:
+      case PreparedStatementKeys.PAGE:
+        return [PreparedStatementKeys.PAGE, args[0], args[1], ref];
+      case PersistenceKeys.QUERY:
+        return [
+          method,
+          Object.assign({}, params, {
+            limit: this.size,
+            offset: (page - 1) * this.size,
+          } as ConditionQueryParams),
+        ];
+      default:
+        return [method, ...args, Object.assign({}, params, ref)];
+    }
+  }
+
+  /**
+   * @description Iterates every page, starting from the first
+   * @summary Stops after an empty or short page, or once the last page reported by the server was
+   * read. When the server returns bookmarks each page is requested after the previous one;
+   * otherwise up to `window` pages are requested at once. With `prefetch` the next pages are
+   * requested while the current one is consumed. Aborting `signal` rejects the pending `next()`
+   * with the abort reason; requests already sent are left to settle and their pages discarded.
+   * The paginator's current page, total and bookmark follow the yielded page.
+   * @param {Partial<HttpPaginationOptions>} [options] - The iteration settings
+   * @param {...any[]} args - Optional context
+   * @return {AsyncGenerator<M[]>} The records of each page
+   */
+  async *pages(
+    options: Partial<HttpPaginationOptions> = {},
+    ...args: MaybeContextualArg<any>
+  ): AsyncGenerator<M[]> {
+    const { window, prefetch, signal } = Object.assign(
+      {},
+      DefaultPaginationOptions,
+      options
     );
-    return this.apply(result);
+    const { ctxArgs } = (
+      await this.adapter["logCtx"](
+        [this.clazz, ...args],
+        PreparedStatementKeys.PAGE_BY,
+        true
+      )
+    ).for(this.pages);
+    ctxArgs.shift();
+
+    const pending: Promise<SerializedPage<M>>[] = [];
+    let next = 1;
+    let total: number | undefined;
+    let bookmark: any;
+    const request = (limit: number) => {
+      while (
+        pending.length < limit &&
+        (typeof total === "undefined" || next <= total)
+      ) {
+        const page = this.fetchPage(next++, bookmark, ...ctxArgs);
+        // failures of discarded pages must not surface as unhandled rejections
+        page.catch(() => undefined);
+        pending.push(page);
+        if (bookmark) break;
+      }
+    };
+
+    try {
+      if (signal?.aborted) throw abortReason(signal);
+      request(1);
+      while (pending.length) {
+        if (signal?.aborted) throw abortReason(signal);
+        const page = await abortable(
+          pending.shift() as Promise<SerializedPage<M>>,
+          signal
+        );
+        const data = this.apply(page) || [];
+        total = page.total ?? total;
+        bookmark = page.bookmark;
+        const last =
+          !data.length ||
+          data.length < this.size ||
+          (typeof total === "number" && page.current >= total);
+        if (last) pending.splice(0);
+        else if (prefetch) request(Math.max(window, 1));
+        if (data.length) yield data;
+        if (!last && !pending.length) request(1);
+      }
+    } finally {
+      pending.splice(0);
+    }
+  }
+
+  /**
+   * @description Iterates every record of every page
+   * @param {Partial<HttpPaginationOptions>} [options] - The iteration settings
+   * @param {...any[]} args - Optional context
+   * @return {AsyncGenerator<M>} The records
+   * @see {@link HttpPaginator#pages}
+   */
+  async *records(
+    options: Partial<HttpPaginationOptions> = {},
+    ...args: MaybeContextualArg<any>
+  ): AsyncGenerator<M> {
+    for await (const page of this.pages(options, ...args)) yield* page;
   }
+
+  [Symbol.asyncIterator](): AsyncGenerator<M> {
+    return this.records();
+  }
+
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   protected prepare(rawStatement: Q): Q {
     throw new UnsupportedError(
@@ -1,11 +1,41 @@
-import { Condition, Statement, UnsupportedError } from "@decaf-ts/core";
+import {
+  Condition,
+  ContextOf,
+  ContextualArgs,
+  PersistenceKeys,
+  PreparedStatement,
+  QueryError,
+  Repository,
+  Statement,
+  StatementExecutor,
+  UnsupportedError,
+} from "@decaf-ts/core";
 import { Model } from "@decaf-ts/decorator-validation";
 import { HttpAdapter } from "./adapter";
+import { ConditionQueryParams } from "./types";
 import type { AdapterFlags } from "@decaf-ts/core";
 
 type HttpAdapterQuery<T extends HttpAdapter<any, any, any, any, any>> =
   T extends HttpAdapter<any, any, any, infer Q, any> ? Q : never;
 
+/**
+ * @description Statement for HTTP adapters
+ * @summary Simple queries are sent as prepared statements, as before. Queries that can not be
+ * expressed as a prepared statement (e.g. `NOT` conditions), or that are not prepared at all, are
+ * sent as condition queries: the `where` condition serialized to JSON (see
+ * {@link serializeCondition}), with the selected attributes, sort, limit and offset, to the generic
+ * `GET /<table>/query` route. That route rebuilds and validates the condition against the model on
+ * the server, so condition queries do not require `allowRawStatements`.
+ * Grouping, counting, distinct and min/max selections are not supported by condition queries.
+ * @template M - The model type
+ * @template A - The HTTP adapter type
+ * @template R - The result type
+ * @param {A} adapter - The HTTP adapter
+ * @param {Partial<AdapterFlags>} [overrides] - Flag overrides
+ * @class HttpStatement
+ * @extends Statement
+ * @memberOf module:for-http
+ */
 export class HttpStatement<
   M extends Model,
   A extends HttpAdapter<any, any, any, any, any>,
@@ -15,20 +45,110 @@ export class HttpStatement<
     super(adapter, overrides);
   }
 
+  /**
+   * @description Prepares the statement
+   * @summary Falls back to a condition query when the condition can not be expressed as a
+   * prepared statement.
+   * @param {ContextOf<A>} [ctx] - The context
+   * @return {Promise<StatementExecutor<M, R>>} The prepared statement
+   */
+  override async prepare(ctx?: ContextOf<A>): Promise<StatementExecutor<M, R>> {
+    try {
+      return await super.prepare(ctx);
+    } catch (e: unknown) {
+      if (!(e instanceof QueryError)) throw e;
+      this.prepared = this.build() as unknown as PreparedStatement<M>;
+      return this;
+    }
+  }
+
+  /**
+   * @description Squashes simple queries into `listBy`/`findBy` statements
+   * @summary Only single comparisons can be squashed; negated conditions are left to
+   * {@link HttpStatement#prepare}.
+   * @param {ContextOf<A>} ctx - The context
+   * @return {PreparedStatement|undefined} The squashed statement, if any
+   */
+  protected override squash(
+    ctx: ContextOf<A>
+  ): PreparedStatement<any> | undefined {
+    if (this.whereCondition && typeof this.whereCondition["attr1"] !== "string")
+      return undefined;
+    return super.squash(ctx);
+  }
+
+  /**
+   * @description Runs a query
+   * @summary Condition queries are sent through the repository like prepared statements. Other
+   * queries are run as raw statements.
+   * @template V - The result type
+   * @param {HttpAdapterQuery<A>} rawInput - The query
+   * @param {...any[]} args - The contextual arguments
+   * @return {Promise<V>} The query results
+   */
+  override async raw<V>(
+    rawInput: HttpAdapterQuery<A>,
+    ...args: ContextualArgs<ContextOf<A>>
+  ): Promise<V> {
+    const query = rawInput as PreparedStatement<M>;
+    if (query?.method !== PersistenceKeys.QUERY)
+      return super.raw<V>(rawInput, ...args);
+    const repo = Repository.forModel(this.fromSelector, this.adapter.alias);
+    return repo.statement(query.method, query.params, ...args);
+  }
+
+  /**
+   * @description Builds the condition query
+   * @return {HttpAdapterQuery<A>} The condition query
+   * @throws {UnsupportedError} When the statement groups, counts or selects distinct, minimum or maximum values
+   */
   protected override build(): HttpAdapterQuery<A> {
-    throw new UnsupportedError(
-      `This method is only called is prepared statements are not used. If so, a dedicated implementation for the native queries used is required`
-    );
+    if (
+      this.groupBySelector ||
+      this.countSelector ||
+      this.distinctSelector ||
+      this.maxSelector ||
+      this.minSelector
+    )
+      throw new UnsupportedError(
+        `Grouping, counting, distinct and min/max selections are not supported by condition queries. Use a prepared statement instead`
+      );
+    const query = (
+      this.whereCondition
+        ? this.parseCondition(this.whereCondition)
+        : {
+            class: this.fromSelector,
+            method: PersistenceKeys.QUERY,
+            args: [],
+            params: {},
+          }
+    ) as PreparedStatement<M>;
+    const params = query.params as ConditionQueryParams;
+    if (this.selectSelector && this.selectSelector.length)
+      params.select = this.selectSelector.map((attr) => attr as string);
+    if (this.orderBySelector) {
+      const [attr, direction] = this.orderBySelector;
+      params.orderBy = attr as string;
+      params.direction = direction;
+    }
+    if (typeof this.limitSelector === "number")
+      params.limit = this.limitSelector;
+    if (typeof this.offsetSelector === "number")
+      params.offset = this.offsetSelector;
+    return query as unknown as HttpAdapterQuery<A>;
   }
 
+  /**
+   * @description Serializes a condition into a condition query
+   * @param {Condition<M>} condition - The condition
+   * @return {HttpAdapterQuery<A>} The condition query
+   * @throws {UnsupportedError} When the condition holds an unsupported operator or value
+   */
   protected override parseCondition(
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    condition: Condition<M>,
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    ...args: any[]
+    condition: Condition<M>
   ): HttpAdapterQuery<A> {
-    throw new UnsupportedError(
-      `This method is only called is prepared statements are not used. Is so, a dedicated implementation for the native queries used is required`
-    );
+    return Object.assign(this.adapter.parseCondition(condition), {
+      class: this.fromSelector,
+    }) as HttpAdapterQuery<A>;
   }
 }
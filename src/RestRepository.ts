@@ -17,7 +17,47 @@ import type {
 import { Model } from "@decaf-ts/decorator-validation";
 import { Constructor } from "@decaf-ts/decoration";
 import { HttpAdapter } from "./adapter";
-import { OperationKeys } from "@decaf-ts/db-decorators";
+import {
+  BulkCrudOperationKeys,
+  OperationKeys,
+  PrimaryKeyType,
+  ValidationError,
+} from "@decaf-ts/db-decorators";
+import {
+  DefaultPatchVersions,
+  FileMetadataPart,
+  FilesPath,
+  NdjsonContentType,
+  NdjsonErrorKey,
+  PatchContentType,
+} from "./constants";
+import { diffJsonPatch, diffMergePatch } from "./patch";
+import type { HttpPaginator } from "./HttpPaginator";
+import { readNdjson } from "./ndjson";
+import { isPartial, markPartial } from "./projection";
+import { hydrateRelations, parseIncludes } from "./relations";
+import { readText } from "./streams";
+import {
+  dispositionFilename,
+  parseContentRange,
+  readProgress,
+  toBlob,
+} from "./files";
+import { headerValue } from "./retry";
+import { httpStatusOf } from "./errors";
+import {
+  BulkResult,
+  FileMetadata,
+  HttpConfig,
+  HttpDownloadOptions,
+  HttpErrorBody,
+  HttpFileData,
+  HttpFileDownload,
+  HttpPaginationOptions,
+  HttpUploadOptions,
+  IncludeTree,
+  JsonPatchOperation,
+} from "./types";
 
 /**
  * @description Repository for REST API interactions
@@ -59,10 +99,386 @@ export class RestRepository<
     forcePrepareComplexQueries: true,
   });
 
+  private readonly versions = new Map<string, Record<string, any>>();
+
   constructor(adapter: A, clazz?: Constructor<M>) {
     super(adapter, clazz);
   }
 
+  override async create(
+    model: M,
+    ...args: MaybeContextualArg<ContextOf<A>>
+  ): Promise<M> {
+    return this.remember(await super.create(model, ...args));
+  }
+
+  override async createAll(
+    models: M[],
+    ...args: MaybeContextualArg<ContextOf<A>>
+  ): Promise<M[]> {
+    return (await super.createAll(models, ...args)).map((m) =>
+      this.remember(m)
+    );
+  }
+
+  override async read(
+    id: PrimaryKeyType,
+    ...args: MaybeContextualArg<ContextOf<A>>
+  ): Promise<M> {
+    const flags = this.readFlags(args[args.length - 1]);
+    return this.received(await super.read(id, ...args), flags);
+  }
+
+  override async readAll(
+    ids: PrimaryKeyType[],
+    ...args: MaybeContextualArg<ContextOf<A>>
+  ): Promise<M[]> {
+    const flags = this.readFlags(args[args.length - 1]);
+    return (await super.readAll(ids, ...args)).map((m) =>
+      this.received(m, flags)
+    );
+  }
+
+  override async update(
+    model: M,
+    ...args: MaybeContextualArg<ContextOf<A>>
+  ): Promise<M> {
+    this.assertComplete(model);
+    return this.remember(await super.update(model, ...args));
+  }
+
+  override async updateAll(
+    models: M[],
+    ...args: MaybeContextualArg<ContextOf<A>>
+  ): Promise<M[]> {
+    models.forEach((model) => this.assertComplete(model));
+    return (await super.updateAll(models, ...args)).map((m) =>
+      this.remember(m)
+    );
+  }
+
+  override async delete(
+    id: PrimaryKeyType,
+    ...args: MaybeContextualArg<ContextOf<A>>
+  ): Promise<M> {
+    const deleted = await super.delete(id, ...args);
+    this.versions.delete(String(id));
+    return deleted;
+  }
+
+  override async deleteAll(
+    ids: PrimaryKeyType[],
+    ...args: MaybeContextualArg<ContextOf<A>>
+  ): Promise<M[]> {
+    const deleted = await super.deleteAll(ids, ...args);
+    ids.forEach((id) => this.versions.delete(String(id)));
+    return deleted;
+  }
+
+  /**
+   * @description Creates records, reporting each one that failed instead of failing as a whole
+   * @summary The server processes every record on its own (see {@link HttpAdapter.bulkSettled}).
+   * Each record goes through the create handlers and validation first, as in
+   * {@link RestRepository.createAll}; records failing them are reported without being sent. Use
+   * {@link RestRepository.createAll} to store all records or none, as far as the server's
+   * persistence layer makes bulk writes atomic.
+   * @param {M[]} models - The records
+   * @param {...any[]} args - Optional context
+   * @return {Promise<BulkResult<M>>} The created and the failed records
+   */
+  async createAllSettled(
+    models: M[],
+    ...args: MaybeContextualArg<ContextOf<A>>
+  ): Promise<BulkResult<M>> {
+    return this.settled(BulkCrudOperationKeys.CREATE_ALL, models, ...args);
+  }
+
+  /**
+   * @description Reads records, reporting each one that could not be read
+   * @param {PrimaryKeyType[]} ids - The record ids
+   * @param {...any[]} args - Optional context
+   * @return {Promise<BulkResult<M>>} The records read and the failed ids
+   */
+  async readAllSettled(
+    ids: PrimaryKeyType[],
+    ...args: MaybeContextualArg<ContextOf<A>>
+  ): Promise<BulkResult<M>> {
+    return this.settled(BulkCrudOperationKeys.READ_ALL, ids, ...args);
+  }
+
+  /**
+   * @description Updates records, reporting each one that failed instead of failing as a whole
+   * @summary See {@link RestRepository.createAllSettled}. Use {@link RestRepository.updateAll} to
+   * update all records or none.
+   * @param {M[]} models - The records
+   * @param {...any[]} args - Optional context
+   * @return {Promise<BulkResult<M>>} The updated and the failed records
+   */
+  async updateAllSettled(
+    models: M[],
+    ...args: MaybeContextualArg<ContextOf<A>>
+  ): Promise<BulkResult<M>> {
+    return this.settled(BulkCrudOperationKeys.UPDATE_ALL, models, ...args);
+  }
+
+  /**
+   * @description Deletes records, reporting each one that failed instead of failing as a whole
+   * @param {PrimaryKeyType[]} ids - The record ids
+   * @param {...any[]} args - Optional context
+   * @return {Promise<BulkResult<M>>} The deleted records and the failed ids
+   */
+  async deleteAllSettled(
+    ids: PrimaryKeyType[],
+    ...args: MaybeContextualArg<ContextOf<A>>
+  ): Promise<BulkResult<M>> {
+    return this.settled(BulkCrudOperationKeys.DELETE_ALL, ids, ...args);
+  }
+
+  private async settled(
+    operation: BulkCrudOperationKeys,
+    items: M[] | PrimaryKeyType[],
+    ...args: MaybeContextualArg<ContextOf<A>>
+  ): Promise<BulkResult<M>> {
+    const { log, ctx } = (await this.logCtx(args, operation, true)).for(
+      this.settled
+    );
+    const flags = this.readFlags(ctx);
+    const pk = Model.pk(this.class) as string;
+    const writes =
+      operation === BulkCrudOperationKeys.CREATE_ALL ||
+      operation === BulkCrudOperationKeys.UPDATE_ALL;
+    const result: BulkResult<M> = { succeeded: [], failed: [] };
+    const positions: number[] = [];
+    const ids: PrimaryKeyType[] = [];
+    const records: Record<string, any>[] = [];
+    const prepared = await Promise.all(
+      items.map(async (item, index) => {
+        if (!writes) return { index, id: item as PrimaryKeyType };
+        const model = item as M;
+        try {
+          if (isPartial(model)) throw this.partialError();
+          const [processed] =
+            operation === BulkCrudOperationKeys.CREATE_ALL
+              ? await this.createPrefix(model, ctx)
+              : await this.updatePrefix(model, ctx);
+          return { index, ...this.adapter.prepare(processed as M, ctx) };
+        } catch (e: unknown) {
+          const error = e instanceof Error ? e : new Error(String(e));
+          result.failed.push({
+            index,
+            id: (model as any)?.[pk],
+            status:
+              error instanceof ValidationError ? 422 : httpStatusOf(error),
+            error,
+          });
+          return undefined;
+        }
+      })
+    );
+    prepared.forEach((item) => {
+      if (!item) return;
+      positions.push(item.index);
+      ids.push(item.id);
+      if ("record" in item) records.push(item.record);
+    });
+
+    log.verbose(
+      `${operation} of ${ids.length} ${Model.tableName(this.class)} records, item by item`
+    );
+    const settled = ids.length
+      ? await this.adapter.bulkSettled(
+          operation,
+          this.class,
+          ids,
+          writes ? records : undefined,
+          ctx
+        )
+      : { succeeded: [], failed: [] };
+    settled.failed.forEach((failure) =>
+      result.failed.push(
+        Object.assign(failure, { index: positions[failure.index] })
+      )
+    );
+    settled.succeeded.forEach(({ index, id, status, result: record }) => {
+      const key = record?.[pk] ?? id;
+      const model = this.adapter.revert(
+        record,
+        this.class,
+        key,
+        undefined,
+        ctx
+      ) as M;
+      if (operation === BulkCrudOperationKeys.DELETE_ALL)
+        this.versions.delete(String(key));
+      else if (operation === BulkCrudOperationKeys.READ_ALL)
+        this.received(model, flags);
+      else this.remember(model);
+      result.succeeded.push({
+        index: positions[index],
+        id: key,
+        status,
+        result: model,
+      });
+    });
+    result.failed.sort((a, b) => a.index - b.index);
+    return result;
+  }
+
+  /**
+   * @description Partially updates a record
+   * @summary Sends only the changed fields with a PATCH request. The new values are diffed
+   * against the last version of the record read (or written) through this repository;
+   * without a known version the partial is sent as-is. Fields set to `undefined` or `null`
+   * are removed. The format follows `HttpConfig.patchFormat` (JSON Merge Patch by default).
+   * No request is sent when nothing changed.
+   * @param {PrimaryKeyType} id - The record id
+   * @param {Partial<M>} partial - The fields to change
+   * @param {...any[]} args - Optional context
+   * @return {Promise<M>} The updated record
+   */
+  async patch(
+    id: PrimaryKeyType,
+    partial: Partial<M>,
+    ...args: MaybeContextualArg<ContextOf<A>>
+  ): Promise<M> {
+    const { log, ctx } = (
+      await this.logCtx(args, OperationKeys.UPDATE, true)
+    ).for(this.patch);
+    const format =
+      (this.adapter.config as HttpConfig).patchFormat ?? PatchContentType.MERGE;
+    const changes = Object.entries(partial || {}).reduce(
+      (acc, [key, value]) => {
+        acc[key] =
+          value === null || typeof value === "undefined"
+            ? undefined
+            : JSON.parse(JSON.stringify(value));
+        return acc;
+      },
+      {} as Record<string, any>
+    );
+    const previous = this.knownVersion(id);
+
+    let body: Record<string, any> | JsonPatchOperation[];
+    if (previous) {
+      const next = Object.assign({}, previous, changes);
+      body =
+        format === PatchContentType.JSON
+          ? diffJsonPatch(previous, next)
+          : diffMergePatch(previous, next);
+    } else {
+      body =
+        format === PatchContentType.JSON
+          ? Object.entries(changes).map(([key, value]): JsonPatchOperation =>
+              typeof value === "undefined"
+                ? { op: "remove", path: `/${key}` }
+                : { op: "add", path: `/${key}`, value }
+            )
+          : Object.fromEntries(
+              Object.entries(changes).map(([key, value]) => [
+                key,
+                typeof value === "undefined" ? null : value,
+              ])
+            );
+    }
+
+    if (previous && !Object.keys(body).length) {
+      log.verbose(
+        `no changes to patch in ${Model.tableName(this.class)} ${id}`
+      );
+      return new this.class(previous);
+    }
+
+    log.verbose(`patching ${Model.tableName(this.class)} ${id}`);
+    const url = this.adapter.url(
+      this.class,
+      this.adapter.extractIdArgs(this.class, id)
+    );
+    const res = await this.adapter.patch<Record<string, any>>(
+      url,
+      JSON.stringify(body),
+      {
+        headers: Object.assign(
+          { "Content-Type": format },
+          previous ? this.adapter.versionHeaders(previous) : {}
+        ),
+      },
+      ctx
+    );
+    return this.remember(
+      this.adapter.revert(
+        this.adapter.withVersion(res),
+        this.class,
+        id,
+        undefined,
+        ctx
+      )
+    );
+  }
+
+  private readFlags(ctx: unknown): {
+    fields?: string[];
+    include?: IncludeTree;
+  } {
+    if (!(ctx instanceof Context)) return {};
+    const fields = ctx.getOrUndefined("fields") as string[] | undefined;
+    return {
+      fields: fields && fields.length ? fields : undefined,
+      include: parseIncludes(ctx.getOrUndefined("include"), this.class),
+    };
+  }
+
+  private received(
+    model: M,
+    { fields, include }: { fields?: string[]; include?: IncludeTree }
+  ): M {
+    if (include) hydrateRelations(model, this.class, include);
+    return fields ? markPartial(model, fields) : this.remember(model);
+  }
+
+  private partialError(): ValidationError {
+    return new ValidationError(
+      `Partial ${Model.tableName(this.class)} records can not be updated. Read the whole record or use patch`
+    );
+  }
+
+  private assertComplete(model: M) {
+    if (isPartial(model)) throw this.partialError();
+  }
+
+  private remember(model: M): M {
+    if (!model) return model;
+    const id = (model as any)[Model.pk(this.class) as string];
+    if (typeof id === "undefined") return model;
+    const snapshot = JSON.parse(JSON.stringify(model));
+    const metadata = (model as any)[PersistenceKeys.METADATA];
+    if (metadata)
+      Object.defineProperty(snapshot, PersistenceKeys.METADATA, {
+        enumerable: false,
+        writable: false,
+        value: metadata,
+      });
+    const key = String(id);
+    this.versions.delete(key);
+    this.versions.set(key, snapshot);
+    const limit =
+      (this.adapter.config as HttpConfig).patchVersions ?? DefaultPatchVersions;
+    for (const oldest of this.versions.keys()) {
+      if (this.versions.size <= limit) break;
+      this.versions.delete(oldest);
+    }
+    return model;
+  }
+
+  private knownVersion(id: PrimaryKeyType): Record<string, any> | undefined {
+    const key = String(id);
+    const version = this.versions.get(key);
+    if (version) {
+      this.versions.delete(key);
+      this.versions.set(key, version);
+    }
+    return version;
+  }
+
   url<M extends Model>(tableName: string | Constructor<M>): string;
   url<M extends Model>(
     tableName: string | Constructor<M>,
@@ -217,6 +633,239 @@ export class RestRepository<
     )) as any;
   }
 
+  /**
+   * @description Iterates every record returned by a statement, page by page
+   * @summary Pages the statement through an {@link HttpPaginator}: `findBy`/`listBy` statements
+   * are requested as `pageBy`, `find` as `page`, and custom `@query` methods with the `limit`,
+   * `offset` and `bookmark` params.
+   * @param {string} method - The statement name, e.g. `listBy`, `find` or a `@query` method
+   * @param {any[]} [args] - The statement arguments
+   * @param {Object} [options] - The page size (10 by default), the `direction` of `listBy`
+   * statements and the {@link HttpPaginationOptions}
+   * @param {...any[]} ctxArgs - Optional context
+   * @return {AsyncGenerator<M>} The records
+   * @example
+   * ```typescript
+   * for await (const user of repo.iterate("listBy", ["name"], { size: 50, window: 2 }))
+   *   console.log(user.name);
+   * ```
+   */
+  async *iterate(
+    method: string,
+    args: any[] = [],
+    options: Partial<HttpPaginationOptions> & {
+      size?: number;
+      direction?: OrderDirection;
+    } = {},
+    ...ctxArgs: MaybeContextualArg<ContextOf<A>>
+  ): AsyncGenerator<M> {
+    const { size = 10, direction, ...pagination } = options;
+    const paginator = this.adapter.Paginator(
+      {
+        class: this.class,
+        method,
+        args,
+        params: direction ? { direction } : {},
+      } as PreparedStatement<M>,
+      size,
+      this.class
+    ) as unknown as HttpPaginator<M, PreparedStatement<M>, A>;
+    yield* paginator.records(pagination, ...ctxArgs);
+  }
+
+  /**
+   * @description Streams the records returned by a statement as they arrive
+   * @summary Asks for an NDJSON response (`Accept: application/x-ndjson`) and reverts each line to a
+   * model while the body is still being received, so large results are never held in memory.
+   * Records are read from the connection only as fast as they are consumed. Aborting `signal`
+   * cancels the request or closes the connection. Servers that do not stream answer with a plain
+   * JSON list, which is read whole and yielded record by record.
+   * @param {string} method - The statement name, e.g. `listBy` or `find`
+   * @param {any[]} [args] - The statement arguments
+   * @param {Object} [options] - The `direction` of `listBy` statements and a cancellation `signal`
+   * @param {...any[]} ctxArgs - Optional context
+   * @return {AsyncGenerator<M>} The records
+   * @throws {BaseError} The server error, when the response fails before or while streaming
+   */
+  async *stream(
+    method: string,
+    args: any[] = [],
+    options: { direction?: OrderDirection; signal?: AbortSignal } = {},
+    ...ctxArgs: MaybeContextualArg<ContextOf<A>>
+  ): AsyncGenerator<M> {
+    const { direction, signal } = options;
+    const contextual = (
+      await this.logCtx(ctxArgs, PersistenceKeys.STATEMENT, true)
+    ).for(this.stream);
+    const { log, ctx } = contextual;
+    const readParams = this.adapter.toReadParams(ctx);
+    const query: PreparedStatement<any> = {
+      class: this.class,
+      args,
+      method,
+      params:
+        direction || Object.keys(readParams).length
+          ? Object.assign(direction ? { direction } : {}, readParams)
+          : undefined,
+    } as PreparedStatement<any>;
+    const req = Object.assign(
+      this.adapter.withRequestHeaders(this.adapter.toRequest(query, ctx), {
+        Accept: NdjsonContentType,
+      }),
+      { responseType: "stream", signal }
+    );
+    log.verbose(`Streaming prepared statement ${method}`);
+    const response = await this.request<any>(req, ...ctxArgs);
+    const body = response?.data ?? response?.body;
+
+    const contentType = headerValue(response?.headers, "content-type");
+    if (response?.status >= 400 || !contentType?.includes(NdjsonContentType)) {
+      const parsed = this.adapter.parseResponse(this.class, method, {
+        status: response?.status,
+        headers: response?.headers,
+        data: await readText(body),
+      });
+      const result = this.convertStatementResult(method, parsed, ctx);
+      if (Array.isArray(result)) yield* result;
+      else if (result) yield result;
+      return;
+    }
+
+    for await (const line of readNdjson<any>(body, signal)) {
+      const failure = line?.[NdjsonErrorKey] as HttpErrorBody | undefined;
+      if (failure)
+        throw this.adapter.parseError(
+          Object.assign(new Error(failure.message), {
+            status: failure.status,
+            body: { error: failure },
+          })
+        );
+      yield this.revertRecord(line, ctx);
+    }
+  }
+
+  /**
+   * @description Uploads a file attached to a record
+   * @summary Sends the content as a `multipart/form-data` POST to `/<table>/<id>/files/<field>`,
+   * with the custom `metadata` as a JSON part. Streams are read whole before sending.
+   * `onProgress` follows the body as it is sent where the client reports it; the fetch flavour
+   * reports once, after the whole body was sent.
+   * @param {PrimaryKeyType} id - The record id
+   * @param {string} field - The model attribute the file belongs to
+   * @param {HttpFileData} data - The file content
+   * @param {HttpUploadOptions} [options] - The file name, type, metadata, progress callback and signal
+   * @param {...any[]} args - Optional context
+   * @return {Promise<FileMetadata>} The stored file
+   */
+  async upload(
+    id: PrimaryKeyType,
+    field: string,
+    data: HttpFileData,
+    options: HttpUploadOptions = {},
+    ...args: MaybeContextualArg<ContextOf<A>>
+  ): Promise<FileMetadata> {
+    const { log, ctx } = (
+      await this.logCtx(args, OperationKeys.UPDATE, true)
+    ).for(this.upload);
+    const { filename, contentType, metadata, onProgress, signal } = options;
+    const blob = await toBlob(data, contentType, signal);
+    const form = new FormData();
+    const name =
+      typeof File !== "undefined" && data instanceof File
+        ? data.name
+        : undefined;
+    form.append(field, blob, filename ?? name ?? field);
+    if (metadata) form.append(FileMetadataPart, JSON.stringify(metadata));
+
+    log.verbose(`uploading ${field} of ${Model.tableName(this.class)} ${id}`);
+    const res = await this.adapter.post<FileMetadata>(
+      this.fileUrl(id, field),
+      form,
+      {
+        signal,
+        onUploadProgress:
+          onProgress &&
+          (({ loaded, total }) =>
+            onProgress({
+              loaded,
+              total: total ?? blob.size,
+              progress: Math.min(loaded / (total || blob.size || 1), 1),
+            })),
+      },
+      ctx
+    );
+    return res.data as FileMetadata;
+  }
+
+  /**
+   * @description Downloads a file attached to a record
+   * @summary Streams `/<table>/<id>/files/<field>`: the returned body is read from the connection
+   * as it is consumed, calling `onProgress` after every chunk. A `range` asks for part of the file
+   * only (`Range: bytes=start-end`); servers answering with the whole file instead are detected by
+   * the missing `range` of the result.
+   * @param {PrimaryKeyType} id - The record id
+   * @param {string} field - The model attribute the file belongs to
+   * @param {HttpDownloadOptions} [options] - The byte range, progress callback and signal
+   * @param {...any[]} args - Optional context
+   * @return {Promise<HttpFileDownload>} The file
+   * @throws {BaseError} The server error, e.g. a {@link NotFoundError} for missing files
+   */
+  async download(
+    id: PrimaryKeyType,
+    field: string,
+    options: HttpDownloadOptions = {},
+    ...args: MaybeContextualArg<ContextOf<A>>
+  ): Promise<HttpFileDownload> {
+    const { range, onProgress, signal } = options;
+    const { log, ctxArgs } = (
+      await this.logCtx(args, OperationKeys.READ, true)
+    ).for(this.download);
+    const req = this.adapter.toRequest(
+      "GET",
+      this.fileUrl(id, field),
+      undefined,
+      {
+        headers: range
+          ? { Range: `bytes=${range.start}-${range.end ?? ""}` }
+          : undefined,
+        responseType: "stream",
+        signal,
+      }
+    );
+    log.verbose(`downloading ${field} of ${Model.tableName(this.class)} ${id}`);
+    const response = await this.request<any>(req, ...ctxArgs);
+    const body = response?.data ?? response?.body;
+    if (response?.status >= 400)
+      this.adapter.parseResponse(this.class, OperationKeys.READ, {
+        status: response.status,
+        headers: response.headers,
+        data: await readText(body),
+      });
+
+    const header = (name: string) => headerValue(response.headers, name);
+    const length = header("content-length");
+    const size = length ? Number(length) : undefined;
+    return {
+      contentType: header("content-type") ?? "application/octet-stream",
+      size,
+      filename: dispositionFilename(header("content-disposition")),
+      etag: header("etag"),
+      range:
+        response.status === 206
+          ? parseContentRange(header("content-range"))
+          : undefined,
+      body: readProgress(body, onProgress, size, signal),
+    };
+  }
+
+  private fileUrl(id: PrimaryKeyType, field: string): string {
+    return this.adapter.url(this.class, [
+      ...this.adapter.extractIdArgs(this.class, id),
+      FilesPath,
+      field,
+    ]);
+  }
+
   override async statement(
     name: string,
     ...args: MaybeContextualArg<ContextOf<A>>
@@ -230,9 +879,10 @@ export class RestRepository<
       typeof lastArg === "object" &&
       lastArg !== null &&
       !Array.isArray(lastArg);
-    const params = hasParams
-      ? (argList.pop() as Record<string, any>)
-      : undefined;
+    let params = hasParams ? (argList.pop() as Record<string, any>) : undefined;
+    const readParams = this.adapter.toReadParams(ctx);
+    if (Object.keys(readParams).length)
+      params = Object.assign({}, params, readParams);
     const query: PreparedStatement<any> = {
       class: this.class,
       args: argList,
@@ -260,7 +910,8 @@ export class RestRepository<
     if (
       name === PreparedStatementKeys.FIND ||
       name === PreparedStatementKeys.LIST_BY ||
-      name === PreparedStatementKeys.FIND_BY
+      name === PreparedStatementKeys.FIND_BY ||
+      name === PersistenceKeys.QUERY
     ) {
       return Array.isArray(result)
         ? result.map((record) => this.revertRecord(record, ctx))
@@ -308,7 +959,14 @@ export class RestRepository<
     return page;
   }
 
-  private revertRecord(record: any, ctx: ContextOf<A>): M {
+  protected revertRecord(record: any, ctx: ContextOf<A>): M {
+    const { fields, include } = this.readFlags(ctx);
+    const model = this.revertModel(record, ctx);
+    if (include) hydrateRelations(model, this.class, include);
+    return fields ? markPartial(model, fields) : model;
+  }
+
+  private revertModel(record: any, ctx: ContextOf<A>): M {
     if (!record) return record;
     if (record instanceof this.class) return record;
 
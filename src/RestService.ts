@@ -1,7 +1,13 @@
+import {
+  PersistenceKeys,
+  type ContextOf,
+  type MaybeContextualArg,
+} from "@decaf-ts/core";
 import { Model } from "@decaf-ts/decorator-validation";
 import { Constructor } from "@decaf-ts/decoration";
 import { HttpAdapter } from "./adapter";
 import { RestRepository } from "./RestRepository";
+import type { HttpMethod, HttpRouteCall } from "./types";
 
 /**
  * @description Service class for REST API operations
@@ -75,6 +81,65 @@ export class RestService<
     super(adapter, clazz);
   }
 
+  /**
+   * @description Calls a custom route of the model
+   * @summary Sends `method` to `/<table>/<...path>` with the given query parameters and body,
+   * returning the parsed response body as is. Backs the route methods of generated clients.
+   * @template R - The response type
+   * @param {HttpMethod} method - The HTTP method
+   * @param {Array<string|number>} path - The path segments after the table
+   * @param {HttpRouteCall} [call] - The query parameters and body
+   * @param {...any[]} args - Optional context
+   * @return {Promise<R>} The response body
+   */
+  protected async callRoute<R = any>(
+    method: HttpMethod,
+    path: Array<string | number>,
+    call: HttpRouteCall = {},
+    ...args: MaybeContextualArg<ContextOf<A>>
+  ): Promise<R> {
+    const { log, ctxArgs } = (
+      await this.logCtx(args, PersistenceKeys.STATEMENT, true)
+    ).for(this.callRoute);
+    const url = this.adapter.url(
+      this.class,
+      path.map((segment) => encodeURIComponent(String(segment))),
+      (call.query ?? {}) as Record<string, string | number>
+    );
+    log.verbose(`Calling ${method} ${url}`);
+    const response = await this.request<any>(
+      this.adapter.toRequest(method, url, call.body),
+      ...ctxArgs
+    );
+    return this.adapter.parseResponse(this.class, method, response) as R;
+  }
+
+  /**
+   * @description Executes a prepared statement of the model
+   * @summary Runs {@link RestRepository.statement} and rebuilds the returned records, alone or
+   * in a list, as models. Other results are returned as is. Backs the statement methods of
+   * generated clients.
+   * @template R - The result type
+   * @param {string} name - The statement name, e.g. a `@query` method
+   * @param {...any[]} args - The statement arguments, then an optional context
+   * @return {Promise<R>} The result
+   */
+  protected async callStatement<R = M[]>(
+    name: string,
+    ...args: MaybeContextualArg<ContextOf<A>>
+  ): Promise<R> {
+    const { ctx, ctxArgs } = (
+      await this.logCtx(args, PersistenceKeys.STATEMENT, true)
+    ).for(this.callStatement);
+    const result = await this.statement(name, ...ctxArgs);
+    const pk = Model.pk(this.class) as string;
+    const revert = (record: any) =>
+      record && typeof record === "object" && typeof record[pk] !== "undefined"
+        ? this.revertRecord(record, ctx)
+        : record;
+    return (Array.isArray(result) ? result.map(revert) : revert(result)) as R;
+  }
+
   override toString(): string {
     return `${Model.tableName(this.class)} REST service`;
   }
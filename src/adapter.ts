@@ -17,6 +17,7 @@ import {
   prepared,
   PreparedModel,
   PreparedStatement,
+  PreparedStatementKeys,
   QueryError,
   QueryOptions,
   Repository,
@@ -25,10 +26,12 @@ import {
   Statement,
   UnsupportedError,
   Observer,
+  UUID,
 } from "@decaf-ts/core";
 import {
   BadRequestError,
   BaseError,
+  BulkCrudOperationKeys,
   ConflictError,
   InternalError,
   NotFoundError,
@@ -39,11 +42,19 @@ import {
   wrapMethodWithContext,
 } from "@decaf-ts/db-decorators";
 import {
+  BulkResult,
   HttpConfig,
   HttpFlags,
+  HttpInterceptedRequest,
+  HttpInterceptedResponse,
+  HttpInterceptor,
   HttpMethod,
+  HttpPersistenceMetadata,
   HttpRequestOptions,
   HttpResponse,
+  OfflineConflictResolution,
+  OfflineMutation,
+  RetryPolicy,
 } from "./types";
 import { Model } from "@decaf-ts/decorator-validation";
 import {
@@ -58,8 +69,47 @@ import { toKebabCase } from "@decaf-ts/logging";
 import { HttpStatement } from "./HttpStatement";
 import { HttpPaginator } from "./HttpPaginator";
 import { HttpDispatcher } from "./HttpDispatcher";
-import { DecafHeaders } from "./constants";
+import {
+  DecafHeaders,
+  DefaultRetryPolicy,
+  FieldsParam,
+  IncludeParam,
+  LenientBulkPreference,
+  OfflineEvents,
+  UnsentRequestErrorCodes,
+} from "./constants";
+import { deserializeError, TooManyRequestsError } from "./errors";
+import { includeParam } from "./relations";
+import { HttpResponseCache, resolveCacheConfig, urlTarget } from "./cache";
+import { isInterceptedResponse, parserInterceptor } from "./interceptors";
+import { ReadBatcher, resolveBatchConfig } from "./batch";
+import { serializeCondition } from "./query";
+import {
+  OfflineQueue,
+  OfflineReplayOutcome,
+  resolveOfflineConfig,
+} from "./offline";
 import { ObserverFilter } from "@decaf-ts/core";
+import { bodyBytes, CodecRegistry, isBinaryBody } from "./codecs";
+import {
+  compressBody,
+  isBrowser,
+  resolveCompressionConfig,
+} from "./compression";
+import { failBulk, isBulkEnvelope, toBulkResult } from "./bulk";
+import {
+  BulkChunkError,
+  chunkRanges,
+  resolveChunkingConfig,
+  sendInChunks,
+} from "./chunking";
+import {
+  headerValue,
+  parseRetryAfter,
+  resolveRetryPolicy,
+  retryDelay,
+  waitFor,
+} from "./retry";
 
 export function suffixMethod(
   obj: any,
@@ -81,6 +131,10 @@ export function suffixMethod(
     },
   });
 }
+
+/** Native requests sent by the offline queue replay, which must not be queued again. */
+const replayedRequests = new WeakSet<object>();
+
 /**
  * @description Abstract HTTP adapter for REST API interactions
  * @summary Provides a base implementation for HTTP adapters with methods for CRUD operations,
@@ -120,6 +174,13 @@ export abstract class HttpAdapter<
   Q extends PreparedStatement<any> = PreparedStatement<any>,
   C extends Context<HttpFlags> = Context<HttpFlags>,
 > extends Adapter<CONF, CON, Q, C> {
+  private _responseCache?: HttpResponseCache | null;
+  private _readBatcher?: ReadBatcher | null;
+  private _offlineQueue?: OfflineQueue | null;
+  private _codecs?: CodecRegistry;
+  private readonly _interceptors: HttpInterceptor<C>[] = [];
+  private _rateLimitedUntil = 0;
+
   protected constructor(config: CONF, flavour: string, alias?: string) {
     super(
       Object.assign({}, config, {
@@ -150,16 +211,15 @@ export abstract class HttpAdapter<
         method.name
       );
     });
+    this.request = new Proxy(this.request, {
+      apply: (target, thisArg, argArray) =>
+        self.offlineRequest(target, thisArg, argArray),
+    });
     wrapMethodWithContext(
       this,
       (...args: any[]) => args,
       this.request,
-      (res: any, ctx: C) => {
-        const parsers = self.config.parsers;
-        if (!parsers) return res;
-        parsers.forEach((p) => p(res, ctx));
-        return res;
-      },
+      (res: any) => res,
       this.request.name
     );
   }
@@ -213,10 +273,10 @@ export abstract class HttpAdapter<
   }
 
   protected async getEventHeaders() {
-    if (!this.config.eventHeaderResolver) return {};
-
-    const headers = await Promise.resolve(this.config.eventHeaderResolver);
-    return headers || {};
+    const resolver = this.config.eventHeaderResolver;
+    const headers = resolver ? await Promise.resolve(resolver()) : {};
+    if (!this.config.credentials) return headers || {};
+    return Object.assign({}, headers, await this.config.credentials.headers());
   }
 
   /**
@@ -324,6 +384,23 @@ export abstract class HttpAdapter<
     return { ...fromCtx, ...(ctx.getOrUndefined("headers") || {}) };
   }
 
+  /**
+   * @description Builds the query parameters shaping the records of a read
+   * @summary The sparse fieldset (`fields` flag) and the relations to expand (`include` flag).
+   * @param {C} ctx - The context
+   * @return {Record<string, string>} The parameters, none for plain reads
+   */
+  toReadParams(ctx: C): Record<string, string> {
+    const params: Record<string, string> = {};
+    const fields = ctx.getOrUndefined("fields") as string[] | undefined;
+    if (fields && fields.length) params[FieldsParam] = fields.join(",");
+    const include = includeParam(
+      ctx.getOrUndefined("include") as string[] | undefined
+    );
+    if (include) params[IncludeParam] = include;
+    return params;
+  }
+
   /**
    * @description Constructs a URL for API requests
    * @summary Builds a complete URL for API requests using the configured protocol and host,
@@ -400,6 +477,23 @@ export abstract class HttpAdapter<
     return url.toString();
   }
 
+  /**
+   * @description Builds the URL of a prepared statement
+   * @summary Condition queries (method `query`, see {@link HttpStatement}) target the generic
+   * `/<table>/query` route; every other statement targets `/<table>/statement/<method>/<...args>`.
+   * @param {PreparedStatement} query - The prepared statement
+   * @return {string} The encoded URL string
+   */
+  protected statementUrl(query: PreparedStatement<any>): string {
+    if (query.method === PersistenceKeys.QUERY)
+      return this.url(query.class, [PersistenceKeys.QUERY], query.params as any);
+    return this.url(
+      query.class,
+      [PersistenceKeys.STATEMENT, query.method, ...(query.args || [])],
+      query.params as any
+    );
+  }
+
   abstract toRequest(query: Q): REQ;
   abstract toRequest(ctx: C): REQ;
   abstract toRequest(query: Q, ctx: C): REQ;
@@ -446,6 +540,10 @@ export abstract class HttpAdapter<
       code,
       data: parsed as V,
       error,
+      headers:
+        candidate && typeof candidate === "object"
+          ? candidate.headers
+          : undefined,
     };
   }
 
@@ -459,7 +557,7 @@ export abstract class HttpAdapter<
     );
     try {
       const res = await this.request<any>(
-        this.toRequest("GET", url, undefined, options),
+        this.toRequest("GET", url, undefined, this.withCodecs(options)),
         ctx
       );
       const parsed = this.parseResponse(undefined, "GET", res) as V;
@@ -480,7 +578,7 @@ export abstract class HttpAdapter<
     );
     try {
       const res = await this.request<any>(
-        this.toRequest("POST", url, data, options),
+        this.toRequest("POST", url, data, this.withCodecs(options)),
         ctx
       );
       const parsed = this.parseResponse(undefined, "POST", res) as V;
@@ -501,7 +599,7 @@ export abstract class HttpAdapter<
     );
     try {
       const res = await this.request<any>(
-        this.toRequest("PUT", url, data, options),
+        this.toRequest("PUT", url, data, this.withCodecs(options)),
         ctx
       );
       const parsed = this.parseResponse(undefined, "PUT", res) as V;
@@ -511,6 +609,39 @@ export abstract class HttpAdapter<
     }
   }
 
+  /**
+   * @description Sends a partial update
+   * @summary Sends a PATCH request. The body is sent as-is, set the `Content-Type` header
+   * to {@link PatchContentType.MERGE} or {@link PatchContentType.JSON} to select the patch format.
+   * @template V - The response value type
+   * @template E - The error type
+   * @param {string} url - The target URL
+   * @param {unknown} data - The merge patch or JSON patch operations
+   * @param {HttpRequestOptions} [options] - Request options
+   * @param {...any[]} args - Optional context
+   * @return {Promise<HttpResponse<V, E>>} The response envelope
+   */
+  async patch<V = any, E = unknown>(
+    url: string,
+    data: unknown,
+    options?: HttpRequestOptions,
+    ...args: MaybeContextualArg<C>
+  ): Promise<HttpResponse<V, E>> {
+    const { ctx } = (await this.logCtx(args, this.patch.name, true)).for(
+      this.patch
+    );
+    try {
+      const res = await this.request<any>(
+        this.toRequest("PATCH", url, data, this.withCodecs(options)),
+        ctx
+      );
+      const parsed = this.parseResponse(undefined, "PATCH", res) as V;
+      return this.toHttpResponse<V, E>(parsed, res);
+    } catch (e: any) {
+      throw this.parseError(e);
+    }
+  }
+
   /**
    * @description Sends an HTTP request
    * @summary Abstract method that must be implemented by subclasses to send HTTP requests
@@ -521,7 +652,993 @@ export abstract class HttpAdapter<
    */
   abstract request<V>(details: REQ, ...args: MaybeContextualArg<C>): Promise<V>;
 
-  protected extractIdArgs<M extends Model>(
+  /**
+   * @description The body codecs of `HttpConfig.codecs`
+   * @return {CodecRegistry} The codecs, plain JSON when none are configured
+   */
+  get codecs(): CodecRegistry {
+    if (!this._codecs) this._codecs = new CodecRegistry(this.config.codecs);
+    return this._codecs;
+  }
+
+  /**
+   * @description Adds the content negotiation of `HttpConfig.codecs` to request options
+   * @summary Sets `Accept` to the configured codecs and, when one of them is binary, reads the
+   * response as an `arraybuffer` so {@link HttpAdapter.normalizeResponseBody} can decode it. Headers
+   * and response types set by the caller win. Options are left untouched without codecs.
+   * @param {HttpRequestOptions} [options] - The request options
+   * @return {HttpRequestOptions|undefined} The negotiated options
+   */
+  protected withCodecs(
+    options?: HttpRequestOptions
+  ): HttpRequestOptions | undefined {
+    if (!this.config.codecs?.length) return options;
+    const codecs = this.codecs;
+    return Object.assign({}, options, {
+      headers: headerValue(options?.headers, "accept")
+        ? options?.headers
+        : Object.assign({ Accept: codecs.accept }, options?.headers),
+      responseType:
+        options?.responseType ?? (codecs.binary ? "arraybuffer" : undefined),
+    });
+  }
+
+  /**
+   * @description Encodes a request body with the preferred codec
+   * @summary Binary bodies are sent as an `ArrayBuffer`, which every flavour's client accepts.
+   * @param {unknown} value - The payload
+   * @return {{data: string|ArrayBuffer, contentType: string}} The body and its `Content-Type`
+   */
+  protected encodeBody(value: unknown): {
+    data: string | ArrayBuffer;
+    contentType: string;
+  } {
+    const codec = this.codecs.default;
+    const encoded = codec.encode(value);
+    return {
+      data:
+        typeof encoded === "string"
+          ? encoded
+          : (encoded.buffer.slice(
+              encoded.byteOffset,
+              encoded.byteOffset + encoded.byteLength
+            ) as ArrayBuffer),
+      contentType: codec.contentType,
+    };
+  }
+
+  /**
+   * @description The client-side response cache, when enabled by `HttpConfig.cache`
+   * @return {HttpResponseCache|undefined} The cache
+   */
+  get responseCache(): HttpResponseCache | undefined {
+    if (typeof this._responseCache === "undefined") {
+      const config = resolveCacheConfig(this.config);
+      this._responseCache = config
+        ? new HttpResponseCache(
+            config,
+            `${this.config.protocol}://${this.config.host}/`
+          )
+        : null;
+    }
+    return this._responseCache || undefined;
+  }
+
+  /**
+   * @description The coalescer of concurrent reads, when enabled by `HttpConfig.batch`
+   * @return {ReadBatcher|undefined} The batcher
+   */
+  protected get readBatcher(): ReadBatcher | undefined {
+    if (typeof this._readBatcher === "undefined") {
+      const config = resolveBatchConfig(this.config);
+      this._readBatcher = config ? new ReadBatcher(config) : null;
+    }
+    return this._readBatcher || undefined;
+  }
+
+  /**
+   * @description The queue of writes made while the server was unreachable, when enabled by
+   * `HttpConfig.offline`
+   * @return {OfflineQueue|undefined} The queue
+   */
+  get offlineQueue(): OfflineQueue | undefined {
+    if (typeof this._offlineQueue === "undefined") {
+      const config = resolveOfflineConfig(this.config);
+      this._offlineQueue = config
+        ? new OfflineQueue(config, (mutation) => this.replayMutation(mutation))
+        : null;
+    }
+    return this._offlineQueue || undefined;
+  }
+
+  /**
+   * @description Replays the queued offline writes now
+   * @summary Replays also run on their own, `retryInterval` after a write was queued or the server
+   * was still unreachable. Call this at startup to flush a queue persisted by a previous session.
+   * @return {Promise<void>} Resolves once the replay stopped
+   */
+  async replayOfflineQueue(): Promise<void> {
+    await this.offlineQueue?.replay();
+  }
+
+  /**
+   * @description Invalidates the cached responses of a table
+   * @summary Drops the cached responses for the given records along with every collection, bulk
+   * and statement response of the table. Without ids, every response of the table is dropped.
+   * Called for server events received by the {@link HttpDispatcher} and for local writes.
+   * @param {string|Constructor} table - The table name or model constructor
+   * @param {PrimaryKeyType|PrimaryKeyType[]} [ids] - The changed records
+   * @return {Promise<void>}
+   */
+  async invalidateCache<M extends Model>(
+    table: string | Constructor<M>,
+    ids?: PrimaryKeyType | PrimaryKeyType[]
+  ): Promise<void> {
+    const cache = this.responseCache;
+    if (!cache) return;
+    const records =
+      typeof ids === "undefined" || ids === null
+        ? undefined
+        : (Array.isArray(ids) ? ids : [ids]).map((id) =>
+            (typeof table === "string"
+              ? [id.toString()]
+              : this.extractIdArgs(table, id)
+            ).join("/")
+          );
+    await cache.invalidate(
+      typeof table === "string" ? toKebabCase(table) : this.toTableName(table),
+      records
+    );
+  }
+
+  /**
+   * @description Registers an interceptor
+   * @summary Interceptors registered here run after the ones in `HttpConfig.interceptors`, in
+   * registration order.
+   * @param {HttpInterceptor} interceptor - The interceptor to add
+   * @return {Function} A function removing the interceptor
+   */
+  intercept(interceptor: HttpInterceptor<C>): () => void {
+    this._interceptors.push(interceptor);
+    return () => {
+      const index = this._interceptors.indexOf(interceptor);
+      if (index !== -1) this._interceptors.splice(index, 1);
+    };
+  }
+
+  /**
+   * @description The interceptors applied to every request
+   * @summary `HttpConfig.interceptors`, then the ones registered with {@link HttpAdapter.intercept},
+   * then the `HttpConfig.parsers` as response interceptors.
+   * @return {HttpInterceptor[]} The interceptors, in order
+   */
+  protected get interceptors(): HttpInterceptor<C>[] {
+    return [
+      ...((this.config.interceptors ?? []) as HttpInterceptor<C>[]),
+      ...this._interceptors,
+      ...(this.config.parsers ?? []).map(
+        (parser) => parserInterceptor(parser) as HttpInterceptor<C>
+      ),
+    ];
+  }
+
+  /**
+   * @description Sends a write, queueing it while the server is unreachable
+   * @summary Outermost stage of every {@link HttpAdapter.request} call. Without `HttpConfig.offline`,
+   * reads, multipart uploads and requests outside the adapter's host go straight to {@link HttpAdapter.interceptedRequest}.
+   * Writes failing with a network error, and every write made while mutations are still queued (to
+   * keep their order), are added to the {@link OfflineQueue} and answered with an optimistic
+   * `202 Accepted` echoing the sent payload.
+   * @template V - The response value type
+   * @param {Function} request - The flavour's request implementation
+   * @param {any} thisArg - The adapter instance
+   * @param {any[]} argArray - The request arguments: the request details followed by the context
+   * @return {Promise<V>} The response, or the optimistic response of a queued write
+   */
+  protected async offlineRequest<V>(
+    request: (details: REQ, ...args: MaybeContextualArg<C>) => Promise<V>,
+    thisArg: any,
+    argArray: any[]
+  ): Promise<V> {
+    const queue = this.offlineQueue;
+    const [details, ...args] = argArray as [REQ, ...MaybeContextualArg<C>];
+    const method = this.requestMethod(details);
+    const url = this.requestUrl(details);
+    const { table, resource, record } = url
+      ? urlTarget(url, `${this.config.protocol}://${this.config.host}/`)
+      : { table: undefined, resource: [], record: false };
+    if (
+      !queue ||
+      !url ||
+      !table ||
+      method === "GET" ||
+      replayedRequests.has(details as object) ||
+      // binary uploads can not be stored in the queue
+      (typeof FormData !== "undefined" &&
+        (details as any)?.data instanceof FormData)
+    )
+      return this.interceptedRequest(request, thisArg, argArray);
+
+    if (!(await queue.size())) {
+      try {
+        return await this.interceptedRequest(request, thisArg, argArray);
+      } catch (e: unknown) {
+        if (!this.isUnreachable(e)) throw e;
+      }
+    }
+
+    const last = args[args.length - 1];
+    const ctx = (
+      last instanceof Context
+        ? last
+        : (await this.logCtx(args as any, this.request.name, true)).ctx
+    ) as C;
+    const headers: Record<string, string> = {};
+    Object.entries(
+      Object.assign(
+        {},
+        this.toInterceptedRequest(details).headers,
+        this.toHeaders(ctx)
+      )
+    ).forEach(([name, value]) => {
+      if (name.toLowerCase() === DecafHeaders.CORRELATION_ID) return;
+      if (typeof value !== "undefined" && value !== null)
+        headers[name] = String(value);
+    });
+    const mutation: OfflineMutation = {
+      id: String(await Promise.resolve(UUID.instance.generate())),
+      table,
+      record: record ? resource.join("/") : undefined,
+      method: method as HttpMethod,
+      url,
+      headers,
+      data: (details as any)?.data,
+      queuedAt: Date.now(),
+      attempts: 0,
+    };
+    await queue.enqueue(mutation);
+    this.logCtx(args as ContextualArgs<C>, this.request).log.warn(
+      `Server unreachable, queued ${method} ${url} for replay`
+    );
+    await this.notifyOffline(OfflineEvents.QUEUED, mutation, ctx);
+    const contentType = headerValue(headers, "content-type");
+    return {
+      status: 202,
+      statusText: "Accepted",
+      // lets the echoed payload be decoded by its codec
+      headers: contentType ? { "content-type": contentType } : {},
+      data: method === "DELETE" ? (record ? {} : []) : mutation.data,
+    } as V;
+  }
+
+  /**
+   * @description Replays a queued write
+   * @summary Sends the mutation through the whole request pipeline, so interceptors and credentials
+   * apply as for a new request. `409 Conflict` and `412 Precondition Failed` answers go to the
+   * configured `onConflict` handler; other failures discard the mutation.
+   * @param {OfflineMutation} mutation - The mutation
+   * @return {Promise<OfflineReplayOutcome>} The outcome
+   */
+  protected async replayMutation(
+    mutation: OfflineMutation
+  ): Promise<OfflineReplayOutcome> {
+    const { log, ctx } = (
+      await this.logCtx([], this.replayOfflineQueue.name, true)
+    ).for(this.replayMutation);
+    const details = this.toRequest(
+      mutation.method,
+      mutation.url,
+      mutation.data,
+      { headers: mutation.headers }
+    );
+    replayedRequests.add(details as object);
+    let error: any = undefined;
+    try {
+      const response = await this.request<any>(details, ctx);
+      const status = this.statusOf(response);
+      if (typeof status === "number" && status >= 400)
+        error = Object.assign(
+          new Error(`Request failed with status code ${status}`),
+          { status, response }
+        );
+    } catch (e: unknown) {
+      error = e;
+    }
+
+    if (!error) {
+      log.verbose(`Replayed ${mutation.method} ${mutation.url}`);
+      await this.notifyOffline(OfflineEvents.REPLAYED, mutation, ctx, true);
+      return "done";
+    }
+    if (this.isUnreachable(error)) {
+      log.verbose(`Server still unreachable, keeping ${mutation.url} queued`);
+      return "retry";
+    }
+    const status = this.statusOf(error?.response ?? error);
+    const parsed = this.parseError(error) as BaseError;
+    if (parsed instanceof ConflictError || status === 409 || status === 412)
+      return this.resolveConflict(mutation, parsed, ctx as C);
+    log.error(
+      `Discarding queued ${mutation.method} ${mutation.url}: ${parsed.message}`
+    );
+    await this.notifyOffline(OfflineEvents.FAILED, mutation, ctx, true, parsed);
+    return "done";
+  }
+
+  /**
+   * @description Applies the `onConflict` resolution of a rejected replay
+   * @param {OfflineMutation} mutation - The rejected mutation
+   * @param {Error} error - The conflict
+   * @param {C} ctx - The replay context
+   * @return {Promise<OfflineReplayOutcome>} The outcome
+   */
+  private async resolveConflict(
+    mutation: OfflineMutation,
+    error: Error,
+    ctx: C
+  ): Promise<OfflineReplayOutcome> {
+    const queue = this.offlineQueue as OfflineQueue;
+    let resolution: OfflineConflictResolution | void = "discard";
+    if (queue.config.onConflict) {
+      try {
+        resolution = await queue.config.onConflict(
+          Object.assign({}, mutation),
+          error
+        );
+      } catch (e: unknown) {
+        this.log
+          .for(this.resolveConflict)
+          .error(`Conflict handler failed for ${mutation.url}: ${e}`);
+        resolution = "halt";
+      }
+    }
+    const settled = !resolution || resolution === "discard";
+    await this.notifyOffline(
+      OfflineEvents.CONFLICT,
+      mutation,
+      ctx,
+      settled,
+      error
+    );
+    if (!resolution || resolution === "discard") return "done";
+    if (resolution === "halt") return "halt";
+    const next: OfflineMutation = Object.assign({}, mutation, {
+      data: "data" in resolution ? resolution.data : mutation.data,
+      headers: Object.assign({}, mutation.headers, resolution.headers),
+      attempts: mutation.attempts + 1,
+    });
+    await queue.update(next);
+    return this.replayMutation(next);
+  }
+
+  /**
+   * @description Notifies the observers of a change of the offline queue
+   * @param {OfflineEvents} event - The event
+   * @param {OfflineMutation} mutation - The mutation concerned
+   * @param {C} ctx - The context
+   * @param {boolean} [settled=false] - Whether the mutation is about to leave the queue
+   * @param {Error} [error] - The replay failure, if any
+   * @return {Promise<void>}
+   */
+  protected async notifyOffline(
+    event: OfflineEvents,
+    mutation: OfflineMutation,
+    ctx: C,
+    settled: boolean = false,
+    error?: Error
+  ): Promise<void> {
+    const size = (await this.offlineQueue?.size()) ?? 0;
+    const pending = settled ? Math.max(0, size - 1) : size;
+    try {
+      await this.updateObservers(
+        mutation.table,
+        event,
+        mutation.record as PrimaryKeyType,
+        { mutation: Object.assign({}, mutation), pending, error },
+        ctx
+      );
+    } catch (e: unknown) {
+      this.log
+        .for(this.notifyOffline)
+        .verbose(`Offline queue ${event} not observed: ${e}`);
+    }
+  }
+
+  /**
+   * @description Checks whether a failure means the server could not be reached
+   * @param {any} error - The failure
+   * @return {boolean} Whether the request never got an answer
+   */
+  private isUnreachable(error: any): boolean {
+    if (error instanceof ConnectionError) return true;
+    return (
+      typeof this.statusOf(error?.response ?? error) === "undefined" &&
+      this.isNetworkError(error)
+    );
+  }
+
+  /**
+   * @description Sends a request through the interceptor pipeline
+   * @summary Wraps every call to {@link HttpAdapter.request}, after the offline queue and before
+   * the credentials, the response cache and the retry policy, so each hook runs once per call. Request hooks may rewrite the request or answer
+   * it; error hooks see thrown errors and error statuses and may recover with a response; response
+   * hooks see every response, including recovered and short-circuited ones.
+   * @template V - The response value type
+   * @param {Function} request - The flavour's request implementation
+   * @param {any} thisArg - The adapter instance
+   * @param {any[]} argArray - The request arguments: the request details followed by the context
+   * @return {Promise<V>} The response
+   */
+  protected async interceptedRequest<V>(
+    request: (details: REQ, ...args: MaybeContextualArg<C>) => Promise<V>,
+    thisArg: any,
+    argArray: any[]
+  ): Promise<V> {
+    const interceptors = this.interceptors;
+    if (!interceptors.length)
+      return this.authorizedRequest(request, thisArg, argArray);
+
+    const [details, ...args] = argArray as [REQ, ...MaybeContextualArg<C>];
+    const last = args[args.length - 1];
+    const ctx = (
+      last instanceof Context
+        ? last
+        : (await this.logCtx(args as any, this.request.name, true)).ctx
+    ) as C;
+
+    let intercepted = this.toInterceptedRequest(details);
+    let response: HttpInterceptedResponse | undefined;
+    for (const interceptor of interceptors) {
+      if (!interceptor.request) continue;
+      const result = await interceptor.request(intercepted, ctx);
+      if (!result) continue;
+      if (isInterceptedResponse(result)) {
+        response = result;
+        break;
+      }
+      intercepted = result;
+    }
+
+    if (!response) {
+      try {
+        response = (await this.authorizedRequest(request, thisArg, [
+          this.fromInterceptedRequest(details, intercepted),
+          ...args,
+        ])) as HttpInterceptedResponse;
+      } catch (e: unknown) {
+        const recovered = await this.interceptError(
+          interceptors,
+          e,
+          intercepted,
+          ctx
+        );
+        if (!recovered) throw e;
+        response = recovered;
+      }
+      const status = this.statusOf(response);
+      if (typeof status === "number" && status >= 400)
+        response =
+          (await this.interceptError(
+            interceptors,
+            Object.assign(
+              new Error(`Request failed with status code ${status}`),
+              { status, response }
+            ),
+            intercepted,
+            ctx
+          )) ?? response;
+    }
+
+    for (const interceptor of interceptors) {
+      if (!interceptor.response) continue;
+      response =
+        (await interceptor.response(
+          response as HttpInterceptedResponse,
+          intercepted,
+          ctx
+        )) ?? response;
+    }
+    return response as V;
+  }
+
+  /**
+   * @description Runs the error hooks of the interceptors
+   * @param {HttpInterceptor[]} interceptors - The interceptors
+   * @param {any} error - The failure
+   * @param {HttpInterceptedRequest} request - The intercepted request
+   * @param {C} ctx - The request context
+   * @return {Promise<HttpInterceptedResponse|undefined>} The recovered response, if any
+   * @throws The error raised by the last hook that replaced it
+   */
+  private async interceptError(
+    interceptors: HttpInterceptor<C>[],
+    error: any,
+    request: HttpInterceptedRequest,
+    ctx: C
+  ): Promise<HttpInterceptedResponse | undefined> {
+    let current = error;
+    for (const interceptor of interceptors) {
+      if (!interceptor.error) continue;
+      try {
+        const recovered = await interceptor.error(current, request, ctx);
+        if (recovered) return recovered;
+      } catch (e: unknown) {
+        current = e;
+      }
+    }
+    if (current !== error) throw current;
+    return undefined;
+  }
+
+  /**
+   * @description Sends a request with the credentials of the configured provider
+   * @summary Without `HttpConfig.credentials`, or when the request already carries an
+   * `Authorization` header, the request goes straight to {@link HttpAdapter.cachedRequest}.
+   * Otherwise the provider's headers are added and, when the server answers `401`, the token is
+   * invalidated and the request replayed once with a fresh one.
+   * @template V - The response value type
+   * @param {Function} request - The flavour's request implementation
+   * @param {any} thisArg - The adapter instance
+   * @param {any[]} argArray - The request arguments: the request details followed by the context
+   * @return {Promise<V>} The response
+   */
+  protected async authorizedRequest<V>(
+    request: (details: REQ, ...args: MaybeContextualArg<C>) => Promise<V>,
+    thisArg: any,
+    argArray: any[]
+  ): Promise<V> {
+    const credentials = this.config.credentials;
+    const [details, ...args] = argArray as [REQ, ...MaybeContextualArg<C>];
+    if (
+      !credentials ||
+      headerValue(this.requestHeaders(details), DecafHeaders.AUTHORIZATION)
+    )
+      return this.cachedRequest(request, thisArg, argArray);
+
+    const send = async () => {
+      const headers = await credentials.headers();
+      const authorization = headerValue(headers, DecafHeaders.AUTHORIZATION);
+      try {
+        return {
+          authorization,
+          response: await this.cachedRequest(request, thisArg, [
+            this.withRequestHeaders(details, headers),
+            ...args,
+          ]),
+        };
+      } catch (e: any) {
+        if (this.statusOf(e?.response ?? e) !== 401) throw e;
+        return { authorization, error: e };
+      }
+    };
+
+    const first = await send();
+    if (!first.error && this.statusOf(first.response) !== 401)
+      return first.response as V;
+    await credentials.invalidate(first.authorization);
+    const replay = await send();
+    if (replay.error) throw replay.error;
+    return replay.response as V;
+  }
+
+  /**
+   * @description Sends a request through the response cache
+   * @summary Wraps every call to {@link HttpAdapter.request} before the compression and the retry
+   * policy. Without a configured cache, requests go straight to {@link HttpAdapter.compressedRequest}. GET requests are
+   * answered from fresh entries, revalidated with `If-None-Match`/`If-Modified-Since` once stale
+   * and stored when successful; with `HttpConfig.offline`, the last stored entry answers GET
+   * requests the server could not be reached for. Any other method invalidates the entries of the
+   * table it targets, unless it never reached the server. Streamed responses are never stored.
+   * @template V - The response value type
+   * @param {Function} request - The flavour's request implementation
+   * @param {any} thisArg - The adapter instance
+   * @param {any[]} argArray - The request arguments: the request details followed by the context
+   * @return {Promise<V>} The response
+   */
+  protected async cachedRequest<V>(
+    request: (details: REQ, ...args: MaybeContextualArg<C>) => Promise<V>,
+    thisArg: any,
+    argArray: any[]
+  ): Promise<V> {
+    const cache = this.responseCache;
+    if (!cache) return this.compressedRequest(request, thisArg, argArray);
+
+    const [details, ...args] = argArray as [REQ, ...MaybeContextualArg<C>];
+    const method = this.requestMethod(details);
+    const url = this.requestUrl(details);
+    if (!url || (details as HttpRequestOptions)?.responseType === "stream")
+      return this.compressedRequest(request, thisArg, argArray);
+    if (method !== "GET") {
+      let response: V;
+      try {
+        response = await this.compressedRequest(request, thisArg, argArray);
+      } catch (e: unknown) {
+        if (!this.isUnreachable(e)) await cache.invalidateUrl(url);
+        throw e;
+      }
+      await cache.invalidateUrl(url);
+      return response;
+    }
+
+    const ctx = args[args.length - 1];
+    const key = cache.key(
+      method,
+      url,
+      Object.assign(
+        {},
+        ctx instanceof Context ? this.toHeaders(ctx as C) : {},
+        this.requestHeaders(details)
+      )
+    );
+    const entry = await cache.get(key);
+    if (entry && cache.isFresh(entry)) return cache.toResponse(entry);
+
+    const conditional = entry
+      ? this.withRequestHeaders(details, cache.validators(entry))
+      : details;
+    let response: V;
+    try {
+      response = await this.compressedRequest(request, thisArg, [
+        conditional,
+        ...args,
+      ]);
+    } catch (e: any) {
+      if (entry && this.statusOf(e?.response ?? e) === 304)
+        return cache.revalidated(key, entry, e.response ?? e);
+      if (entry && this.offlineQueue && this.isUnreachable(e))
+        return cache.toResponse(entry);
+      throw e;
+    }
+    if (entry && this.statusOf(response) === 304)
+      return cache.revalidated(key, entry, response);
+    await cache.store(key, url, response);
+    return response;
+  }
+
+  /**
+   * @description Sends a request with a compressed body
+   * @summary Runs after the response cache and before the retry policy, so a body is compressed
+   * once for every attempt while interceptors and the offline queue see it uncompressed. Without
+   * `HttpConfig.compression`, requests go straight to {@link HttpAdapter.retryRequest}. Otherwise
+   * bodies of at least `threshold` bytes are compressed (see {@link compressBody}) and outside
+   * browsers `Accept-Encoding` is set; requests already setting these headers are left alone.
+   * @template V - The response value type
+   * @param {Function} request - The flavour's request implementation
+   * @param {any} thisArg - The adapter instance
+   * @param {any[]} argArray - The request arguments: the request details followed by the context
+   * @return {Promise<V>} The response
+   */
+  protected async compressedRequest<V>(
+    request: (details: REQ, ...args: MaybeContextualArg<C>) => Promise<V>,
+    thisArg: any,
+    argArray: any[]
+  ): Promise<V> {
+    const config = resolveCompressionConfig(this.config);
+    if (!config) return this.retryRequest(request, thisArg, argArray);
+
+    const [details, ...args] = argArray as [REQ, ...MaybeContextualArg<C>];
+    const requestHeaders = this.requestHeaders(details);
+    const headers: Record<string, string> = {};
+    if (
+      config.acceptEncoding.length &&
+      !isBrowser() &&
+      !headerValue(requestHeaders, DecafHeaders.ACCEPT_ENCODING)
+    )
+      headers["Accept-Encoding"] = config.acceptEncoding.join(", ");
+    let compressed: REQ = details;
+    if (!headerValue(requestHeaders, DecafHeaders.CONTENT_ENCODING)) {
+      const data = await compressBody(
+        (details as any)?.data,
+        config.encoding,
+        config.threshold
+      );
+      if (data) {
+        headers["Content-Encoding"] = config.encoding;
+        compressed = Object.assign({}, details, { data });
+      }
+    }
+    return this.retryRequest(request, thisArg, [
+      Object.keys(headers).length
+        ? this.withRequestHeaders(compressed, headers)
+        : compressed,
+      ...args,
+    ]);
+  }
+
+  /**
+   * @description Sends a request honoring the configured retry policy
+   * @summary Wraps every call to {@link HttpAdapter.request}, regardless of the flavour. Transient
+   * failures (network errors or a status listed in `retryOn`) are re-sent with exponential backoff
+   * and jitter, honoring `Retry-After`, until `maxAttempts` is reached. Methods outside the policy's
+   * idempotent `methods` are only retried when safe (see {@link RetryPolicy}). Waiting is aborted
+   * by the request's `signal`. After the last attempt the final response is returned, or the final
+   * error rethrown, untouched. A final 429 makes the next requests back off as the server asked
+   * (see {@link HttpAdapter.rateLimitBackoff}).
+   * @template V - The response value type
+   * @param {Function} request - The flavour's request implementation
+   * @param {any} thisArg - The adapter instance
+   * @param {any[]} argArray - The request arguments: the request details followed by the context
+   * @return {Promise<V>} The response of the last attempt
+   */
+  protected async retryRequest<V>(
+    request: (details: REQ, ...args: MaybeContextualArg<C>) => Promise<V>,
+    thisArg: any,
+    argArray: any[]
+  ): Promise<V> {
+    const policy = resolveRetryPolicy(this.config);
+    await this.rateLimitBackoff(argArray[0] as REQ, policy);
+    if (!policy || policy.maxAttempts <= 1) {
+      try {
+        const response = await request.apply(thisArg, argArray as any);
+        this.noteRateLimit(response);
+        return response;
+      } catch (e: any) {
+        this.noteRateLimit(e?.response ?? e);
+        throw e;
+      }
+    }
+
+    const [details, ...args] = argArray as [REQ, ...MaybeContextualArg<C>];
+    const method = this.requestMethod(details);
+    const signal = this.requestSignal(details);
+    let log;
+    try {
+      log = this.logCtx(args as ContextualArgs<C>, this.request).log;
+    } catch {
+      log = this.log.for(this.retryRequest);
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      let response: V | undefined = undefined;
+      let error: any = undefined;
+      try {
+        response = await request.call(thisArg, details, ...args);
+      } catch (e: unknown) {
+        error = e;
+      }
+
+      const status = error
+        ? this.statusOf(error?.response ?? error)
+        : this.statusOf(response);
+      const transient = error
+        ? typeof status === "number"
+          ? policy.retryOn.includes(status)
+          : this.isNetworkError(error)
+        : typeof status === "number" && policy.retryOn.includes(status);
+
+      const safe =
+        policy.methods.includes(method as HttpMethod) ||
+        !!headerValue(
+          this.requestHeaders(details),
+          DecafHeaders.IDEMPOTENCY_KEY
+        ) ||
+        status === 429 ||
+        status === 503 ||
+        (!!error &&
+          UnsentRequestErrorCodes.includes(error?.code ?? error?.cause?.code));
+
+      if (
+        !transient ||
+        !safe ||
+        attempt >= policy.maxAttempts ||
+        signal?.aborted
+      ) {
+        this.noteRateLimit(error ? (error?.response ?? error) : response);
+        if (error) throw error;
+        return response as V;
+      }
+
+      const retryAfter = parseRetryAfter(
+        headerValue(
+          (error?.response ?? (response as any))?.headers,
+          DecafHeaders.RETRY_AFTER
+        )
+      );
+      const delay = retryDelay(attempt, policy, retryAfter);
+      log.warn(
+        `${method} attempt ${attempt}/${policy.maxAttempts} failed (${typeof status === "number" ? `status ${status}` : error?.code || error?.message || error}). Retrying in ${delay}ms`
+      );
+      await waitFor(delay, signal);
+    }
+  }
+
+  /**
+   * @description Waits out the back-off requested by a previous 429
+   * @summary Requests sent while the server asked to back off wait for the remaining delay, or fail
+   * right away when it exceeds the retry policy's `maxDelay`.
+   * @param {REQ} details - The native request, whose signal aborts the wait
+   * @param {RetryPolicy} [policy] - The retry policy, {@link DefaultRetryPolicy} when disabled
+   * @return {Promise<void>} Resolves once the request may be sent
+   * @throws {TooManyRequestsError} When the remaining delay exceeds `maxDelay`
+   */
+  protected async rateLimitBackoff(
+    details: REQ,
+    policy?: RetryPolicy
+  ): Promise<void> {
+    const remaining = this._rateLimitedUntil - Date.now();
+    if (remaining <= 0) return;
+    if (remaining > (policy ?? DefaultRetryPolicy).maxDelay)
+      throw new TooManyRequestsError(
+        `Rate limited by the server for another ${Math.ceil(remaining / 1000)}s`
+      );
+    await waitFor(remaining, this.requestSignal(details));
+  }
+
+  /**
+   * @description Remembers the back-off requested by a 429 response
+   * @summary Reads `Retry-After`, falling back to `RateLimit-Reset`. A 429 carrying neither leaves
+   * the next requests untouched.
+   * @param {any} outcome - The final response, or the error raised for it
+   */
+  protected noteRateLimit(outcome: any): void {
+    if (this.statusOf(outcome) !== 429) return;
+    const delay =
+      parseRetryAfter(
+        headerValue(outcome?.headers, DecafHeaders.RETRY_AFTER)
+      ) ??
+      parseRetryAfter(
+        headerValue(outcome?.headers, DecafHeaders.RATE_LIMIT_RESET)
+      );
+    if (delay)
+      this._rateLimitedUntil = Math.max(
+        this._rateLimitedUntil,
+        Date.now() + delay
+      );
+  }
+
+  /**
+   * @description Resolves the HTTP method of a native request
+   * @summary Used by the retry policy to decide whether a request is idempotent. Flavours whose
+   * request objects don't expose a `method` property should override this.
+   * @param {REQ} details - The native request
+   * @return {string} The upper-cased HTTP method, defaulting to GET
+   */
+  protected requestMethod(details: REQ): string {
+    return String((details as any)?.method ?? "GET").toUpperCase();
+  }
+
+  /**
+   * @description Resolves the headers of a native request
+   * @param {REQ} details - The native request
+   * @return {any} The request headers, when available
+   */
+  protected requestHeaders(details: REQ): any {
+    return (details as any)?.headers;
+  }
+
+  /**
+   * @description Resolves the full URL of a native request, including its query parameters
+   * @summary Used by the response cache to key responses and to map writes to tables.
+   * @param {REQ} details - The native request
+   * @return {string|undefined} The URL, when available
+   */
+  protected requestUrl(details: REQ): string | undefined {
+    const url = (details as any)?.url;
+    if (typeof url !== "string") return undefined;
+    const params = (details as any)?.params;
+    if (!params || typeof params !== "object") return url;
+    const query = new URLSearchParams();
+    Object.keys(params)
+      .sort()
+      .forEach((name) =>
+        ([] as any[])
+          .concat(params[name])
+          .filter((v) => typeof v !== "undefined" && v !== null)
+          .forEach((v) => query.append(name, String(v)))
+      );
+    const serialized = query.toString();
+    if (!serialized) return url;
+    return `${url}${url.includes("?") ? "&" : "?"}${serialized}`;
+  }
+
+  /**
+   * @description Builds the client-independent view of a native request
+   * @summary Flavours whose request objects don't follow the `{ url, method, headers, params, data }`
+   * shape should override this and {@link HttpAdapter.fromInterceptedRequest}.
+   * @param {REQ} details - The native request
+   * @return {HttpInterceptedRequest} The request seen by the interceptors
+   */
+  protected toInterceptedRequest(details: REQ): HttpInterceptedRequest {
+    const native = details as any;
+    const headers = this.requestHeaders(details);
+    return {
+      method: this.requestMethod(details) as HttpMethod,
+      url: native?.url,
+      headers: Object.assign(
+        {},
+        typeof headers?.toJSON === "function" ? headers.toJSON() : headers
+      ),
+      params: native?.params,
+      data: native?.data,
+    };
+  }
+
+  /**
+   * @description Merges an intercepted request back into the native request
+   * @param {REQ} details - The original native request
+   * @param {HttpInterceptedRequest} request - The request returned by the interceptors
+   * @return {REQ} A copy of the native request carrying the changes
+   */
+  protected fromInterceptedRequest(
+    details: REQ,
+    request: HttpInterceptedRequest
+  ): REQ {
+    return Object.assign({}, details, {
+      method: request.method,
+      url: request.url,
+      headers: request.headers,
+      params: request.params,
+      data: request.data,
+    });
+  }
+
+  /**
+   * @description Adds headers to a native request
+   * @param {REQ} details - The native request
+   * @param {Record<string, string>} headers - The headers to add
+   * @return {REQ} A copy of the request carrying the headers
+   */
+  withRequestHeaders(details: REQ, headers: Record<string, string>): REQ {
+    return Object.assign({}, details, {
+      headers: Object.assign({}, (details as any)?.headers, headers),
+    });
+  }
+
+  /**
+   * @description Resolves the cancellation signal of a native request
+   * @param {REQ} details - The native request
+   * @return {AbortSignal|undefined} The request signal, when available
+   */
+  protected requestSignal(details: REQ): AbortSignal | undefined {
+    return (details as any)?.signal;
+  }
+
+  /**
+   * @description Resolves the HTTP status of a native response or error
+   * @param {any} res - The native response or error
+   * @return {number|undefined} The HTTP status code, when available
+   */
+  protected statusOf(res: any): number | undefined {
+    if (!res || typeof res !== "object") return undefined;
+    if (typeof res.status === "number") return res.status;
+    if (typeof res.code === "number") return res.code;
+    return undefined;
+  }
+
+  /**
+   * @description Checks whether an error is a transient network failure
+   * @summary Network failures carry a string error code (e.g. `ECONNRESET`) or, for the platform
+   * fetch, surface as a `TypeError`. Cancellations are never considered transient.
+   * @param {any} error - The error thrown by the native client
+   * @return {boolean} Whether the error is a network failure
+   */
+  protected isNetworkError(error: any): boolean {
+    const code = error?.code ?? error?.cause?.code;
+    if (code === "ERR_CANCELED" || error?.name === "AbortError") return false;
+    return typeof code === "string" || error?.name === "TypeError";
+  }
+
+  /**
+   * @description Builds the idempotency headers for a non-idempotent write
+   * @summary When the retry policy enables `idempotencyKey`, generates a unique key so the request
+   * becomes safely retryable.
+   * @return {Promise<Record<string, string>>} The idempotency headers, possibly empty
+   */
+  protected async idempotencyHeaders(): Promise<Record<string, string>> {
+    const policy = resolveRetryPolicy(this.config);
+    if (!policy?.idempotencyKey) return {};
+    const key = await Promise.resolve(UUID.instance.generate());
+    return { [DecafHeaders.IDEMPOTENCY_KEY]: String(key) };
+  }
+
+  /**
+   * @description Splits a record id into its url path segments
+   * @summary Composed primary keys are split on their separator, other ids are a single segment.
+   * @param {Constructor<M>|string} model - The model or table name
+   * @param {PrimaryKeyType} id - The record id
+   * @return {string[]} The path segments of the id
+   */
+  extractIdArgs<M extends Model>(
     model: Constructor<M> | string,
     id: PrimaryKeyType
   ): string[] {
@@ -532,6 +1649,69 @@ export abstract class HttpAdapter<
     return idStr.split(composed.separator);
   }
 
+  /**
+   * @description Stores the entity tag of a response in the record's persistence metadata
+   * @summary The metadata is passed along to the reverted model by {@link HttpAdapter.revert}
+   * and sent back as `If-Match` by {@link HttpAdapter.versionHeaders}.
+   * @param {HttpResponse<Record<string, any>>} response - The response envelope
+   * @return {Record<string, any>} The response record
+   */
+  withVersion(
+    response: HttpResponse<Record<string, any>>
+  ): Record<string, any> {
+    return this.tagged(
+      response.data as Record<string, any>,
+      headerValue(response.headers, DecafHeaders.ETAG)
+    );
+  }
+
+  /**
+   * @description Stores the entity tags of a bulk read in the persistence metadata of each record
+   * @summary The server lists them in the `x-entity-tags` header, in the order of the records.
+   * @param {HttpResponse<Record<string, any>[]>} response - The response envelope
+   * @return {Record<string, any>[]} The response records
+   */
+  withVersions(
+    response: HttpResponse<Record<string, any>[]>
+  ): Record<string, any>[] {
+    const records = response.data as Record<string, any>[];
+    const etags = headerValue(response.headers, DecafHeaders.ENTITY_TAGS)
+      ?.split(",")
+      .map((etag) => etag.trim());
+    if (!etags || !Array.isArray(records)) return records;
+    return records.map((record, i) => this.tagged(record, etags[i]));
+  }
+
+  private tagged(
+    record: Record<string, any>,
+    etag?: string
+  ): Record<string, any> {
+    if (!etag || !record || typeof record !== "object") return record;
+    Object.defineProperty(record, PersistenceKeys.METADATA, {
+      enumerable: false,
+      configurable: true,
+      writable: false,
+      value: Object.assign({}, record[PersistenceKeys.METADATA], {
+        etag,
+      } as HttpPersistenceMetadata),
+    });
+    return record;
+  }
+
+  /**
+   * @description Builds the precondition headers for a write
+   * @param {Record<string, any>} model - The model (or record) being written
+   * @return {Record<string, string>} The `If-Match` header when the model carries an entity tag
+   */
+  versionHeaders(model: Record<string, any>): Record<string, string> {
+    const metadata = model?.[PersistenceKeys.METADATA] as
+      | HttpPersistenceMetadata
+      | undefined;
+    return metadata && typeof metadata === "object" && metadata.etag
+      ? { [DecafHeaders.IF_MATCH]: metadata.etag }
+      : {};
+  }
+
   /**
    * @description Builds the URL for a single-resource write (create/update)
    * @summary Honors the `idInUrl` config option (default true). When enabled,
@@ -557,6 +1737,19 @@ export abstract class HttpAdapter<
     clazz: Constructor<M> | undefined,
     method: OperationKeys | string,
     res: any
+  ): any {
+    return this.parsePage(clazz, res);
+  }
+
+  /**
+   * @description Rebuilds the models of a serialized page
+   * @param {Constructor<M>} [clazz] - The model constructor
+   * @param {any} res - The parsed response body
+   * @return {any} The page with instantiated models, or the body untouched
+   */
+  protected parsePage<M extends Model>(
+    clazz: Constructor<M> | undefined,
+    res: any
   ): any {
     if (clazz && Paginator.isSerializedPage(res))
       return Object.assign({}, res, {
@@ -566,6 +1759,138 @@ export abstract class HttpAdapter<
     return res;
   }
 
+  /**
+   * @description Parses a native HTTP response according to the operation
+   * @summary Shared response handling for flavours whose client resolves with a `{ status, body | data }`
+   * response: raises for error statuses, normalizes the body and rebuilds models for prepared
+   * statements and grouped results.
+   * @template M - The model type
+   * @param {Constructor<M>} [clazz] - The model constructor
+   * @param {OperationKeys|string} method - The operation or HTTP method
+   * @param {any} res - The native response
+   * @return {any} The parsed response body
+   */
+  protected parseHttpResponse<M extends Model>(
+    clazz: Constructor<M> | undefined,
+    method: OperationKeys | string,
+    res: any
+  ): any {
+    if (!res?.status && method !== PersistenceKeys.STATEMENT) {
+      const passthroughMethods = new Set<string>([
+        OperationKeys.CREATE,
+        OperationKeys.READ,
+        OperationKeys.UPDATE,
+        OperationKeys.DELETE,
+        BulkCrudOperationKeys.CREATE_ALL,
+        BulkCrudOperationKeys.READ_ALL,
+        BulkCrudOperationKeys.UPDATE_ALL,
+        BulkCrudOperationKeys.DELETE_ALL,
+      ]);
+      if (passthroughMethods.has(String(method))) return res;
+      throw new InternalError("this should be impossible");
+    }
+    if (res.status >= 400)
+      throw this.parseError(
+        res.error instanceof Error
+          ? res.error
+          : Object.assign(
+              new Error(`Request failed with status code ${res.status}`),
+              {
+                status: res.status,
+                response: Object.assign({}, res, {
+                  data: this.normalizeResponseBody(res),
+                }),
+              }
+            )
+      );
+    const body = this.normalizeResponseBody(res);
+    switch (method) {
+      case BulkCrudOperationKeys.CREATE_ALL:
+      case BulkCrudOperationKeys.READ_ALL:
+      case BulkCrudOperationKeys.UPDATE_ALL:
+      case BulkCrudOperationKeys.DELETE_ALL:
+      case OperationKeys.CREATE:
+      case OperationKeys.READ:
+      case OperationKeys.UPDATE:
+      case OperationKeys.DELETE:
+        return body;
+      case PreparedStatementKeys.FIND:
+      case PreparedStatementKeys.PAGE:
+      case PreparedStatementKeys.FIND_BY:
+      case PreparedStatementKeys.LIST_BY:
+      case PreparedStatementKeys.PAGE_BY:
+      case PreparedStatementKeys.FIND_ONE_BY:
+      case PersistenceKeys.STATEMENT:
+        return this.parsePage(clazz, body);
+      case PreparedStatementKeys.COUNT_OF:
+      case PreparedStatementKeys.MAX_OF:
+      case PreparedStatementKeys.MIN_OF:
+      case PreparedStatementKeys.AVG_OF:
+      case PreparedStatementKeys.SUM_OF:
+        // These return primitive values, no need to parse as models
+        return body;
+      case PreparedStatementKeys.DISTINCT_OF:
+        // Returns an array of primitive values
+        return body;
+      case PreparedStatementKeys.GROUP_OF:
+        // Returns a Record<string, M[]>, need to parse each group's models
+        if (clazz && typeof body === "object" && body !== null) {
+          const result: Record<string, M[]> = {};
+          for (const [key, value] of Object.entries(body)) {
+            if (Array.isArray(value)) {
+              result[key] = value.map((d: any) => new clazz(d));
+            } else {
+              result[key] = value as M[];
+            }
+          }
+          return result;
+        }
+        return body;
+      default:
+        return body;
+    }
+  }
+
+  /**
+   * @description Extracts the payload of a native HTTP response
+   * @summary Reads `body`, falling back to `data` or the response itself. Strings, and binary bodies
+   * when `HttpConfig.codecs` is set, are decoded by the codec of the response `Content-Type`; other
+   * strings are parsed as JSON when possible.
+   * @param {any} res - The native response
+   * @return {any} The response payload
+   */
+  protected normalizeResponseBody(res: any) {
+    if (!res) return res;
+    const candidate =
+      typeof res.body !== "undefined"
+        ? res.body
+        : typeof res.data !== "undefined"
+          ? res.data
+          : res;
+    const codec =
+      typeof candidate === "string" ||
+      (isBinaryBody(candidate) && this.config.codecs?.length)
+        ? this.codecs.forContentType(headerValue(res.headers, "content-type"))
+        : undefined;
+    if (codec && isBinaryBody(candidate))
+      return codec.decode(bodyBytes(candidate));
+    if (codec) {
+      try {
+        return codec.decode(candidate);
+      } catch {
+        return candidate;
+      }
+    }
+    if (typeof candidate === "string") {
+      try {
+        return JSON.parse(candidate);
+      } catch {
+        return candidate;
+      }
+    }
+    return candidate;
+  }
+
   /**
    * @description Creates a new resource
    * @summary Abstract method that must be implemented by subclasses to create a new resource
@@ -583,13 +1908,19 @@ export abstract class HttpAdapter<
     ...args: ContextualArgs<C>
   ): Promise<Record<string, any>> {
     const url = this.writeUrl(tableName, id);
+    const body = this.encodeBody(model);
     const response = await this.post<Record<string, any>>(
       url,
-      JSON.stringify(model),
-      { headers: { "Content-Type": "application/json" } },
+      body.data,
+      {
+        headers: Object.assign(
+          { "Content-Type": body.contentType },
+          await this.idempotencyHeaders()
+        ),
+      },
       ...args
     );
-    return response.data as Record<string, any>;
+    return this.withVersion(response);
   }
 
   override async createAll<M extends Model>(
@@ -599,14 +1930,184 @@ export abstract class HttpAdapter<
     model: Record<string, any>[],
     ...args: ContextualArgs<C>
   ): Promise<Record<string, any>[]> {
-    const url = this.url(tableName, ["bulk"]);
-    const response = await this.post<Record<string, any>[]>(
-      url,
-      JSON.stringify(model),
-      { headers: { "Content-Type": "application/json" } },
-      ...args
+    return this.inChunks(ids, model, async (chunk, records) => {
+      const response = await this.sendBulk<M, Record<string, any>[]>(
+        BulkCrudOperationKeys.CREATE_ALL,
+        tableName,
+        chunk,
+        records,
+        {},
+        ...args
+      );
+      return response.data as Record<string, any>[];
+    });
+  }
+
+  /**
+   * @description Sends one request of a bulk operation
+   * @summary `createAll` and `updateAll` send the records encoded with the preferred codec to
+   * `/<table>/bulk`, `readAll` and `deleteAll` send the ids as `ids` query parameters.
+   * @template M - The model type
+   * @template V - The response value type
+   * @param {BulkCrudOperationKeys} operation - The bulk operation
+   * @param {Constructor<M>} tableName - The model constructor
+   * @param {PrimaryKeyType[]} ids - The ids of the request
+   * @param {Record<string, any>[]|undefined} records - The records sent by writes
+   * @param {Record<string, string>} headers - Additional request headers
+   * @param {...any[]} args - Additional arguments, including the context
+   * @return {Promise<HttpResponse<V>>} The response envelope
+   */
+  protected async sendBulk<M extends Model, V = any>(
+    operation: BulkCrudOperationKeys,
+    tableName: Constructor<M>,
+    ids: PrimaryKeyType[],
+    records: Record<string, any>[] | undefined,
+    headers: Record<string, string>,
+    ...args: ContextualArgs<C>
+  ): Promise<HttpResponse<V>> {
+    switch (operation) {
+      case BulkCrudOperationKeys.CREATE_ALL:
+      case BulkCrudOperationKeys.UPDATE_ALL: {
+        const url = this.url(tableName, ["bulk"]);
+        const body = this.encodeBody(records);
+        const options = {
+          headers: Object.assign(
+            { "Content-Type": body.contentType },
+            operation === BulkCrudOperationKeys.CREATE_ALL
+              ? await this.idempotencyHeaders()
+              : {},
+            headers
+          ),
+        };
+        return operation === BulkCrudOperationKeys.CREATE_ALL
+          ? this.post<V>(url, body.data, options, ...args)
+          : this.put<V>(url, body.data, options, ...args);
+      }
+      case BulkCrudOperationKeys.READ_ALL:
+      case BulkCrudOperationKeys.DELETE_ALL: {
+        const url = this.url(
+          tableName,
+          ["bulk"],
+          Object.assign(
+            { ids } as any,
+            operation === BulkCrudOperationKeys.READ_ALL
+              ? this.toReadParams(this.logCtx(args, this.sendBulk).ctx)
+              : {}
+          )
+        );
+        const options = Object.keys(headers).length ? { headers } : undefined;
+        return operation === BulkCrudOperationKeys.READ_ALL
+          ? this.get<V>(url, options, ...args)
+          : (this.delete<V>(url, options, ...args) as Promise<HttpResponse<V>>);
+      }
+      default:
+        throw new InternalError(`Unsupported bulk operation ${operation}`);
+    }
+  }
+
+  /**
+   * @description Splits a bulk operation in chunks, as set by `HttpConfig.chunking`
+   * @summary Records are measured encoded with the preferred codec. Without chunking the whole
+   * operation is a single chunk.
+   * @param {PrimaryKeyType[]} ids - The ids of the operation
+   * @param {Record<string, any>[]|undefined} records - The records sent by writes
+   * @return {Array<[number, number]>} The index range of each chunk
+   */
+  protected bulkRanges(
+    ids: PrimaryKeyType[],
+    records: Record<string, any>[] | undefined
+  ): [number, number][] {
+    const config = resolveChunkingConfig(this.config);
+    if (!config) return [[0, ids.length]];
+    const codec = this.codecs.default;
+    return chunkRanges(
+      ids.length,
+      config,
+      records
+        ? (i) => bodyBytes(codec.encode(records[i])).byteLength
+        : undefined
+    );
+  }
+
+  /**
+   * @description Sends a bulk operation in chunks, when enabled by `HttpConfig.chunking`
+   * @summary Without chunking, or when the operation fits in one chunk, `send` is called once with
+   * every id and record.
+   * @param {PrimaryKeyType[]} ids - The ids of the operation
+   * @param {Record<string, any>[]|undefined} records - The records sent by writes
+   * @param {Function} send - Sends the ids and records of a chunk
+   * @return {Promise<Record<string, any>[]>} The results of every chunk, in order
+   * @throws {BulkChunkError} When only some chunks succeeded
+   */
+  protected async inChunks(
+    ids: PrimaryKeyType[],
+    records: Record<string, any>[] | undefined,
+    send: (
+      ids: PrimaryKeyType[],
+      records?: Record<string, any>[]
+    ) => Promise<Record<string, any>[]>
+  ): Promise<Record<string, any>[]> {
+    return sendInChunks(ids, this.bulkRanges(ids, records), (start, end) =>
+      send(ids.slice(start, end), records?.slice(start, end))
     );
-    return response.data as Record<string, any>[];
+  }
+
+  /**
+   * @description Runs a bulk operation item by item, without failing as a whole
+   * @summary Sends the operation with `Prefer: handling=lenient` (see {@link LenientBulkPreference}),
+   * in chunks when `HttpConfig.chunking` is set. Servers honoring it report the outcome of each
+   * item; answers of servers ignoring it count every item as succeeded. Every item of a chunk
+   * whose request failed is reported with the error of the request.
+   * @template M - The model type
+   * @param {BulkCrudOperationKeys} operation - The bulk operation
+   * @param {Constructor<M>} tableName - The model constructor
+   * @param {PrimaryKeyType[]} ids - The ids of the operation
+   * @param {Record<string, any>[]|undefined} records - The records sent by `createAll` and `updateAll`
+   * @param {...any[]} args - Additional arguments, including the context
+   * @return {Promise<BulkResult<Record<string, any>>>} The successful and failed items
+   */
+  async bulkSettled<M extends Model>(
+    operation: BulkCrudOperationKeys,
+    tableName: Constructor<M>,
+    ids: PrimaryKeyType[],
+    records: Record<string, any>[] | undefined,
+    ...args: ContextualArgs<C>
+  ): Promise<BulkResult<Record<string, any>>> {
+    const result: BulkResult<Record<string, any>> = {
+      succeeded: [],
+      failed: [],
+    };
+    for (const [start, end] of this.bulkRanges(ids, records)) {
+      const chunk = ids.slice(start, end);
+      let response: HttpResponse<unknown>;
+      try {
+        response = await this.sendBulk(
+          operation,
+          tableName,
+          chunk,
+          records?.slice(start, end),
+          { Prefer: LenientBulkPreference },
+          ...args
+        );
+      } catch (e: unknown) {
+        failBulk(result, chunk, start, e);
+        continue;
+      }
+      const body = response.data;
+      toBulkResult(
+        isBulkEnvelope<Record<string, any>>(body)
+          ? body.items
+          : ((body as Record<string, any>[]) || []).map((item, index) => ({
+              index,
+              id: chunk[index],
+              status: response.code,
+              result: item,
+            })),
+        start,
+        result
+      );
+    }
+    return result;
   }
 
   /**
@@ -623,13 +2124,98 @@ export abstract class HttpAdapter<
     id: PrimaryKeyType,
     ...args: ContextualArgs<C>
   ): Promise<Record<string, any>> {
-    const url = this.url(tableName, this.extractIdArgs(tableName, id));
+    const batcher = this.readBatcher;
+    if (!batcher || Model.composed(tableName, Model.pk(tableName)))
+      return this.readOne(tableName, id, ...args);
+    const { ctx } = this.logCtx(args, this.read);
+    const headers = Object.entries(this.toHeaders(ctx))
+      .filter(([name]) => name.toLowerCase() !== DecafHeaders.CORRELATION_ID)
+      .map(([name, value]) => [name.toLowerCase(), value])
+      .sort(([a], [b]) => a.localeCompare(b));
+    return batcher.load(
+      `${this.toTableName(tableName)} ${JSON.stringify(headers)} ${JSON.stringify(this.toReadParams(ctx))}`,
+      id,
+      (ids) => this.readBatch(tableName, ids, ...args)
+    );
+  }
+
+  /**
+   * @description Reads a single resource with its own request
+   * @template M - The model type
+   * @param {Constructor<M>} tableName - The model constructor
+   * @param {PrimaryKeyType} id - The identifier of the resource
+   * @param {...any[]} args - Additional arguments, including the context
+   * @return {Promise<Record<string, any>>} The resource
+   */
+  protected async readOne<M extends Model>(
+    tableName: Constructor<M>,
+    id: PrimaryKeyType,
+    ...args: ContextualArgs<C>
+  ): Promise<Record<string, any>> {
+    const { ctx } = this.logCtx(args, this.readOne);
+    const url = this.url(
+      tableName,
+      this.extractIdArgs(tableName, id),
+      this.toReadParams(ctx)
+    );
     const response = await this.get<Record<string, any>>(
       url,
       undefined,
       ...args
     );
-    return response.data as Record<string, any>;
+    return this.withVersion(response);
+  }
+
+  /**
+   * @description Loads a batch of coalesced reads
+   * @summary A single id is read on its own. Otherwise the ids are read through the bulk route and
+   * matched back by primary key; when the server rejects the whole batch because some record is
+   * missing, every id is read on its own so each caller gets its record or its own
+   * {@link NotFoundError}.
+   * @template M - The model type
+   * @param {Constructor<M>} tableName - The model constructor
+   * @param {PrimaryKeyType[]} ids - The distinct ids of the batch
+   * @param {...any[]} args - The arguments of the read that started the batch
+   * @return {Promise<Map<string, Record<string, any>|Error>>} The record or error of each id
+   */
+  protected async readBatch<M extends Model>(
+    tableName: Constructor<M>,
+    ids: PrimaryKeyType[],
+    ...args: ContextualArgs<C>
+  ): Promise<Map<string, Record<string, any> | Error>> {
+    const results = new Map<string, Record<string, any> | Error>();
+    const readEach = async () => {
+      await Promise.all(
+        ids.map(async (id) =>
+          results.set(
+            String(id),
+            await this.readOne(tableName, id, ...args).catch(
+              (e: unknown) => e as Error
+            )
+          )
+        )
+      );
+      return results;
+    };
+    if (ids.length === 1) return readEach();
+
+    let records: Record<string, any>[];
+    try {
+      records = await this.readAll(tableName, ids, ...args);
+    } catch (e: unknown) {
+      if (
+        e instanceof NotFoundError ||
+        (e instanceof BulkChunkError &&
+          e.failures.some(({ error }) => error instanceof NotFoundError))
+      )
+        return readEach();
+      throw e;
+    }
+    const pk = Model.pk(tableName) as string;
+    for (const record of records || [])
+      if (record && typeof record[pk] !== "undefined")
+        results.set(String(record[pk]), record);
+    return results;
   }
 
   override async readAll<M extends Model>(
@@ -637,13 +2223,17 @@ export abstract class HttpAdapter<
     ids: PrimaryKeyType[],
     ...args: ContextualArgs<C>
   ): Promise<Record<string, any>[]> {
-    const url = this.url(tableName, ["bulk"], { ids } as any);
-    const response = await this.get<Record<string, any>[]>(
-      url,
-      undefined,
-      ...args
-    );
-    return response.data as Record<string, any>[];
+    return this.inChunks(ids, undefined, async (chunk) => {
+      const response = await this.sendBulk<M, Record<string, any>[]>(
+        BulkCrudOperationKeys.READ_ALL,
+        tableName,
+        chunk,
+        undefined,
+        {},
+        ...args
+      );
+      return this.withVersions(response);
+    });
   }
 
   /**
@@ -663,13 +2253,19 @@ export abstract class HttpAdapter<
     ...args: ContextualArgs<C>
   ): Promise<Record<string, any>> {
     const url = this.writeUrl(tableName, id);
+    const body = this.encodeBody(model);
     const response = await this.put<Record<string, any>>(
       url,
-      JSON.stringify(model),
-      { headers: { "Content-Type": "application/json" } },
+      body.data,
+      {
+        headers: Object.assign(
+          { "Content-Type": body.contentType },
+          this.versionHeaders(model)
+        ),
+      },
       ...args
     );
-    return response.data as Record<string, any>;
+    return this.withVersion(response);
   }
 
   override async updateAll<M extends Model>(
@@ -679,14 +2275,17 @@ export abstract class HttpAdapter<
     model: Record<string, any>[],
     ...args: ContextualArgs<C>
   ): Promise<Record<string, any>[]> {
-    const url = this.url(tableName, ["bulk"]);
-    const response = await this.put<Record<string, any>[]>(
-      url,
-      JSON.stringify(model),
-      { headers: { "Content-Type": "application/json" } },
-      ...args
-    );
-    return response.data as Record<string, any>[];
+    return this.inChunks(ids, model, async (chunk, records) => {
+      const response = await this.sendBulk<M, Record<string, any>[]>(
+        BulkCrudOperationKeys.UPDATE_ALL,
+        tableName,
+        chunk,
+        records,
+        {},
+        ...args
+      );
+      return response.data as Record<string, any>[];
+    });
   }
 
   /**
@@ -760,13 +2359,17 @@ export abstract class HttpAdapter<
     ids: PrimaryKeyType[],
     ...args: ContextualArgs<C>
   ): Promise<Record<string, any>[]> {
-    const url = this.url(tableName, ["bulk"], { ids } as any);
-    const response = (await this.delete<Record<string, any>[]>(
-      url,
-      undefined,
-      ...args
-    )) as HttpResponse<Record<string, any>[]>;
-    return response.data as Record<string, any>[];
+    return this.inChunks(ids, undefined, async (chunk) => {
+      const response = await this.sendBulk<M, Record<string, any>[]>(
+        BulkCrudOperationKeys.DELETE_ALL,
+        tableName,
+        chunk,
+        undefined,
+        {},
+        ...args
+      );
+      return response.data as Record<string, any>[];
+    });
   }
 
   /**
@@ -836,38 +2439,68 @@ export abstract class HttpAdapter<
 
   /**
    * @description Parses a condition into a query
-   * @summary Method for parsing a condition object into a query format understood by the HTTP client.
-   * This method is not supported by default in HTTP adapters and throws an UnsupportedError.
-   * Subclasses can override this method to provide implementation.
+   * @summary Serializes the condition (see {@link serializeCondition}) into a condition query,
+   * sent to the generic `/<table>/query` route once its `class` is set.
    * @param {Condition<any>} condition - The condition to parse
-   * @return {Q} The parsed query
-   * @throws {UnsupportedError} Always throws as this method is not supported by default
+   * @return {Q} The condition query, without its `class`
+   * @throws {UnsupportedError} When the condition holds an unsupported operator or value
    */
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
   parseCondition(condition: Condition<any>): Q {
-    throw new UnsupportedError(
-      "Api is not natively available for HttpAdapters. If required, please extends this class"
-    );
+    return {
+      method: PersistenceKeys.QUERY,
+      args: [],
+      params: { where: serializeCondition(condition) },
+    } as unknown as Q;
   }
 
+  /**
+   * @description Converts a client failure into the matching decaf error
+   * @summary Errors that already are decaf errors are returned untouched. Failed responses are
+   * decoded from their HTTP status and the server's error payload (see {@link serializeError}),
+   * rebuilding the original error class with its message, `details` and `correlationId`. Network
+   * failures without a response (string error `code`) become a ConnectionError. Other failures are
+   * matched by the error class name found in their message, defaulting to InternalError.
+   * @template E - The error type
+   * @param {Error|string} err - The client error, failed response or message
+   * @return {E} The decaf error
+   */
   static parseError<E extends BaseError>(
     err: Error | string,
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
     ...args: any[]
   ): E {
+    if (err instanceof BaseError) return err as E;
+    if (typeof err === "number") return deserializeError<E>(err) as E;
+    if (err && typeof err === "object") {
+      const failure = err as any;
+      const response = failure.response;
+      const status = [failure.status, response?.status, response?.code].find(
+        (s) => typeof s === "number"
+      );
+      const body = response
+        ? typeof response.data !== "undefined"
+          ? response.data
+          : response.body
+        : typeof failure.body !== "undefined"
+          ? failure.body
+          : failure.data;
+      const decoded = deserializeError<E>(status, body);
+      if (decoded) return decoded;
+      const code = failure.code ?? failure.cause?.code;
+      if (
+        typeof status === "undefined" &&
+        typeof code === "string" &&
+        code !== "ERR_CANCELED"
+      )
+        return new ConnectionError(err) as E;
+    }
     const msg =
-      typeof err === "string"
-        ? err
-        : typeof err === "number"
-          ? String(err)
-          : err?.message || String(err ?? "");
-    if (msg.includes(NotFoundError.name) || msg.includes("404"))
-      return new NotFoundError(err) as E;
-    if (msg.includes(ConflictError.name) || msg.includes("409"))
-      return new ConflictError(err) as E;
-    if (msg.includes(BadRequestError.name) || msg.includes("400"))
+      typeof err === "string" ? err : err?.message || String(err ?? "");
+    if (msg.includes(NotFoundError.name)) return new NotFoundError(err) as E;
+    if (msg.includes(ConflictError.name)) return new ConflictError(err) as E;
+    if (msg.includes(BadRequestError.name))
       return new BadRequestError(err) as E;
-    if (msg.includes(ValidationError.name) || msg.includes("422"))
+    if (msg.includes(ValidationError.name))
       return new ValidationError(err) as E;
     if (msg.includes(QueryError.name)) return new QueryError(err) as E;
     if (msg.includes(PagingError.name)) return new PagingError(err) as E;
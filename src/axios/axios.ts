@@ -2,18 +2,11 @@ import { HttpAdapter } from "../adapter";
 import { Axios, AxiosRequestConfig } from "axios";
 import { HttpConfig, HttpMethod, HttpRequestOptions } from "../types";
 import { AxiosFlags } from "./types";
-import {
-  BaseError,
-  BulkCrudOperationKeys,
-  InternalError,
-  OperationKeys,
-} from "@decaf-ts/db-decorators";
+import { BaseError, OperationKeys } from "@decaf-ts/db-decorators";
 import {
   Context,
   MaybeContextualArg,
-  PersistenceKeys,
   PreparedStatement,
-  PreparedStatementKeys,
 } from "@decaf-ts/core";
 import { AxiosFlavour } from "./constants";
 import { Model } from "@decaf-ts/decorator-validation";
@@ -130,11 +123,7 @@ export class AxiosHttpAdapter extends HttpAdapter<
 
     if (query) {
       req.method = "GET";
-      req.url = this.url(
-        query.class,
-        [PersistenceKeys.STATEMENT, query.method, ...(query.args || [])],
-        query.params as any
-      );
+      req.url = this.statementUrl(query);
     }
     return req;
   }
@@ -191,86 +180,7 @@ export class AxiosHttpAdapter extends HttpAdapter<
     method: OperationKeys | string,
     res: any
   ): any {
-    if (!res?.status && method !== PersistenceKeys.STATEMENT) {
-      const passthroughMethods = new Set<string>([
-        OperationKeys.CREATE,
-        OperationKeys.READ,
-        OperationKeys.UPDATE,
-        OperationKeys.DELETE,
-        BulkCrudOperationKeys.CREATE_ALL,
-        BulkCrudOperationKeys.READ_ALL,
-        BulkCrudOperationKeys.UPDATE_ALL,
-        BulkCrudOperationKeys.DELETE_ALL,
-      ]);
-      if (passthroughMethods.has(String(method))) return res;
-      throw new InternalError("this should be impossible");
-    }
-    if (res.status >= 400)
-      throw this.parseError((res.error as Error) || (res.status as any));
-    const body = this.normalizeResponseBody(res);
-    switch (method) {
-      case BulkCrudOperationKeys.CREATE_ALL:
-      case BulkCrudOperationKeys.READ_ALL:
-      case BulkCrudOperationKeys.UPDATE_ALL:
-      case BulkCrudOperationKeys.DELETE_ALL:
-      case OperationKeys.CREATE:
-      case OperationKeys.READ:
-      case OperationKeys.UPDATE:
-      case OperationKeys.DELETE:
-        return body;
-      case PreparedStatementKeys.FIND:
-      case PreparedStatementKeys.PAGE:
-      case PreparedStatementKeys.FIND_BY:
-      case PreparedStatementKeys.LIST_BY:
-      case PreparedStatementKeys.PAGE_BY:
-      case PreparedStatementKeys.FIND_ONE_BY:
-      case PersistenceKeys.STATEMENT:
-        return super.parseResponse(clazz, method, body);
-      case PreparedStatementKeys.COUNT_OF:
-      case PreparedStatementKeys.MAX_OF:
-      case PreparedStatementKeys.MIN_OF:
-      case PreparedStatementKeys.AVG_OF:
-      case PreparedStatementKeys.SUM_OF:
-        // These return primitive values, no need to parse as models
-        return body;
-      case PreparedStatementKeys.DISTINCT_OF:
-        // Returns an array of primitive values
-        return body;
-      case PreparedStatementKeys.GROUP_OF:
-        // Returns a Record<string, M[]>, need to parse each group's models
-        if (clazz && typeof body === "object" && body !== null) {
-          const result: Record<string, M[]> = {};
-          for (const [key, value] of Object.entries(body)) {
-            if (Array.isArray(value)) {
-              result[key] = value.map((d: any) => new clazz(d));
-            } else {
-              result[key] = value as M[];
-            }
-          }
-          return result;
-        }
-        return body;
-      default:
-        return body;
-    }
-  }
-
-  private normalizeResponseBody(res: any) {
-    if (!res) return res;
-    const candidate =
-      typeof res.body !== "undefined"
-        ? res.body
-        : typeof res.data !== "undefined"
-          ? res.data
-          : res;
-    if (typeof candidate === "string") {
-      try {
-        return JSON.parse(candidate);
-      } catch {
-        return candidate;
-      }
-    }
-    return candidate;
+    return this.parseHttpResponse(clazz, method, res);
   }
 
   override parseError<E extends BaseError>(err: Error, ...args: any[]): E {
@@ -1,8 +1,3 @@
-import { ResponseParser } from "../types";
-import { AxiosFlags } from "./types";
-import { Context } from "@decaf-ts/core";
-import { DecafHeaders } from "../constants";
-
 /**
  * @description Axios adapter flavor identifier
  * @summary Constant string identifier used to identify the Axios implementation of the HTTP adapter
@@ -11,23 +6,5 @@ import { DecafHeaders } from "../constants";
  */
 export const AxiosFlavour = "axios";
 
-export const TaskResponseParser: ResponseParser = (
-  res: any,
-  ctx: Context<AxiosFlags>
-) => {
-  if (res.headers && res.headers[DecafHeaders.PENDING_TASK]) {
-    let pending: Record<string, string[]>;
-    try {
-      pending = JSON.parse(res.headers[DecafHeaders.PENDING_TASK]);
-      Object.entries(pending).forEach(([key, value]) => {
-        value.forEach((v) => ctx.pushPending(key, v));
-      });
-    } catch (e: unknown) {
-      ctx.logger
-        .for(TaskResponseParser)
-        .error(
-          `Failed to parse pending tasks header ${res.headers[DecafHeaders.PENDING_TASK]}: ${e}`
-        );
-    }
-  }
-};
+export { TaskResponseParser } from "../parsers";
+export { TaskInterceptor } from "../interceptors";
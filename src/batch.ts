@@ -0,0 +1,112 @@
+import { NotFoundError, PrimaryKeyType } from "@decaf-ts/db-decorators";
+import { DefaultBatchConfig } from "./constants";
+import { HttpBatchConfig, HttpConfig } from "./types";
+
+/**
+ * @description Loads the records of a batch
+ * @summary Resolves every requested id (as a string) to its record, or to the error raised for
+ * it. Ids left out are rejected with a {@link NotFoundError}.
+ * @typedef {Function} BatchLoader
+ * @memberOf module:for-http
+ */
+export type BatchLoader<T> = (
+  ids: PrimaryKeyType[]
+) => Promise<Map<string, T | Error>>;
+
+type BatchEntry<T> = {
+  id: PrimaryKeyType;
+  resolve: (value: T) => void;
+  reject: (reason: unknown) => void;
+};
+
+type Batch<T> = {
+  entries: BatchEntry<T>[];
+  load: BatchLoader<T>;
+  timer?: ReturnType<typeof setTimeout>;
+};
+
+/**
+ * @description Resolves the effective read batching configuration
+ * @param {HttpConfig} config - The adapter configuration
+ * @return {HttpBatchConfig|undefined} The merged configuration, or undefined when batching is disabled
+ * @function resolveBatchConfig
+ * @memberOf module:for-http
+ */
+export function resolveBatchConfig(
+  config: HttpConfig
+): HttpBatchConfig | undefined {
+  if (!config.batch) return undefined;
+  const overrides = typeof config.batch === "object" ? config.batch : {};
+  return Object.assign({}, DefaultBatchConfig, overrides);
+}
+
+/**
+ * @description DataLoader-style coalescer of single record reads
+ * @summary Reads enqueued under the same key within the configured window are loaded together
+ * by the loader of the first one. Duplicate ids are loaded once. A batch is sent as soon as it
+ * reaches `maxBatchSize` ids, later reads start a new one.
+ * @param {HttpBatchConfig} config - The batching configuration
+ * @class ReadBatcher
+ * @memberOf module:for-http
+ */
+export class ReadBatcher {
+  private readonly batches = new Map<string, Batch<any>>();
+
+  constructor(readonly config: HttpBatchConfig) {}
+
+  /**
+   * @description Enqueues the read of a record
+   * @template T - The record type
+   * @param {string} key - The batch key; only reads sharing it are merged
+   * @param {PrimaryKeyType} id - The record id
+   * @param {BatchLoader<T>} load - Loads the batch, when this read starts it
+   * @return {Promise<T>} The record
+   */
+  load<T>(key: string, id: PrimaryKeyType, load: BatchLoader<T>): Promise<T> {
+    const batch =
+      (this.batches.get(key) as Batch<T> | undefined) ?? this.open(key, load);
+    const result = new Promise<T>((resolve, reject) =>
+      batch.entries.push({ id, resolve, reject })
+    );
+    if (
+      new Set(batch.entries.map((e) => String(e.id))).size >=
+      this.config.maxBatchSize
+    )
+      void this.flush(key, batch);
+    return result;
+  }
+
+  private open<T>(key: string, load: BatchLoader<T>): Batch<T> {
+    const batch: Batch<T> = { entries: [], load };
+    batch.timer = setTimeout(
+      () => void this.flush(key, batch),
+      this.config.window
+    );
+    this.batches.set(key, batch);
+    return batch;
+  }
+
+  private async flush<T>(key: string, batch: Batch<T>): Promise<void> {
+    if (this.batches.get(key) === batch) this.batches.delete(key);
+    clearTimeout(batch.timer);
+    const ids = [
+      ...new Map(batch.entries.map((e) => [String(e.id), e.id])).values(),
+    ];
+    let results: Map<string, T | Error>;
+    try {
+      results = await batch.load(ids);
+    } catch (e: unknown) {
+      batch.entries.forEach((entry) => entry.reject(e));
+      return;
+    }
+    for (const entry of batch.entries) {
+      const result = results.get(String(entry.id));
+      if (result instanceof Error) entry.reject(result);
+      else if (typeof result === "undefined")
+        entry.reject(
+          new NotFoundError(`Record with id ${String(entry.id)} not found`)
+        );
+      else entry.resolve(result);
+    }
+  }
+}
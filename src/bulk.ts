@@ -0,0 +1,82 @@
+import { PrimaryKeyType } from "@decaf-ts/db-decorators";
+import { deserializeError, httpStatusOf } from "./errors";
+import type { BulkEnvelope, BulkItemOutcome, BulkResult } from "./types";
+
+/**
+ * @description Tells whether a response body is a {@link BulkEnvelope}
+ * @param {unknown} body - The response body
+ * @return {boolean} True for objects holding an `items` array
+ * @function isBulkEnvelope
+ * @memberOf module:for-http
+ */
+export function isBulkEnvelope<M>(body: unknown): body is BulkEnvelope<M> {
+  return (
+    !!body &&
+    typeof body === "object" &&
+    !Array.isArray(body) &&
+    Array.isArray((body as BulkEnvelope<M>).items)
+  );
+}
+
+/**
+ * @description Sorts the outcomes of a lenient bulk request into a {@link BulkResult}
+ * @summary Errors are rebuilt with {@link deserializeError}. Outcomes are shifted by `offset`, the
+ * position of their chunk in the whole operation.
+ * @template M - The record type
+ * @param {BulkItemOutcome[]} outcomes - The outcomes
+ * @param {number} [offset=0] - The index of the first item of the request
+ * @param {BulkResult} [into] - The result to add the outcomes to
+ * @return {BulkResult} The result
+ * @function toBulkResult
+ * @memberOf module:for-http
+ */
+export function toBulkResult<M>(
+  outcomes: BulkItemOutcome<M>[],
+  offset: number = 0,
+  into: BulkResult<M> = { succeeded: [], failed: [] }
+): BulkResult<M> {
+  for (const { index, id, status, result, error } of outcomes) {
+    if (error || status >= 400)
+      into.failed.push({
+        index: offset + index,
+        id,
+        status,
+        error:
+          deserializeError(status, { error }) ??
+          new Error(`Bulk item ${offset + index} failed with status ${status}`),
+      });
+    else
+      into.succeeded.push({
+        index: offset + index,
+        id,
+        status,
+        result: result as M,
+      });
+  }
+  return into;
+}
+
+/**
+ * @description Records every item of a failed bulk request as failed
+ * @param {BulkResult} into - The result to add the failures to
+ * @param {PrimaryKeyType[]} ids - The ids of the request
+ * @param {number} offset - The index of the first item of the request
+ * @param {unknown} error - The error of the request
+ * @return {BulkResult} The result
+ * @function failBulk
+ * @memberOf module:for-http
+ */
+export function failBulk<M>(
+  into: BulkResult<M>,
+  ids: PrimaryKeyType[],
+  offset: number,
+  error: unknown
+): BulkResult<M> {
+  const failure =
+    error instanceof Error ? error : new Error(String(error ?? "unknown"));
+  const status = httpStatusOf(failure);
+  ids.forEach((id, i) =>
+    into.failed.push({ index: offset + i, id, status, error: failure })
+  );
+  return into;
+}
@@ -0,0 +1,345 @@
+import { PersistenceKeys } from "@decaf-ts/core";
+import { DecafHeaders, DefaultCacheConfig } from "./constants";
+import { headerValue } from "./retry";
+import {
+  HttpCacheConfig,
+  HttpCacheEntry,
+  HttpCacheStorage,
+  HttpConfig,
+} from "./types";
+
+/**
+ * @description In-memory {@link HttpCacheStorage}
+ * @summary Default cache storage, scoped to a single adapter instance.
+ * @class MemoryCacheStorage
+ * @implements HttpCacheStorage
+ * @memberOf module:for-http
+ */
+export class MemoryCacheStorage implements HttpCacheStorage {
+  private readonly entries = new Map<string, HttpCacheEntry>();
+
+  get(key: string): HttpCacheEntry | undefined {
+    return this.entries.get(key);
+  }
+
+  set(key: string, entry: HttpCacheEntry): void {
+    this.entries.set(key, entry);
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  keys(): string[] {
+    return [...this.entries.keys()];
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * @description Resolves the effective cache configuration
+ * @summary Merges `HttpConfig.cache` over {@link DefaultCacheConfig}. Returns undefined when the
+ * cache is not enabled. When `HttpConfig.offline` is enabled and `cache` is left unset, responses
+ * are cached with a `0` ttl: always revalidated, but available as a fallback while offline.
+ * @param {HttpConfig} config - The adapter configuration
+ * @return {HttpCacheConfig|undefined} The merged configuration, or undefined when caching is disabled
+ * @function resolveCacheConfig
+ * @memberOf module:for-http
+ */
+export function resolveCacheConfig(
+  config: HttpConfig
+): HttpCacheConfig | undefined {
+  const cache =
+    typeof config.cache === "undefined" && config.offline
+      ? { ttl: 0 }
+      : config.cache;
+  if (!cache) return undefined;
+  const overrides = typeof cache === "object" ? cache : {};
+  return Object.assign(
+    { storage: new MemoryCacheStorage() },
+    DefaultCacheConfig,
+    overrides
+  ) as HttpCacheConfig;
+}
+
+/**
+ * @description Maps a URL to the table and record it addresses
+ * @summary URLs outside `baseUrl` (other than host-relative paths) target no table. A single record
+ * is addressed by a path below the table without a query, other than the bulk, statement and query
+ * routes.
+ * @param {string} url - The request URL
+ * @param {string} baseUrl - The adapter's base URL (`<protocol>://<host>/`)
+ * @return {{table?: string, resource: string[], record: boolean}} The table, the path segments after it and whether they address a single record
+ * @function urlTarget
+ * @memberOf module:for-http
+ */
+export function urlTarget(
+  url: string,
+  baseUrl: string
+): Pick<HttpCacheEntry, "table" | "resource" | "record"> {
+  const [path, query] = url.split("?");
+  let relative: string | undefined;
+  if (path.startsWith(baseUrl)) relative = path.slice(baseUrl.length);
+  else if (path.startsWith("/")) relative = path;
+  if (typeof relative === "undefined") return { resource: [], record: false };
+  const [table, ...resource] = relative
+    .split("/")
+    .filter(Boolean)
+    .map((segment) => {
+      try {
+        return decodeURIComponent(segment);
+      } catch {
+        return segment;
+      }
+    });
+  const record =
+    !query &&
+    resource.length > 0 &&
+    !["bulk", PersistenceKeys.STATEMENT, PersistenceKeys.QUERY].includes(
+      resource[0]
+    );
+  return { table, resource, record };
+}
+
+function copyBody(body: any): any {
+  if (typeof body === "undefined") return body;
+  if (body instanceof ArrayBuffer) return body.slice(0);
+  if (ArrayBuffer.isView(body))
+    return body.buffer.slice(
+      body.byteOffset,
+      body.byteOffset + body.byteLength
+    );
+  return JSON.parse(JSON.stringify(body));
+}
+
+function plainHeaders(headers: any): Record<string, string> {
+  if (!headers) return {};
+  const result: Record<string, string> = {};
+  const source =
+    typeof headers.toJSON === "function" ? headers.toJSON() : headers;
+  const entries: [string, any][] =
+    typeof source.forEach === "function"
+      ? (() => {
+          const acc: [string, any][] = [];
+          source.forEach((v: any, k: string) => acc.push([k, v]));
+          return acc;
+        })()
+      : Object.entries(source);
+  for (const [key, value] of entries) {
+    if (typeof value === "undefined" || value === null) continue;
+    result[key.toLowerCase()] = Array.isArray(value)
+      ? value.join(", ")
+      : String(value);
+  }
+  return result;
+}
+
+/**
+ * @description Client-side cache of HTTP GET responses
+ * @summary Responses are keyed by URL and request headers. Fresh entries (younger than `ttl`) are
+ * served without a request; stale entries are revalidated with `If-None-Match`/`If-Modified-Since`
+ * and refreshed on `304 Not Modified`. The least recently used entries are evicted beyond
+ * `maxEntries`. Entries are invalidated per table and record: a change to a record drops that
+ * record and every collection, bulk and statement response of its table.
+ * @param {HttpCacheConfig} config - The cache configuration
+ * @param {string} baseUrl - The adapter's base URL (`<protocol>://<host>/`), used to map URLs to tables
+ * @class HttpResponseCache
+ * @memberOf module:for-http
+ */
+export class HttpResponseCache {
+  private lastAccess = 0;
+
+  constructor(
+    readonly config: HttpCacheConfig,
+    protected readonly baseUrl: string
+  ) {}
+
+  /**
+   * @description Builds the cache key of a request
+   * @param {string} method - The HTTP method
+   * @param {string} url - The full request URL, including its query
+   * @param {any} [headers] - The request headers
+   * @return {string} The cache key
+   */
+  key(method: string, url: string, headers?: any): string {
+    const ignored = this.config.ignoreHeaders.map((h) => h.toLowerCase());
+    const relevant = Object.entries(plainHeaders(headers))
+      .filter(([name]) => !ignored.includes(name))
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `${method.toUpperCase()} ${url} ${JSON.stringify(relevant)}`;
+  }
+
+  /**
+   * @description Maps a URL to the table and record it addresses
+   * @param {string} url - The request URL
+   * @return {{table?: string, resource: string[], record: boolean}} The table, the path segments after it and whether they address a single record
+   */
+  target(url: string): Pick<HttpCacheEntry, "table" | "resource" | "record"> {
+    return urlTarget(url, this.baseUrl);
+  }
+
+  /**
+   * @description Reads an entry, marking it as recently used
+   * @param {string} key - The cache key
+   * @return {Promise<HttpCacheEntry|undefined>} The entry, when cached
+   */
+  async get(key: string): Promise<HttpCacheEntry | undefined> {
+    const entry = await this.config.storage.get(key);
+    if (!entry) return undefined;
+    entry.accessedAt = this.tick();
+    await this.config.storage.set(key, entry);
+    return entry;
+  }
+
+  /**
+   * @description Checks whether an entry can be served without revalidation
+   * @param {HttpCacheEntry} entry - The cache entry
+   * @return {boolean} Whether the entry is younger than the ttl
+   */
+  isFresh(entry: HttpCacheEntry): boolean {
+    return Date.now() - entry.storedAt < this.config.ttl;
+  }
+
+  /**
+   * @description Builds the conditional request headers for a stale entry
+   * @param {HttpCacheEntry} entry - The cache entry
+   * @return {Record<string, string>} The `If-None-Match` and `If-Modified-Since` headers
+   */
+  validators(entry: HttpCacheEntry): Record<string, string> {
+    const headers: Record<string, string> = {};
+    if (entry.etag) headers[DecafHeaders.IF_NONE_MATCH] = entry.etag;
+    if (entry.lastModified)
+      headers[DecafHeaders.IF_MODIFIED_SINCE] = entry.lastModified;
+    return headers;
+  }
+
+  /**
+   * @description Stores a successful response
+   * @summary Only `200` responses without `Cache-Control: no-store` are cached. Binary bodies are
+   * copied byte for byte, other bodies as JSON.
+   * @param {string} key - The cache key
+   * @param {string} url - The request URL
+   * @param {any} res - The native response (`{ status, headers, data | body }`)
+   * @return {Promise<void>}
+   */
+  async store(key: string, url: string, res: any): Promise<void> {
+    if (res?.status !== 200) return;
+    const headers = plainHeaders(res.headers);
+    if (/no-store/i.test(headers[DecafHeaders.CACHE_CONTROL] || "")) return;
+    const body = typeof res.body !== "undefined" ? res.body : res.data;
+    const now = this.tick();
+    await this.config.storage.set(key, {
+      url,
+      ...this.target(url),
+      status: res.status,
+      headers,
+      data: copyBody(body),
+      etag: headerValue(headers, DecafHeaders.ETAG),
+      lastModified: headerValue(headers, DecafHeaders.LAST_MODIFIED),
+      storedAt: now,
+      accessedAt: now,
+    });
+    await this.evict();
+  }
+
+  /**
+   * @description Refreshes an entry confirmed by a `304 Not Modified` response
+   * @param {string} key - The cache key
+   * @param {HttpCacheEntry} entry - The revalidated entry
+   * @param {any} res - The native `304` response
+   * @return {Promise<any>} The cached response
+   */
+  async revalidated(
+    key: string,
+    entry: HttpCacheEntry,
+    res: any
+  ): Promise<any> {
+    const headers = Object.assign(
+      {},
+      entry.headers,
+      plainHeaders(res?.headers)
+    );
+    const refreshed: HttpCacheEntry = Object.assign({}, entry, {
+      headers,
+      etag: headerValue(headers, DecafHeaders.ETAG),
+      lastModified: headerValue(headers, DecafHeaders.LAST_MODIFIED),
+      storedAt: Date.now(),
+    });
+    await this.config.storage.set(key, refreshed);
+    return this.toResponse(refreshed);
+  }
+
+  /**
+   * @description Rebuilds a native-like response from an entry
+   * @param {HttpCacheEntry} entry - The cache entry
+   * @return {any} A `{ status, headers, data }` response holding a copy of the cached body
+   */
+  toResponse(entry: HttpCacheEntry): any {
+    return {
+      status: entry.status,
+      statusText: "OK",
+      headers: Object.assign({}, entry.headers),
+      data: copyBody(entry.data),
+    };
+  }
+
+  /**
+   * @description Invalidates the entries of a table
+   * @param {string} table - The table URL segment
+   * @param {string[]} [records] - The changed records, as their URL path after the table. When omitted every entry of the table is dropped
+   * @return {Promise<void>}
+   */
+  async invalidate(table: string, records?: string[]): Promise<void> {
+    const storage = this.config.storage;
+    for (const key of await storage.keys()) {
+      const entry = await storage.get(key);
+      if (!entry || entry.table !== table) continue;
+      if (
+        !records ||
+        !entry.record ||
+        records.includes(entry.resource.join("/"))
+      )
+        await storage.delete(key);
+    }
+  }
+
+  /**
+   * @description Invalidates the entries affected by a write to a URL
+   * @param {string} url - The URL of the write request
+   * @return {Promise<void>}
+   */
+  async invalidateUrl(url: string): Promise<void> {
+    const { table, resource, record } = this.target(url);
+    if (!table) return;
+    await this.invalidate(table, record ? [resource.join("/")] : undefined);
+  }
+
+  /**
+   * @description Drops every cached response
+   * @return {Promise<void>}
+   */
+  async clear(): Promise<void> {
+    await this.config.storage.clear();
+  }
+
+  private tick(): number {
+    this.lastAccess = Math.max(Date.now(), this.lastAccess + 1);
+    return this.lastAccess;
+  }
+
+  private async evict() {
+    const storage = this.config.storage;
+    const keys = await storage.keys();
+    if (keys.length <= this.config.maxEntries) return;
+    const entries = await Promise.all(
+      keys.map(async (key) => ({ key, entry: await storage.get(key) }))
+    );
+    const stale = entries
+      .sort((a, b) => (a.entry?.accessedAt ?? 0) - (b.entry?.accessedAt ?? 0))
+      .slice(0, keys.length - this.config.maxEntries);
+    for (const { key } of stale) await storage.delete(key);
+  }
+}
@@ -0,0 +1,366 @@
+import { SerializationError } from "@decaf-ts/db-decorators";
+
+const Tag = {
+  DATE_STRING: 0,
+  DATE_EPOCH: 1,
+  POSITIVE_BIGNUM: 2,
+  NEGATIVE_BIGNUM: 3,
+};
+
+class Writer {
+  private chunks: number[] = [];
+
+  head(major: number, value: number | bigint) {
+    const type = major << 5;
+    if (typeof value === "bigint" || value > 0xffffffff) {
+      this.chunks.push(type | 27);
+      const big = BigInt(value);
+      for (let shift = 56; shift >= 0; shift -= 8)
+        this.chunks.push(Number((big >> BigInt(shift)) & BigInt(0xff)));
+      return;
+    }
+    if (value < 24) return void this.chunks.push(type | value);
+    if (value < 0x100) return void this.chunks.push(type | 24, value);
+    if (value < 0x10000)
+      return void this.chunks.push(type | 25, value >> 8, value & 0xff);
+    this.chunks.push(
+      type | 26,
+      (value >>> 24) & 0xff,
+      (value >> 16) & 0xff,
+      (value >> 8) & 0xff,
+      value & 0xff
+    );
+  }
+
+  byte(value: number) {
+    this.chunks.push(value);
+  }
+
+  bytes(value: Uint8Array) {
+    for (let i = 0; i < value.length; i++) this.chunks.push(value[i]);
+  }
+
+  float(value: number) {
+    const view = new DataView(new ArrayBuffer(8));
+    view.setFloat64(0, value);
+    this.chunks.push(0xfb);
+    this.bytes(new Uint8Array(view.buffer));
+  }
+
+  result(): Uint8Array {
+    return Uint8Array.from(this.chunks);
+  }
+}
+
+function bigintBytes(value: bigint): Uint8Array {
+  const bytes: number[] = [];
+  while (value > BigInt(0)) {
+    bytes.unshift(Number(value & BigInt(0xff)));
+    value >>= BigInt(8);
+  }
+  return Uint8Array.from(bytes);
+}
+
+function writeValue(writer: Writer, value: unknown, depth: number) {
+  if (depth > 512)
+    throw new SerializationError(`Value is nested too deeply to encode`);
+  if (value === null) return writer.byte(0xf6);
+  if (typeof value === "undefined") return writer.byte(0xf7);
+  switch (typeof value) {
+    case "boolean":
+      return writer.byte(value ? 0xf5 : 0xf4);
+    case "number":
+      if (Number.isSafeInteger(value))
+        return value >= 0 ? writer.head(0, value) : writer.head(1, -1 - value);
+      return writer.float(value);
+    case "bigint": {
+      const negative = value < BigInt(0);
+      const magnitude = negative ? -BigInt(1) - value : value;
+      writer.head(6, negative ? Tag.NEGATIVE_BIGNUM : Tag.POSITIVE_BIGNUM);
+      const bytes = bigintBytes(magnitude);
+      writer.head(2, bytes.length);
+      return writer.bytes(bytes);
+    }
+    case "string": {
+      const bytes = new TextEncoder().encode(value);
+      writer.head(3, bytes.length);
+      return writer.bytes(bytes);
+    }
+    case "object":
+      break;
+    default:
+      throw new SerializationError(`Can not encode ${typeof value} values`);
+  }
+  if (value instanceof Date) {
+    writer.head(6, Tag.DATE_STRING);
+    return writeValue(writer, value.toISOString(), depth);
+  }
+  if (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) {
+    const bytes =
+      value instanceof ArrayBuffer
+        ? new Uint8Array(value)
+        : new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+    writer.head(2, bytes.length);
+    return writer.bytes(bytes);
+  }
+  if (Array.isArray(value)) {
+    writer.head(4, value.length);
+    return value.forEach((item) => writeValue(writer, item, depth + 1));
+  }
+  if (typeof (value as { toJSON?: unknown }).toJSON === "function")
+    return writeValue(writer, (value as { toJSON(): unknown }).toJSON(), depth);
+  const entries = Object.entries(value as object).filter(
+    ([, item]) => typeof item !== "undefined" && typeof item !== "function"
+  );
+  writer.head(5, entries.length);
+  entries.forEach(([key, item]) => {
+    writeValue(writer, key, depth + 1);
+    writeValue(writer, item, depth + 1);
+  });
+}
+
+/**
+ * @description Encodes a value as CBOR (RFC 8949)
+ * @summary Dates are tagged date/time strings, BigInts tagged bignums, typed arrays
+ * byte strings. Other objects are encoded like `JSON.stringify` would: through `toJSON` when
+ * defined, skipping undefined and function properties.
+ * @param {unknown} value - The value
+ * @return {Uint8Array} The encoded bytes
+ * @throws {SerializationError} For symbols and functions
+ * @function encodeCbor
+ * @memberOf module:for-http
+ */
+export function encodeCbor(value: unknown): Uint8Array {
+  const writer = new Writer();
+  writeValue(writer, value, 0);
+  return writer.result();
+}
+
+const Break = Symbol("break");
+
+class Reader {
+  private offset = 0;
+  private readonly view: DataView;
+
+  constructor(private readonly bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  get done(): boolean {
+    return this.offset >= this.bytes.length;
+  }
+
+  take(size: number): number {
+    if (this.offset + size > this.bytes.length)
+      throw new SerializationError(`Unexpected end of CBOR data`);
+    const at = this.offset;
+    this.offset += size;
+    return at;
+  }
+
+  byte(): number {
+    return this.view.getUint8(this.take(1));
+  }
+
+  argument(info: number): number | bigint {
+    if (info < 24) return info;
+    switch (info) {
+      case 24:
+        return this.view.getUint8(this.take(1));
+      case 25:
+        return this.view.getUint16(this.take(2));
+      case 26:
+        return this.view.getUint32(this.take(4));
+      case 27: {
+        const value = this.view.getBigUint64(this.take(8));
+        return value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value;
+      }
+      default:
+        throw new SerializationError(`Invalid CBOR argument ${info}`);
+    }
+  }
+
+  half(): number {
+    const value = this.view.getUint16(this.take(2));
+    const sign = value & 0x8000 ? -1 : 1;
+    const exponent = (value >> 10) & 0x1f;
+    const fraction = value & 0x3ff;
+    if (exponent === 0) return sign * 2 ** -14 * (fraction / 1024);
+    if (exponent === 0x1f) return fraction ? NaN : sign * Infinity;
+    return sign * 2 ** (exponent - 15) * (1 + fraction / 1024);
+  }
+
+  float(size: 4 | 8): number {
+    const at = this.take(size);
+    return size === 4 ? this.view.getFloat32(at) : this.view.getFloat64(at);
+  }
+
+  slice(size: number): Uint8Array {
+    const at = this.take(size);
+    return this.bytes.slice(at, at + size);
+  }
+}
+
+function lengthOf(value: number | bigint): number {
+  if (typeof value === "bigint")
+    throw new SerializationError(`CBOR item length is too large`);
+  return value;
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0));
+  let offset = 0;
+  chunks.forEach((chunk) => {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return result;
+}
+
+function readChunks(reader: Reader, major: number, depth: number) {
+  const chunks: Uint8Array[] = [];
+  for (;;) {
+    const chunk = readItem(reader, depth + 1);
+    if (chunk === Break) return chunks;
+    if (major === 2 && chunk instanceof Uint8Array) chunks.push(chunk);
+    else if (major === 3 && typeof chunk === "string")
+      chunks.push(new TextEncoder().encode(chunk));
+    else throw new SerializationError(`Invalid CBOR indefinite length chunk`);
+  }
+}
+
+function readTagged(tag: number | bigint, value: unknown): unknown {
+  switch (tag) {
+    case Tag.DATE_STRING:
+      if (typeof value !== "string") break;
+      return new Date(value);
+    case Tag.DATE_EPOCH:
+      if (typeof value !== "number" && typeof value !== "bigint") break;
+      return new Date(Number(value) * 1000);
+    case Tag.POSITIVE_BIGNUM:
+    case Tag.NEGATIVE_BIGNUM: {
+      if (!(value instanceof Uint8Array)) break;
+      const magnitude = value.reduce(
+        (n, byte) => (n << BigInt(8)) | BigInt(byte),
+        BigInt(0)
+      );
+      return tag === Tag.POSITIVE_BIGNUM ? magnitude : -BigInt(1) - magnitude;
+    }
+    default:
+      // unknown tags decode to their content
+      return value;
+  }
+  throw new SerializationError(`Invalid content for CBOR tag ${tag}`);
+}
+
+function readItem(reader: Reader, depth: number): unknown {
+  if (depth > 512)
+    throw new SerializationError(`CBOR data is nested too deeply`);
+  const initial = reader.byte();
+  const major = initial >> 5;
+  const info = initial & 0x1f;
+  if (info === 31) {
+    switch (major) {
+      case 2:
+        return concat(readChunks(reader, major, depth));
+      case 3:
+        return new TextDecoder().decode(
+          concat(readChunks(reader, major, depth))
+        );
+      case 4: {
+        const items: unknown[] = [];
+        for (;;) {
+          const item = readItem(reader, depth + 1);
+          if (item === Break) return items;
+          items.push(item);
+        }
+      }
+      case 5: {
+        const map: Record<string, unknown> = {};
+        for (;;) {
+          const key = readItem(reader, depth + 1);
+          if (key === Break) return map;
+          const value = readItem(reader, depth + 1);
+          if (key !== "__proto__") map[String(key)] = value;
+        }
+      }
+      case 7:
+        return Break;
+      default:
+        throw new SerializationError(`Invalid CBOR indefinite length item`);
+    }
+  }
+  if (major === 7) {
+    switch (info) {
+      case 20:
+        return false;
+      case 21:
+        return true;
+      case 22:
+        return null;
+      case 23:
+        return undefined;
+      case 25:
+        return reader.half();
+      case 26:
+        return reader.float(4);
+      case 27:
+        return reader.float(8);
+      default:
+        if (info < 24) return undefined;
+        if (info === 24) return void reader.byte();
+        throw new SerializationError(`Invalid CBOR simple value ${info}`);
+    }
+  }
+  const argument = reader.argument(info);
+  switch (major) {
+    case 0:
+      return argument;
+    case 1:
+      return typeof argument === "bigint"
+        ? -BigInt(1) - argument
+        : argument === Number.MAX_SAFE_INTEGER
+          ? -BigInt(1) - BigInt(argument)
+          : -1 - argument;
+    case 2:
+      return reader.slice(lengthOf(argument));
+    case 3:
+      return new TextDecoder().decode(reader.slice(lengthOf(argument)));
+    case 4: {
+      const items: unknown[] = [];
+      for (let i = 0; i < lengthOf(argument); i++)
+        items.push(readItem(reader, depth + 1));
+      return items;
+    }
+    case 5: {
+      const map: Record<string, unknown> = {};
+      for (let i = 0; i < lengthOf(argument); i++) {
+        const key = String(readItem(reader, depth + 1));
+        const value = readItem(reader, depth + 1);
+        if (key !== "__proto__") map[key] = value;
+      }
+      return map;
+    }
+    default:
+      return readTagged(argument, readItem(reader, depth + 1));
+  }
+}
+
+/**
+ * @description Decodes a CBOR (RFC 8949) value
+ * @summary Date/time tags become Dates, bignum tags and integers past the safe range BigInts, byte
+ * strings Uint8Arrays. Indefinite length items and half precision floats are supported; unknown
+ * tags decode to their content.
+ * @param {Uint8Array} bytes - The encoded bytes
+ * @return {unknown} The value
+ * @throws {SerializationError} When the data is malformed
+ * @function decodeCbor
+ * @memberOf module:for-http
+ */
+export function decodeCbor(bytes: Uint8Array): unknown {
+  const reader = new Reader(bytes);
+  const value = readItem(reader, 0);
+  if (value === Break || !reader.done)
+    throw new SerializationError(`Unexpected data after the CBOR value`);
+  return value;
+}
@@ -0,0 +1,134 @@
+import { InternalError, PrimaryKeyType } from "@decaf-ts/db-decorators";
+import { DefaultChunkingConfig } from "./constants";
+import type { HttpChunkingConfig, HttpConfig } from "./types";
+
+/**
+ * @description A chunk of a bulk operation the server did not complete
+ * @typedef {Object} BulkChunkFailure
+ * @property {number} chunk - The position of the chunk
+ * @property {PrimaryKeyType[]} ids - The ids sent in the chunk
+ * @property {Error} error - The error raised for the chunk
+ * @memberOf module:for-http
+ */
+export type BulkChunkFailure = {
+  chunk: number;
+  ids: PrimaryKeyType[];
+  error: Error;
+};
+
+/**
+ * @description Raised when only some chunks of a bulk operation succeeded
+ * @summary Carries the merged results of the chunks that succeeded, in order, and the failure of
+ * every other chunk, so callers can retry just the failed ids.
+ * @param {Record<string, any>[]} results - The results of the successful chunks
+ * @param {BulkChunkFailure[]} failures - The failed chunks
+ * @param {number} chunks - The number of chunks the operation was split into
+ * @class BulkChunkError
+ * @memberOf module:for-http
+ */
+export class BulkChunkError extends InternalError {
+  constructor(
+    readonly results: Record<string, any>[],
+    readonly failures: BulkChunkFailure[],
+    readonly chunks: number
+  ) {
+    super(
+      `${failures.length} of ${chunks} bulk chunks failed: ${failures
+        .map(({ chunk, error }) => `#${chunk}: ${error.message}`)
+        .join("; ")}`
+    );
+  }
+
+  /**
+   * @description The ids of every failed chunk
+   */
+  get failedIds(): PrimaryKeyType[] {
+    return this.failures.flatMap(({ ids }) => ids);
+  }
+}
+
+/**
+ * @description Resolves the effective bulk chunking configuration
+ * @param {HttpConfig} config - The adapter configuration
+ * @return {HttpChunkingConfig|undefined} The merged configuration, or undefined when chunking is disabled
+ * @function resolveChunkingConfig
+ * @memberOf module:for-http
+ */
+export function resolveChunkingConfig(
+  config: HttpConfig
+): HttpChunkingConfig | undefined {
+  if (!config.chunking) return undefined;
+  const overrides = typeof config.chunking === "object" ? config.chunking : {};
+  return Object.assign({}, DefaultChunkingConfig, overrides);
+}
+
+/**
+ * @description Splits a bulk operation into chunks
+ * @summary Consecutive items are grouped while the chunk holds at most `maxItems` items and, when
+ * `sizeOf` is given, their sizes add up to at most `maxBytes`. An item larger than `maxBytes` gets
+ * a chunk of its own.
+ * @param {number} count - The number of items
+ * @param {HttpChunkingConfig} config - The chunking limits
+ * @param {Function} [sizeOf] - Measures the item at an index, in bytes
+ * @return {Array<[number, number]>} The `[start, end)` index range of each chunk
+ * @function chunkRanges
+ * @memberOf module:for-http
+ */
+export function chunkRanges(
+  count: number,
+  config: HttpChunkingConfig,
+  sizeOf?: (index: number) => number
+): [number, number][] {
+  const maxItems = Math.max(1, config.maxItems);
+  const ranges: [number, number][] = [];
+  let start = 0;
+  let size = 0;
+  for (let i = 0; i < count; i++) {
+    const itemSize = sizeOf ? sizeOf(i) : 0;
+    if (
+      i > start &&
+      (i - start >= maxItems || (sizeOf && size + itemSize > config.maxBytes))
+    ) {
+      ranges.push([start, i]);
+      start = i;
+      size = 0;
+    }
+    size += itemSize;
+  }
+  if (count > start) ranges.push([start, count]);
+  return ranges;
+}
+
+/**
+ * @description Sends a bulk operation chunk by chunk
+ * @summary Chunks are sent one after the other, each failure being recorded without stopping the
+ * following chunks. A single chunk is sent as is, its errors propagating unchanged.
+ * @template R - The result type
+ * @param {PrimaryKeyType[]} ids - The ids of the operation
+ * @param {Array<[number, number]>} ranges - The chunks, see {@link chunkRanges}
+ * @param {Function} send - Sends the chunk of an index range
+ * @return {Promise<R[]>} The results of every chunk, in order
+ * @throws {BulkChunkError} When some chunks failed; the error of the first chunk when they all did
+ * @function sendInChunks
+ * @memberOf module:for-http
+ */
+export async function sendInChunks<R extends Record<string, any>>(
+  ids: PrimaryKeyType[],
+  ranges: [number, number][],
+  send: (start: number, end: number) => Promise<R[]>
+): Promise<R[]> {
+  if (ranges.length <= 1) return send(0, ids.length);
+  const results: R[] = [];
+  const failures: BulkChunkFailure[] = [];
+  for (const [chunk, [start, end]] of ranges.entries()) {
+    try {
+      results.push(...((await send(start, end)) || []));
+    } catch (e: unknown) {
+      failures.push({ chunk, ids: ids.slice(start, end), error: e as Error });
+    }
+  }
+  if (failures.length === ranges.length) throw failures[0].error;
+  if (failures.length)
+    throw new BulkChunkError(results, failures, ranges.length);
+  return results;
+}
@@ -0,0 +1,249 @@
+import {
+  Model,
+  ModelKeys,
+  Serialization,
+} from "@decaf-ts/decorator-validation";
+import { decodeCbor, encodeCbor } from "./cbor";
+import { CodecContentType } from "./constants";
+import { decodeMessagePack, encodeMessagePack } from "./msgpack";
+import type { HttpCodec } from "./types";
+
+/**
+ * @description Reads a body as bytes
+ * @param {string|ArrayBuffer|ArrayBufferView} body - The body
+ * @return {Uint8Array} The bytes, UTF-8 encoded for strings
+ * @function bodyBytes
+ * @memberOf module:for-http
+ */
+export function bodyBytes(body: string | ArrayBuffer | ArrayBufferView) {
+  if (typeof body === "string") return new TextEncoder().encode(body);
+  if (body instanceof Uint8Array) return body;
+  if (body instanceof ArrayBuffer) return new Uint8Array(body);
+  return new Uint8Array(body.buffer, body.byteOffset, body.byteLength);
+}
+
+/**
+ * @description Reads a body as text
+ * @param {string|ArrayBuffer|ArrayBufferView} body - The body
+ * @return {string} The UTF-8 decoded text
+ * @function bodyText
+ * @memberOf module:for-http
+ */
+export function bodyText(body: string | ArrayBuffer | ArrayBufferView) {
+  return typeof body === "string"
+    ? body
+    : new TextDecoder().decode(bodyBytes(body));
+}
+
+/**
+ * @description Tells whether a value is a binary body
+ * @param {unknown} value - The value
+ * @return {boolean} True for ArrayBuffers and their views (including Node buffers)
+ * @function isBinaryBody
+ * @memberOf module:for-http
+ */
+export function isBinaryBody(
+  value: unknown
+): value is ArrayBuffer | ArrayBufferView {
+  return value instanceof ArrayBuffer || ArrayBuffer.isView(value);
+}
+
+function mediaType(header?: string): string {
+  return (header ?? "").split(";")[0].trim().toLowerCase();
+}
+
+/**
+ * @description Plain JSON codec
+ * @summary Dates become ISO strings and BigInts are refused, as with `JSON.stringify`.
+ * @class JsonCodec
+ * @implements HttpCodec
+ * @memberOf module:for-http
+ */
+export class JsonCodec implements HttpCodec {
+  readonly contentType: string = CodecContentType.JSON;
+  readonly binary = false;
+
+  encode(value: unknown): string {
+    return JSON.stringify(value);
+  }
+
+  decode(body: string | Uint8Array): unknown {
+    const text = bodyText(body);
+    return text.length ? JSON.parse(text) : undefined;
+  }
+}
+
+/**
+ * @description JSON codec rebuilding models with the decaf `Serialization`
+ * @summary Models are serialized with their class, so nested models decode back to instances of
+ * the registered model classes, with their Date properties restored. Other values are plain JSON.
+ * @class SerializationCodec
+ * @implements HttpCodec
+ * @memberOf module:for-http
+ */
+export class SerializationCodec implements HttpCodec {
+  readonly contentType: string = CodecContentType.SERIALIZATION;
+  readonly binary = false;
+
+  encode(value: unknown): string {
+    if (value instanceof Model) return Serialization.serialize(value);
+    if (Array.isArray(value))
+      return `[${value.map((item) => this.encode(item)).join(",")}]`;
+    return JSON.stringify(value);
+  }
+
+  decode(body: string | Uint8Array): unknown {
+    const text = bodyText(body);
+    return text.length ? this.revive(JSON.parse(text)) : undefined;
+  }
+
+  protected revive(value: unknown): unknown {
+    if (Array.isArray(value)) return value.map((item) => this.revive(item));
+    if (value && typeof value === "object" && ModelKeys.ANCHOR in value)
+      return Serialization.deserialize(JSON.stringify(value));
+    return value;
+  }
+}
+
+/**
+ * @description MessagePack codec
+ * @summary Keeps Dates, BigInts and byte arrays, see {@link encodeMessagePack}.
+ * @class MessagePackCodec
+ * @implements HttpCodec
+ * @memberOf module:for-http
+ */
+export class MessagePackCodec implements HttpCodec {
+  readonly contentType: string = CodecContentType.MSGPACK;
+  readonly aliases = ["application/x-msgpack", "application/vnd.msgpack"];
+  readonly binary = true;
+
+  encode(value: unknown): Uint8Array {
+    return encodeMessagePack(value);
+  }
+
+  decode(body: string | Uint8Array): unknown {
+    const bytes = bodyBytes(body);
+    return bytes.length ? decodeMessagePack(bytes) : undefined;
+  }
+}
+
+/**
+ * @description CBOR codec
+ * @summary Keeps Dates, BigInts and byte arrays, see {@link encodeCbor}.
+ * @class CborCodec
+ * @implements HttpCodec
+ * @memberOf module:for-http
+ */
+export class CborCodec implements HttpCodec {
+  readonly contentType: string = CodecContentType.CBOR;
+  readonly binary = true;
+
+  encode(value: unknown): Uint8Array {
+    return encodeCbor(value);
+  }
+
+  decode(body: string | Uint8Array): unknown {
+    const bytes = bodyBytes(body);
+    return bytes.length ? decodeCbor(bytes) : undefined;
+  }
+}
+
+/**
+ * @description The codecs available to a client or server, in order of preference
+ * @summary The first codec encodes request bodies and is preferred in `Accept`. A {@link JsonCodec}
+ * is appended when no codec handles `application/json`, so JSON peers are always understood, and
+ * decodes every other `+json` media type.
+ * @param {HttpCodec[]} [codecs] - The codecs, plain JSON when empty
+ * @class CodecRegistry
+ * @example
+ * ```typescript
+ * const codecs = new CodecRegistry([new MessagePackCodec()]);
+ * codecs.accept; // "application/msgpack, application/json;q=0.9"
+ * codecs.negotiate("application/json"); // the JSON codec
+ * ```
+ * @memberOf module:for-http
+ */
+export class CodecRegistry {
+  readonly codecs: HttpCodec[];
+
+  constructor(codecs: HttpCodec[] = []) {
+    this.codecs = codecs.some(
+      (codec) => mediaType(codec.contentType) === CodecContentType.JSON
+    )
+      ? [...codecs]
+      : [...codecs, new JsonCodec()];
+  }
+
+  /**
+   * @description The most preferred codec, encoding request bodies
+   */
+  get default(): HttpCodec {
+    return this.codecs[0];
+  }
+
+  /**
+   * @description Whether any codec produces bytes
+   */
+  get binary(): boolean {
+    return this.codecs.some((codec) => codec.binary);
+  }
+
+  /**
+   * @description The `Accept` header listing every codec by preference
+   */
+  get accept(): string {
+    return this.codecs
+      .map((codec, i) =>
+        i
+          ? `${codec.contentType};q=${Math.max(1 - i / 10, 0.1).toFixed(1)}`
+          : codec.contentType
+      )
+      .join(", ");
+  }
+
+  /**
+   * @description Finds the codec of a `Content-Type`
+   * @param {string} [contentType] - The header value, parameters are ignored
+   * @return {HttpCodec|undefined} The codec, undefined when none handles the type
+   */
+  forContentType(contentType?: string): HttpCodec | undefined {
+    const type = mediaType(contentType);
+    if (!type) return undefined;
+    const codec = this.codecs.find(
+      (codec) =>
+        mediaType(codec.contentType) === type ||
+        codec.aliases?.some((alias) => mediaType(alias) === type)
+    );
+    if (codec || !type.endsWith("+json")) return codec;
+    return this.forContentType(CodecContentType.JSON);
+  }
+
+  /**
+   * @description Picks the codec of a response from the request `Accept` header
+   * @summary Media ranges are tried by decreasing quality; `*` ranges pick the most preferred codec
+   * of the range.
+   * @param {string} [accept] - The header value
+   * @return {HttpCodec|undefined} The codec, the default one without header, undefined when nothing matches
+   */
+  negotiate(accept?: string): HttpCodec | undefined {
+    if (!accept?.trim()) return this.default;
+    const ranges = accept
+      .split(",")
+      .map((range) => {
+        const q = range.match(/;\s*q=([\d.]+)/i);
+        return { type: mediaType(range), q: q ? Number(q[1]) : 1 };
+      })
+      .filter(({ type, q }) => type && q > 0)
+      .sort((a, b) => b.q - a.q);
+    for (const { type } of ranges) {
+      if (type === "*/*") return this.default;
+      const codec = type.endsWith("/*")
+        ? this.codecs.find((codec) =>
+            mediaType(codec.contentType).startsWith(type.slice(0, -1))
+          )
+        : this.forContentType(type);
+      if (codec) return codec;
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,102 @@
+import { bodyBytes, isBinaryBody } from "./codecs";
+import { DefaultCompressionConfig } from "./constants";
+import type {
+  HttpCompressionConfig,
+  HttpConfig,
+  HttpContentEncoding,
+} from "./types";
+
+/**
+ * @description Resolves the effective request compression configuration
+ * @param {HttpConfig} config - The adapter configuration
+ * @return {HttpCompressionConfig|undefined} The merged configuration, or undefined when compression is disabled
+ * @function resolveCompressionConfig
+ * @memberOf module:for-http
+ */
+export function resolveCompressionConfig(
+  config: HttpConfig
+): HttpCompressionConfig | undefined {
+  if (!config.compression) return undefined;
+  const overrides =
+    typeof config.compression === "object" ? config.compression : {};
+  return Object.assign({}, DefaultCompressionConfig, overrides);
+}
+
+/**
+ * @description Tells whether the code runs in a browser
+ * @summary Browsers forbid setting `Accept-Encoding` and negotiate it on their own.
+ * @return {boolean} True when a `document` is available
+ * @function isBrowser
+ * @memberOf module:for-http
+ */
+export function isBrowser(): boolean {
+  return typeof (globalThis as any).document !== "undefined";
+}
+
+async function zlibCompress(
+  bytes: Uint8Array,
+  encoding: HttpContentEncoding
+): Promise<Uint8Array> {
+  const zlib = await import("zlib");
+  const compress =
+    encoding === "br"
+      ? zlib.brotliCompress
+      : encoding === "gzip"
+        ? zlib.gzip
+        : zlib.deflate;
+  return new Promise((resolve, reject) =>
+    compress(bytes, (error: Error | null, result: Buffer) =>
+      error ? reject(error) : resolve(result)
+    )
+  );
+}
+
+async function streamCompress(
+  bytes: Uint8Array,
+  encoding: HttpContentEncoding
+): Promise<Uint8Array | undefined> {
+  if (encoding === "br" || typeof CompressionStream === "undefined")
+    return undefined;
+  const stream = new Blob([bytes as Uint8Array<ArrayBuffer>])
+    .stream()
+    .pipeThrough(new CompressionStream(encoding));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * @description Compresses a request body
+ * @summary Uses `zlib` under Node and `CompressionStream` elsewhere. Only string and binary bodies
+ * are compressed; form data, streams and plain objects are left to the HTTP client.
+ * @param {unknown} body - The body
+ * @param {HttpContentEncoding} encoding - The content encoding
+ * @param {number} [threshold=0] - Minimum body size to compress, in bytes
+ * @return {Promise<ArrayBuffer|undefined>} The compressed body, undefined when the body is smaller
+ * than the threshold or when the body or the encoding is not supported by the runtime
+ * @function compressBody
+ * @memberOf module:for-http
+ */
+export async function compressBody(
+  body: unknown,
+  encoding: HttpContentEncoding,
+  threshold: number = 0
+): Promise<ArrayBuffer | undefined> {
+  if (typeof body !== "string" && !isBinaryBody(body)) return undefined;
+  const bytes = bodyBytes(body);
+  if (bytes.byteLength < threshold) return undefined;
+  let compressed: Uint8Array | undefined;
+  try {
+    compressed =
+      typeof process !== "undefined" && process.versions?.node
+        ? await zlibCompress(bytes, encoding)
+        : await streamCompress(bytes, encoding);
+  } catch {
+    return undefined;
+  }
+  return (
+    compressed &&
+    (compressed.buffer.slice(
+      compressed.byteOffset,
+      compressed.byteOffset + compressed.byteLength
+    ) as ArrayBuffer)
+  );
+}
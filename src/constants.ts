@@ -1,6 +1,315 @@
+import type {
+  HttpBatchConfig,
+  HttpCacheConfig,
+  HttpChunkingConfig,
+  HttpCompressionConfig,
+  HttpPaginationOptions,
+  OfflineConfig,
+  RetryPolicy,
+} from "./types";
+
 export enum DecafHeaders {
   PENDING_TASK = "x-pending-task",
   CORRELATION_ID = "x-correlation-id",
+  IDEMPOTENCY_KEY = "idempotency-key",
+  RETRY_AFTER = "retry-after",
+  ETAG = "etag",
+  ENTITY_TAGS = "x-entity-tags",
+  IF_MATCH = "if-match",
+  IF_NONE_MATCH = "if-none-match",
+  LAST_MODIFIED = "last-modified",
+  IF_MODIFIED_SINCE = "if-modified-since",
+  CACHE_CONTROL = "cache-control",
+  AUTHORIZATION = "authorization",
+  CONTENT_ENCODING = "content-encoding",
+  ACCEPT_ENCODING = "accept-encoding",
+  PREFER = "prefer",
+  PREFERENCE_APPLIED = "preference-applied",
+  RATE_LIMIT = "ratelimit-limit",
+  RATE_LIMIT_REMAINING = "ratelimit-remaining",
+  RATE_LIMIT_RESET = "ratelimit-reset",
+  RATE_LIMIT_POLICY = "ratelimit-policy",
+  LAST_EVENT_ID = "last-event-id",
 }
 
 export const KeepAliveOperation = "keepalive";
+
+/**
+ * @description Content types of the supported partial update formats
+ * @summary `MERGE` is JSON Merge Patch (RFC 7396), `JSON` is JSON Patch (RFC 6902).
+ * @enum PatchContentType
+ * @memberOf module:for-http
+ */
+export enum PatchContentType {
+  MERGE = "application/merge-patch+json",
+  JSON = "application/json-patch+json",
+}
+
+/**
+ * @description Default retry policy
+ * @summary Values applied for every {@link RetryPolicy} field not set in `HttpConfig.retry`.
+ * @const DefaultRetryPolicy
+ * @memberOf module:for-http
+ */
+export const DefaultRetryPolicy: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelay: 200,
+  maxDelay: 10_000,
+  factor: 2,
+  jitter: true,
+  retryOn: [408, 425, 429, 500, 502, 503, 504],
+  methods: ["GET", "PUT", "DELETE"],
+  respectRetryAfter: true,
+  idempotencyKey: false,
+};
+
+/**
+ * @description Network error codes raised before a request reaches the server
+ * @summary Failures with these codes are safe to retry for any HTTP method.
+ * @const UnsentRequestErrorCodes
+ * @memberOf module:for-http
+ */
+export const UnsentRequestErrorCodes = [
+  "ECONNREFUSED",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+];
+
+/**
+ * @description Default HTTP response cache settings
+ * @summary Values applied for every {@link HttpCacheConfig} field not set in `HttpConfig.cache`,
+ * except `storage` which defaults to a new {@link MemoryCacheStorage} per adapter.
+ * @const DefaultCacheConfig
+ * @memberOf module:for-http
+ */
+export const DefaultCacheConfig: Omit<HttpCacheConfig, "storage"> = {
+  ttl: 30_000,
+  maxEntries: 500,
+  ignoreHeaders: [
+    DecafHeaders.CORRELATION_ID,
+    DecafHeaders.IDEMPOTENCY_KEY,
+    DecafHeaders.IF_MATCH,
+    DecafHeaders.IF_NONE_MATCH,
+    DecafHeaders.IF_MODIFIED_SINCE,
+  ],
+};
+
+/**
+ * @description Default margin before expiry at which tokens are refreshed, in milliseconds
+ * @const DefaultTokenRefreshSkew
+ * @memberOf module:for-http
+ */
+export const DefaultTokenRefreshSkew = 30_000;
+
+/**
+ * @description Default read batching settings
+ * @summary Values applied for every {@link HttpBatchConfig} field not set in `HttpConfig.batch`.
+ * @const DefaultBatchConfig
+ * @memberOf module:for-http
+ */
+export const DefaultBatchConfig: HttpBatchConfig = {
+  window: 0,
+  maxBatchSize: 50,
+};
+
+/**
+ * @description Default request compression settings
+ * @summary Values applied for every {@link HttpCompressionConfig} field not set in `HttpConfig.compression`.
+ * @const DefaultCompressionConfig
+ * @memberOf module:for-http
+ */
+export const DefaultCompressionConfig: HttpCompressionConfig = {
+  encoding: "gzip",
+  threshold: 8 * 1024,
+  acceptEncoding: ["br", "gzip", "deflate"],
+};
+
+/**
+ * @description Default bulk operation chunking settings
+ * @summary Values applied for every {@link HttpChunkingConfig} field not set in `HttpConfig.chunking`.
+ * @const DefaultChunkingConfig
+ * @memberOf module:for-http
+ */
+export const DefaultChunkingConfig: HttpChunkingConfig = {
+  maxItems: 500,
+  maxBytes: 4 * 1024 * 1024,
+};
+
+/**
+ * @description Default offline queue settings
+ * @summary Values applied for every {@link OfflineConfig} field not set in `HttpConfig.offline`,
+ * except `storage` which defaults to a new {@link MemoryQueueStorage} per adapter.
+ * @const DefaultOfflineConfig
+ * @memberOf module:for-http
+ */
+export const DefaultOfflineConfig: Omit<OfflineConfig, "storage"> = {
+  retryInterval: 5_000,
+};
+
+/**
+ * @description Events emitted to the adapter's observers by the offline queue
+ * @summary Observers are refreshed with the table and record of the mutation and a
+ * `{ mutation, pending, error? }` payload, `pending` being the number of mutations left.
+ * @enum OfflineEvents
+ * @memberOf module:for-http
+ */
+export enum OfflineEvents {
+  QUEUED = "offline:queued",
+  REPLAYED = "offline:replayed",
+  CONFLICT = "offline:conflict",
+  FAILED = "offline:failed",
+}
+
+/**
+ * @description Default page iteration settings
+ * @summary Values applied for every {@link HttpPaginationOptions} field not given when iterating pages.
+ * @const DefaultPaginationOptions
+ * @memberOf module:for-http
+ */
+export const DefaultPaginationOptions: HttpPaginationOptions = {
+  window: 1,
+  prefetch: true,
+};
+
+/**
+ * @description Content type of streamed list responses
+ * @summary Newline delimited JSON: one JSON value per line.
+ * @const NdjsonContentType
+ * @memberOf module:for-http
+ */
+export const NdjsonContentType = "application/x-ndjson";
+
+/**
+ * @description Key of the line ending a streamed response that failed midway
+ * @summary The line holds the {@link HttpErrorBody} of the failure, as `{ "$error": { ... } }`.
+ * @const NdjsonErrorKey
+ * @memberOf module:for-http
+ */
+export const NdjsonErrorKey = "$error";
+
+/**
+ * @description Default number of records read from the persistence layer at a time when streaming
+ * @const DefaultStreamChunkSize
+ * @memberOf module:for-http
+ */
+export const DefaultStreamChunkSize = 500;
+
+/**
+ * @description Path segment of the file attachment routes
+ * @summary Files are uploaded to and downloaded from `/<table>/<id>/files/<field>`.
+ * @const FilesPath
+ * @memberOf module:for-http
+ */
+export const FilesPath = "files";
+
+/**
+ * @description Name of the multipart part holding the custom metadata of an upload
+ * @summary The part holds a JSON object of string values.
+ * @const FileMetadataPart
+ * @memberOf module:for-http
+ */
+export const FileMetadataPart = "metadata";
+
+/**
+ * @description Content types of the built-in body codecs
+ * @summary `SERIALIZATION` is JSON produced by the decaf `Serialization`, carrying the model class of
+ * every serialized model.
+ * @enum CodecContentType
+ * @memberOf module:for-http
+ */
+export enum CodecContentType {
+  JSON = "application/json",
+  SERIALIZATION = "application/vnd.decaf+json",
+  MSGPACK = "application/msgpack",
+  CBOR = "application/cbor",
+}
+
+/**
+ * @description The `Prefer` header asking bulk routes to process every item on its own
+ * @summary Servers honoring it answer with a {@link BulkEnvelope} and `Preference-Applied`, and
+ * `207 Multi-Status` when some items failed. Without it bulk requests are all or nothing.
+ * @const LenientBulkPreference
+ * @memberOf module:for-http
+ */
+export const LenientBulkPreference = "handling=lenient";
+
+/**
+ * @description Query parameter carrying the sparse fieldset of reads and queries
+ * @summary A comma separated list of attributes; the primary key is always returned.
+ * @const FieldsParam
+ * @memberOf module:for-http
+ */
+export const FieldsParam = "fields";
+
+/**
+ * @description Non-enumerable key holding the attributes of a partially read model
+ * @summary See {@link markPartial}. Partial models are rejected by full updates.
+ * @const PartialFieldsKey
+ * @memberOf module:for-http
+ */
+export const PartialFieldsKey = "__fields";
+
+/**
+ * @description Query parameter listing the relations to expand in a read or query
+ * @summary A comma separated list of relation paths, nested relations being joined with dots, e.g.
+ * `include=author,comments.author`.
+ * @const IncludeParam
+ * @memberOf module:for-http
+ */
+export const IncludeParam = "include";
+
+/**
+ * @description Default number of record versions a RestRepository keeps to diff patches against
+ * @const DefaultPatchVersions
+ * @memberOf module:for-http
+ */
+export const DefaultPatchVersions = 1000;
+
+/**
+ * @description Default maximum depth of the relation paths a server expands
+ * @const DefaultIncludeDepth
+ * @memberOf module:for-http
+ */
+export const DefaultIncludeDepth = 3;
+
+/**
+ * @description Content type of Server-Sent Events streams
+ * @const EventStreamContentType
+ * @memberOf module:for-http
+ */
+export const EventStreamContentType = "text/event-stream";
+
+/**
+ * @description Names of the Server-Sent Events sent on the events endpoint
+ * @summary `MESSAGE` carries a server event, `HEARTBEAT` keeps idle connections open and `RESYNC`
+ * tells a resuming client that the events it missed can not be replayed.
+ * @enum ServerEventNames
+ * @memberOf module:for-http
+ */
+export enum ServerEventNames {
+  MESSAGE = "message",
+  HEARTBEAT = "heartbeat",
+  RESYNC = "resync",
+}
+
+/**
+ * @description States of a server events connection
+ * @summary `RECONNECTING` follows a dropped connection, or a failed attempt, until it is open again.
+ * @enum EventConnectionState
+ * @memberOf module:for-http
+ */
+export enum EventConnectionState {
+  CONNECTING = "connecting",
+  OPEN = "open",
+  RECONNECTING = "reconnecting",
+  CLOSED = "closed",
+}
+
+/**
+ * @description Operation emitted to the adapter's observers when server events were missed
+ * @summary Emitted by the {@link HttpDispatcher} for every observed table, with no ids, once the
+ * events stream could not be resumed: observers should refetch what they hold.
+ * @const ResyncOperation
+ * @memberOf module:for-http
+ */
+export const ResyncOperation = "events:resync";
@@ -0,0 +1,344 @@
+import {
+  AuthorizationError,
+  Context,
+  ContextualLoggedClass,
+} from "@decaf-ts/core";
+import { DefaultTokenRefreshSkew } from "./constants";
+import { BearerToken, CredentialProvider } from "./types";
+
+/**
+ * @description Builds the `Authorization` header value of a token
+ * @param {BearerToken} token - The token
+ * @return {string} The header value, e.g. `Bearer <token>`
+ * @function authorizationOf
+ * @memberOf module:for-http
+ */
+export function authorizationOf(token: BearerToken): string {
+  return `${token.tokenType || "Bearer"} ${token.accessToken}`;
+}
+
+/**
+ * @description Base {@link CredentialProvider} managing the lifecycle of a bearer token
+ * @summary Caches the current token and obtains a new one through {@link obtain} when it is
+ * missing, rejected or about to expire. Refreshes are single-flight: concurrent callers share
+ * the same pending refresh. Tokens with an expiry are also refreshed proactively, `refreshSkew`
+ * milliseconds before they expire (at most half their lifetime), so long-lived consumers like the
+ * events stream are rotated in time. Rotation listeners are notified whenever a new access token
+ * is issued.
+ * @param {number} [refreshSkew] - Margin before expiry at which the token is refreshed
+ * @class TokenCredentialProvider
+ * @implements CredentialProvider
+ * @memberOf module:for-http
+ */
+export abstract class TokenCredentialProvider
+  extends ContextualLoggedClass<Context<any>>
+  implements CredentialProvider
+{
+  protected token?: BearerToken;
+  private refreshAt?: number;
+  private refreshing?: Promise<BearerToken>;
+  private timer?: ReturnType<typeof setTimeout>;
+  private readonly listeners = new Set<(token: BearerToken) => void>();
+
+  protected constructor(
+    protected readonly refreshSkew: number = DefaultTokenRefreshSkew
+  ) {
+    super();
+  }
+
+  /**
+   * @description Obtains a new token
+   * @param {BearerToken} [current] - The token being replaced, if any
+   * @return {Promise<BearerToken>} The new token
+   */
+  protected abstract obtain(current?: BearerToken): Promise<BearerToken>;
+
+  /**
+   * @description Resolves the current token, refreshing it when needed
+   * @return {Promise<BearerToken>} A valid token
+   */
+  async current(): Promise<BearerToken> {
+    if (this.token && !this.isExpiring()) return this.token;
+    return this.refresh();
+  }
+
+  /**
+   * @description Obtains a new token, sharing the pending refresh with concurrent callers
+   * @return {Promise<BearerToken>} The new token
+   */
+  refresh(): Promise<BearerToken> {
+    if (!this.refreshing)
+      this.refreshing = this.obtain(this.token)
+        .then((token) => {
+          this.rotate(token);
+          return token;
+        })
+        .finally(() => {
+          this.refreshing = undefined;
+        });
+    return this.refreshing;
+  }
+
+  async headers(): Promise<Record<string, string>> {
+    return { Authorization: authorizationOf(await this.current()) };
+  }
+
+  /**
+   * @description Marks the current token as expired
+   * @summary Ignored when `authorization` no longer matches the current token, i.e. when another
+   * caller already replaced the rejected token.
+   * @param {string} [authorization] - The rejected `Authorization` header value
+   */
+  invalidate(authorization?: string): void {
+    if (!this.token) return;
+    if (authorization && authorization !== authorizationOf(this.token)) return;
+    this.refreshAt = 0;
+  }
+
+  onRotate(listener: (token: BearerToken) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * @description Cancels the proactive refresh
+   */
+  dispose(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  private isExpiring(): boolean {
+    return typeof this.refreshAt === "number" && Date.now() >= this.refreshAt;
+  }
+
+  /**
+   * @description Replaces the current token and schedules its proactive refresh
+   * @param {BearerToken} token - The new token
+   */
+  protected rotate(token: BearerToken) {
+    const previous = this.token;
+    this.token = token;
+    this.dispose();
+    this.refreshAt = undefined;
+    if (typeof token.expiresAt === "number") {
+      const lifetime = Math.max(0, token.expiresAt - Date.now());
+      this.refreshAt =
+        token.expiresAt - Math.min(this.refreshSkew, lifetime / 2);
+      const delay = this.refreshAt - Date.now();
+      if (delay > 0) {
+        this.timer = setTimeout(() => {
+          this.refresh().catch((e: unknown) =>
+            this.log
+              .for(this.refresh)
+              .error(`Failed to refresh the access token: ${e}`)
+          );
+        }, delay);
+        (this.timer as any).unref?.();
+      }
+    }
+    if (previous?.accessToken === token.accessToken) return;
+    for (const listener of this.listeners) {
+      try {
+        listener(token);
+      } catch (e: unknown) {
+        this.log.for(this.rotate).error(`Token rotation listener failed: ${e}`);
+      }
+    }
+  }
+}
+
+/**
+ * @description Credential provider for a fixed token
+ * @summary Useful for API keys and long-lived personal tokens. The token never expires.
+ * @param {string} accessToken - The token
+ * @param {string} [tokenType="Bearer"] - The authorization scheme
+ * @class StaticTokenProvider
+ * @extends TokenCredentialProvider
+ * @memberOf module:for-http
+ */
+export class StaticTokenProvider extends TokenCredentialProvider {
+  constructor(
+    private readonly accessToken: string,
+    private readonly tokenType?: string
+  ) {
+    super();
+  }
+
+  protected async obtain(): Promise<BearerToken> {
+    return { accessToken: this.accessToken, tokenType: this.tokenType };
+  }
+}
+
+/**
+ * @description Options of an OAuth2 token endpoint
+ * @typedef {Object} OAuth2TokenOptions
+ * @property {string} tokenUrl - The token endpoint URL
+ * @property {string} [clientId] - The client id
+ * @property {string} [clientSecret] - The client secret
+ * @property {string} [scope] - The requested scopes, space separated
+ * @property {string} [audience] - The requested audience
+ * @property {"basic"|"post"} [authMethod="basic"] - Whether client credentials are sent as Basic auth or in the form body
+ * @property {number} [refreshSkew] - Margin before expiry at which the token is refreshed, in ms
+ * @memberOf module:for-http
+ */
+export type OAuth2TokenOptions = {
+  tokenUrl: string;
+  clientId?: string;
+  clientSecret?: string;
+  scope?: string;
+  audience?: string;
+  authMethod?: "basic" | "post";
+  refreshSkew?: number;
+};
+
+/**
+ * @description Base provider requesting tokens from an OAuth2 token endpoint
+ * @summary Posts form encoded grants (RFC 6749) with the platform `fetch` and maps the
+ * `access_token`, `token_type`, `expires_in` and `refresh_token` fields of the answer.
+ * @param {OAuth2TokenOptions} options - The endpoint options
+ * @class OAuth2TokenProvider
+ * @extends TokenCredentialProvider
+ * @memberOf module:for-http
+ */
+export abstract class OAuth2TokenProvider extends TokenCredentialProvider {
+  protected constructor(protected readonly options: OAuth2TokenOptions) {
+    super(options.refreshSkew);
+  }
+
+  /**
+   * @description Requests a token from the endpoint
+   * @param {Record<string, string|undefined>} grant - The grant parameters
+   * @return {Promise<BearerToken>} The issued token
+   * @throws {AuthorizationError} When the endpoint rejects the grant or answers without a token
+   */
+  protected async requestToken(
+    grant: Record<string, string | undefined>
+  ): Promise<BearerToken> {
+    const { tokenUrl, clientId, clientSecret, scope, audience } = this.options;
+    const authMethod = this.options.authMethod ?? "basic";
+    const headers: Record<string, string> = {
+      "Content-Type": "application/x-www-form-urlencoded",
+      Accept: "application/json",
+    };
+    const params: Record<string, string | undefined> = Object.assign(
+      { scope, audience },
+      grant
+    );
+    if (clientId && authMethod === "basic")
+      headers["Authorization"] =
+        `Basic ${btoa(`${encodeURIComponent(clientId)}:${encodeURIComponent(clientSecret ?? "")}`)}`;
+    else
+      Object.assign(params, {
+        client_id: clientId,
+        client_secret: clientSecret,
+      });
+
+    const body = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+      if (typeof value !== "undefined") body.append(key, value);
+    });
+
+    const response = await fetch(tokenUrl, {
+      method: "POST",
+      headers,
+      body: body.toString(),
+    });
+    const text = await response.text();
+    let payload: any;
+    try {
+      payload = text ? JSON.parse(text) : {};
+    } catch {
+      payload = {};
+    }
+    if (!response.ok || typeof payload.access_token !== "string")
+      throw new AuthorizationError(
+        `Token endpoint ${tokenUrl} answered ${response.status}: ${payload.error_description ?? payload.error ?? text}`
+      );
+    return {
+      accessToken: payload.access_token,
+      tokenType: payload.token_type
+        ? payload.token_type.replace(/^bearer$/i, "Bearer")
+        : undefined,
+      expiresAt:
+        typeof payload.expires_in === "number" ||
+        typeof payload.expires_in === "string"
+          ? Date.now() + Number(payload.expires_in) * 1000
+          : undefined,
+      refreshToken: payload.refresh_token,
+    };
+  }
+}
+
+/**
+ * @description Credential provider for the OAuth2 client credentials grant
+ * @summary Machine-to-machine tokens obtained with the client's own id and secret.
+ * @param {OAuth2TokenOptions} options - The endpoint options, `clientId` and `clientSecret` included
+ * @class ClientCredentialsProvider
+ * @extends OAuth2TokenProvider
+ * @memberOf module:for-http
+ */
+export class ClientCredentialsProvider extends OAuth2TokenProvider {
+  constructor(options: OAuth2TokenOptions) {
+    super(options);
+  }
+
+  protected obtain(): Promise<BearerToken> {
+    return this.requestToken({ grant_type: "client_credentials" });
+  }
+}
+
+/**
+ * @description Options of a {@link RefreshTokenProvider}
+ * @typedef {Object} RefreshTokenOptions
+ * @property {string} refreshToken - The initial refresh token
+ * @property {string} [accessToken] - The current access token, when already known
+ * @property {number} [expiresAt] - Expiry of the current access token, as epoch milliseconds
+ * @property {Function} [onRefreshToken] - Called with every rotated refresh token
+ * @memberOf module:for-http
+ */
+export type RefreshTokenOptions = OAuth2TokenOptions & {
+  refreshToken: string;
+  accessToken?: string;
+  expiresAt?: number;
+  onRefreshToken?: (refreshToken: string) => void;
+};
+
+/**
+ * @description Credential provider for the OAuth2 refresh token grant
+ * @summary Starts from a refresh token (and optionally a current access token) and exchanges it
+ * whenever the access token expires. Rotated refresh tokens are kept and reported through
+ * `onRefreshToken`, so they can be persisted.
+ * @param {RefreshTokenOptions} options - The endpoint options plus the initial tokens
+ * @class RefreshTokenProvider
+ * @extends OAuth2TokenProvider
+ * @memberOf module:for-http
+ */
+export class RefreshTokenProvider extends OAuth2TokenProvider {
+  declare protected readonly options: RefreshTokenOptions;
+
+  constructor(options: RefreshTokenOptions) {
+    super(options);
+    this.rotate({
+      accessToken: options.accessToken ?? "",
+      expiresAt: options.expiresAt,
+      refreshToken: options.refreshToken,
+    });
+    if (!options.accessToken) this.invalidate();
+  }
+
+  protected async obtain(current?: BearerToken): Promise<BearerToken> {
+    const refreshToken = current?.refreshToken ?? this.options.refreshToken;
+    const token = await this.requestToken({
+      grant_type: "refresh_token",
+      refresh_token: refreshToken,
+    });
+    if (token.refreshToken && token.refreshToken !== refreshToken)
+      this.options.onRefreshToken?.(token.refreshToken);
+    return Object.assign(token, {
+      refreshToken: token.refreshToken ?? refreshToken,
+    });
+  }
+}
@@ -0,0 +1,253 @@
+import {
+  AuthorizationError,
+  ConnectionError,
+  ForbiddenError,
+  MigrationError,
+  ObserverError,
+  PagingError,
+  QueryError,
+  UnsupportedError,
+} from "@decaf-ts/core";
+import {
+  BadRequestError,
+  BaseError,
+  ConflictError,
+  InternalError,
+  NotFoundError,
+  SerializationError,
+  ValidationError,
+} from "@decaf-ts/db-decorators";
+import { HttpErrorBody, HttpErrorMetadata, HttpErrorPayload } from "./types";
+
+type ErrorConstructor = new (msg: string | Error) => BaseError;
+
+/**
+ * @description Raised when a client exceeds a server rate limit
+ * @summary Transported with status 429. Servers attach the `Retry-After` and `RateLimit-*` headers
+ * telling when to try again.
+ * @param {string|Error} msg - The error message
+ * @class TooManyRequestsError
+ * @memberOf module:for-http
+ */
+export class TooManyRequestsError extends BadRequestError {
+  constructor(msg: string | Error) {
+    super(msg, TooManyRequestsError.name, 429);
+  }
+}
+
+const registry = new Map<string, { clazz: ErrorConstructor; status: number }>();
+
+/**
+ * @description Registers an error class for HTTP transport
+ * @summary Registered classes are serialized with their status by the server side and
+ * reconstructed by name on the client. Custom error classes must be registered on both ends.
+ * @param {Constructor<BaseError>} clazz - The error class
+ * @param {number} status - The HTTP status code emitted for this error
+ * @param {string} [name] - The transport name, defaults to the class name
+ * @function registerHttpError
+ * @memberOf module:for-http
+ */
+export function registerHttpError(
+  clazz: ErrorConstructor,
+  status: number,
+  name: string = clazz.name
+) {
+  registry.set(name, { clazz, status });
+}
+
+[
+  [BadRequestError, 400],
+  [QueryError, 400],
+  [PagingError, 400],
+  [SerializationError, 400],
+  [AuthorizationError, 401],
+  [ForbiddenError, 403],
+  [NotFoundError, 404],
+  [ConflictError, 409],
+  [ValidationError, 422],
+  [TooManyRequestsError, 429],
+  [InternalError, 500],
+  [MigrationError, 500],
+  [ObserverError, 500],
+  [UnsupportedError, 501],
+  [ConnectionError, 503],
+].forEach(([clazz, status]) =>
+  registerHttpError(clazz as ErrorConstructor, status as number)
+);
+
+function registeredEntry(error: any) {
+  const byName = registry.get(error?.constructor?.name);
+  if (byName && error instanceof byName.clazz)
+    return { name: error.constructor.name as string, ...byName };
+  for (const [name, entry] of registry.entries())
+    if (error instanceof entry.clazz) return { name, ...entry };
+  return undefined;
+}
+
+/**
+ * @description Removes the `[ErrorName][code]` prefixes added by BaseError
+ * @param {string} message - The error message
+ * @return {string} The original message
+ * @function stripErrorPrefix
+ * @memberOf module:for-http
+ */
+export function stripErrorPrefix(message: string): string {
+  return message.replace(/^(\s*\[[A-Za-z]+\](\[\d{3}\])?)+\s*/, "");
+}
+
+/**
+ * @description Resolves the HTTP status code for an error
+ * @summary Uses an explicit numeric `status` within the error range (e.g. a ConflictError
+ * raised with status 412), then the registered status for the error class, then a numeric
+ * `code` within the error range, defaulting to 500.
+ * @param {unknown} error - The error
+ * @return {number} The HTTP status code
+ * @function httpStatusOf
+ * @memberOf module:for-http
+ */
+export function httpStatusOf(error: unknown): number {
+  const inRange = (c: unknown): c is number =>
+    typeof c === "number" && c >= 400 && c < 600;
+  if (inRange((error as any)?.status)) return (error as any).status;
+  const entry = registeredEntry(error);
+  if (entry) return entry.status;
+  return inRange((error as any)?.code) ? (error as any).code : 500;
+}
+
+function validationDetails(error: any, message: string) {
+  if (error?.details && typeof error.details === "object") return error.details;
+  const trimmed = message.trim();
+  if (!trimmed.startsWith("{")) return undefined;
+  try {
+    const parsed = JSON.parse(trimmed);
+    return parsed && typeof parsed === "object" ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * @description Serializes an error into the machine-readable HTTP error payload
+ * @summary Produces the status code and the `{ error: { name, message, status, details, correlationId } }`
+ * body understood by {@link deserializeError}. Unregistered errors are reported as InternalError.
+ * @param {unknown} error - The error to serialize
+ * @param {string} [correlationId] - The correlation id of the failed request
+ * @return {{status: number, body: HttpErrorPayload}} The status code and the response body
+ * @function serializeError
+ * @memberOf module:for-http
+ */
+export function serializeError(
+  error: unknown,
+  correlationId?: string
+): { status: number; body: HttpErrorPayload } {
+  const entry = registeredEntry(error);
+  const status = httpStatusOf(error);
+  const raw =
+    error instanceof Error
+      ? error.message
+      : typeof error === "string"
+        ? error
+        : String(error ?? "");
+  const message = stripErrorPrefix(raw);
+  const body: HttpErrorBody = {
+    name: entry?.name ?? InternalError.name,
+    message,
+    status,
+  };
+  const details = validationDetails(error, message);
+  if (details) body.details = details;
+  const cid = correlationId ?? (error as any)?.correlationId;
+  if (cid) body.correlationId = cid;
+  return { status, body: { error: body } };
+}
+
+/**
+ * @description Checks whether a response body is an HTTP error payload
+ * @param {unknown} body - The response body, possibly a JSON string
+ * @return {HttpErrorBody|undefined} The error description, when present
+ * @function errorPayloadOf
+ * @memberOf module:for-http
+ */
+export function errorPayloadOf(body: unknown): HttpErrorBody | undefined {
+  if (typeof body === "string") {
+    try {
+      body = JSON.parse(body);
+    } catch {
+      return undefined;
+    }
+  }
+  const error = (body as HttpErrorPayload | undefined)?.error;
+  if (!error || typeof error !== "object") return undefined;
+  if (typeof error.name !== "string" || typeof error.message !== "string")
+    return undefined;
+  return error;
+}
+
+/**
+ * @description Resolves the error class matching an HTTP status code
+ * @param {number} status - The HTTP status code
+ * @return {Constructor<BaseError>} The error class
+ * @function errorClassForStatus
+ * @memberOf module:for-http
+ */
+export function errorClassForStatus(status: number): ErrorConstructor {
+  switch (status) {
+    case 400:
+      return BadRequestError;
+    case 401:
+      return AuthorizationError;
+    case 403:
+      return ForbiddenError;
+    case 404:
+      return NotFoundError;
+    case 409:
+    case 412:
+      return ConflictError;
+    case 422:
+      return ValidationError;
+    case 429:
+      return TooManyRequestsError;
+    case 501:
+      return UnsupportedError;
+    case 502:
+    case 503:
+    case 504:
+      return ConnectionError;
+    default:
+      return status >= 400 && status < 500 ? BadRequestError : InternalError;
+  }
+}
+
+/**
+ * @description Reconstructs an error from an HTTP error response
+ * @summary Rebuilds the exact error class named in the payload (falling back to the class
+ * matching the status code) with its original message, and attaches the payload's `status`,
+ * `details` and `correlationId`.
+ * @template E - The error type
+ * @param {number|undefined} status - The HTTP status code of the response
+ * @param {unknown} [body] - The response body, possibly a JSON string
+ * @return {E|undefined} The reconstructed error, or undefined without status nor payload
+ * @function deserializeError
+ * @memberOf module:for-http
+ */
+export function deserializeError<E extends BaseError>(
+  status: number | undefined,
+  body?: unknown
+): (E & HttpErrorMetadata) | undefined {
+  const payload = errorPayloadOf(body);
+  const code = payload?.status ?? status;
+  if (!payload && typeof code !== "number") return undefined;
+  const clazz =
+    (payload && registry.get(payload.name)?.clazz) ??
+    errorClassForStatus(code as number);
+  const message =
+    payload?.message ??
+    (typeof body === "string" && body
+      ? body
+      : `Request failed with status code ${code}`);
+  const error = new clazz(message) as E & HttpErrorMetadata;
+  const metadata: HttpErrorMetadata = { status: code };
+  if (payload?.details) metadata.details = payload.details;
+  if (payload?.correlationId) metadata.correlationId = payload.correlationId;
+  return Object.assign(error, metadata);
+}
@@ -1,9 +1,11 @@
 import { EventHandlers, ServerEvent, ServerRawMessage } from "./types";
 import { EventSourcePlus } from "event-source-plus";
-import { Serialization } from "@decaf-ts/decorator-validation";
 import { Context, ContextualLoggedClass } from "@decaf-ts/core";
 import { Lock } from "@decaf-ts/transactional-decorators";
 import { InternalError } from "@decaf-ts/db-decorators";
+import { decodeServerEvent, parseEventId } from "./payload";
+import type { CodecRegistry } from "../codecs";
+import { EventConnectionState, ServerEventNames } from "../constants";
 
 export type ServerEventConnectorHeaders =
   | Record<string, string>
@@ -22,11 +24,12 @@ export class ServerEventConnector extends ContextualLoggedClass<Context<any>> {
 
   static open(
     url: string,
-    headers?: ServerEventConnectorHeaders
+    headers?: ServerEventConnectorHeaders,
+    codecs?: CodecRegistry
   ): ServerEventConnector {
     if (this.cache.has(url)) return this.cache.get(url) as ServerEventConnector;
 
-    const connector = new ServerEventConnector(url, headers);
+    const connector = new ServerEventConnector(url, headers, codecs);
     this.cache.set(url, connector);
     return this.cache.get(url) as ServerEventConnector;
   }
@@ -38,36 +41,11 @@ export class ServerEventConnector extends ContextualLoggedClass<Context<any>> {
     }
   }
 
-  private static parseReceivedEvent(raw: unknown): ServerEvent<any> | null {
-    const deserializePayload = (value: unknown): any => {
-      if (typeof value !== "string") return value;
-      try {
-        return Serialization.deserialize(value);
-      } catch {
-        try {
-          return JSON.parse(value);
-        } catch {
-          return value;
-        }
-      }
-    };
-    try {
-      const data = typeof raw === "string" ? JSON.parse(raw) : raw;
-      if (!Array.isArray(data) || data.length < 3) return null;
-
-      const [eventName, operationKey, objectId, rawPayload] = data;
-      if (typeof eventName !== "string") return null;
-
-      let payload: Record<string, any> | Array<Record<string, any>>;
-      if (Array.isArray(rawPayload)) {
-        payload = rawPayload.map((item) => deserializePayload(item));
-      } else {
-        payload = deserializePayload(rawPayload);
-      }
-      return [eventName, String(operationKey), objectId, payload] as const;
-    } catch {
-      return null;
-    }
+  private static parseReceivedEvent(
+    raw: unknown,
+    codecs?: CodecRegistry
+  ): ServerEvent<any> | null {
+    return decodeServerEvent(raw, codecs);
   }
 
   /** Shared connection state (cached singleton instance). */
@@ -77,10 +55,17 @@ export class ServerEventConnector extends ContextualLoggedClass<Context<any>> {
   private opening?: Promise<void>;
   private ready = false;
   private listeners: Set<EventHandlers> = new Set();
+  /** Resumption state: the last received event id and whether a connection was ever open. */
+  private lastEventId?: string;
+  private opened = false;
+  private currentState = EventConnectionState.CLOSED;
+  private stateListeners: Set<(state: EventConnectionState) => void> =
+    new Set();
 
   constructor(
     private readonly url: string,
-    private readonly headers?: ServerEventConnectorHeaders
+    private readonly headers?: ServerEventConnectorHeaders,
+    private readonly codecs?: CodecRegistry
   ) {
     super();
   }
@@ -89,6 +74,68 @@ export class ServerEventConnector extends ContextualLoggedClass<Context<any>> {
     return this.es !== undefined;
   }
 
+  /** The state of the shared connection. */
+  get state(): EventConnectionState {
+    return this.currentState;
+  }
+
+  /**
+   * Subscribes to the connection state changes (connecting, open, reconnecting, closed).
+   * Returns the function removing the subscription.
+   */
+  onStateChange(listener: (state: EventConnectionState) => void): () => void {
+    this.stateListeners.add(listener);
+    return () => this.stateListeners.delete(listener);
+  }
+
+  private setState(state: EventConnectionState): void {
+    if (this.currentState === state) return;
+    const log = this.log.for(this.setState);
+    this.currentState = state;
+    log.debug(`Connection ${this.url} is ${state}`);
+    const notify = (fn?: (state: EventConnectionState) => void) => {
+      try {
+        fn?.(state);
+      } catch (err) {
+        log.error("Connection state listener failed", { err });
+      }
+    };
+    this.listeners.forEach((handler) => notify(handler.onStateChange));
+    this.stateListeners.forEach((listener) => notify(listener));
+  }
+
+  /**
+   * Records the id of a received message, resumed from on reconnection. Returns why events may
+   * have been missed: the message names a previous message other than the last one received, or
+   * the sequence went back, meaning the server lost the events it numbered (e.g. it restarted).
+   */
+  private trackEventId(id?: string): string | undefined {
+    if (!id) return undefined;
+    const last = parseEventId(this.lastEventId)?.id;
+    this.lastEventId = id;
+    const next = parseEventId(id);
+    if (typeof last === "undefined" || !next) return undefined;
+    if (next.id < last) return `the event ids went back to ${next.id}`;
+    if (typeof next.previous === "number" && next.previous !== last)
+      return `the events after ${last} up to ${next.previous} were not received`;
+    return undefined;
+  }
+
+  /**
+   * Tells the listeners that events may have been missed, so what they hold must be refetched.
+   */
+  private resync(reason: string): void {
+    const log = this.log.for(this.resync);
+    log.warn(`Events of ${this.url} may have been missed: ${reason}`);
+    for (const handler of this.listeners) {
+      try {
+        handler.onResync?.(reason);
+      } catch (err) {
+        log.error("Listener handler failed on resync", { err });
+      }
+    }
+  }
+
   private async withStateLock<T>(fn: () => Promise<T> | T): Promise<T> {
     await this.stateLock.acquire();
     try {
@@ -150,6 +197,7 @@ export class ServerEventConnector extends ContextualLoggedClass<Context<any>> {
       this.es = undefined;
       void this.setReady(false);
       void this.setOpening(undefined);
+      this.setState(EventConnectionState.CLOSED);
       this.listeners.clear();
       ServerEventConnector.cache.delete(this.url);
       log.info(
@@ -199,18 +247,36 @@ export class ServerEventConnector extends ContextualLoggedClass<Context<any>> {
 
     (async () => {
       log.info(`Opening EventSource connection to ${this.url}`);
+      this.setState(
+        this.opened
+          ? EventConnectionState.RECONNECTING
+          : EventConnectionState.CONNECTING
+      );
       const headers = await this.getHeaders();
       this.es = new EventSourcePlus(this.url, {
         ...(headers && { headers: headers }),
         credentials: "include",
       });
+      // Resumes from the last received event, sent back as the Last-Event-ID header.
+      this.es.lastEventId = this.lastEventId;
       await this.setReady(false);
       let settled = false;
 
       // eslint-disable-next-line @typescript-eslint/no-this-alias
       const self: ServerEventConnector = this;
       this.controller = this.es.listen({
-        onResponse: async () => {
+        onRequest: () => {
+          if (self.state === EventConnectionState.OPEN)
+            self.setState(EventConnectionState.RECONNECTING);
+        },
+        onResponse: async ({ response }) => {
+          if (response?.ok !== false) {
+            const resumed = self.opened;
+            self.opened = true;
+            self.setState(EventConnectionState.OPEN);
+            if (resumed && typeof self.lastEventId === "undefined")
+              self.resync("reconnected without a last event id");
+          }
           if (settled) return;
           settled = true;
           await self.setReady(true);
@@ -218,6 +284,7 @@ export class ServerEventConnector extends ContextualLoggedClass<Context<any>> {
           resolveOpen();
         },
         onRequestError: ({ error }) => {
+          self.setState(EventConnectionState.RECONNECTING);
           if (settled) return;
           settled = true;
           log.error("Failed to establish EventSource connection", {
@@ -232,6 +299,7 @@ export class ServerEventConnector extends ContextualLoggedClass<Context<any>> {
           );
         },
         onResponseError: ({ response }) => {
+          self.setState(EventConnectionState.RECONNECTING);
           if (settled) return;
           settled = true;
           const status = response?.status;
@@ -249,7 +317,16 @@ export class ServerEventConnector extends ContextualLoggedClass<Context<any>> {
           self.listeners.forEach((handler) => handler.onError(err));
         },
         onMessage: (message: ServerRawMessage) => {
-          if (message.event === "heartbeat") {
+          const missed = self.trackEventId(message?.id);
+          if (message.event === ServerEventNames.RESYNC) {
+            self.resync(
+              `the server can not replay the events after ${message.data}`
+            );
+            return;
+          }
+          if (missed) self.resync(missed);
+
+          if (message.event === ServerEventNames.HEARTBEAT) {
             log.debug(`Refresh connection. Heartbeat received.`);
             return;
           }
@@ -259,7 +336,10 @@ export class ServerEventConnector extends ContextualLoggedClass<Context<any>> {
               ? message.data
               : message;
 
-          const event = ServerEventConnector.parseReceivedEvent(raw);
+          const event = ServerEventConnector.parseReceivedEvent(
+            raw,
+            self.codecs
+          );
           if (!event) {
             log.warn(`Failed to parse SSE message`, {
               url: this.url,
@@ -290,6 +370,25 @@ export class ServerEventConnector extends ContextualLoggedClass<Context<any>> {
     }
   }
 
+  /**
+   * Reopens the shared connection, keeping its listeners, so that the headers are resolved
+   * again (e.g. after the access token rotated). No-op when the connection is not open.
+   */
+  async reconnect(): Promise<void> {
+    const log = this.log.for(this.reconnect);
+    if (this.opening) await this.opening.catch(() => undefined);
+    if (!this.es) {
+      log.debug(`Skipping reconnect — no open connection to ${this.url}`);
+      return;
+    }
+    log.info(`Reopening EventSource connection to ${this.url}`);
+    this.controller?.abort();
+    this.controller = undefined;
+    this.es = undefined;
+    await this.setReady(false);
+    await this.startListening();
+  }
+
   /**
    * Ensures the shared connection has completed its async open sequence.
    * Callers that need "ready before proceeding" semantics should await this.
@@ -1,2 +1,3 @@
+export * from "./payload";
 export * from "./ServerEventConnector";
 export * from "./types";
@@ -0,0 +1,153 @@
+import { Serialization } from "@decaf-ts/decorator-validation";
+import {
+  CborCodec,
+  CodecRegistry,
+  MessagePackCodec,
+  SerializationCodec,
+} from "../codecs";
+import type { HttpCodec } from "../types";
+import type { ServerEvent } from "./types";
+
+/**
+ * @description Codecs used to decode server events when the connector has none
+ * @summary Every built-in codec, since the payload names the one it was encoded with.
+ * @const DefaultEventCodecs
+ * @memberOf module:for-http
+ */
+export const DefaultEventCodecs = new CodecRegistry([
+  new SerializationCodec(),
+  new MessagePackCodec(),
+  new CborCodec(),
+]);
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000)
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+function guessPayload(value: unknown): any {
+  if (typeof value !== "string") return value;
+  try {
+    return Serialization.deserialize(value);
+  } catch {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  }
+}
+
+/**
+ * @description Encodes a server event as the `data` of an SSE message
+ * @summary Produces the JSON array `[table, operation, id, payload, contentType]`, where the payload
+ * is encoded by the codec (base64 for binary codecs) so Dates, BigInts and models survive the trip.
+ * @param {ServerEvent} event - The event
+ * @param {HttpCodec} codec - The payload codec
+ * @return {string} The message data
+ * @function encodeServerEvent
+ * @memberOf module:for-http
+ */
+export function encodeServerEvent(
+  event: ServerEvent<any>,
+  codec: HttpCodec
+): string {
+  const [table, operation, id, payload] = event;
+  const encoded =
+    typeof payload === "undefined" ? undefined : codec.encode(payload);
+  return JSON.stringify([
+    table,
+    operation,
+    id,
+    typeof encoded === "string" || typeof encoded === "undefined"
+      ? encoded
+      : toBase64(encoded),
+    codec.contentType,
+  ]);
+}
+
+/**
+ * @description Decodes the `data` of an SSE message into a server event
+ * @summary Payloads naming their content type are decoded by its codec. Messages without one, sent
+ * by older servers, keep the legacy handling: each payload string is read with the decaf
+ * `Serialization`, then as JSON, then kept as is.
+ * @param {unknown} raw - The message data
+ * @param {CodecRegistry} [codecs] - The known codecs, {@link DefaultEventCodecs} by default
+ * @return {ServerEvent|null} The event, null when the message is not a valid event
+ * @function decodeServerEvent
+ * @memberOf module:for-http
+ */
+export function decodeServerEvent(
+  raw: unknown,
+  codecs: CodecRegistry = DefaultEventCodecs
+): ServerEvent<any> | null {
+  try {
+    const data = typeof raw === "string" ? JSON.parse(raw) : raw;
+    if (!Array.isArray(data) || data.length < 3) return null;
+
+    const [eventName, operationKey, objectId, rawPayload, contentType] = data;
+    if (typeof eventName !== "string") return null;
+
+    let payload: any;
+    if (typeof contentType === "string") {
+      const codec =
+        codecs.forContentType(contentType) ??
+        DefaultEventCodecs.forContentType(contentType);
+      if (!codec) return null;
+      payload =
+        typeof rawPayload !== "string"
+          ? rawPayload
+          : codec.decode(codec.binary ? fromBase64(rawPayload) : rawPayload);
+    } else {
+      payload = Array.isArray(rawPayload)
+        ? rawPayload.map((item) => guessPayload(item))
+        : guessPayload(rawPayload);
+    }
+    return [eventName, String(operationKey), objectId, payload] as const;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * @description Formats the id of an SSE message
+ * @summary Events are numbered globally, and each connection only receives the ones it may see, so
+ * the id also names the previous event sent to the connection, as `<previous>-<id>`. Clients
+ * missing that previous event know they lost some.
+ * @param {number} id - The event id
+ * @param {number} [previous] - The id of the previous message of the connection
+ * @return {string} The message id
+ * @function formatEventId
+ * @memberOf module:for-http
+ */
+export function formatEventId(id: number, previous?: number): string {
+  return typeof previous === "number" ? `${previous}-${id}` : String(id);
+}
+
+/**
+ * @description Parses the id of an SSE message
+ * @summary Reads both the plain ids of older servers and the `<previous>-<id>` ones of
+ * {@link formatEventId}.
+ * @param {string} [value] - The message id, or the `Last-Event-ID` of a resuming client
+ * @return {{ id: number, previous?: number }|undefined} The ids, undefined when not numeric
+ * @function parseEventId
+ * @memberOf module:for-http
+ */
+export function parseEventId(
+  value?: string
+): { id: number; previous?: number } | undefined {
+  const match = /^(?:(\d+)-)?(\d+)$/.exec(value ?? "");
+  if (!match) return undefined;
+  return typeof match[1] === "undefined"
+    ? { id: Number(match[2]) }
+    : { id: Number(match[2]), previous: Number(match[1]) };
+}
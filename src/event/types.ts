@@ -1,5 +1,6 @@
 import { BulkCrudOperationKeys, OperationKeys } from "@decaf-ts/db-decorators";
 import { SseMessage } from "event-source-plus";
+import type { EventConnectionState } from "../constants";
 
 export type ServerEventType = "message" | "heartbeat" | string;
 
@@ -29,4 +30,6 @@ export type ServerEvent<T> = SingleServerEvent<T> | BulkServerEvent<T>;
 export type EventHandlers = {
   onEvent: ([tableName, operation, id]: ServerEvent<any>) => void;
   onError: (err: unknown) => void;
+  onResync?: (reason: string) => void;
+  onStateChange?: (state: EventConnectionState) => void;
 };
@@ -0,0 +1,7 @@
+/**
+ * @description Fetch adapter flavor identifier
+ * @summary Constant string identifier used to identify the platform fetch implementation of the HTTP adapter
+ * @const {string} FetchFlavour
+ * @memberOf module:for-http.fetch
+ */
+export const FetchFlavour = "fetch";
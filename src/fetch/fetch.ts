@@ -0,0 +1,392 @@
+import { HttpAdapter } from "../adapter";
+import {
+  HttpConfig,
+  HttpMethod,
+  HttpRequestOptions,
+  HttpRequestTransform,
+} from "../types";
+import { FetchFlags, FetchRequest, FetchResponse } from "./types";
+import { BaseError, OperationKeys } from "@decaf-ts/db-decorators";
+import {
+  Context,
+  MaybeContextualArg,
+  PreparedStatement,
+} from "@decaf-ts/core";
+import { FetchFlavour } from "./constants";
+import { Model } from "@decaf-ts/decorator-validation";
+import { Constructor } from "@decaf-ts/decoration";
+
+/**
+ * @description Platform fetch implementation of the HTTP adapter
+ * @summary Concrete implementation of HttpAdapter using the platform `fetch` as the HTTP client, for
+ * runtimes where Axios is undesirable (browsers, Deno, Bun, Node 18+). Every {@link HttpRequestOptions}
+ * field is mapped onto fetch: `timeout` and `signal` through an AbortSignal, `auth` as a Basic
+ * authorization header, `includeCredentials`/`withCredentials` as `credentials: "include"`, and
+ * `responseType`, `transformRequest`, `transformResponse` and `validateStatus` with Axios semantics.
+ * Responses are normalized into a {@link FetchResponse}, so prepared statements, bulk operations and
+ * interceptors such as {@link TaskInterceptor} behave exactly as with {@link AxiosHttpAdapter}.
+ * @template typeof fetch - The fetch function used as client
+ * @template FetchRequest - The fetch request description type
+ * @template FetchFlags - The flags type extending HttpFlags
+ * @template Context<FetchFlags> - The context type for this adapter
+ * @param {HttpConfig} config - Configuration for the HTTP adapter
+ * @param {string} [alias] - Optional alias for the adapter
+ * @class
+ * @example
+ * ```typescript
+ * import { FetchHttpAdapter } from '@decaf-ts/for-http/fetch';
+ *
+ * const config = { protocol: 'https', host: 'api.example.com' };
+ * const adapter = new FetchHttpAdapter(config);
+ *
+ * // Use the adapter with a repository
+ * const userRepo = adapter.getRepository(User);
+ * const user = await userRepo.findById('123');
+ * ```
+ * @mermaid
+ * sequenceDiagram
+ *   participant Client
+ *   participant FetchHttpAdapter
+ *   participant fetch
+ *   participant API
+ *
+ *   Client->>FetchHttpAdapter: read(table, id)
+ *   FetchHttpAdapter->>FetchHttpAdapter: toRequest("GET", url)
+ *   FetchHttpAdapter->>fetch: fetch(url, init)
+ *   fetch->>API: HTTP GET Request
+ *   API-->>fetch: Response
+ *   fetch-->>FetchHttpAdapter: Response
+ *   FetchHttpAdapter->>FetchHttpAdapter: toResponse(response)
+ *   FetchHttpAdapter-->>Client: Resource Data
+ */
+export class FetchHttpAdapter extends HttpAdapter<
+  HttpConfig,
+  typeof fetch,
+  FetchRequest,
+  PreparedStatement<any>,
+  Context<FetchFlags>
+> {
+  constructor(config: HttpConfig, alias?: string) {
+    super(config, FetchFlavour, alias);
+  }
+
+  protected override getClient(): typeof fetch {
+    if (typeof globalThis.fetch !== "function")
+      throw new Error("fetch is not available in this runtime");
+    return globalThis.fetch.bind(globalThis);
+  }
+
+  override toRequest(query: PreparedStatement<any>): FetchRequest;
+  override toRequest(ctx: Context<FetchFlags>): FetchRequest;
+  override toRequest(
+    query: PreparedStatement<any>,
+    ctx: Context<FetchFlags>
+  ): FetchRequest;
+  override toRequest(
+    method: HttpMethod,
+    url: string,
+    data?: unknown,
+    options?: HttpRequestOptions
+  ): FetchRequest;
+  override toRequest(
+    ctxOrQueryOrMethod:
+      Context<FetchFlags> | PreparedStatement<any> | HttpMethod,
+    ctxOrUrl?: Context<FetchFlags> | string,
+    data?: unknown,
+    options?: HttpRequestOptions
+  ): FetchRequest {
+    if (typeof ctxOrQueryOrMethod === "string") {
+      const req: FetchRequest = Object.assign(
+        {
+          method: ctxOrQueryOrMethod,
+          url: ctxOrUrl as string,
+        },
+        options || {}
+      );
+      if (typeof data !== "undefined") req.data = data;
+      return req;
+    }
+
+    let query: PreparedStatement<any> | undefined;
+    let context: Context<FetchFlags> | undefined;
+
+    if (ctxOrQueryOrMethod instanceof Context) {
+      context = ctxOrQueryOrMethod;
+      query = undefined;
+    } else {
+      query = ctxOrQueryOrMethod;
+      context = ctxOrUrl as Context<FetchFlags> | undefined;
+    }
+
+    const req: FetchRequest = {};
+    if (context)
+      req.headers = { ...(req.headers || {}), ...this.toHeaders(context) };
+
+    if (query) {
+      req.method = "GET";
+      req.url = this.statementUrl(query);
+    }
+    return req;
+  }
+
+  /**
+   * @description Sends an HTTP request using the platform fetch
+   * @summary Implementation of the abstract request method from HttpAdapter. Merges the context
+   * headers into the request, translates it into a `RequestInit` and normalizes the platform
+   * `Response` into a {@link FetchResponse}. Like Axios without a `validateStatus`, every status
+   * resolves; when `validateStatus` rejects a status an error carrying the response is thrown.
+   * @template V - The response value type
+   * @param {FetchRequest} details - The request description
+   * @return {Promise<V>} A promise that resolves with the normalized response
+   */
+  override async request<V>(
+    details: FetchRequest,
+    ...args: MaybeContextualArg<Context<FetchFlags>>
+  ): Promise<V> {
+    let overrides: FetchRequest = {};
+    try {
+      const { ctx } = this.logCtx(args, this.request);
+      overrides = this.toRequest(ctx);
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    } catch (e: unknown) {
+      // do nothing
+    }
+
+    const req: FetchRequest = Object.assign({}, details, overrides, {
+      headers: Object.assign(
+        {},
+        details.headers || {},
+        overrides.headers || {}
+      ),
+    });
+    const headers = this.toFetchHeaders(req);
+    const body = this.toFetchBody(req, headers);
+
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(req.signal?.reason);
+    if (req.signal?.aborted) onAbort();
+    else req.signal?.addEventListener("abort", onAbort, { once: true });
+    const timer = req.timeout
+      ? setTimeout(
+          () =>
+            controller.abort(
+              Object.assign(new Error(`timeout of ${req.timeout}ms exceeded`), {
+                name: "TimeoutError",
+                code: "ECONNABORTED",
+              })
+            ),
+          req.timeout
+        )
+      : undefined;
+
+    try {
+      const init: RequestInit = {
+        method: req.method || "GET",
+        headers,
+        signal: controller.signal,
+      };
+      if (typeof body !== "undefined") init.body = body;
+      if (req.includeCredentials || req.withCredentials)
+        init.credentials = "include";
+
+      let native: Response;
+      try {
+        native = await this.client(this.toFetchUrl(req), init);
+      } catch (e: unknown) {
+        throw controller.signal.aborted &&
+          controller.signal.reason instanceof Error
+          ? controller.signal.reason
+          : e;
+      }
+      if (req.onUploadProgress && typeof body !== "undefined") {
+        const size = this.bodySize(body);
+        req.onUploadProgress({ loaded: size, total: size, progress: 1 });
+      }
+      const response = await this.toResponse(native, req);
+      if (req.validateStatus && !req.validateStatus(response.status))
+        throw Object.assign(
+          new Error(`Request failed with status code ${response.status}`),
+          { status: response.status, response }
+        );
+      return response as V;
+    } finally {
+      if (timer) clearTimeout(timer);
+      req.signal?.removeEventListener("abort", onAbort);
+    }
+  }
+
+  /**
+   * @description Resolves the absolute url of a request
+   * @summary Relative urls are appended to `baseURL`, defaulting to the configured protocol and
+   * host, as Axios does. `params` are appended to the query string.
+   * @param {FetchRequest} req - The request description
+   * @return {string} The absolute url
+   */
+  protected toFetchUrl(req: FetchRequest): string {
+    const base = req.baseURL || `${this.config.protocol}://${this.config.host}`;
+    const target = req.url || "";
+    const url = new URL(
+      /^[a-z][a-z\d+\-.]*:\/\//i.test(target)
+        ? target
+        : `${base.replace(/\/+$/, "")}/${target.replace(/^\/+/, "")}`
+    );
+    if (req.params)
+      Object.entries(req.params).forEach(([key, value]) => {
+        if (Array.isArray(value)) {
+          value.forEach((v) => url.searchParams.append(key, String(v)));
+        } else if (value !== null && typeof value === "object") {
+          url.searchParams.append(key, JSON.stringify(value));
+        } else if (typeof value !== "undefined" && value !== null) {
+          url.searchParams.append(key, String(value));
+        }
+      });
+    return url.toString();
+  }
+
+  /**
+   * @description Builds the request headers
+   * @summary Drops undefined values and adds a Basic authorization header from `auth`.
+   * @param {FetchRequest} req - The request description
+   * @return {Record<string, string>} The request headers
+   */
+  protected toFetchHeaders(req: FetchRequest): Record<string, string> {
+    const headers: Record<string, string> = {};
+    Object.entries(req.headers || {}).forEach(([key, value]) => {
+      if (typeof value !== "undefined" && value !== null)
+        headers[key] = String(value);
+    });
+    if (req.auth)
+      headers["Authorization"] =
+        `Basic ${btoa(`${req.auth.username}:${req.auth.password}`)}`;
+    return headers;
+  }
+
+  /**
+   * @description Builds the request body
+   * @summary Runs `transformRequest` over the payload, then serializes plain objects as JSON,
+   * setting the content type when none was given.
+   * @param {FetchRequest} req - The request description
+   * @param {Record<string, string>} headers - The request headers, updated in place
+   * @return {RequestInit["body"]|undefined} The request body
+   */
+  protected toFetchBody(
+    req: FetchRequest,
+    headers: Record<string, string>
+  ): RequestInit["body"] | undefined {
+    const data = this.transform(req.transformRequest, req.data, headers);
+    if (typeof data === "undefined" || data === null) return undefined;
+    if (
+      typeof data === "string" ||
+      data instanceof ArrayBuffer ||
+      ArrayBuffer.isView(data) ||
+      (typeof Blob !== "undefined" && data instanceof Blob) ||
+      (typeof FormData !== "undefined" && data instanceof FormData) ||
+      (typeof URLSearchParams !== "undefined" &&
+        data instanceof URLSearchParams) ||
+      (typeof ReadableStream !== "undefined" && data instanceof ReadableStream)
+    )
+      return data as RequestInit["body"];
+    if (!Object.keys(headers).some((h) => h.toLowerCase() === "content-type"))
+      headers["Content-Type"] = "application/json";
+    return JSON.stringify(data);
+  }
+
+  /**
+   * @description Measures a request body
+   * @summary Fetch does not report upload progress, so `onUploadProgress` is called once the body
+   * was sent, with its size. Form data is measured by its entries, without the multipart framing;
+   * streams can not be measured and count as empty.
+   * @param {RequestInit["body"]} body - The request body
+   * @return {number} The size in bytes
+   */
+  protected bodySize(body: RequestInit["body"]): number {
+    if (typeof body === "string") return new TextEncoder().encode(body).length;
+    if (body instanceof ArrayBuffer || ArrayBuffer.isView(body))
+      return body.byteLength;
+    if (typeof Blob !== "undefined" && body instanceof Blob) return body.size;
+    if (
+      typeof URLSearchParams !== "undefined" &&
+      body instanceof URLSearchParams
+    )
+      return this.bodySize(body.toString());
+    if (typeof FormData !== "undefined" && body instanceof FormData) {
+      let size = 0;
+      body.forEach((value) => {
+        size += this.bodySize(value as string | Blob);
+      });
+      return size;
+    }
+    return 0;
+  }
+
+  /**
+   * @description Normalizes a platform response
+   * @summary Reads the body according to `responseType` (text by default, leaving JSON parsing to
+   * the shared response handling) and runs `transformResponse` over it.
+   * @param {Response} native - The platform response
+   * @param {FetchRequest} req - The request description
+   * @return {Promise<FetchResponse>} The normalized response
+   */
+  protected async toResponse(
+    native: Response,
+    req: FetchRequest
+  ): Promise<FetchResponse> {
+    const headers: Record<string, string> = {};
+    native.headers.forEach((value, key) => {
+      headers[key.toLowerCase()] = value;
+    });
+    let data: any;
+    switch (req.responseType) {
+      case "arraybuffer":
+        data = await native.arrayBuffer();
+        break;
+      case "blob":
+        data = await native.blob();
+        break;
+      case "stream":
+        data = native.body;
+        break;
+      case "json": {
+        const text = await native.text();
+        try {
+          data = text ? JSON.parse(text) : undefined;
+        } catch {
+          data = text;
+        }
+        break;
+      }
+      default:
+        data = await native.text();
+    }
+    return {
+      status: native.status,
+      statusText: native.statusText,
+      headers,
+      data: this.transform(req.transformResponse, data, headers),
+    };
+  }
+
+  private transform(
+    transforms: HttpRequestTransform | HttpRequestTransform[] | undefined,
+    data: any,
+    headers: Record<string, string>
+  ): any {
+    if (!transforms) return data;
+    return (Array.isArray(transforms) ? transforms : [transforms]).reduce(
+      (acc, fn) => fn(acc, headers),
+      data
+    );
+  }
+
+  override parseResponse<M extends Model>(
+    clazz: Constructor<M>,
+    method: OperationKeys | string,
+    res: any
+  ): any {
+    return this.parseHttpResponse(clazz, method, res);
+  }
+
+  override parseError<E extends BaseError>(err: Error, ...args: any[]): E {
+    return HttpAdapter.parseError(err, ...args);
+  }
+}
@@ -0,0 +1,15 @@
+import { FetchHttpAdapter } from "./fetch";
+
+/**
+ * @description Platform fetch HTTP client module
+ * @summary Provides {@link FetchHttpAdapter}, an HttpAdapter flavour built on the platform `fetch`
+ * so browsers, Deno, Bun and Node 18+ can use the adapter without Axios.
+ * @namespace fetch
+ * @memberOf module:for-http
+ */
+
+FetchHttpAdapter.decoration();
+
+export * from "./fetch";
+export * from "./constants";
+export * from "./types";
@@ -0,0 +1,44 @@
+import { HttpFlags, HttpMethod, HttpRequestOptions } from "../types";
+
+/**
+ * @description Fetch-specific HTTP flags type
+ * @summary Type alias for HttpFlags used specifically with the fetch adapter implementation
+ * @typedef {HttpFlags} FetchFlags
+ * @memberOf module:for-http.fetch
+ */
+export type FetchFlags = HttpFlags;
+
+/**
+ * @description Request description handled by the fetch adapter
+ * @summary Mirrors the Axios request config: the generic {@link HttpRequestOptions} plus the target,
+ * method and payload. It is translated into a `RequestInit` right before calling fetch.
+ * @interface FetchRequest
+ * @property {string} [url] - The request url, relative to `baseURL` unless absolute
+ * @property {HttpMethod} [method] - The HTTP method, defaults to GET
+ * @property {unknown} [data] - The request payload
+ * @memberOf module:for-http.fetch
+ */
+export interface FetchRequest extends HttpRequestOptions {
+  url?: string;
+  method?: HttpMethod;
+  data?: unknown;
+}
+
+/**
+ * @description Response produced by the fetch adapter
+ * @summary Normalized view over the platform `Response`, shaped like the Axios response so the
+ * shared response parsing and response parsers work for both flavours. Header names are lower-cased.
+ * @interface FetchResponse
+ * @template T - The payload type
+ * @property {number} status - The HTTP status code
+ * @property {string} statusText - The HTTP status text
+ * @property {Record<string, string>} headers - The response headers
+ * @property {T} data - The payload, read according to the request's `responseType`
+ * @memberOf module:for-http.fetch
+ */
+export interface FetchResponse<T = any> {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  data: T;
+}
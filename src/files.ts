@@ -0,0 +1,116 @@
+import { readChunks, StreamBody } from "./streams";
+import { HttpFileData, HttpProgressEvent } from "./types";
+
+type BlobParts = NonNullable<ConstructorParameters<typeof Blob>[0]>;
+
+function isStream(data: unknown): data is StreamBody {
+  return (
+    !!data &&
+    typeof data === "object" &&
+    (typeof (data as ReadableStream).getReader === "function" ||
+      typeof (data as AsyncIterable<unknown>)[Symbol.asyncIterator] ===
+        "function")
+  );
+}
+
+function toBytes(chunk: Uint8Array | string): Uint8Array {
+  return typeof chunk === "string" ? new TextEncoder().encode(chunk) : chunk;
+}
+
+/**
+ * @description Converts file content into a Blob
+ * @summary Streams are read whole. Blobs are kept as they are unless another type is requested.
+ * @param {HttpFileData} data - The file content
+ * @param {string} [type] - The MIME type
+ * @param {AbortSignal} [signal] - Stops reading streams when aborted
+ * @return {Promise<Blob>} The content as a Blob
+ * @function toBlob
+ * @memberOf module:for-http
+ */
+export async function toBlob(
+  data: HttpFileData,
+  type?: string,
+  signal?: AbortSignal
+): Promise<Blob> {
+  if (data instanceof Blob)
+    return !type || data.type === type ? data : new Blob([data], { type });
+  const options = type ? { type } : undefined;
+  if (!isStream(data)) return new Blob([data] as BlobParts, options);
+  const parts: Uint8Array[] = [];
+  for await (const chunk of readChunks(data, signal))
+    parts.push(toBytes(chunk));
+  return new Blob(parts as BlobParts, options);
+}
+
+/**
+ * @description Reads the file name of a `Content-Disposition` header
+ * @summary Prefers the RFC 5987 `filename*` parameter over the plain `filename`.
+ * @param {string} [header] - The header value
+ * @return {string|undefined} The file name, when present
+ * @function dispositionFilename
+ * @memberOf module:for-http
+ */
+export function dispositionFilename(header?: string): string | undefined {
+  if (!header) return undefined;
+  const extended = header.match(/filename\*\s*=\s*([^;]+)/i);
+  if (extended) {
+    const value = extended[1].trim().replace(/^"|"$/g, "");
+    const encoded = value.replace(/^[\w-]*'[^']*'/, "");
+    try {
+      return decodeURIComponent(encoded);
+    } catch {
+      return encoded;
+    }
+  }
+  const plain = header.match(/filename\s*=\s*("(?:[^"\\]|\\.)*"|[^;]+)/i);
+  if (!plain) return undefined;
+  return plain[1].trim().replace(/^"|"$/g, "").replace(/\\(.)/g, "$1");
+}
+
+/**
+ * @description Parses a `Content-Range` response header
+ * @param {string} [header] - The header value, e.g. `bytes 0-99/1000`
+ * @return {Object|undefined} The inclusive byte range and the total size, when known
+ * @function parseContentRange
+ * @memberOf module:for-http
+ */
+export function parseContentRange(
+  header?: string
+): { start: number; end: number; total?: number } | undefined {
+  const match = header?.match(/^\s*bytes\s+(\d+)-(\d+)\/(\d+|\*)\s*$/i);
+  if (!match) return undefined;
+  return {
+    start: Number(match[1]),
+    end: Number(match[2]),
+    total: match[3] === "*" ? undefined : Number(match[3]),
+  };
+}
+
+/**
+ * @description Reads the bytes of a streamed body, reporting the progress
+ * @param {StreamBody} body - The body
+ * @param {Function} [onProgress] - Called after every chunk
+ * @param {number} [total] - The expected size in bytes
+ * @param {AbortSignal} [signal] - Optional cancellation signal
+ * @return {AsyncGenerator<Uint8Array>} The chunks
+ * @function readProgress
+ * @memberOf module:for-http
+ */
+export async function* readProgress(
+  body: StreamBody,
+  onProgress?: (event: HttpProgressEvent) => void,
+  total?: number,
+  signal?: AbortSignal
+): AsyncGenerator<Uint8Array> {
+  let loaded = 0;
+  for await (const chunk of readChunks(body, signal)) {
+    const bytes = toBytes(chunk);
+    loaded += bytes.byteLength;
+    onProgress?.({
+      loaded,
+      total,
+      progress: total ? Math.min(loaded / total, 1) : undefined,
+    });
+    yield bytes;
+  }
+}
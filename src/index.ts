@@ -10,12 +10,34 @@ import { Metadata } from "@decaf-ts/decoration";
  * @module for-http
  */
 export * from "./axios";
+export * from "./fetch";
 export * from "./adapter";
+export * from "./batch";
+export * from "./bulk";
+export * from "./cache";
+export * from "./cbor";
+export * from "./chunking";
+export * from "./codecs";
+export * from "./compression";
 export * from "./constants";
+export * from "./credentials";
+export * from "./errors";
 export * from "./HttpPaginator";
 export * from "./HttpStatement";
+export * from "./interceptors";
+export * from "./msgpack";
+export * from "./offline";
+export * from "./parsers";
+export * from "./patch";
+export * from "./projection";
+export * from "./query";
+export * from "./relations";
+export * from "./ndjson";
+export * from "./streams";
+export * from "./files";
 export * from "./RestRepository";
 export * from "./RestService";
+export * from "./retry";
 export * from "./types";
 export * from "./event";
 
@@ -0,0 +1,72 @@
+import { Context } from "@decaf-ts/core";
+import { DecafHeaders } from "./constants";
+import { headerValue } from "./retry";
+import {
+  HttpFlags,
+  HttpInterceptedRequest,
+  HttpInterceptedResponse,
+  HttpInterceptor,
+  ResponseParser,
+} from "./types";
+
+/**
+ * @description Collects pending tasks announced by the server
+ * @summary Response interceptor that reads the {@link DecafHeaders.PENDING_TASK} header and pushes
+ * every announced task onto the context, so callers can await them. Works with any flavour whose
+ * response exposes its headers as a plain record or a `Headers`-like object.
+ * @const TaskInterceptor
+ * @memberOf module:for-http
+ */
+export const TaskInterceptor: HttpInterceptor = {
+  response(
+    res: HttpInterceptedResponse,
+    req: HttpInterceptedRequest,
+    ctx: Context<HttpFlags>
+  ) {
+    const header = headerValue(res?.headers, DecafHeaders.PENDING_TASK);
+    if (!header) return;
+    try {
+      const pending: Record<string, string[]> = JSON.parse(header);
+      Object.entries(pending).forEach(([key, value]) => {
+        value.forEach((v) => ctx.pushPending(key, v));
+      });
+    } catch (e: unknown) {
+      ctx.logger
+        .for("TaskInterceptor")
+        .error(`Failed to parse pending tasks header ${header}: ${e}`);
+    }
+  },
+};
+
+/**
+ * @description Adapts a {@link ResponseParser} to the interceptor pipeline
+ * @summary The parser observes every response and leaves it unchanged.
+ * @param {ResponseParser} parser - The response parser
+ * @return {HttpInterceptor} A response interceptor calling the parser
+ * @function parserInterceptor
+ * @memberOf module:for-http
+ */
+export function parserInterceptor(parser: ResponseParser): HttpInterceptor {
+  return {
+    response(
+      res: HttpInterceptedResponse,
+      req: HttpInterceptedRequest,
+      ctx: Context<HttpFlags>
+    ) {
+      parser(res, ctx);
+    },
+  };
+}
+
+/**
+ * @description Tells a response returned by a request hook apart from a modified request
+ * @param {HttpInterceptedRequest|HttpInterceptedResponse} value - The value returned by the hook
+ * @return {boolean} Whether the value is a response
+ * @function isInterceptedResponse
+ * @memberOf module:for-http
+ */
+export function isInterceptedResponse(
+  value: HttpInterceptedRequest | HttpInterceptedResponse
+): value is HttpInterceptedResponse {
+  return typeof (value as HttpInterceptedResponse)?.status === "number";
+}
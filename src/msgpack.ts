@@ -0,0 +1,380 @@
+import { SerializationError } from "@decaf-ts/db-decorators";
+
+const TimestampType = -1;
+const MaxUint64 = (BigInt(1) << BigInt(64)) - BigInt(1);
+const MinInt64 = -(BigInt(1) << BigInt(63));
+
+class Writer {
+  private buffer = new Uint8Array(256);
+  private view = new DataView(this.buffer.buffer);
+  private length = 0;
+
+  private reserve(size: number) {
+    if (this.length + size <= this.buffer.length) return;
+    let capacity = this.buffer.length * 2;
+    while (capacity < this.length + size) capacity *= 2;
+    const next = new Uint8Array(capacity);
+    next.set(this.buffer.subarray(0, this.length));
+    this.buffer = next;
+    this.view = new DataView(next.buffer);
+  }
+
+  byte(value: number) {
+    this.reserve(1);
+    this.buffer[this.length++] = value;
+  }
+
+  bytes(value: Uint8Array) {
+    this.reserve(value.length);
+    this.buffer.set(value, this.length);
+    this.length += value.length;
+  }
+
+  uint(value: number, size: 1 | 2 | 4) {
+    this.reserve(size);
+    if (size === 1) this.view.setUint8(this.length, value);
+    else if (size === 2) this.view.setUint16(this.length, value);
+    else this.view.setUint32(this.length, value);
+    this.length += size;
+  }
+
+  int(value: number, size: 1 | 2 | 4) {
+    this.reserve(size);
+    if (size === 1) this.view.setInt8(this.length, value);
+    else if (size === 2) this.view.setInt16(this.length, value);
+    else this.view.setInt32(this.length, value);
+    this.length += size;
+  }
+
+  bigint(value: bigint, signed: boolean) {
+    this.reserve(8);
+    if (signed) this.view.setBigInt64(this.length, value);
+    else this.view.setBigUint64(this.length, value);
+    this.length += 8;
+  }
+
+  float(value: number) {
+    this.reserve(8);
+    this.view.setFloat64(this.length, value);
+    this.length += 8;
+  }
+
+  result(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+}
+
+function writeLength(
+  writer: Writer,
+  length: number,
+  fix: [number, number] | undefined,
+  codes: [number, number, number]
+) {
+  if (fix && length < fix[1]) return writer.byte(fix[0] | length);
+  if (codes[0] && length < 0x100) {
+    writer.byte(codes[0]);
+    return writer.uint(length, 1);
+  }
+  if (length < 0x10000) {
+    writer.byte(codes[1]);
+    return writer.uint(length, 2);
+  }
+  writer.byte(codes[2]);
+  writer.uint(length, 4);
+}
+
+function writeNumber(writer: Writer, value: number) {
+  if (!Number.isInteger(value) || value > 0xffffffff || value < -0x80000000) {
+    writer.byte(0xcb);
+    return writer.float(value);
+  }
+  if (value >= 0 ? value < 0x80 : value >= -32)
+    return writer.byte(value & 0xff);
+  const size: 1 | 2 | 4 =
+    value >= 0
+      ? value < 0x100
+        ? 1
+        : value < 0x10000
+          ? 2
+          : 4
+      : value >= -0x80
+        ? 1
+        : value >= -0x8000
+          ? 2
+          : 4;
+  const codes = value >= 0 ? [0xcc, 0xcd, 0, 0xce] : [0xd0, 0xd1, 0, 0xd2];
+  writer.byte(codes[size - 1]);
+  if (value >= 0) writer.uint(value, size);
+  else writer.int(value, size);
+}
+
+function writeValue(writer: Writer, value: unknown, depth: number) {
+  if (depth > 512)
+    throw new SerializationError(`Value is nested too deeply to encode`);
+  if (value === null || typeof value === "undefined") return writer.byte(0xc0);
+  switch (typeof value) {
+    case "boolean":
+      return writer.byte(value ? 0xc3 : 0xc2);
+    case "number":
+      return writeNumber(writer, value);
+    case "bigint":
+      if (value > MaxUint64 || value < MinInt64)
+        throw new SerializationError(`${value} does not fit in 64 bits`);
+      writer.byte(value < BigInt(0) ? 0xd3 : 0xcf);
+      return writer.bigint(value, value < BigInt(0));
+    case "string": {
+      const bytes = new TextEncoder().encode(value);
+      writeLength(writer, bytes.length, [0xa0, 32], [0xd9, 0xda, 0xdb]);
+      return writer.bytes(bytes);
+    }
+    case "object":
+      break;
+    default:
+      throw new SerializationError(`Can not encode ${typeof value} values`);
+  }
+  if (value instanceof Date) {
+    const time = value.getTime();
+    const seconds = Math.floor(time / 1000);
+    writer.byte(0xc7);
+    writer.uint(12, 1);
+    writer.int(TimestampType, 1);
+    writer.uint((time - seconds * 1000) * 1e6, 4);
+    return writer.bigint(BigInt(seconds), true);
+  }
+  if (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) {
+    const bytes =
+      value instanceof ArrayBuffer
+        ? new Uint8Array(value)
+        : new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+    writeLength(writer, bytes.length, undefined, [0xc4, 0xc5, 0xc6]);
+    return writer.bytes(bytes);
+  }
+  if (Array.isArray(value)) {
+    writeLength(writer, value.length, [0x90, 16], [0, 0xdc, 0xdd]);
+    return value.forEach((item) => writeValue(writer, item, depth + 1));
+  }
+  if (typeof (value as { toJSON?: unknown }).toJSON === "function")
+    return writeValue(writer, (value as { toJSON(): unknown }).toJSON(), depth);
+  const entries = Object.entries(value as object).filter(
+    ([, item]) => typeof item !== "undefined" && typeof item !== "function"
+  );
+  writeLength(writer, entries.length, [0x80, 16], [0, 0xde, 0xdf]);
+  entries.forEach(([key, item]) => {
+    writeValue(writer, key, depth + 1);
+    writeValue(writer, item, depth + 1);
+  });
+}
+
+/**
+ * @description Encodes a value as MessagePack
+ * @summary Dates use the timestamp extension, BigInts the 64 bit integer formats, typed arrays the
+ * bin formats. Other objects are encoded like `JSON.stringify` would: through `toJSON` when defined,
+ * skipping undefined and function properties.
+ * @param {unknown} value - The value
+ * @return {Uint8Array} The encoded bytes
+ * @throws {SerializationError} For symbols, functions and BigInts outside 64 bits
+ * @function encodeMessagePack
+ * @memberOf module:for-http
+ */
+export function encodeMessagePack(value: unknown): Uint8Array {
+  const writer = new Writer();
+  writeValue(writer, value, 0);
+  return writer.result();
+}
+
+class Reader {
+  private offset = 0;
+  private readonly view: DataView;
+
+  constructor(private readonly data: Uint8Array) {
+    this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  }
+
+  get done(): boolean {
+    return this.offset >= this.data.length;
+  }
+
+  private take(size: number): number {
+    if (this.offset + size > this.data.length)
+      throw new SerializationError(`Unexpected end of MessagePack data`);
+    const at = this.offset;
+    this.offset += size;
+    return at;
+  }
+
+  uint(size: 1 | 2 | 4): number {
+    const at = this.take(size);
+    if (size === 1) return this.view.getUint8(at);
+    if (size === 2) return this.view.getUint16(at);
+    return this.view.getUint32(at);
+  }
+
+  int(size: 1 | 2 | 4): number {
+    const at = this.take(size);
+    if (size === 1) return this.view.getInt8(at);
+    if (size === 2) return this.view.getInt16(at);
+    return this.view.getInt32(at);
+  }
+
+  bigint(signed: boolean): bigint {
+    const at = this.take(8);
+    return signed ? this.view.getBigInt64(at) : this.view.getBigUint64(at);
+  }
+
+  float(size: 4 | 8): number {
+    const at = this.take(size);
+    return size === 4 ? this.view.getFloat32(at) : this.view.getFloat64(at);
+  }
+
+  bytes(size: number): Uint8Array {
+    const at = this.take(size);
+    return this.data.slice(at, at + size);
+  }
+}
+
+function readTimestamp(data: Uint8Array): Date {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  switch (data.length) {
+    case 4:
+      return new Date(view.getUint32(0) * 1000);
+    case 8: {
+      const high = view.getUint32(0);
+      const seconds = (high & 0x3) * 0x100000000 + view.getUint32(4);
+      return new Date(seconds * 1000 + Math.floor(high / 4 / 1e6));
+    }
+    case 12:
+      return new Date(
+        Number(view.getBigInt64(4)) * 1000 + Math.floor(view.getUint32(0) / 1e6)
+      );
+    default:
+      throw new SerializationError(`Invalid MessagePack timestamp`);
+  }
+}
+
+function readExtension(reader: Reader, size: number): unknown {
+  const type = reader.int(1);
+  const data = reader.bytes(size);
+  if (type === TimestampType) return readTimestamp(data);
+  throw new SerializationError(`Unsupported MessagePack extension ${type}`);
+}
+
+function readString(reader: Reader, size: number): string {
+  return new TextDecoder().decode(reader.bytes(size));
+}
+
+function readArray(reader: Reader, size: number, depth: number): unknown[] {
+  const items: unknown[] = [];
+  for (let i = 0; i < size; i++) items.push(readValue(reader, depth + 1));
+  return items;
+}
+
+function readMap(
+  reader: Reader,
+  size: number,
+  depth: number
+): Record<string, unknown> {
+  const map: Record<string, unknown> = {};
+  for (let i = 0; i < size; i++) {
+    const key = String(readValue(reader, depth + 1));
+    const value = readValue(reader, depth + 1);
+    if (key === "__proto__") continue;
+    map[key] = value;
+  }
+  return map;
+}
+
+function readValue(reader: Reader, depth: number): unknown {
+  if (depth > 512)
+    throw new SerializationError(`MessagePack data is nested too deeply`);
+  const code = reader.uint(1);
+  if (code < 0x80) return code;
+  if (code < 0x90) return readMap(reader, code & 0x0f, depth);
+  if (code < 0xa0) return readArray(reader, code & 0x0f, depth);
+  if (code < 0xc0) return readString(reader, code & 0x1f);
+  if (code >= 0xe0) return code - 0x100;
+  switch (code) {
+    case 0xc0:
+      return null;
+    case 0xc2:
+      return false;
+    case 0xc3:
+      return true;
+    case 0xc4:
+      return reader.bytes(reader.uint(1));
+    case 0xc5:
+      return reader.bytes(reader.uint(2));
+    case 0xc6:
+      return reader.bytes(reader.uint(4));
+    case 0xc7:
+      return readExtension(reader, reader.uint(1));
+    case 0xc8:
+      return readExtension(reader, reader.uint(2));
+    case 0xc9:
+      return readExtension(reader, reader.uint(4));
+    case 0xca:
+      return reader.float(4);
+    case 0xcb:
+      return reader.float(8);
+    case 0xcc:
+      return reader.uint(1);
+    case 0xcd:
+      return reader.uint(2);
+    case 0xce:
+      return reader.uint(4);
+    case 0xcf:
+      return reader.bigint(false);
+    case 0xd0:
+      return reader.int(1);
+    case 0xd1:
+      return reader.int(2);
+    case 0xd2:
+      return reader.int(4);
+    case 0xd3:
+      return reader.bigint(true);
+    case 0xd4:
+      return readExtension(reader, 1);
+    case 0xd5:
+      return readExtension(reader, 2);
+    case 0xd6:
+      return readExtension(reader, 4);
+    case 0xd7:
+      return readExtension(reader, 8);
+    case 0xd8:
+      return readExtension(reader, 16);
+    case 0xd9:
+      return readString(reader, reader.uint(1));
+    case 0xda:
+      return readString(reader, reader.uint(2));
+    case 0xdb:
+      return readString(reader, reader.uint(4));
+    case 0xdc:
+      return readArray(reader, reader.uint(2), depth);
+    case 0xdd:
+      return readArray(reader, reader.uint(4), depth);
+    case 0xde:
+      return readMap(reader, reader.uint(2), depth);
+    case 0xdf:
+      return readMap(reader, reader.uint(4), depth);
+    default:
+      throw new SerializationError(
+        `Invalid MessagePack code 0x${code.toString(16)}`
+      );
+  }
+}
+
+/**
+ * @description Decodes a MessagePack value
+ * @summary Timestamps become Dates, 64 bit integers BigInts and bin values Uint8Arrays.
+ * @param {Uint8Array} bytes - The encoded bytes
+ * @return {unknown} The value
+ * @throws {SerializationError} When the data is malformed or uses an unknown extension
+ * @function decodeMessagePack
+ * @memberOf module:for-http
+ */
+export function decodeMessagePack(bytes: Uint8Array): unknown {
+  const reader = new Reader(bytes);
+  const value = readValue(reader, 0);
+  if (!reader.done)
+    throw new SerializationError(`Unexpected data after the MessagePack value`);
+  return value;
+}
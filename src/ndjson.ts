@@ -0,0 +1,44 @@
+import { SerializationError } from "@decaf-ts/db-decorators";
+import { readChunks, StreamBody } from "./streams";
+
+function parseLine<T>(line: string): T {
+  try {
+    return JSON.parse(line);
+  } catch (e: unknown) {
+    throw new SerializationError(
+      `Invalid NDJSON line: ${(e as Error).message}`
+    );
+  }
+}
+
+/**
+ * @description Reads the values of a newline delimited JSON body as they arrive
+ * @summary Chunks are only read when the next value is requested, so a slow consumer holds the
+ * producer back. Stopping the iteration early or aborting `signal` releases the body; aborting
+ * rejects the pending read with the abort reason.
+ * @template T - The value type
+ * @param {StreamBody} body - The response body
+ * @param {AbortSignal} [signal] - Optional cancellation signal
+ * @return {AsyncGenerator<T>} The parsed lines, blank lines skipped
+ * @throws {SerializationError} When a line is not valid JSON
+ * @function readNdjson
+ * @memberOf module:for-http
+ */
+export async function* readNdjson<T = unknown>(
+  body: StreamBody,
+  signal?: AbortSignal
+): AsyncGenerator<T> {
+  const decoder = new TextDecoder();
+  let buffer = "";
+  for await (const chunk of readChunks(body, signal)) {
+    buffer +=
+      typeof chunk === "string"
+        ? chunk
+        : decoder.decode(chunk, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() as string;
+    for (const line of lines) if (line.trim()) yield parseLine<T>(line);
+  }
+  buffer += decoder.decode();
+  if (buffer.trim()) yield parseLine<T>(buffer);
+}
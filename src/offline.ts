@@ -0,0 +1,376 @@
+import { DefaultOfflineConfig } from "./constants";
+import {
+  HttpConfig,
+  OfflineConfig,
+  OfflineMutation,
+  OfflineQueueStorage,
+} from "./types";
+
+/**
+ * @description In-memory {@link OfflineQueueStorage}
+ * @summary Default queue storage, scoped to a single adapter instance. Queued mutations are lost
+ * when the process ends.
+ * @class MemoryQueueStorage
+ * @implements OfflineQueueStorage
+ * @memberOf module:for-http
+ */
+export class MemoryQueueStorage implements OfflineQueueStorage {
+  private mutations: OfflineMutation[] = [];
+
+  all(): OfflineMutation[] {
+    return this.mutations.map((m) => Object.assign({}, m));
+  }
+
+  push(mutation: OfflineMutation): void {
+    this.mutations.push(Object.assign({}, mutation));
+  }
+
+  update(mutation: OfflineMutation): void {
+    const index = this.mutations.findIndex((m) => m.id === mutation.id);
+    if (index !== -1) this.mutations[index] = Object.assign({}, mutation);
+  }
+
+  remove(id: string): void {
+    this.mutations = this.mutations.filter((m) => m.id !== id);
+  }
+
+  clear(): void {
+    this.mutations = [];
+  }
+}
+
+/**
+ * @description Minimal key-value store contract
+ * @summary Matches `localStorage`/`sessionStorage` and async stores with the same methods, such as
+ * localForage over IndexedDB.
+ * @interface KeyValueStore
+ * @memberOf module:for-http
+ */
+export interface KeyValueStore {
+  getItem(
+    key: string
+  ): string | null | undefined | Promise<string | null | undefined>;
+  setItem(key: string, value: string): void | Promise<void>;
+  removeItem(key: string): void | Promise<void>;
+}
+
+const BinaryMarker = "$base64";
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000)
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+}
+
+function fromBase64(value: string): ArrayBuffer {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes.buffer;
+}
+
+function serializeMutation(mutation: OfflineMutation): OfflineMutation {
+  const data = mutation.data;
+  if (!(data instanceof ArrayBuffer) && !ArrayBuffer.isView(data))
+    return mutation;
+  const bytes =
+    data instanceof ArrayBuffer
+      ? new Uint8Array(data)
+      : new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+  return Object.assign({}, mutation, {
+    data: { [BinaryMarker]: toBase64(bytes) },
+  });
+}
+
+function deserializeMutation(mutation: OfflineMutation): OfflineMutation {
+  const data = mutation.data as Record<string, unknown> | undefined;
+  if (
+    !data ||
+    typeof data !== "object" ||
+    typeof data[BinaryMarker] !== "string" ||
+    Object.keys(data).length !== 1
+  )
+    return mutation;
+  return Object.assign({}, mutation, {
+    data: fromBase64(data[BinaryMarker] as string),
+  });
+}
+
+/**
+ * @description Base {@link OfflineQueueStorage} persisting the whole queue as one JSON document
+ * @summary Subclasses only read and write the serialized queue. Operations are serialized so
+ * concurrent updates never overwrite each other. Binary payloads, e.g. bodies encoded by a
+ * MessagePack or CBOR codec, are stored base64 encoded and read back as an `ArrayBuffer`.
+ * @class SerializedQueueStorage
+ * @implements OfflineQueueStorage
+ * @memberOf module:for-http
+ */
+export abstract class SerializedQueueStorage implements OfflineQueueStorage {
+  private pending: Promise<unknown> = Promise.resolve();
+
+  /**
+   * @description Reads the serialized queue
+   * @return {Promise<string|undefined>} The JSON document, when the queue was ever written
+   */
+  protected abstract read(): Promise<string | null | undefined>;
+
+  /**
+   * @description Writes the serialized queue
+   * @param {string} value - The JSON document
+   * @return {Promise<void>}
+   */
+  protected abstract write(value: string): Promise<void>;
+
+  async all(): Promise<OfflineMutation[]> {
+    return this.exclusive(() => this.load());
+  }
+
+  async push(mutation: OfflineMutation): Promise<void> {
+    await this.modify((mutations) => [...mutations, mutation]);
+  }
+
+  async update(mutation: OfflineMutation): Promise<void> {
+    await this.modify((mutations) =>
+      mutations.map((m) => (m.id === mutation.id ? mutation : m))
+    );
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.modify((mutations) => mutations.filter((m) => m.id !== id));
+  }
+
+  async clear(): Promise<void> {
+    await this.modify(() => []);
+  }
+
+  private async load(): Promise<OfflineMutation[]> {
+    const value = await this.read();
+    return value
+      ? (JSON.parse(value) as OfflineMutation[]).map(deserializeMutation)
+      : [];
+  }
+
+  private modify(
+    change: (mutations: OfflineMutation[]) => OfflineMutation[]
+  ): Promise<void> {
+    return this.exclusive(async () =>
+      this.write(
+        JSON.stringify(change(await this.load()).map(serializeMutation))
+      )
+    );
+  }
+
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.pending.then(task, task);
+    this.pending = result.catch(() => undefined);
+    return result;
+  }
+}
+
+/**
+ * @description {@link OfflineQueueStorage} backed by a key-value store
+ * @summary Keeps the queue under a single key of a `localStorage`-like store, e.g.
+ * `new KeyValueQueueStorage(localStorage)` in browsers or a localForage instance for IndexedDB.
+ * @param {KeyValueStore} store - The key-value store
+ * @param {string} [key="decaf-offline-queue"] - The key holding the queue
+ * @class KeyValueQueueStorage
+ * @extends SerializedQueueStorage
+ * @memberOf module:for-http
+ */
+export class KeyValueQueueStorage extends SerializedQueueStorage {
+  constructor(
+    private readonly store: KeyValueStore,
+    private readonly key: string = "decaf-offline-queue"
+  ) {
+    super();
+  }
+
+  protected async read(): Promise<string | null | undefined> {
+    return this.store.getItem(this.key);
+  }
+
+  protected async write(value: string): Promise<void> {
+    if (value === "[]") await this.store.removeItem(this.key);
+    else await this.store.setItem(this.key, value);
+  }
+}
+
+/**
+ * @description {@link OfflineQueueStorage} backed by a JSON file
+ * @summary For Node.js clients. The file is replaced atomically on every change so a crash never
+ * leaves a truncated queue behind.
+ * @param {string} path - The file path
+ * @class FileQueueStorage
+ * @extends SerializedQueueStorage
+ * @memberOf module:for-http
+ */
+export class FileQueueStorage extends SerializedQueueStorage {
+  constructor(private readonly path: string) {
+    super();
+  }
+
+  protected async read(): Promise<string | undefined> {
+    const fs = await import("fs/promises");
+    try {
+      return await fs.readFile(this.path, "utf8");
+    } catch (e: any) {
+      if (e?.code === "ENOENT") return undefined;
+      throw e;
+    }
+  }
+
+  protected async write(value: string): Promise<void> {
+    const fs = await import("fs/promises");
+    const temp = `${this.path}.${process.pid}.tmp`;
+    await fs.writeFile(temp, value, "utf8");
+    await fs.rename(temp, this.path);
+  }
+}
+
+/**
+ * @description Resolves the effective offline queue configuration
+ * @param {HttpConfig} config - The adapter configuration
+ * @return {OfflineConfig|undefined} The merged configuration, or undefined when the offline queue is disabled
+ * @function resolveOfflineConfig
+ * @memberOf module:for-http
+ */
+export function resolveOfflineConfig(
+  config: HttpConfig
+): OfflineConfig | undefined {
+  if (!config.offline) return undefined;
+  const overrides = typeof config.offline === "object" ? config.offline : {};
+  return Object.assign(
+    { storage: new MemoryQueueStorage() },
+    DefaultOfflineConfig,
+    overrides
+  ) as OfflineConfig;
+}
+
+/**
+ * @description Result of replaying a single mutation
+ * @summary `"done"` removes the mutation and moves on, `"retry"` keeps it and schedules a new
+ * replay after `retryInterval`, `"halt"` keeps it and stops.
+ * @typedef {("done"|"retry"|"halt")} OfflineReplayOutcome
+ * @memberOf module:for-http
+ */
+export type OfflineReplayOutcome = "done" | "retry" | "halt";
+
+/**
+ * @description Ordered queue of writes made while the server was unreachable
+ * @summary Mutations are replayed one at a time, in the order they were queued, by the given
+ * `replayer`. Replays are single-flight. A mutation that still cannot reach the server stops the
+ * replay, which is attempted again after `retryInterval` and, in browsers, as soon as the `online`
+ * event fires.
+ * @param {OfflineConfig} config - The offline queue configuration
+ * @param {Function} replayer - Sends a mutation and reports the outcome
+ * @class OfflineQueue
+ * @memberOf module:for-http
+ */
+export class OfflineQueue {
+  private replaying?: Promise<void>;
+  private timer?: ReturnType<typeof setTimeout>;
+  private readonly onOnline = () => void this.replay();
+
+  constructor(
+    readonly config: OfflineConfig,
+    private readonly replayer: (
+      mutation: OfflineMutation
+    ) => Promise<OfflineReplayOutcome>
+  ) {
+    (globalThis as any).addEventListener?.("online", this.onOnline);
+  }
+
+  /**
+   * @description Lists the queued mutations
+   * @return {Promise<OfflineMutation[]>} The mutations, oldest first
+   */
+  async pending(): Promise<OfflineMutation[]> {
+    return this.config.storage.all();
+  }
+
+  /**
+   * @description Counts the queued mutations
+   * @return {Promise<number>} The queue length
+   */
+  async size(): Promise<number> {
+    return (await this.pending()).length;
+  }
+
+  /**
+   * @description Appends a mutation and schedules its replay
+   * @param {OfflineMutation} mutation - The mutation
+   * @return {Promise<void>}
+   */
+  async enqueue(mutation: OfflineMutation): Promise<void> {
+    await this.config.storage.push(mutation);
+    this.schedule();
+  }
+
+  /**
+   * @description Replaces a queued mutation
+   * @param {OfflineMutation} mutation - The updated mutation
+   * @return {Promise<void>}
+   */
+  async update(mutation: OfflineMutation): Promise<void> {
+    await this.config.storage.update(mutation);
+  }
+
+  /**
+   * @description Replays the queued mutations in order
+   * @summary Joins the replay in progress, if any.
+   * @return {Promise<void>} Resolves once the replay stopped: queue drained, server unreachable or halted by a conflict
+   */
+  replay(): Promise<void> {
+    if (!this.replaying)
+      this.replaying = this.drain().finally(() => {
+        this.replaying = undefined;
+      });
+    return this.replaying;
+  }
+
+  /**
+   * @description Drops every queued mutation
+   * @return {Promise<void>}
+   */
+  async clear(): Promise<void> {
+    await this.config.storage.clear();
+  }
+
+  /**
+   * @description Cancels the scheduled replay and stops listening for the `online` event
+   */
+  dispose(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = undefined;
+    (globalThis as any).removeEventListener?.("online", this.onOnline);
+  }
+
+  private schedule(): void {
+    if (this.timer) return;
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      void this.replay();
+    }, this.config.retryInterval);
+    (this.timer as any).unref?.();
+  }
+
+  private async drain(): Promise<void> {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = undefined;
+    for (;;) {
+      const [mutation] = await this.pending();
+      if (!mutation) return;
+      const outcome = await this.replayer(mutation);
+      if (outcome === "retry") {
+        await this.update(
+          Object.assign({}, mutation, { attempts: mutation.attempts + 1 })
+        );
+        this.schedule();
+        return;
+      }
+      if (outcome === "halt") return;
+      await this.config.storage.remove(mutation.id);
+    }
+  }
+}
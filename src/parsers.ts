@@ -0,0 +1,19 @@
+import { Context } from "@decaf-ts/core";
+import { ResponseParser, HttpFlags, HttpInterceptedRequest } from "./types";
+import { TaskInterceptor } from "./interceptors";
+
+/**
+ * @description Collects pending tasks announced by the server
+ * @summary Response parser form of {@link TaskInterceptor}, kept for `HttpConfig.parsers`.
+ * @param {any} res - The native response
+ * @param {Context<HttpFlags>} ctx - The request context
+ * @function TaskResponseParser
+ * @memberOf module:for-http
+ * @deprecated Register {@link TaskInterceptor} in `HttpConfig.interceptors` instead
+ */
+export const TaskResponseParser: ResponseParser = (
+  res: any,
+  ctx: Context<HttpFlags>
+) => {
+  TaskInterceptor.response?.(res, {} as HttpInterceptedRequest, ctx);
+};
@@ -0,0 +1,333 @@
+import { BadRequestError, ConflictError } from "@decaf-ts/db-decorators";
+import { PatchContentType } from "./constants";
+import { JsonPatchOperation } from "./types";
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return (
+    !!value &&
+    typeof value === "object" &&
+    !Array.isArray(value) &&
+    !(value instanceof Date)
+  );
+}
+
+function clone<T>(value: T): T {
+  return typeof value === "undefined"
+    ? value
+    : JSON.parse(JSON.stringify(value));
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b))
+    return a.length === b.length && a.every((v, i) => isEqual(v, b[i]));
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a).filter((k) => typeof a[k] !== "undefined");
+    const other = Object.keys(b).filter((k) => typeof b[k] !== "undefined");
+    return (
+      keys.length === other.length && keys.every((k) => isEqual(a[k], b[k]))
+    );
+  }
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// Keys that would reach the prototype chain instead of the document
+const UnsafeKeys = ["__proto__", "constructor", "prototype"];
+
+function safeKey(key: string, path: string): string {
+  if (UnsafeKeys.includes(key))
+    throw new BadRequestError(`Invalid key ${key} in ${path}`);
+  return key;
+}
+
+function hasOwn(target: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(target, key);
+}
+
+function escapePointer(segment: string) {
+  return segment.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+function parsePointer(path: string): string[] {
+  if (path === "") return [];
+  if (typeof path !== "string" || !path.startsWith("/"))
+    throw new BadRequestError(`Invalid JSON pointer: ${path}`);
+  return path
+    .slice(1)
+    .split("/")
+    .map((s) => safeKey(s.replace(/~1/g, "/").replace(/~0/g, "~"), path));
+}
+
+/**
+ * @description Computes a JSON Merge Patch (RFC 7396) between two versions of a record
+ * @summary Nested objects are diffed recursively, arrays are replaced as a whole and
+ * properties missing (or undefined) in `next` are removed with `null`.
+ * @param {Record<string, any>} previous - The known version of the record
+ * @param {Record<string, any>} next - The desired version of the record
+ * @return {Record<string, any>} The merge patch, empty when nothing changed
+ * @function diffMergePatch
+ * @memberOf module:for-http
+ */
+export function diffMergePatch(
+  previous: Record<string, any>,
+  next: Record<string, any>
+): Record<string, any> {
+  const patch: Record<string, any> = {};
+  for (const key of Object.keys(previous || {})) {
+    if (typeof previous[key] === "undefined") continue;
+    if (!next || typeof next[key] === "undefined") patch[key] = null;
+  }
+  for (const [key, value] of Object.entries(next || {})) {
+    if (typeof value === "undefined") continue;
+    const before = previous?.[key];
+    if (isEqual(before, value)) continue;
+    if (isPlainObject(before) && isPlainObject(value)) {
+      const nested = diffMergePatch(before, value);
+      if (Object.keys(nested).length) patch[key] = nested;
+      continue;
+    }
+    patch[key] = clone(value);
+  }
+  return patch;
+}
+
+/**
+ * @description Computes a JSON Patch (RFC 6902) between two versions of a record
+ * @summary Emits `add`, `remove` and `replace` operations. Nested objects are diffed
+ * recursively, arrays are replaced as a whole.
+ * @param {Record<string, any>} previous - The known version of the record
+ * @param {Record<string, any>} next - The desired version of the record
+ * @param {string} [base] - The JSON pointer of the compared objects
+ * @return {JsonPatchOperation[]} The operations, empty when nothing changed
+ * @function diffJsonPatch
+ * @memberOf module:for-http
+ */
+export function diffJsonPatch(
+  previous: Record<string, any>,
+  next: Record<string, any>,
+  base: string = ""
+): JsonPatchOperation[] {
+  const ops: JsonPatchOperation[] = [];
+  for (const key of Object.keys(previous || {})) {
+    if (typeof previous[key] === "undefined") continue;
+    if (!next || typeof next[key] === "undefined")
+      ops.push({ op: "remove", path: `${base}/${escapePointer(key)}` });
+  }
+  for (const [key, value] of Object.entries(next || {})) {
+    if (typeof value === "undefined") continue;
+    const path = `${base}/${escapePointer(key)}`;
+    const before = previous?.[key];
+    if (typeof before === "undefined") {
+      ops.push({ op: "add", path, value: clone(value) });
+      continue;
+    }
+    if (isEqual(before, value)) continue;
+    if (isPlainObject(before) && isPlainObject(value)) {
+      ops.push(...diffJsonPatch(before, value, path));
+      continue;
+    }
+    ops.push({ op: "replace", path, value: clone(value) });
+  }
+  return ops;
+}
+
+/**
+ * @description Applies a JSON Merge Patch (RFC 7396)
+ * @summary Keys reaching the prototype chain (`__proto__`, `constructor`, `prototype`) raise a
+ * BadRequestError.
+ * @param {any} target - The document to patch, left untouched
+ * @param {any} patch - The merge patch
+ * @return {any} The patched document
+ * @function applyMergePatch
+ * @memberOf module:for-http
+ */
+export function applyMergePatch(target: any, patch: any): any {
+  if (!isPlainObject(patch)) return clone(patch);
+  const result: Record<string, any> = isPlainObject(target)
+    ? clone(target)
+    : {};
+  for (const [key, value] of Object.entries(patch)) {
+    safeKey(key, "merge patch");
+    if (value === null) {
+      delete result[key];
+      continue;
+    }
+    result[key] = applyMergePatch(
+      hasOwn(result, key) ? result[key] : undefined,
+      value
+    );
+  }
+  return result;
+}
+
+function resolveParent(document: any, segments: string[], path: string) {
+  let current = document;
+  for (const segment of segments.slice(0, -1)) {
+    if (
+      current === null ||
+      typeof current !== "object" ||
+      !hasOwn(current, segment)
+    )
+      throw new ConflictError(`Path ${path} does not exist`);
+    current = current[segment];
+  }
+  if (current === null || typeof current !== "object")
+    throw new ConflictError(`Path ${path} does not exist`);
+  return { parent: current, key: segments[segments.length - 1] };
+}
+
+function arrayIndex(array: any[], key: string, path: string, append: boolean) {
+  if (append && key === "-") return array.length;
+  const index = Number(key);
+  if (!/^(0|[1-9]\d*)$/.test(key) || index > array.length - (append ? 0 : 1))
+    throw new ConflictError(`Invalid array index in ${path}`);
+  return index;
+}
+
+function readPointer(document: any, path: string) {
+  const segments = parsePointer(path);
+  if (!segments.length) return document;
+  const { parent, key } = resolveParent(document, segments, path);
+  const value = Array.isArray(parent)
+    ? parent[arrayIndex(parent, key, path, false)]
+    : hasOwn(parent, key)
+      ? parent[key]
+      : undefined;
+  if (typeof value === "undefined")
+    throw new ConflictError(`Path ${path} does not exist`);
+  return value;
+}
+
+function addValue(document: any, path: string, value: any) {
+  const segments = parsePointer(path);
+  if (!segments.length) return clone(value);
+  const { parent, key } = resolveParent(document, segments, path);
+  if (Array.isArray(parent))
+    parent.splice(arrayIndex(parent, key, path, true), 0, clone(value));
+  else parent[key] = clone(value);
+  return document;
+}
+
+function removeValue(document: any, path: string) {
+  const segments = parsePointer(path);
+  if (!segments.length)
+    throw new BadRequestError("Cannot remove the document root");
+  readPointer(document, path);
+  const { parent, key } = resolveParent(document, segments, path);
+  if (Array.isArray(parent))
+    parent.splice(arrayIndex(parent, key, path, false), 1);
+  else delete parent[key];
+  return document;
+}
+
+/**
+ * @description Applies a JSON Patch (RFC 6902)
+ * @summary Operations are applied in order on a copy of the document. Malformed operations
+ * and pointers reaching the prototype chain raise a BadRequestError, operations targeting missing paths and failed `test` operations
+ * raise a ConflictError.
+ * @param {any} target - The document to patch, left untouched
+ * @param {JsonPatchOperation[]} operations - The operations to apply
+ * @return {any} The patched document
+ * @function applyJsonPatch
+ * @memberOf module:for-http
+ */
+export function applyJsonPatch(
+  target: any,
+  operations: JsonPatchOperation[]
+): any {
+  if (!Array.isArray(operations))
+    throw new BadRequestError("A JSON patch must be an array of operations");
+  let document = clone(target);
+  for (const operation of operations) {
+    if (!operation || typeof operation.path !== "string")
+      throw new BadRequestError(
+        `Invalid JSON patch operation: ${JSON.stringify(operation)}`
+      );
+    const { op, path } = operation;
+    switch (op) {
+      case "add":
+        if (!("value" in operation))
+          throw new BadRequestError(`Missing value for add at ${path}`);
+        document = addValue(document, path, operation.value);
+        break;
+      case "remove":
+        document = removeValue(document, path);
+        break;
+      case "replace":
+        if (!("value" in operation))
+          throw new BadRequestError(`Missing value for replace at ${path}`);
+        document =
+          path === ""
+            ? clone(operation.value)
+            : addValue(removeValue(document, path), path, operation.value);
+        break;
+      case "move": {
+        if (typeof operation.from !== "string")
+          throw new BadRequestError(`Missing from for move at ${path}`);
+        if (path.startsWith(`${operation.from}/`))
+          throw new BadRequestError(
+            `Cannot move ${operation.from} into itself`
+          );
+        const value = readPointer(document, operation.from);
+        document = addValue(removeValue(document, operation.from), path, value);
+        break;
+      }
+      case "copy":
+        if (typeof operation.from !== "string")
+          throw new BadRequestError(`Missing from for copy at ${path}`);
+        document = addValue(
+          document,
+          path,
+          readPointer(document, operation.from)
+        );
+        break;
+      case "test":
+        if (!isEqual(readPointer(document, path), operation.value))
+          throw new ConflictError(`Test failed for ${path}`);
+        break;
+      default:
+        throw new BadRequestError(`Unsupported JSON patch operation: ${op}`);
+    }
+  }
+  return document;
+}
+
+/**
+ * @description Resolves the patch format from a request content type and body
+ * @summary `application/json-patch+json` selects JSON Patch and
+ * `application/merge-patch+json` selects JSON Merge Patch. Without a recognized
+ * content type, array bodies are handled as JSON Patch and objects as merge patches.
+ * @param {string|undefined} contentType - The request content type
+ * @param {unknown} body - The request body
+ * @return {PatchContentType} The patch format
+ * @function patchFormatOf
+ * @memberOf module:for-http
+ */
+export function patchFormatOf(
+  contentType: string | undefined,
+  body: unknown
+): PatchContentType {
+  const type = (contentType || "").split(";")[0].trim().toLowerCase();
+  if (type === PatchContentType.JSON) return PatchContentType.JSON;
+  if (type === PatchContentType.MERGE) return PatchContentType.MERGE;
+  return Array.isArray(body) ? PatchContentType.JSON : PatchContentType.MERGE;
+}
+
+/**
+ * @description Applies a patch in the given format
+ * @param {any} target - The document to patch, left untouched
+ * @param {any} patch - The merge patch or JSON patch operations
+ * @param {PatchContentType} format - The patch format
+ * @return {any} The patched document
+ * @function applyPatch
+ * @memberOf module:for-http
+ */
+export function applyPatch(
+  target: any,
+  patch: any,
+  format: PatchContentType
+): any {
+  return format === PatchContentType.JSON
+    ? applyJsonPatch(target, patch)
+    : applyMergePatch(target, patch);
+}
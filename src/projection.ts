@@ -0,0 +1,121 @@
+import { BadRequestError } from "@decaf-ts/db-decorators";
+import { PartialFieldsKey } from "./constants";
+
+/**
+ * @description Reads the sparse fieldset of a request
+ * @summary Accepts a comma separated string or a list of them, as received from single or repeated
+ * `fields` query parameters. The primary key is always part of the fieldset.
+ * @param {unknown} value - The raw `fields` parameter
+ * @param {string[]} attributes - The attributes that can be selected
+ * @param {string} [pk] - The primary key attribute
+ * @return {string[]|undefined} The selected attributes, or undefined when none were asked for
+ * @throws {BadRequestError} When an attribute is unknown
+ * @function parseFields
+ * @memberOf module:for-http
+ */
+export function parseFields(
+  value: unknown,
+  attributes: string[],
+  pk?: string
+): string[] | undefined {
+  if (typeof value === "undefined" || value === null) return undefined;
+  const fields = ([] as unknown[])
+    .concat(value)
+    .flatMap((entry) => String(entry).split(","))
+    .map((field) => field.trim())
+    .filter(Boolean);
+  if (!fields.length) return undefined;
+  for (const field of fields)
+    if (!attributes.includes(field))
+      throw new BadRequestError(`Attribute ${field} can not be selected`);
+  return Array.from(new Set(pk ? [pk, ...fields] : fields));
+}
+
+/**
+ * @description Keeps the selected attributes of a record
+ * @param {Record<string, any>} record - The record
+ * @param {string[]} fields - The selected attributes
+ * @return {Record<string, any>} A plain object holding the selected attributes only
+ * @function projectRecord
+ * @memberOf module:for-http
+ */
+export function projectRecord(
+  record: Record<string, any>,
+  fields: string[]
+): Record<string, any> {
+  if (!record || typeof record !== "object") return record;
+  return fields.reduce(
+    (projected, field) => {
+      if (typeof record[field] !== "undefined")
+        projected[field] = record[field];
+      return projected;
+    },
+    {} as Record<string, any>
+  );
+}
+
+/**
+ * @description Projects the result of a read or query
+ * @summary Records, lists of records and serialized pages are projected; anything else (counts,
+ * aggregations) is returned as is.
+ * @param {any} result - The result
+ * @param {string[]} [fields] - The selected attributes, none meaning the full records
+ * @return {any} The projected result
+ * @function projectResult
+ * @memberOf module:for-http
+ */
+export function projectResult(result: any, fields?: string[]): any {
+  if (!fields || !result || typeof result !== "object") return result;
+  if (Array.isArray(result))
+    return result.map((record) => projectRecord(record, fields));
+  if (Array.isArray(result.data))
+    return Object.assign({}, result, {
+      data: result.data.map((record: any) => projectRecord(record, fields)),
+    });
+  return projectRecord(result, fields);
+}
+
+/**
+ * @description Flags a model as partially read
+ * @summary The attributes are kept under the non-enumerable {@link PartialFieldsKey}, so the flag is
+ * never serialized.
+ * @template M - The model type
+ * @param {M} model - The model
+ * @param {string[]} fields - The attributes the model was read with
+ * @return {M} The same model
+ * @function markPartial
+ * @memberOf module:for-http
+ */
+export function markPartial<M extends object>(model: M, fields: string[]): M {
+  if (!model || typeof model !== "object") return model;
+  Object.defineProperty(model, PartialFieldsKey, {
+    enumerable: false,
+    configurable: true,
+    writable: false,
+    value: [...fields],
+  });
+  return model;
+}
+
+/**
+ * @description Reads the attributes a partial model was read with
+ * @param {unknown} model - The model
+ * @return {string[]|undefined} The attributes, or undefined for full models
+ * @function partialFieldsOf
+ * @memberOf module:for-http
+ */
+export function partialFieldsOf(model: unknown): string[] | undefined {
+  if (!model || typeof model !== "object") return undefined;
+  return (model as Record<string, any>)[PartialFieldsKey];
+}
+
+/**
+ * @description Tells whether a model was partially read
+ * @param {unknown} model - The model
+ * @return {boolean} True for models flagged by {@link markPartial}
+ * @function isPartial
+ * @memberOf module:for-http
+ */
+export function isPartial(model: unknown): boolean {
+  return !!partialFieldsOf(model);
+}
@@ -0,0 +1,225 @@
+import {
+  Condition,
+  GroupOperator,
+  Operator,
+  OrderDirection,
+  UnsupportedError,
+} from "@decaf-ts/core";
+import { BadRequestError } from "@decaf-ts/db-decorators";
+import { Model } from "@decaf-ts/decorator-validation";
+import { ConditionNode, ConditionQueryParams, ConditionValue } from "./types";
+
+const MAX_CONDITION_DEPTH = 32;
+
+type ConditionParts = {
+  attr1: string | Condition<any>;
+  operator: Operator | GroupOperator;
+  comparison: any;
+};
+
+function encodeValue(value: unknown): ConditionValue {
+  if (value instanceof Date) return { $date: value.toISOString() };
+  if (Array.isArray(value)) return value.map(encodeValue);
+  if (value === null || ["string", "number", "boolean"].includes(typeof value))
+    return value as ConditionValue;
+  throw new UnsupportedError(`Unsupported condition value: ${String(value)}`);
+}
+
+function decodeValue(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(decodeValue);
+  if (value && typeof value === "object") {
+    const date = (value as { $date?: unknown }).$date;
+    const time = typeof date === "string" ? Date.parse(date) : NaN;
+    if (Object.keys(value).length !== 1 || Number.isNaN(time))
+      throw new BadRequestError(
+        `Invalid condition value ${JSON.stringify(value)}`
+      );
+    return new Date(time);
+  }
+  return value;
+}
+
+/**
+ * @description Converts a core `Condition` into its JSON form
+ * @summary Walks the condition tree through its `attr1`/`operator`/`comparison` fields. Dates are
+ * encoded as `{ "$date": "<ISO 8601>" }`; other non-JSON values are rejected.
+ * @param {Condition} condition - The condition
+ * @return {ConditionNode} The serializable condition
+ * @throws {UnsupportedError} When the condition holds an unsupported operator or value
+ * @function serializeCondition
+ * @memberOf module:for-http
+ */
+export function serializeCondition(condition: Condition<any>): ConditionNode {
+  const { attr1, operator, comparison } =
+    condition as unknown as ConditionParts;
+  switch (operator) {
+    case GroupOperator.AND:
+    case GroupOperator.OR:
+      return {
+        op: operator,
+        conditions: [
+          serializeCondition(attr1 as Condition<any>),
+          serializeCondition(comparison),
+        ],
+      };
+    case Operator.NOT:
+      return Object.assign(
+        {
+          op: Operator.NOT,
+          condition: serializeCondition(attr1 as Condition<any>),
+        } as const,
+        typeof comparison === "undefined"
+          ? {}
+          : { value: encodeValue(comparison) }
+      );
+  }
+  if (typeof attr1 !== "string" || !Object.values(Operator).includes(operator))
+    throw new UnsupportedError(`Unsupported condition operator ${operator}`);
+  return {
+    attr: attr1,
+    op: operator as Exclude<Operator, Operator.NOT>,
+    value: encodeValue(comparison),
+  };
+}
+
+function rebuild<M extends Model>(
+  node: ConditionNode,
+  fields: string[] | undefined,
+  depth: number
+): Condition<M> {
+  if (depth > MAX_CONDITION_DEPTH)
+    throw new BadRequestError(
+      `Conditions may not be nested more than ${MAX_CONDITION_DEPTH} levels deep`
+    );
+  if (!node || typeof node !== "object" || Array.isArray(node))
+    throw new BadRequestError(`Invalid condition ${JSON.stringify(node)}`);
+
+  const op = (node as { op?: unknown }).op;
+  if (op === GroupOperator.AND || op === GroupOperator.OR) {
+    const { conditions } = node as { conditions?: unknown };
+    if (!Array.isArray(conditions) || conditions.length < 2)
+      throw new BadRequestError(`${op} requires at least two conditions`);
+    return conditions
+      .map((c) => rebuild<M>(c, fields, depth + 1))
+      .reduce((left, right) =>
+        op === GroupOperator.AND ? left.and(right) : left.or(right)
+      );
+  }
+  if (op === Operator.NOT) {
+    const { condition, value } = node as { condition?: any; value?: unknown };
+    return rebuild<M>(condition, fields, depth + 1).not(decodeValue(value));
+  }
+
+  const { attr, value } = node as { attr?: unknown; value?: unknown };
+  if (typeof attr !== "string" || !attr)
+    throw new BadRequestError(`Invalid condition attribute ${attr}`);
+  if (fields && !fields.includes(attr))
+    throw new BadRequestError(`Attribute ${attr} can not be queried`);
+  const decoded = decodeValue(value);
+  const builder = Condition.attribute<M>(attr as keyof M);
+  switch (op) {
+    case Operator.EQUAL:
+      return builder.eq(decoded);
+    case Operator.DIFFERENT:
+      return builder.dif(decoded);
+    case Operator.BIGGER:
+      return builder.gt(decoded);
+    case Operator.BIGGER_EQ:
+      return builder.gte(decoded);
+    case Operator.SMALLER:
+      return builder.lt(decoded);
+    case Operator.SMALLER_EQ:
+      return builder.lte(decoded);
+    case Operator.IN:
+      if (!Array.isArray(decoded))
+        throw new BadRequestError(`${Operator.IN} requires a list of values`);
+      return builder.in(decoded);
+    case Operator.REGEXP:
+      if (typeof decoded !== "string")
+        throw new BadRequestError(`${Operator.REGEXP} requires a pattern`);
+      return builder.regexp(decoded);
+    default:
+      throw new BadRequestError(`Unsupported condition operator ${op}`);
+  }
+}
+
+/**
+ * @description Rebuilds a core `Condition` from its JSON form
+ * @summary Only the public `Condition` builder is used, so the result is exactly what the same
+ * `attr(...)` calls would produce. Attributes outside `fields` are rejected, as are unknown
+ * operators, malformed nodes and trees nested deeper than 32 levels.
+ * @template M - The model type
+ * @param {ConditionNode} node - The serialized condition, untrusted
+ * @param {string[]} [fields] - The attributes conditions may reference. When omitted any attribute is accepted
+ * @return {Condition<M>} The condition
+ * @throws {BadRequestError} When the node is invalid or references a forbidden attribute
+ * @function deserializeCondition
+ * @memberOf module:for-http
+ */
+export function deserializeCondition<M extends Model>(
+  node: ConditionNode,
+  fields?: string[]
+): Condition<M> {
+  return rebuild<M>(node, fields, 0);
+}
+
+/**
+ * @description Reads the query parameters of the generic condition query route
+ * @summary Accepts the parameters as received by the server (strings, JSON-encoded `where`, single
+ * or repeated `select`) and validates every attribute against `fields`.
+ * @template M - The model type
+ * @param {Record<string, any>} params - The raw query parameters
+ * @param {string[]} fields - The attributes the query may reference
+ * @return {{condition?: Condition<M>, select?: string[], orderBy?: string, direction: OrderDirection, limit?: number, offset?: number}} The parsed query
+ * @throws {BadRequestError} When a parameter is invalid or references a forbidden attribute
+ * @function parseConditionQuery
+ * @memberOf module:for-http
+ */
+export function parseConditionQuery<M extends Model>(
+  params: Record<string, any>,
+  fields: string[]
+): Omit<ConditionQueryParams, "where" | "direction"> & {
+  condition?: Condition<M>;
+  direction: OrderDirection;
+} {
+  const allowed = (attr: unknown) => {
+    if (typeof attr !== "string" || !fields.includes(attr))
+      throw new BadRequestError(`Attribute ${attr} can not be queried`);
+    return attr;
+  };
+  const count = (name: "limit" | "offset") => {
+    if (typeof params[name] === "undefined" || params[name] === "")
+      return undefined;
+    const value = Number(params[name]);
+    if (!Number.isInteger(value) || value < 0)
+      throw new BadRequestError(`Invalid ${name} ${params[name]}`);
+    return value;
+  };
+
+  let where = params.where;
+  if (typeof where === "string" && where) {
+    try {
+      where = JSON.parse(where);
+    } catch {
+      throw new BadRequestError(`Invalid condition ${where}`);
+    }
+  }
+  const direction = String(
+    params.direction || OrderDirection.ASC
+  ).toLowerCase() as OrderDirection;
+  if (!Object.values(OrderDirection).includes(direction))
+    throw new BadRequestError(`Invalid direction ${params.direction}`);
+  const select =
+    typeof params.select === "undefined"
+      ? undefined
+      : ([] as unknown[]).concat(params.select).map(allowed);
+
+  return {
+    condition: where ? deserializeCondition<M>(where, fields) : undefined,
+    select: select && select.length ? select : undefined,
+    orderBy: params.orderBy ? allowed(params.orderBy) : undefined,
+    direction,
+    limit: count("limit"),
+    offset: count("offset"),
+  };
+}
@@ -0,0 +1,120 @@
+import type { ExtendedRelationsMetadata } from "@decaf-ts/core";
+import { BadRequestError } from "@decaf-ts/db-decorators";
+import { Model } from "@decaf-ts/decorator-validation";
+import type { Constructor } from "@decaf-ts/decoration";
+import type { IncludeTree } from "./types";
+
+/**
+ * @description Resolves the model a relation points to
+ * @param {Constructor<Model>} ModelConstr - The model holding the relation
+ * @param {string} relation - The relation attribute
+ * @return {Constructor<Model>|undefined} The related model, or undefined when the attribute is not a relation
+ * @function relatedModelOf
+ * @memberOf module:for-http
+ */
+export function relatedModelOf(
+  ModelConstr: Constructor<Model>,
+  relation: string
+): Constructor<Model> | undefined {
+  const relations = (Model.relations(ModelConstr) as string[]) || [];
+  if (!relations.includes(relation)) return undefined;
+  const meta = Model.relations(
+    ModelConstr,
+    relation as keyof Model
+  ) as ExtendedRelationsMetadata;
+  const clazz = meta?.class as any;
+  return typeof clazz === "function" && !clazz.name ? clazz() : clazz;
+}
+
+/**
+ * @description Reads the relations to expand in a read
+ * @summary Accepts a comma separated string or a list of them, as received from single or repeated
+ * `include` query parameters. Every step of a path must be a relation of the model it starts from.
+ * @param {unknown} value - The raw `include` parameter
+ * @param {Constructor<Model>} ModelConstr - The model read
+ * @param {number} [maxDepth] - The maximum number of steps of a path
+ * @return {IncludeTree|undefined} The relations, or undefined when none were asked for
+ * @throws {BadRequestError} When a path is too deep or names an attribute that is not a relation
+ * @function parseIncludes
+ * @memberOf module:for-http
+ */
+export function parseIncludes(
+  value: unknown,
+  ModelConstr: Constructor<Model>,
+  maxDepth?: number
+): IncludeTree | undefined {
+  if (typeof value === "undefined" || value === null) return undefined;
+  const paths = ([] as unknown[])
+    .concat(value)
+    .flatMap((entry) => String(entry).split(","))
+    .map((path) => path.trim())
+    .filter(Boolean);
+  if (!paths.length) return undefined;
+
+  const tree: IncludeTree = {};
+  for (const path of paths) {
+    const steps = path.split(".");
+    if (typeof maxDepth === "number" && steps.length > maxDepth)
+      throw new BadRequestError(
+        `Relation ${path} is nested more than ${maxDepth} levels deep`
+      );
+    let node = tree;
+    let current = ModelConstr;
+    for (const step of steps) {
+      const related = relatedModelOf(current, step);
+      if (!related)
+        throw new BadRequestError(
+          `${step} is not a relation of ${current.name}`
+        );
+      node = node[step] = node[step] ?? {};
+      current = related;
+    }
+  }
+  return tree;
+}
+
+/**
+ * @description Serializes relation paths into the `include` query parameter
+ * @param {string[]} [include] - The relation paths
+ * @return {string|undefined} The parameter value, or undefined when there is nothing to include
+ * @function includeParam
+ * @memberOf module:for-http
+ */
+export function includeParam(include?: string[]): string | undefined {
+  return include && include.length ? include.join(",") : undefined;
+}
+
+/**
+ * @description Turns expanded relations into model instances
+ * @summary Related records received as objects are rebuilt as instances of their model, recursively
+ * following `tree`. Relations left as foreign keys, e.g. by servers that do not expand them, are
+ * kept as they are.
+ * @template M - The model type
+ * @param {M} model - The model holding the relations
+ * @param {Constructor<Model>} ModelConstr - The model class
+ * @param {IncludeTree} tree - The expanded relations
+ * @return {M} The same model
+ * @function hydrateRelations
+ * @memberOf module:for-http
+ */
+export function hydrateRelations<M extends Record<string, any>>(
+  model: M,
+  ModelConstr: Constructor<Model>,
+  tree: IncludeTree
+): M {
+  if (!model || typeof model !== "object") return model;
+  for (const [relation, nested] of Object.entries(tree)) {
+    const Related = relatedModelOf(ModelConstr, relation);
+    const value = (model as Record<string, any>)[relation];
+    if (!Related || !value || typeof value !== "object") continue;
+    const hydrate = (item: any) => {
+      if (!item || typeof item !== "object") return item;
+      const instance = item instanceof Related ? item : new Related(item);
+      return hydrateRelations(instance, Related, nested);
+    };
+    (model as Record<string, any>)[relation] = Array.isArray(value)
+      ? value.map(hydrate)
+      : hydrate(value);
+  }
+  return model;
+}
@@ -0,0 +1,152 @@
+import { InternalError } from "@decaf-ts/db-decorators";
+import { DefaultRetryPolicy } from "./constants";
+import { HttpConfig, RetryPolicy } from "./types";
+
+/**
+ * @description Resolves the effective retry policy for a configuration
+ * @summary Merges `HttpConfig.retry` over {@link DefaultRetryPolicy}. Returns undefined when no
+ * retry policy is configured, meaning requests are sent exactly once.
+ * @param {HttpConfig} config - The adapter configuration
+ * @return {RetryPolicy|undefined} The merged policy, or undefined when retries are disabled
+ * @function resolveRetryPolicy
+ * @memberOf module:for-http
+ */
+export function resolveRetryPolicy(
+  config: HttpConfig
+): RetryPolicy | undefined {
+  if (!config.retry) return undefined;
+  return Object.assign({}, DefaultRetryPolicy, config.retry);
+}
+
+/**
+ * @description Reads a header from a plain record or a `Headers`-like object
+ * @summary Lookup is case-insensitive. Array values resolve to their first entry.
+ * @param {any} headers - The headers container
+ * @param {string} name - The header name
+ * @return {string|undefined} The header value, when present
+ * @function headerValue
+ * @memberOf module:for-http
+ */
+export function headerValue(headers: any, name: string): string | undefined {
+  if (!headers) return undefined;
+  if (typeof headers.get === "function") {
+    const value = headers.get(name);
+    if (value !== null && typeof value !== "undefined") return String(value);
+  }
+  const lower = name.toLowerCase();
+  for (const [key, value] of Object.entries(headers)) {
+    if (key.toLowerCase() !== lower) continue;
+    if (Array.isArray(value))
+      return value.length ? String(value[0]) : undefined;
+    return typeof value === "undefined" || value === null
+      ? undefined
+      : String(value);
+  }
+  return undefined;
+}
+
+/**
+ * @description Parses a `Retry-After` header value
+ * @summary Accepts both the delay-seconds and the HTTP-date forms.
+ * @param {string} [value] - The raw header value
+ * @return {number|undefined} The delay in milliseconds, or undefined when unparseable
+ * @function parseRetryAfter
+ * @memberOf module:for-http
+ */
+export function parseRetryAfter(value?: string): number | undefined {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) return Math.ceil(Number(trimmed) * 1000);
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(date - Date.now(), 0);
+}
+
+/**
+ * @description Computes the delay before the next attempt
+ * @summary Uses exponential backoff (`baseDelay * factor^(attempt - 1)`) capped at `maxDelay`,
+ * randomized with full jitter when enabled. A server provided `Retry-After` takes precedence when
+ * the policy respects it, but is still capped at `maxDelay`.
+ * @param {number} attempt - The number of the attempt that just failed (1-based)
+ * @param {RetryPolicy} policy - The retry policy
+ * @param {number} [retryAfter] - Server requested delay in milliseconds
+ * @return {number} The delay in milliseconds
+ * @function retryDelay
+ * @memberOf module:for-http
+ */
+export function retryDelay(
+  attempt: number,
+  policy: RetryPolicy,
+  retryAfter?: number
+): number {
+  if (policy.respectRetryAfter && typeof retryAfter === "number")
+    return Math.min(retryAfter, policy.maxDelay);
+  const exponential = Math.min(
+    policy.baseDelay * Math.pow(policy.factor, Math.max(attempt - 1, 0)),
+    policy.maxDelay
+  );
+  return policy.jitter ? Math.round(Math.random() * exponential) : exponential;
+}
+
+/**
+ * @description Waits for a delay unless the signal is aborted first
+ * @param {number} ms - The delay in milliseconds
+ * @param {AbortSignal} [signal] - Optional cancellation signal
+ * @return {Promise<void>} Resolves after the delay, rejects when aborted
+ * @function waitFor
+ * @memberOf module:for-http
+ */
+export function waitFor(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortReason(signal));
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortReason(signal as AbortSignal));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * @description Resolves the error to raise for an aborted signal
+ * @param {AbortSignal} signal - The aborted signal
+ * @return {Error} The signal's reason when it is an Error, an InternalError otherwise
+ * @function abortReason
+ * @memberOf module:for-http
+ */
+export function abortReason(signal: AbortSignal): Error {
+  return signal.reason instanceof Error
+    ? signal.reason
+    : new InternalError(
+        `Request aborted${signal.reason ? `: ${signal.reason}` : ""}`
+      );
+}
+
+/**
+ * @description Settles with a promise unless the signal is aborted first
+ * @summary The promise itself is left to settle; only the returned one rejects on abort.
+ * @template T - The promise value type
+ * @param {Promise<T>} promise - The promise to wait for
+ * @param {AbortSignal} [signal] - Optional cancellation signal
+ * @return {Promise<T>} Settles with the promise, rejects when aborted
+ * @function abortable
+ * @memberOf module:for-http
+ */
+export function abortable<T>(
+  promise: Promise<T>,
+  signal?: AbortSignal
+): Promise<T> {
+  if (!signal) return promise;
+  return new Promise<T>((resolve, reject) => {
+    if (signal.aborted) return reject(abortReason(signal));
+    const onAbort = () => reject(abortReason(signal));
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => {
+      signal.removeEventListener("abort", onAbort);
+    });
+  });
+}
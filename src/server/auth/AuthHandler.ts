@@ -28,6 +28,7 @@ import {
 import { Logger, Logging } from "@decaf-ts/logging";
 import { Model } from "@decaf-ts/decorator-validation";
 
+import { clientIpOf } from "../controllers/ip";
 import { AUTH_NAMESPACE_KEY } from "./constants";
 import type { AuthData, AuthRequestLike } from "./types";
 
@@ -118,29 +119,8 @@ export abstract class AuthHandler<
    * Extracts the request IP from the common HTTP headers.
    */
   protected requestIpOf(request: AuthRequestLike): string | undefined {
-    const headers = request.headers || {};
-    const candidates = [
-      headers["x-forwarded-for"],
-      headers["x-real-ip"],
-      headers["X-Forwarded-For"],
-      headers["X-Real-IP"],
-    ];
-    for (const candidate of candidates) {
-      if (typeof candidate === "string" && candidate) {
-        return candidate
-          .split(",")
-          .map((segment) => segment.trim())
-          .filter(Boolean)[0];
-      }
-      if (Array.isArray(candidate) && typeof candidate[0] === "string") {
-        return candidate[0]
-          .split(",")
-          .map((segment) => segment.trim())
-          .filter(Boolean)[0];
-      }
-    }
     const ip = (request as any).ip;
-    return typeof ip === "string" && ip ? ip : undefined;
+    return clientIpOf(request.headers, typeof ip === "string" ? ip : undefined);
   }
 
   /**
@@ -255,6 +235,47 @@ export abstract class AuthHandler<
     log.debug(`Authorization granted for user ${data.user ?? "unknown"}`);
   }
 
+  /**
+   * Authorizes access to a model reached by an already authorized request, such as the
+   * related records expanded into a response.
+   *
+   * Only the model-level roles and namespaces are checked, against the auth data bound to
+   * the request context (see {@link dataFromContext}).
+   *
+   * @param model - Model name or constructor being accessed.
+   * @param args - The request context.
+   */
+  async authorizeModel(
+    model: string | Constructor,
+    ...args: ContextualArgs<C>
+  ): Promise<void> {
+    const { ctx, log } = this.logCtx(args, this.authorizeModel);
+    const name = typeof model === "string" ? model : model.name;
+    log.debug(`Authorizing access to related ${name}`);
+    await this.validate(
+      this.dataFromContext(ctx),
+      undefined,
+      undefined,
+      false,
+      model,
+      ...args
+    );
+  }
+
+  /**
+   * Reads back the auth data bound to a context by {@link bindToContext}.
+   *
+   * Handlers binding their data under other keys should override this accordingly.
+   */
+  protected dataFromContext(ctx: C): D {
+    return {
+      user: ctx.getOrUndefined("user" as any),
+      roles: ctx.getOrUndefined("roles" as any),
+      namespaces: ctx.getOrUndefined("namespaces" as any),
+      organization: ctx.getOrUndefined("organization" as any),
+    } as D;
+  }
+
   protected async validate(
     data: D,
     routeRoles: string[] | undefined,
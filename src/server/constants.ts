@@ -1,4 +1,6 @@
 export enum ServerKeys {
   CONTROLLER = "controller",
   ROUTE = "route",
+  RESPONSE_HEADERS = "__responseHeaders__",
+  RESPONSE_STATUS = "__responseStatus__",
 }
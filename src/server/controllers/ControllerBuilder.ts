@@ -1,11 +1,24 @@
 import { ServerRoute } from "./models";
 import { ServerMethodBuilder } from "./RouteBuilder";
+import { withErrorSerialization } from "./errors";
+import { withCodecNegotiation } from "./codecs";
+import { CodecRegistry } from "../../codecs";
+import type { HttpCodec } from "../../types";
+import type { ServerErrorSerializer } from "./types";
+import { MemoryRateLimitStore } from "../ratelimit/MemoryRateLimitStore";
+import { RateLimiter, withRateLimit } from "../ratelimit/RateLimiter";
+import type { RateLimitOptions, RateLimitRule } from "../ratelimit/types";
+
+const BodyMethods = ["POST", "PUT", "PATCH"];
 
 export class ServerControllerBuilder<C = any> {
   protected prefix: string = "";
   protected path: string = "";
   protected tags: string[] = [];
   protected methods: ServerRoute[] = [];
+  protected errorSerializer?: ServerErrorSerializer;
+  protected codecs?: CodecRegistry;
+  protected rateLimit?: RateLimitOptions;
 
   constructor() {}
 
@@ -24,6 +37,26 @@ export class ServerControllerBuilder<C = any> {
     return this;
   }
 
+  withErrorSerializer(serializer?: ServerErrorSerializer): this {
+    this.errorSerializer = serializer;
+    return this;
+  }
+
+  withCodecs(codecs?: HttpCodec[] | CodecRegistry): this {
+    this.codecs =
+      codecs instanceof CodecRegistry
+        ? codecs
+        : codecs?.length
+          ? new CodecRegistry(codecs)
+          : undefined;
+    return this;
+  }
+
+  withRateLimit(options?: RateLimitOptions): this {
+    this.rateLimit = options;
+    return this;
+  }
+
   addMethod(): ServerMethodBuilder {
     const methodBuilder = new ServerMethodBuilder();
     const buildProxy = new Proxy(methodBuilder.build, {
@@ -52,8 +85,46 @@ export class ServerControllerBuilder<C = any> {
     const routeMethods = [...this.methods];
     const routeMap = new Map<string, ServerRoute>();
     const controllerClass = class {};
+    const controllerPath = [this.prefix, this.path]
+      .map((segment) => segment.replace(/^\/+|\/+$/g, ""))
+      .filter(Boolean)
+      .join("/");
+    const store = this.rateLimit?.store ?? new MemoryRateLimitStore();
+    const sharedLimiter = this.rateLimit?.limit
+      ? new RateLimiter(this.rateLimit as RateLimitRule, store)
+      : undefined;
 
     for (const route of routeMethods) {
+      if (this.codecs && route.implementation)
+        route.implementation = withCodecNegotiation(
+          route.implementation,
+          this.codecs,
+          BodyMethods.includes(route.method)
+        );
+      if (this.rateLimit && route.implementation) {
+        const key = `${route.method} ${route.path.replace(/^\/+|\/+$/g, "")}`;
+        const override = this.rateLimit.routes?.[key];
+        const limiter =
+          override === false
+            ? undefined
+            : override
+              ? new RateLimiter(
+                  { ...this.rateLimit, ...override } as RateLimitRule,
+                  store
+                )
+              : sharedLimiter;
+        if (limiter)
+          route.implementation = withRateLimit(
+            route.implementation,
+            limiter,
+            override ? `/${controllerPath} ${key}` : `/${controllerPath}`
+          );
+      }
+      if (this.errorSerializer && route.implementation)
+        route.implementation = withErrorSerialization(
+          route.implementation,
+          this.errorSerializer
+        );
       const methodName = this.getMethodName(route);
       routeMap.set(methodName, route);
 
@@ -79,6 +150,20 @@ export class ServerControllerBuilder<C = any> {
       value: routeMap,
     });
 
+    Object.defineProperty(controllerClass, "__path__", {
+      configurable: false,
+      enumerable: false,
+      writable: false,
+      value: controllerPath,
+    });
+
+    Object.defineProperty(controllerClass, "__tags__", {
+      configurable: false,
+      enumerable: false,
+      writable: false,
+      value: [...this.tags],
+    });
+
     return controllerClass as unknown as C;
   }
 
@@ -1,12 +1,15 @@
 import { Model, type ModelConstructor } from "@decaf-ts/decorator-validation";
 import { Metadata } from "@decaf-ts/decoration";
 import {
+  BadRequestError,
   BulkCrudOperationKeys,
   DBKeys,
   InternalError,
+  NotFoundError,
   OperationKeys,
 } from "@decaf-ts/db-decorators";
 import {
+  Condition,
   isOperationBlocked,
   ModelService,
   PersistenceKeys,
@@ -19,26 +22,133 @@ import {
 import { ServerControllerBuilder } from "./ControllerBuilder";
 import { ServerMethodBuilder } from "./RouteBuilder";
 import { ServerRoute } from "./models";
-import type { GroupingQueryFlags } from "./types";
+import type {
+  AuthConfig,
+  GroupingQueryFlags,
+  RelationExpansionOptions,
+  RequestValidationOptions,
+  RouteValidationOptions,
+  ServerErrorSerializer,
+} from "./types";
+import { serializeServerError } from "./errors";
+import { withRawBody } from "./codecs";
+import { prefersLenientHandling, settleBulk } from "./bulk";
+import { applyPatch, patchFormatOf } from "../../patch";
+import {
+  DecafHeaders,
+  DefaultIncludeDepth,
+  DefaultStreamChunkSize,
+  FieldsParam,
+  FilesPath,
+  IncludeParam,
+} from "../../constants";
+import {
+  assertEtagMatch,
+  etagOf,
+  etagsOf,
+  withResponseHeaders,
+  withResponseStatus,
+} from "./concurrency";
+import { headerValue } from "../../retry";
+import type { BulkEnvelope, HttpCodec, IncludeTree } from "../../types";
+import { parseConditionQuery } from "../../query";
+import { parseFields, projectRecord, projectResult } from "../../projection";
+import { parseIncludes } from "../../relations";
+import { expandRelations, refuseGuardedModel } from "./expansion";
+import {
+  acceptsNdjson,
+  ndjsonResponse,
+  pagedRecords,
+  RecordPageFetcher,
+} from "./streaming";
+import {
+  readQueryMetadata,
+  readRateLimitMetadata,
+  readRouteMetadata,
+} from "./metadata";
+import { RateLimitKeys } from "../ratelimit/constants";
+import type { RateLimitOptions, RateLimitRule } from "../ratelimit/types";
+import { DefaultMaxFileSize } from "../files/constants";
+import type { FileRouteOptions } from "../files/types";
+import {
+  assertMimeType,
+  contentDisposition,
+  parseRange,
+  readUpload,
+} from "../files/uploads";
 
 type PersistenceLike<T extends Model<boolean>> =
   | Repo<T>
   | ModelService<T>
   | Record<string, any>;
 
-type RouteMetadata = Record<
-  string,
-  { path: string; httpMethod: "GET" | "POST" | "PUT" | "PATCH" | "DELETE" }
->;
-
-type QueryMetadata = Record<string, { fields?: string[] | undefined }>;
-
 function normalizeBulkIds(ids: string | string[] | undefined | null): string[] {
   if (Array.isArray(ids)) return ids;
   if (typeof ids === "string") return [ids];
   return [];
 }
 
+function plainCopy(value: any): any {
+  if (Array.isArray(value)) return value.map(plainCopy);
+  if (
+    !value ||
+    typeof value !== "object" ||
+    value instanceof Date ||
+    ArrayBuffer.isView(value)
+  )
+    return value;
+  return Object.fromEntries(
+    Object.entries(value)
+      .filter(([, v]) => typeof v !== "undefined" && typeof v !== "function")
+      .map(([k, v]) => [k, plainCopy(v)])
+  );
+}
+
+function requestHeader(ctx: any, name: string): string | undefined {
+  try {
+    return headerValue(ctx?.get?.("headers"), name);
+  } catch {
+    return undefined;
+  }
+}
+
+function selectedFields<T extends Model<boolean>>(
+  ModelConstr: ModelConstructor<T>,
+  details?: Record<string, any>,
+  include?: IncludeTree
+): string[] | undefined {
+  const fields = parseFields(
+    details?.[FieldsParam],
+    Model.getAttributes(ModelConstr) as string[],
+    Model.pk(ModelConstr) as string
+  );
+  return fields && include
+    ? Array.from(new Set([...fields, ...Object.keys(include)]))
+    : fields;
+}
+
+function projected(result: any, fields?: string[]): any {
+  if (!fields) return result;
+  return Promise.resolve(result).then((value) => projectResult(value, fields));
+}
+
+function selectWhere(
+  persistence: any,
+  fields: string[] | undefined,
+  attr: string,
+  value: any,
+  ctx: any
+): Promise<any[]> | undefined {
+  if (!fields) return undefined;
+  const repo =
+    typeof persistence?.select === "function" ? persistence : persistence?.repo;
+  if (typeof repo?.select !== "function") return undefined;
+  return repo
+    .select(fields)
+    .where(Condition.attribute(attr).eq(value))
+    .execute(ctx);
+}
+
 function allowsRawStatements(persistence: any): boolean {
   const candidates = [
     persistence,
@@ -69,23 +179,6 @@ function getPersistenceFallback<T extends Model<boolean>>(
   }
 }
 
-function metadataSource(value: any): any {
-  if (!value) return value;
-  return typeof value === "function" ? value : value.constructor;
-}
-
-function readRouteMetadata(value: any): RouteMetadata {
-  const source = metadataSource(value);
-  return (Metadata.get(source, Metadata.key(PersistenceKeys.DECAF_ROUTE)) ??
-    {}) as RouteMetadata;
-}
-
-function readQueryMetadata(value: any): QueryMetadata {
-  const source = metadataSource(value);
-  return (Metadata.get(source, Metadata.key(PersistenceKeys.QUERY)) ??
-    {}) as QueryMetadata;
-}
-
 function resolvePersistenceTarget<T extends Model<boolean>>(
   ModelConstr: ModelConstructor<T>,
   controllerThis: any,
@@ -264,12 +357,123 @@ function modelRouteParameters<T extends Model<boolean>>(
 
 export class ModelControllerBuilder<T extends Model<boolean>, C = any> {
   private readonly controller: ServerControllerBuilder<C>;
+  private errorSerializer: ServerErrorSerializer = serializeServerError;
+  private streamChunkSize?: number;
+  private lenientBulk = false;
+  private relationExpansion?: RelationExpansionOptions;
+  private auth?: AuthConfig;
+  private validation?: RequestValidationOptions;
+  private rateLimit?: RateLimitOptions;
 
   constructor(
     private readonly ModelConstr: ModelConstructor<T>,
     private readonly persistence?: PersistenceLike<T>
   ) {
-    this.controller = new ServerControllerBuilder<C>();
+    this.controller = new ServerControllerBuilder<C>().withErrorSerializer(
+      serializeServerError
+    );
+  }
+
+  withErrorSerializer(serializer?: ServerErrorSerializer): this {
+    this.controller.withErrorSerializer(serializer);
+    this.errorSerializer = serializer ?? serializeServerError;
+    return this;
+  }
+
+  withCodecs(codecs?: HttpCodec[]): this {
+    this.controller.withCodecs(codecs);
+    return this;
+  }
+
+  withStreaming(chunkSize: number = DefaultStreamChunkSize): this {
+    this.streamChunkSize = chunkSize;
+    return this;
+  }
+
+  private streamed(
+    ctx: any,
+    fetchPage: RecordPageFetcher,
+    fields?: string[],
+    include?: IncludeTree
+  ) {
+    if (!this.streamChunkSize || !acceptsNdjson(ctx)) return undefined;
+    return ndjsonResponse(
+      pagedRecords(
+        fields || include
+          ? async (ref) =>
+              this.expanded(
+                ctx,
+                projectResult(await fetchPage(ref), fields),
+                include
+              )
+          : fetchPage,
+        this.streamChunkSize
+      ),
+      ctx,
+      this.errorSerializer
+    );
+  }
+
+  withRelationExpansion(options: RelationExpansionOptions = {}): this {
+    this.relationExpansion = options;
+    return this;
+  }
+
+  private includes(details?: Record<string, any>): IncludeTree | undefined {
+    if (!this.relationExpansion) return undefined;
+    return parseIncludes(
+      details?.[IncludeParam],
+      this.ModelConstr,
+      this.relationExpansion.maxDepth ?? DefaultIncludeDepth
+    );
+  }
+
+  private expanded(ctx: any, result: any, include?: IncludeTree) {
+    if (!include) return result;
+    const { authHandler, persistenceFor } = this.relationExpansion ?? {};
+    return Promise.resolve(result).then((value) =>
+      expandRelations(value, this.ModelConstr, include, {
+        persistenceFor:
+          persistenceFor ??
+          ((Related) =>
+            getPersistenceFallback(Related as ModelConstructor<any>)),
+        authorize: authHandler
+          ? (Related) => authHandler.authorizeModel(Related, ctx)
+          : refuseGuardedModel,
+        ctx,
+      })
+    );
+  }
+
+  withValidation(options: RequestValidationOptions = {}): this {
+    this.validation = options;
+    return this;
+  }
+
+  private validated(
+    partial: boolean = false,
+    list: boolean = false
+  ): RouteValidationOptions | false {
+    if (!this.validation) return false;
+    return { ...this.validation, model: this.ModelConstr, partial, list };
+  }
+
+  withLenientBulk(enabled: boolean = true): this {
+    this.lenientBulk = enabled;
+    return this;
+  }
+
+  private settled<I>(
+    ctx: any,
+    items: unknown,
+    run: (item: I) => Promise<any>,
+    idOf: (item: I, result?: any) => any,
+    status?: number
+  ): Promise<BulkEnvelope> | undefined {
+    if (!this.lenientBulk || !prefersLenientHandling(ctx)) return undefined;
+    if (!Array.isArray(items))
+      throw new BadRequestError(`Bulk requests must send a list of items`);
+    return settleBulk(items, run, idOf, this.errorSerializer, ctx, status);
   }
 
   withPrefix(prefix: string): this {
@@ -287,6 +491,46 @@ export class ModelControllerBuilder<T extends Model<boolean>, C = any> {
     return this;
   }
 
+  withAuth(auth?: AuthConfig): this {
+    this.auth = auth;
+    return this;
+  }
+
+  withRateLimit(options?: RateLimitOptions): this {
+    this.rateLimit = options;
+    return this;
+  }
+
+  private rateLimits(): RateLimitOptions | undefined {
+    const model = Metadata.get(this.ModelConstr, RateLimitKeys.MODEL) as
+      RateLimitRule | false | undefined;
+    const source = this.persistence;
+    const routeMethods = source ? readRouteMetadata(source) : {};
+    const queryMethods = source ? readQueryMetadata(source) : {};
+    const routes: Record<string, RateLimitRule | false> = {};
+    for (const [method, rule] of Object.entries(
+      source ? readRateLimitMetadata(source) : {}
+    )) {
+      const routed = routeMethods[method];
+      if (routed)
+        routes[
+          `${routed.httpMethod} ${routed.path.replace(/^\/+|\/+$/g, "")}`
+        ] = rule;
+      const queried = queryMethods[method];
+      if (queried)
+        routes[
+          `GET ${["query", method, ...(queried.fields ?? []).map((f) => `:${f}`)].join("/")}`
+        ] = rule;
+    }
+    if (!model && !this.rateLimit && !Object.keys(routes).length)
+      return undefined;
+    return {
+      ...(model || {}),
+      ...this.rateLimit,
+      routes: { ...routes, ...this.rateLimit?.routes },
+    };
+  }
+
   addCreateRoute(): this {
     if (isOperationBlocked(this.ModelConstr, OperationKeys.CREATE)) return this;
     const ModelConstr = this.ModelConstr;
@@ -296,6 +540,7 @@ export class ModelControllerBuilder<T extends Model<boolean>, C = any> {
       new ServerMethodBuilder()
         .withMethod("POST")
         .withPath("")
+        .withValidation(this.validated())
         .withImplementation(function create(this: any, data: T) {
           const persistence = resolvePersistenceTarget(
             ModelConstr,
@@ -316,27 +561,67 @@ export class ModelControllerBuilder<T extends Model<boolean>, C = any> {
     if (isOperationBlocked(this.ModelConstr, OperationKeys.READ)) return this;
     const ModelConstr = this.ModelConstr;
     const fallback = this.persistence;
-    const { path, getPK } = modelRouteParameters(ModelConstr);
+    const { path, getPK, pkName } = modelRouteParameters(ModelConstr);
     const routePath = pathOverride ?? path;
+    const includes = this.includes.bind(this);
+    const expanded = this.expanded.bind(this);
 
     this.controller.addMethodFromRoute(
       new ServerMethodBuilder()
         .withMethod("GET")
         .withPath(routePath)
-        .withImplementation(function read(
+        .withValidation(this.validated())
+        .withImplementation(async function read(
           this: any,
-          ...routeParams: Array<string | number>
+          ...routeParams: Array<string | number | Record<string, any>>
         ) {
           const persistence = resolvePersistenceTarget(
             ModelConstr,
             this,
             fallback
           );
-          const id = getPK(...routeParams);
-          return invokeDirectPersistenceMethod(persistence, "read", [
-            id,
-            this?.ctx,
-          ]);
+          const details =
+            typeof routeParams[routeParams.length - 1] === "object"
+              ? (routeParams.pop() as Record<string, any>)
+              : undefined;
+          const id = getPK(...(routeParams as Array<string | number>));
+          const include = includes(details);
+          const fields = selectedFields(ModelConstr, details, include);
+          if (fields) {
+            const selected = await selectWhere(
+              persistence,
+              fields,
+              pkName,
+              id,
+              this?.ctx
+            );
+            if (selected && !selected.length)
+              throw new NotFoundError(
+                `No ${ModelConstr.name} found with id ${id}`
+              );
+            return expanded(
+              this?.ctx,
+              selected
+                ? selected[0]
+                : projectRecord(
+                    await invokeDirectPersistenceMethod(persistence, "read", [
+                      id,
+                      this?.ctx,
+                    ]),
+                    fields
+                  ),
+              include
+            );
+          }
+          const model = await invokeDirectPersistenceMethod(
+            persistence,
+            "read",
+            [id, this?.ctx]
+          );
+          return withResponseHeaders(
+            await expanded(this?.ctx, model, include),
+            { [DecafHeaders.ETAG]: etagOf(model) }
+          );
         })
         .build()
     );
@@ -354,7 +639,8 @@ export class ModelControllerBuilder<T extends Model<boolean>, C = any> {
       new ServerMethodBuilder()
         .withMethod("PUT")
         .withPath(routePath)
-        .withImplementation(function update(
+        .withValidation(this.validated())
+        .withImplementation(async function update(
           this: any,
           body: T,
           ...routeParams: Array<string | number>
@@ -365,15 +651,95 @@ export class ModelControllerBuilder<T extends Model<boolean>, C = any> {
             fallback
           );
           const id = getPK(...routeParams);
-          const plainBody = JSON.parse(JSON.stringify(body));
+          const ifMatch = requestHeader(this?.ctx, DecafHeaders.IF_MATCH);
+          if (ifMatch)
+            assertEtagMatch(
+              ifMatch,
+              await invokeDirectPersistenceMethod(persistence, "read", [
+                id,
+                this?.ctx,
+              ])
+            );
+          const plainBody = plainCopy(body);
           const payload = new ModelConstr({
             ...(plainBody as any),
             [pkName]: id,
           });
-          return invokeDirectPersistenceMethod(persistence, "update", [
-            payload,
-            this?.ctx,
-          ]);
+          const updated = await invokeDirectPersistenceMethod(
+            persistence,
+            "update",
+            [payload, this?.ctx]
+          );
+          return withResponseHeaders(updated, {
+            [DecafHeaders.ETAG]: etagOf(updated),
+          });
+        })
+        .build()
+    );
+    return this;
+  }
+
+  addPatchRoute(pathOverride?: string): this {
+    if (isOperationBlocked(this.ModelConstr, OperationKeys.UPDATE)) return this;
+    const ModelConstr = this.ModelConstr;
+    const fallback = this.persistence;
+    const { path, getPK, pkName } = modelRouteParameters(ModelConstr);
+    const routePath = pathOverride ?? path;
+
+    this.controller.addMethodFromRoute(
+      new ServerMethodBuilder()
+        .withMethod("PATCH")
+        .withPath(routePath)
+        .withValidation(this.validated(true))
+        .withImplementation(async function patch(
+          this: any,
+          body: unknown,
+          ...routeParams: Array<string | number>
+        ) {
+          const persistence = resolvePersistenceTarget(
+            ModelConstr,
+            this,
+            fallback
+          );
+          const id = getPK(...routeParams);
+          let changes = body;
+          if (typeof changes === "string") {
+            try {
+              changes = JSON.parse(changes);
+            } catch (e: unknown) {
+              throw new BadRequestError(`Invalid patch body: ${e}`);
+            }
+          }
+          const format = patchFormatOf(
+            requestHeader(this?.ctx, "content-type"),
+            changes
+          );
+          const stored = await invokeDirectPersistenceMethod(
+            persistence,
+            "read",
+            [id, this?.ctx]
+          );
+          assertEtagMatch(
+            requestHeader(this?.ctx, DecafHeaders.IF_MATCH),
+            stored
+          );
+          const merged = applyPatch(
+            JSON.parse(JSON.stringify(stored)),
+            changes,
+            format
+          );
+          const payload = new ModelConstr({
+            ...merged,
+            [pkName]: id,
+          });
+          const updated = await invokeDirectPersistenceMethod(
+            persistence,
+            "update",
+            [payload, this?.ctx]
+          );
+          return withResponseHeaders(updated, {
+            [DecafHeaders.ETAG]: etagOf(updated),
+          });
         })
         .build()
     );
@@ -391,7 +757,8 @@ export class ModelControllerBuilder<T extends Model<boolean>, C = any> {
       new ServerMethodBuilder()
         .withMethod("DELETE")
         .withPath(routePath)
-        .withImplementation(function remove(
+        .withValidation(this.validated())
+        .withImplementation(async function remove(
           this: any,
           ...routeParams: Array<string | number>
         ) {
@@ -401,6 +768,15 @@ export class ModelControllerBuilder<T extends Model<boolean>, C = any> {
             fallback
           );
           const id = getPK(...routeParams);
+          const ifMatch = requestHeader(this?.ctx, DecafHeaders.IF_MATCH);
+          if (ifMatch)
+            assertEtagMatch(
+              ifMatch,
+              await invokeDirectPersistenceMethod(persistence, "read", [
+                id,
+                this?.ctx,
+              ])
+            );
           return invokeDirectPersistenceMethod(persistence, "delete", [
             id,
             this?.ctx,
@@ -422,21 +798,37 @@ export class ModelControllerBuilder<T extends Model<boolean>, C = any> {
       return this;
     const ModelConstr = this.ModelConstr;
     const fallback = this.persistence;
+    const pkName = Model.pk(ModelConstr) as string;
+    const settled = this.settled.bind(this);
 
     this.controller.addMethodFromRoute(
       new ServerMethodBuilder()
         .withMethod("POST")
         .withPath("bulk")
+        .withValidation(this.validated(false, true))
         .withImplementation(function createAll(this: any, data: T[]) {
           const persistence = resolvePersistenceTarget(
             ModelConstr,
             this,
             fallback
           );
-          return invokeDirectPersistenceMethod(persistence, "createAll", [
-            data,
-            this?.ctx,
-          ]);
+          return (
+            settled(
+              this?.ctx,
+              data,
+              (item: T) =>
+                invokeDirectPersistenceMethod(persistence, "create", [
+                  item,
+                  this?.ctx,
+                ]),
+              (item: any, result?: any) => result?.[pkName] ?? item?.[pkName],
+              201
+            ) ??
+            invokeDirectPersistenceMethod(persistence, "createAll", [
+              data,
+              this?.ctx,
+            ])
+          );
         })
         .build()
     );
@@ -454,21 +846,52 @@ export class ModelControllerBuilder<T extends Model<boolean>, C = any> {
       return this;
     const ModelConstr = this.ModelConstr;
     const fallback = this.persistence;
+    const settled = this.settled.bind(this);
+    const includes = this.includes.bind(this);
+    const expanded = this.expanded.bind(this);
 
     this.controller.addMethodFromRoute(
       new ServerMethodBuilder()
         .withMethod("GET")
         .withPath("bulk")
-        .withImplementation(function readAll(this: any, ids: string[]) {
+        .withImplementation(function readAll(
+          this: any,
+          ids: string[],
+          details: { fields?: string; include?: string } = {}
+        ) {
           const persistence = resolvePersistenceTarget(
             ModelConstr,
             this,
             fallback
           );
-          return invokeDirectPersistenceMethod(persistence, "readAll", [
-            normalizeBulkIds(ids),
-            this?.ctx,
-          ]);
+          const include = includes(details);
+          const fields = selectedFields(ModelConstr, details, include);
+          const shape = (result: any) =>
+            expanded(this?.ctx, projected(result, fields), include);
+          return (
+            settled(
+              this?.ctx,
+              normalizeBulkIds(ids),
+              (id: string) =>
+                shape(
+                  invokeDirectPersistenceMethod(persistence, "read", [
+                    id,
+                    this?.ctx,
+                  ])
+                ),
+              (id: string) => id
+            ) ??
+            Promise.resolve(
+              invokeDirectPersistenceMethod(persistence, "readAll", [
+                normalizeBulkIds(ids),
+                this?.ctx,
+              ])
+            ).then(async (models) =>
+              withResponseHeaders(await shape(models), {
+                [DecafHeaders.ENTITY_TAGS]: etagsOf(models),
+              })
+            )
+          );
         })
         .build()
     );
@@ -486,21 +909,36 @@ export class ModelControllerBuilder<T extends Model<boolean>, C = any> {
       return this;
     const ModelConstr = this.ModelConstr;
     const fallback = this.persistence;
+    const pkName = Model.pk(ModelConstr) as string;
+    const settled = this.settled.bind(this);
 
     this.controller.addMethodFromRoute(
       new ServerMethodBuilder()
         .withMethod("PUT")
         .withPath("bulk")
+        .withValidation(this.validated(false, true))
         .withImplementation(function updateAll(this: any, data: T[]) {
           const persistence = resolvePersistenceTarget(
             ModelConstr,
             this,
             fallback
           );
-          return invokeDirectPersistenceMethod(persistence, "updateAll", [
-            data,
-            this?.ctx,
-          ]);
+          return (
+            settled(
+              this?.ctx,
+              data,
+              (item: T) =>
+                invokeDirectPersistenceMethod(persistence, "update", [
+                  item,
+                  this?.ctx,
+                ]),
+              (item: any, result?: any) => result?.[pkName] ?? item?.[pkName]
+            ) ??
+            invokeDirectPersistenceMethod(persistence, "updateAll", [
+              data,
+              this?.ctx,
+            ])
+          );
         })
         .build()
     );
@@ -518,6 +956,7 @@ export class ModelControllerBuilder<T extends Model<boolean>, C = any> {
       return this;
     const ModelConstr = this.ModelConstr;
     const fallback = this.persistence;
+    const settled = this.settled.bind(this);
 
     this.controller.addMethodFromRoute(
       new ServerMethodBuilder()
@@ -529,16 +968,137 @@ export class ModelControllerBuilder<T extends Model<boolean>, C = any> {
             this,
             fallback
           );
-          return invokeDirectPersistenceMethod(persistence, "deleteAll", [
-            normalizeBulkIds(ids),
-            this?.ctx,
-          ]);
+          return (
+            settled(
+              this?.ctx,
+              normalizeBulkIds(ids),
+              (id: string) =>
+                invokeDirectPersistenceMethod(persistence, "delete", [
+                  id,
+                  this?.ctx,
+                ]),
+              (id: string) => id
+            ) ??
+            invokeDirectPersistenceMethod(persistence, "deleteAll", [
+              normalizeBulkIds(ids),
+              this?.ctx,
+            ])
+          );
         })
         .build()
     );
     return this;
   }
 
+  addFileRoutes(options: FileRouteOptions): this {
+    const ModelConstr = this.ModelConstr;
+    const fallback = this.persistence;
+    const { path, getPK } = modelRouteParameters(ModelConstr);
+    const routePath = `${path}/${FilesPath}/:field`;
+    const { store, maxSize = DefaultMaxFileSize, mimeTypes } = options;
+    const fields =
+      options.fields ?? (Model.getAttributes(ModelConstr) as string[]);
+
+    const target = async (
+      controller: any,
+      routeParams: Array<string | number>
+    ) => {
+      const params = routeParams.filter((param) => typeof param !== "object");
+      const field = String(params.pop());
+      if (!fields.includes(field))
+        throw new BadRequestError(
+          `${ModelConstr.name} does not accept files for ${field}`
+        );
+      const id = getPK(...params);
+      const persistence = resolvePersistenceTarget(
+        ModelConstr,
+        controller,
+        fallback
+      );
+      await invokeDirectPersistenceMethod(persistence, "read", [
+        id,
+        controller?.ctx,
+      ]);
+      return { field, key: `${Model.tableName(ModelConstr)}/${id}/${field}` };
+    };
+
+    if (!isOperationBlocked(ModelConstr, OperationKeys.UPDATE))
+      this.controller.addMethodFromRoute(
+        new ServerMethodBuilder()
+          .withMethod("POST")
+          .withPath(routePath)
+          .withImplementation(
+            withRawBody(async function upload(
+              this: any,
+              body: unknown,
+              ...routeParams: Array<string | number>
+            ) {
+              const { field, key } = await target(this, routeParams);
+              const file = await readUpload(
+                body,
+                requestHeader(this?.ctx, "content-type"),
+                field,
+                maxSize
+              );
+              assertMimeType(file.contentType, mimeTypes);
+              const stored = await store.put(key, file.data, {
+                field,
+                filename: file.filename,
+                contentType: file.contentType,
+                metadata: file.metadata,
+              });
+              return withResponseStatus(
+                withResponseHeaders(stored, {
+                  [DecafHeaders.ETAG]: stored.etag,
+                }),
+                201
+              );
+            })
+          )
+          .build()
+      );
+
+    if (!isOperationBlocked(ModelConstr, OperationKeys.READ))
+      this.controller.addMethodFromRoute(
+        new ServerMethodBuilder()
+          .withMethod("GET")
+          .withPath(routePath)
+          .withImplementation(async function download(
+            this: any,
+            ...routeParams: Array<string | number>
+          ) {
+            const { field, key } = await target(this, routeParams);
+            const stored = await store.stat(key);
+            if (!stored)
+              throw new NotFoundError(
+                `No ${field} file stored for ${ModelConstr.name}`
+              );
+            const range = parseRange(
+              requestHeader(this?.ctx, "range"),
+              stored.size
+            );
+            const content = await store.read(key, range);
+            return withResponseStatus(
+              withResponseHeaders(content, {
+                "Content-Type": stored.contentType,
+                "Content-Length": String(
+                  range ? range.end - range.start + 1 : stored.size
+                ),
+                "Content-Disposition": contentDisposition(stored.filename),
+                "Content-Range": range
+                  ? `bytes ${range.start}-${range.end}/${stored.size}`
+                  : undefined,
+                "Accept-Ranges": "bytes",
+                [DecafHeaders.ETAG]: stored.etag,
+              }),
+              range ? 206 : 200
+            );
+          })
+          .build()
+      );
+    return this;
+  }
+
   addStatementRoute(): this {
     if (
       isOperationBlocked(
@@ -550,12 +1110,15 @@ export class ModelControllerBuilder<T extends Model<boolean>, C = any> {
       return this;
     const ModelConstr = this.ModelConstr;
     const fallback = this.persistence;
+    const streamed = this.streamed.bind(this);
+    const includes = this.includes.bind(this);
+    const expanded = this.expanded.bind(this);
 
     this.controller.addMethodFromRoute(
       new ServerMethodBuilder()
         .withMethod("GET")
         .withPath("statement/:method/*args")
-        .withImplementation(function statement(
+        .withImplementation(async function statement(
           this: any,
           method: string,
           args: Array<string | number>,
@@ -564,6 +1127,8 @@ export class ModelControllerBuilder<T extends Model<boolean>, C = any> {
             limit?: number;
             offset?: number;
             bookmark?: any;
+            fields?: string;
+            include?: string;
           } = {}
         ) {
           const persistence = resolvePersistenceTarget(
@@ -571,6 +1136,10 @@ export class ModelControllerBuilder<T extends Model<boolean>, C = any> {
             this,
             fallback
           );
+          const include = includes(details);
+          const fields = selectedFields(ModelConstr, details, include);
+          const shape = (result: any) =>
+            expanded(this?.ctx, projected(result, fields), include);
           args = args.map((arg) =>
             typeof arg === "string"
               ? Number.isNaN(Number(arg))
@@ -586,49 +1155,94 @@ export class ModelControllerBuilder<T extends Model<boolean>, C = any> {
 
           switch (method) {
             case PreparedStatementKeys.FIND:
-              return invokeDirectPersistenceMethod(persistence, "find", [
-                args[0],
-                resolvedDirection ?? "ASC",
+              return (
+                streamed(
+                  this?.ctx,
+                  (ref) =>
+                    invokeDirectPersistenceMethod(persistence, "page", [
+                      args[0],
+                      resolvedDirection ?? "ASC",
+                      ref,
+                      this?.ctx,
+                    ]),
+                  fields,
+                  include
+                ) ??
+                shape(
+                  invokeDirectPersistenceMethod(persistence, "find", [
+                    args[0],
+                    resolvedDirection ?? "ASC",
+                    this?.ctx,
+                  ])
+                )
+              );
+            case PreparedStatementKeys.LIST_BY: {
+              const stream = streamed(
                 this?.ctx,
-              ]);
-            case PreparedStatementKeys.LIST_BY:
+                (ref) =>
+                  invokeDirectPersistenceMethod(persistence, "paginateBy", [
+                    args[0],
+                    details.direction,
+                    ref,
+                    this?.ctx,
+                  ]),
+                fields,
+                include
+              );
+              if (stream) return stream;
               args.push(details.direction as string);
-              return invokeDirectPersistenceMethod(persistence, "listBy", [
-                args[0],
-                args[1],
-                this?.ctx,
-              ]);
-            case PreparedStatementKeys.PAGE:
-            case PreparedStatementKeys.PAGE_BY:
-              return invokeDirectPersistenceMethod(
-                persistence,
-                method === PreparedStatementKeys.PAGE ? "page" : "paginateBy",
-                [
+              return shape(
+                invokeDirectPersistenceMethod(persistence, "listBy", [
                   args[0],
-                  resolvedDirection as any,
-                  {
-                    limit: details.limit,
-                    offset: details.offset,
-                    bookmark: details.bookmark,
-                    ...(method === PreparedStatementKeys.PAGE_BY
-                      ? { page: args[1] }
-                      : {}),
-                  },
+                  args[1],
                   this?.ctx,
-                ]
+                ])
+              );
+            }
+            case PreparedStatementKeys.PAGE:
+            case PreparedStatementKeys.PAGE_BY:
+              return shape(
+                invokeDirectPersistenceMethod(
+                  persistence,
+                  method === PreparedStatementKeys.PAGE ? "page" : "paginateBy",
+                  [
+                    args[0],
+                    resolvedDirection as any,
+                    {
+                      limit: details.limit,
+                      offset: details.offset,
+                      bookmark: details.bookmark,
+                      ...(method === PreparedStatementKeys.PAGE_BY
+                        ? { page: args[1] }
+                        : {}),
+                    },
+                    this?.ctx,
+                  ]
+                )
               );
             case PreparedStatementKeys.FIND_BY:
-              return invokeDirectPersistenceMethod(persistence, "findBy", [
-                args[0],
-                args[1],
-                this?.ctx,
-              ]);
+              return shape(
+                selectWhere(
+                  persistence,
+                  fields,
+                  args[0] as string,
+                  args[1],
+                  this?.ctx
+                ) ??
+                  invokeDirectPersistenceMethod(persistence, "findBy", [
+                    args[0],
+                    args[1],
+                    this?.ctx,
+                  ])
+              );
             case PreparedStatementKeys.FIND_ONE_BY:
-              return invokeDirectPersistenceMethod(persistence, "findOneBy", [
-                args[0],
-                args[1],
-                this?.ctx,
-              ]);
+              return shape(
+                invokeDirectPersistenceMethod(persistence, "findOneBy", [
+                  args[0],
+                  args[1],
+                  this?.ctx,
+                ])
+              );
             case PreparedStatementKeys.COUNT_OF:
               return invokeDirectPersistenceMethod(persistence, "countOf", [
                 args[0],
@@ -687,6 +1301,7 @@ export class ModelControllerBuilder<T extends Model<boolean>, C = any> {
       return this;
     const ModelConstr = this.ModelConstr;
     const fallback = this.persistence;
+    const streamed = this.streamed.bind(this);
 
     this.controller.addMethodFromRoute(
       new ServerMethodBuilder()
@@ -695,18 +1310,35 @@ export class ModelControllerBuilder<T extends Model<boolean>, C = any> {
         .withImplementation(function listBy(
           this: any,
           key: string,
-          details: { direction?: string } = {}
+          details: { direction?: string; fields?: string } = {}
         ) {
           const persistence = resolvePersistenceTarget(
             ModelConstr,
             this,
             fallback
           );
-          return invokeDirectPersistenceMethod(persistence, "listBy", [
-            key,
-            details.direction,
-            this?.ctx,
-          ]);
+          const fields = selectedFields(ModelConstr, details);
+          return (
+            streamed(
+              this?.ctx,
+              (ref) =>
+                invokeDirectPersistenceMethod(persistence, "paginateBy", [
+                  key,
+                  details.direction,
+                  ref,
+                  this?.ctx,
+                ]),
+              fields
+            ) ??
+            projected(
+              invokeDirectPersistenceMethod(persistence, "listBy", [
+                key,
+                details.direction,
+                this?.ctx,
+              ]),
+              fields
+            )
+          );
         })
         .build()
     );
@@ -733,19 +1365,27 @@ export class ModelControllerBuilder<T extends Model<boolean>, C = any> {
           this: any,
           key: string,
           page: string,
-          details: { direction?: string; limit?: number; offset?: number } = {}
+          details: {
+            direction?: string;
+            limit?: number;
+            offset?: number;
+            fields?: string;
+          } = {}
         ) {
           const persistence = resolvePersistenceTarget(
             ModelConstr,
             this,
             fallback
           );
-          return invokeDirectPersistenceMethod(persistence, "paginateBy", [
-            key,
-            details.direction,
-            { limit: details.limit, offset: details.offset, page },
-            this?.ctx,
-          ]);
+          return projected(
+            invokeDirectPersistenceMethod(persistence, "paginateBy", [
+              key,
+              details.direction,
+              { limit: details.limit, offset: details.offset, page },
+              this?.ctx,
+            ]),
+            selectedFields(ModelConstr, details)
+          );
         })
         .build()
     );
@@ -763,6 +1403,7 @@ export class ModelControllerBuilder<T extends Model<boolean>, C = any> {
       return this;
     const ModelConstr = this.ModelConstr;
     const fallback = this.persistence;
+    const streamed = this.streamed.bind(this);
 
     this.controller.addMethodFromRoute(
       new ServerMethodBuilder()
@@ -771,18 +1412,35 @@ export class ModelControllerBuilder<T extends Model<boolean>, C = any> {
         .withImplementation(function find(
           this: any,
           value: string,
-          details: { direction?: string } = {}
+          details: { direction?: string; fields?: string } = {}
         ) {
           const persistence = resolvePersistenceTarget(
             ModelConstr,
             this,
             fallback
           );
-          return invokeDirectPersistenceMethod(persistence, "find", [
-            value,
-            details.direction,
-            this?.ctx,
-          ]);
+          const fields = selectedFields(ModelConstr, details);
+          return (
+            streamed(
+              this?.ctx,
+              (ref) =>
+                invokeDirectPersistenceMethod(persistence, "page", [
+                  value,
+                  details.direction ?? "ASC",
+                  ref,
+                  this?.ctx,
+                ]),
+              fields
+            ) ??
+            projected(
+              invokeDirectPersistenceMethod(persistence, "find", [
+                value,
+                details.direction,
+                this?.ctx,
+              ]),
+              fields
+            )
+          );
         })
         .build()
     );
@@ -813,6 +1471,7 @@ export class ModelControllerBuilder<T extends Model<boolean>, C = any> {
             limit?: number;
             offset?: number;
             bookmark?: any;
+            fields?: string;
           } = {}
         ) {
           const persistence = resolvePersistenceTarget(
@@ -825,12 +1484,15 @@ export class ModelControllerBuilder<T extends Model<boolean>, C = any> {
             limit: details.limit ?? 10,
             bookmark: details.bookmark,
           };
-          return invokeDirectPersistenceMethod(persistence, "page", [
-            value,
-            details.direction ?? "ASC",
-            ref,
-            this?.ctx,
-          ]);
+          return projected(
+            invokeDirectPersistenceMethod(persistence, "page", [
+              value,
+              details.direction ?? "ASC",
+              ref,
+              this?.ctx,
+            ]),
+            selectedFields(ModelConstr, details)
+          );
         })
         .build()
     );
@@ -856,18 +1518,22 @@ export class ModelControllerBuilder<T extends Model<boolean>, C = any> {
         .withImplementation(function findOneBy(
           this: any,
           key: string,
-          value: any
+          value: any,
+          details: { fields?: string } = {}
         ) {
           const persistence = resolvePersistenceTarget(
             ModelConstr,
             this,
             fallback
           );
-          return invokeDirectPersistenceMethod(persistence, "findOneBy", [
-            key,
-            value,
-            this?.ctx,
-          ]);
+          return projected(
+            invokeDirectPersistenceMethod(persistence, "findOneBy", [
+              key,
+              value,
+              this?.ctx,
+            ]),
+            selectedFields(ModelConstr, details)
+          );
         })
         .build()
     );
@@ -893,7 +1559,8 @@ export class ModelControllerBuilder<T extends Model<boolean>, C = any> {
         .withImplementation(function findBy(
           this: any,
           key: string,
-          value: any
+          value: any,
+          details: { fields?: string } = {}
         ) {
           const persistence = resolvePersistenceTarget(
             ModelConstr,
@@ -902,11 +1569,77 @@ export class ModelControllerBuilder<T extends Model<boolean>, C = any> {
           );
           const target =
             persistence.for?.(this?.ctx?.toOverrides?.()) ?? persistence;
-          return invokeDirectPersistenceMethod(target, "findBy", [
-            key,
-            value,
-            this?.ctx,
-          ]);
+          const fields = selectedFields(ModelConstr, details);
+          return (
+            selectWhere(target, fields, key, value, this?.ctx) ??
+            projected(
+              invokeDirectPersistenceMethod(target, "findBy", [
+                key,
+                value,
+                this?.ctx,
+              ]),
+              fields
+            )
+          );
+        })
+        .build()
+    );
+    return this;
+  }
+
+  addQueryRoute(): this {
+    if (isOperationBlocked(this.ModelConstr, "query", PersistenceKeys.QUERY))
+      return this;
+    const ModelConstr = this.ModelConstr;
+    const fallback = this.persistence;
+    const streamed = this.streamed.bind(this);
+
+    this.controller.addMethodFromRoute(
+      new ServerMethodBuilder()
+        .withMethod("GET")
+        .withPath(PersistenceKeys.QUERY)
+        .withImplementation(function query(
+          this: any,
+          details: Record<string, any> = {}
+        ) {
+          const { condition, select, orderBy, direction, limit, offset } =
+            parseConditionQuery<T>(
+              details,
+              Model.getAttributes(ModelConstr) as string[]
+            );
+          const persistence = resolvePersistenceTarget(
+            ModelConstr,
+            this,
+            fallback
+          );
+          const repo =
+            typeof persistence?.select === "function"
+              ? persistence
+              : persistence?.repo;
+          if (typeof repo?.select !== "function")
+            throw new InternalError(
+              `Persistence for ${ModelConstr.name} does not support condition queries`
+            );
+
+          const run = (max?: number, skip?: number) => {
+            let statement = repo.select(select);
+            if (condition) statement = statement.where(condition);
+            if (orderBy) statement = statement.orderBy(orderBy, direction);
+            if (typeof max === "number") statement = statement.limit(max);
+            if (typeof skip === "number") statement = statement.offset(skip);
+            return statement.execute(this?.ctx);
+          };
+          return (
+            streamed(this?.ctx, async ({ limit: size, offset: page }) => {
+              const start = (page - 1) * size;
+              const count =
+                typeof limit === "number"
+                  ? Math.min(size, limit - start)
+                  : size;
+              if (count <= 0) return [];
+              return run(count, (offset ?? 0) + start);
+            }) ?? run(limit, offset)
+          );
         })
         .build()
     );
@@ -1042,6 +1775,25 @@ export class ModelControllerBuilder<T extends Model<boolean>, C = any> {
   }
 
   build(): C {
-    return this.controller.build();
+    const controller = this.controller.withRateLimit(this.rateLimits()).build();
+    Object.defineProperty(controller, "__model__", {
+      configurable: false,
+      enumerable: false,
+      writable: false,
+      value: this.ModelConstr,
+    });
+    Object.defineProperty(controller, "__auth__", {
+      configurable: false,
+      enumerable: false,
+      writable: false,
+      value: this.auth,
+    });
+    Object.defineProperty(controller, "__persistence__", {
+      configurable: false,
+      enumerable: false,
+      writable: false,
+      value: this.persistence,
+    });
+    return controller;
   }
 }
@@ -77,15 +77,37 @@ export class ModelControllerFactory {
     config?: ModelControllerFactoryConfig
   ): C {
     const builder = new ModelControllerBuilder<T, C>(ModelConstr, persistence);
+    if (typeof config?.errorSerializer !== "undefined")
+      builder.withErrorSerializer(config.errorSerializer || undefined);
+    if (config?.codecs) builder.withCodecs(config.codecs);
+    if (config?.auth) builder.withAuth(config.auth);
+    if (config?.lenientBulk) builder.withLenientBulk();
+    if (config?.rateLimit) builder.withRateLimit(config.rateLimit);
+    if (config?.validation)
+      builder.withValidation(
+        typeof config.validation === "object" ? config.validation : undefined
+      );
+    if (config?.relations)
+      builder.withRelationExpansion(
+        typeof config.relations === "object" ? config.relations : undefined
+      );
+    if (config?.streaming)
+      builder.withStreaming(
+        typeof config.streaming === "number" ? config.streaming : undefined
+      );
     const allowStatementlessQuery = config?.allowStatementlessQuery ?? true;
     const allowGroupingQueries = config?.allowGroupingQueries ?? true;
+    const allowConditionQuery = config?.allowConditionQuery ?? true;
 
     builder
       .addCreateRoute()
       .addReadRoute()
       .addUpdateRoute()
+      .addPatchRoute()
       .addDeleteRoute();
 
+    if (config?.files) builder.addFileRoutes(config.files);
+
     if (bulkEnabled(config, "create")) builder.addBulkCreateRoute();
     if (bulkEnabled(config, "read")) builder.addBulkReadRoute();
     if (bulkEnabled(config, "update")) builder.addBulkUpdateRoute();
@@ -103,6 +125,8 @@ export class ModelControllerFactory {
 
     if (allowStatementlessQuery) builder.addComplexQueries(persistence);
 
+    if (allowConditionQuery) builder.addQueryRoute();
+
     if (allowGroupingQueries) {
       builder.addGroupingQueryRoute(
         typeof allowGroupingQueries === "boolean"
@@ -122,7 +146,11 @@ export class ModelControllerFactory {
     const composedPaths = composedRoutePaths(ModelConstr);
     if (composedPaths.length > 1) {
       for (const path of composedPaths.slice(1)) {
-        builder.addReadRoute(path).addUpdateRoute(path).addDeleteRoute(path);
+        builder
+          .addReadRoute(path)
+          .addUpdateRoute(path)
+          .addPatchRoute(path)
+          .addDeleteRoute(path);
       }
     }
 
@@ -1,6 +1,7 @@
 import { Context, ContextFlags } from "@decaf-ts/core";
 import { Logger, type LogMeta } from "@decaf-ts/logging";
 import { type DecafController } from "./controllers";
+import { clientIpOf } from "./ip";
 
 export type RequestLogger = Logger & {
   fatal(msg: string | Error, error?: Error | LogMeta, meta?: LogMeta): void;
@@ -29,19 +30,7 @@ export abstract class RequestContext<REQUEST> extends Context<
 
   protected generateOverrides() {
     const headers = this.controller["headersOf"](this.request);
-    function parseIpHeader(value?: string | string[]): string | undefined {
-      if (!value) return undefined;
-      const candidate = Array.isArray(value) ? value[0] : value;
-      return candidate
-        .split(",")
-        .map((segment) => segment.trim())
-        .filter(Boolean)[0];
-    }
-    const forwarded =
-      parseIpHeader(headers?.["x-forwarded-for"]) ??
-      parseIpHeader(headers?.["x-real-ip"]) ??
-      parseIpHeader(headers?.["X-Forwarded-For"]) ??
-      parseIpHeader(headers?.["X-Real-IP"]);
+    const forwarded = clientIpOf(headers);
     if (forwarded) return forwarded;
   }
 }
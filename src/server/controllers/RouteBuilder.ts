@@ -1,4 +1,6 @@
 import { ServerRoute, RouteParam, RouteResponse } from "./models";
+import { withRequestValidation } from "./validation";
+import type { RouteValidationOptions } from "./types";
 
 export class ServerMethodBuilder {
   private method: "GET" | "POST" | "PUT" | "DELETE" | "PATCH" = "GET";
@@ -12,6 +14,7 @@ export class ServerMethodBuilder {
   private bodySchema?: any;
   private responses?: Record<number, RouteResponse>;
   private implementation?: (...args: any[]) => any;
+  private validation?: RouteValidationOptions;
 
   withMethod(method: "GET" | "POST" | "PUT" | "DELETE" | "PATCH"): this {
     this.method = method;
@@ -77,6 +80,11 @@ export class ServerMethodBuilder {
     return this;
   }
 
+  withValidation(options: RouteValidationOptions | false = {}): this {
+    this.validation = options || undefined;
+    return this;
+  }
+
   withImplementation(implementation: (...args: any[]) => any): this {
     this.implementation = implementation;
     return this;
@@ -96,7 +104,10 @@ export class ServerMethodBuilder {
       bodySchema: this.bodySchema,
       responses: this.responses,
     });
-    route.implementation = this.implementation;
+    route.implementation =
+      this.validation && this.implementation
+        ? withRequestValidation(this.implementation, route, this.validation)
+        : this.implementation;
     return route;
   }
 }
@@ -0,0 +1,76 @@
+import { PrimaryKeyType } from "@decaf-ts/db-decorators";
+import { DecafHeaders, LenientBulkPreference } from "../../constants";
+import { headerValue } from "../../retry";
+import type { BulkEnvelope, BulkItemOutcome } from "../../types";
+import { withResponseHeaders, withResponseStatus } from "./concurrency";
+import type { ServerErrorSerializer } from "./types";
+
+/**
+ * @description Checks whether the request bound to a context asks for lenient bulk handling
+ * @param {any} ctx - The request context
+ * @return {boolean} Whether the `Prefer` header lists {@link LenientBulkPreference}
+ * @function prefersLenientHandling
+ * @memberOf module:for-http.server
+ */
+export function prefersLenientHandling(ctx: any): boolean {
+  let prefer: string | undefined;
+  try {
+    prefer = headerValue(ctx?.get?.("headers"), DecafHeaders.PREFER);
+  } catch {
+    return false;
+  }
+  return (
+    !!prefer &&
+    prefer
+      .split(/[,;]/)
+      .some((token) => token.trim().toLowerCase() === LenientBulkPreference)
+  );
+}
+
+/**
+ * @description Runs the items of a bulk request one by one
+ * @summary Items run in order; a failing item is recorded with its serialized error and does not
+ * stop the others. The envelope carries `Preference-Applied`, and the `207 Multi-Status` status
+ * when some item failed.
+ * @template I - The item type
+ * @param {I[]} items - The records or ids of the request
+ * @param {Function} run - Processes an item, resolving to its stored record
+ * @param {Function} idOf - Resolves the id of an item from the item and its record, if any
+ * @param {ServerErrorSerializer} serializer - Serializes the errors of failed items
+ * @param {any} [ctx] - The request context
+ * @param {number} [status=200] - The status of successful items
+ * @return {Promise<BulkEnvelope>} The outcome of every item
+ * @function settleBulk
+ * @memberOf module:for-http.server
+ */
+export async function settleBulk<I>(
+  items: I[],
+  run: (item: I) => Promise<any>,
+  idOf: (item: I, result?: any) => PrimaryKeyType | undefined,
+  serializer: ServerErrorSerializer,
+  ctx?: any,
+  status: number = 200
+): Promise<BulkEnvelope> {
+  const outcomes: BulkItemOutcome[] = [];
+  for (const [index, item] of items.entries()) {
+    try {
+      const result = await run(item);
+      outcomes.push({ index, id: idOf(item, result), status, result });
+    } catch (e: unknown) {
+      const failure = serializer(e, ctx);
+      outcomes.push({
+        index,
+        id: idOf(item),
+        status: failure.status,
+        error: failure.body.error,
+      });
+    }
+  }
+  const envelope = withResponseHeaders(
+    { items: outcomes },
+    { "Preference-Applied": LenientBulkPreference }
+  );
+  return outcomes.some(({ error }) => error)
+    ? withResponseStatus(envelope, 207)
+    : envelope;
+}
@@ -0,0 +1,116 @@
+import { BadRequestError } from "@decaf-ts/db-decorators";
+import { bodyBytes, CodecRegistry, isBinaryBody } from "../../codecs";
+import { CodecContentType } from "../../constants";
+import { headerValue } from "../../retry";
+import {
+  responseHeadersOf,
+  responseStatusOf,
+  withResponseHeaders,
+  withResponseStatus,
+} from "./concurrency";
+
+const negotiated = Symbol("negotiated");
+const rawBody = Symbol("rawBody");
+
+function requestHeaders(ctx: any): Record<string, any> | undefined {
+  try {
+    return ctx?.get?.("headers");
+  } catch {
+    return undefined;
+  }
+}
+
+function isStreamed(result: any): boolean {
+  return (
+    isBinaryBody(result) ||
+    typeof result.pipe === "function" ||
+    typeof result[Symbol.asyncIterator] === "function" ||
+    typeof result.getReader === "function"
+  );
+}
+
+/**
+ * @description Marks a route implementation as reading its body as sent
+ * @summary {@link withCodecNegotiation} leaves the body of marked implementations undecoded, e.g.
+ * for file uploads whose content happens to have a codec's media type.
+ * @param {Function} implementation - The route implementation
+ * @return {Function} The same implementation
+ * @function withRawBody
+ * @memberOf module:for-http.server
+ */
+export function withRawBody<F extends (...args: any[]) => any>(
+  implementation: F
+): F {
+  Object.defineProperty(implementation, rawBody, { value: true });
+  return implementation;
+}
+
+/**
+ * @description Wraps a route implementation with body content negotiation
+ * @summary When `decodeBody` is set and the body (the first argument) arrives as a string or bytes,
+ * it is decoded by the codec of the request `Content-Type`; bodies of other types, or already parsed
+ * by the framework, are passed on unchanged. Results are encoded by the codec negotiated from the
+ * `Accept` header into a Buffer carrying its `Content-Type`, keeping the status and headers set by
+ * the route. JSON results, requests without `Accept` and streamed results are left for the framework
+ * to send. Wrapping an already wrapped implementation returns it unchanged.
+ * @param {Function} implementation - The route implementation
+ * @param {CodecRegistry} codecs - The available codecs
+ * @param {boolean} decodeBody - Whether the route receives a request body
+ * @return {Function} The wrapped implementation
+ * @throws {BadRequestError} When the body can not be decoded
+ * @function withCodecNegotiation
+ * @memberOf module:for-http.server
+ */
+export function withCodecNegotiation(
+  implementation: (...args: any[]) => any,
+  codecs: CodecRegistry,
+  decodeBody: boolean
+): (...args: any[]) => any {
+  if ((implementation as any)[negotiated]) return implementation;
+  const decode = !!decodeBody && !(implementation as any)[rawBody];
+  const wrapped = {
+    async [implementation.name](this: any, ...args: any[]) {
+      const headers = requestHeaders(this?.ctx);
+      const [body] = args;
+      if (decode && (typeof body === "string" || isBinaryBody(body))) {
+        const codec = codecs.forContentType(
+          headerValue(headers, "content-type")
+        );
+        if (codec) {
+          try {
+            args[0] = codec.decode(
+              typeof body === "string" ? body : bodyBytes(body)
+            );
+          } catch (e: unknown) {
+            throw new BadRequestError(
+              `Invalid ${codec.contentType} body: ${e}`
+            );
+          }
+        }
+      }
+      const result = await implementation.apply(this, args);
+      const accept = headerValue(headers, "accept");
+      if (
+        !accept ||
+        typeof result === "undefined" ||
+        (result && typeof result === "object" && isStreamed(result))
+      )
+        return result;
+      const codec = codecs.negotiate(accept);
+      if (!codec || codec.contentType === CodecContentType.JSON) return result;
+      const status = responseStatusOf(result);
+      const encoded = withResponseHeaders(
+        Buffer.from(codec.encode(result)),
+        Object.assign({}, responseHeadersOf(result), {
+          "Content-Type": codec.contentType,
+          Vary: "Accept",
+        })
+      );
+      return typeof status === "number"
+        ? withResponseStatus(encoded, status)
+        : encoded;
+    },
+  }[implementation.name];
+  Object.defineProperty(wrapped, negotiated, { value: true });
+  return wrapped;
+}
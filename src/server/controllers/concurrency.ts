@@ -0,0 +1,155 @@
+import { createHash } from "crypto";
+import { ConflictError } from "@decaf-ts/db-decorators";
+import { DecafHeaders } from "../../constants";
+import { ServerKeys } from "../constants";
+
+/**
+ * @description Computes the entity tag of a stored model
+ * @summary Derived from the model's `version`, falling back to `updatedAt` and then to a hash
+ * of its content, so the tag changes with every persisted update.
+ * @param {any} model - The stored model
+ * @return {string|undefined} The quoted entity tag, when the model is an object
+ * @function etagOf
+ * @memberOf module:for-http.server
+ */
+export function etagOf(model: any): string | undefined {
+  if (!model || typeof model !== "object") return undefined;
+  const version =
+    model.version ??
+    (model.updatedAt instanceof Date
+      ? model.updatedAt.toISOString()
+      : model.updatedAt);
+  const source =
+    typeof version === "undefined" || version === null
+      ? JSON.stringify(model)
+      : JSON.stringify(version);
+  return `"${createHash("sha1").update(source).digest("base64url")}"`;
+}
+
+/**
+ * @description Lists the entity tags of the stored models of a bulk read
+ * @summary Sent as the `x-entity-tags` header, in the order of the records, so clients reading
+ * through the bulk route keep a version to send back as `If-Match`.
+ * @param {any} models - The stored models
+ * @return {string|undefined} The comma separated entity tags, when the models are a list
+ * @function etagsOf
+ * @memberOf module:for-http.server
+ */
+export function etagsOf(models: any): string | undefined {
+  if (!Array.isArray(models)) return undefined;
+  return models.map((model) => etagOf(model) ?? "").join(", ");
+}
+
+/**
+ * @description Checks an `If-Match` header against an entity tag
+ * @summary Accepts `*` and comma separated lists. Weak validators (`W/`) are compared by their value.
+ * @param {string} header - The `If-Match` header value
+ * @param {string|undefined} etag - The current entity tag
+ * @return {boolean} Whether the precondition holds
+ * @function matchesEtag
+ * @memberOf module:for-http.server
+ */
+export function matchesEtag(header: string, etag: string | undefined): boolean {
+  if (header.trim() === "*") return !!etag;
+  if (!etag) return false;
+  const strip = (tag: string) => tag.trim().replace(/^W\//, "");
+  return header.split(",").some((tag) => strip(tag) === strip(etag));
+}
+
+/**
+ * @description Enforces an `If-Match` precondition
+ * @param {string|undefined} header - The `If-Match` header value, when sent
+ * @param {any} stored - The currently stored model
+ * @throws {ConflictError} With status 412 when the stored model changed
+ * @function assertEtagMatch
+ * @memberOf module:for-http.server
+ */
+export function assertEtagMatch(header: string | undefined, stored: any) {
+  if (!header) return;
+  if (matchesEtag(header, etagOf(stored))) return;
+  throw Object.assign(
+    new ConflictError(
+      `${DecafHeaders.IF_MATCH} precondition failed: the record was modified`
+    ),
+    { status: 412 }
+  );
+}
+
+/**
+ * @description Attaches response headers to a route result
+ * @summary Headers are stored in a non-enumerable property so the result serializes unchanged.
+ * Framework bridges send them with {@link responseHeadersOf}.
+ * @template T - The result type
+ * @param {T} result - The route result
+ * @param {Record<string, string>} headers - The headers to attach
+ * @return {T} The same result
+ * @function withResponseHeaders
+ * @memberOf module:for-http.server
+ */
+export function withResponseHeaders<T>(
+  result: T,
+  headers: Record<string, string | undefined>
+): T {
+  if (!result || typeof result !== "object") return result;
+  const defined = Object.entries(headers).filter(
+    ([, value]) => typeof value !== "undefined"
+  );
+  if (!defined.length) return result;
+  Object.defineProperty(result, ServerKeys.RESPONSE_HEADERS, {
+    enumerable: false,
+    configurable: true,
+    writable: false,
+    value: Object.assign(
+      {},
+      responseHeadersOf(result),
+      Object.fromEntries(defined)
+    ),
+  });
+  return result;
+}
+
+/**
+ * @description Reads the response headers attached to a route result
+ * @param {unknown} result - The route result
+ * @return {Record<string, string>} The headers, empty when none were attached
+ * @function responseHeadersOf
+ * @memberOf module:for-http.server
+ */
+export function responseHeadersOf(result: unknown): Record<string, string> {
+  if (!result || typeof result !== "object") return {};
+  return (result as any)[ServerKeys.RESPONSE_HEADERS] ?? {};
+}
+
+/**
+ * @description Sets the response status of a route result
+ * @summary Stored like the response headers, in a non-enumerable property. Framework bridges send
+ * it with {@link responseStatusOf}, e.g. `201` for created files or `206` for partial content.
+ * @template T - The result type
+ * @param {T} result - The route result
+ * @param {number} status - The HTTP status code
+ * @return {T} The same result
+ * @function withResponseStatus
+ * @memberOf module:for-http.server
+ */
+export function withResponseStatus<T>(result: T, status: number): T {
+  if (!result || typeof result !== "object") return result;
+  Object.defineProperty(result, ServerKeys.RESPONSE_STATUS, {
+    enumerable: false,
+    configurable: true,
+    writable: false,
+    value: status,
+  });
+  return result;
+}
+
+/**
+ * @description Reads the response status set on a route result
+ * @param {unknown} result - The route result
+ * @return {number|undefined} The status, when one was set
+ * @function responseStatusOf
+ * @memberOf module:for-http.server
+ */
+export function responseStatusOf(result: unknown): number | undefined {
+  if (!result || typeof result !== "object") return undefined;
+  return (result as any)[ServerKeys.RESPONSE_STATUS];
+}
@@ -16,6 +16,7 @@ import { Logger } from "@decaf-ts/logging";
 import { Model, ModelConstructor } from "@decaf-ts/decorator-validation";
 import { Contextual } from "@decaf-ts/db-decorators";
 import { RequestContext } from "./RequestContex";
+import { clientIpOf } from "./ip";
 
 export abstract class DecafController<
   REQUEST,
@@ -32,26 +33,7 @@ export abstract class DecafController<
   }
 
   protected ipOf(request: REQUEST): string | undefined {
-    function parseIpHeader(value?: string | string[]): string | undefined {
-      if (!value) return undefined;
-      const candidate = Array.isArray(value) ? value[0] : value;
-      return candidate
-        .split(",")
-        .map((segment) => segment.trim())
-        .filter(Boolean)[0];
-    }
-
-    const headers = this.headersOf(request);
-    if (headers) {
-      const forwarded =
-        parseIpHeader(headers?.["x-forwarded-for"]) ??
-        parseIpHeader(headers?.["x-real-ip"]) ??
-        parseIpHeader(headers?.["X-Forwarded-For"]) ??
-        parseIpHeader(headers?.["X-Real-IP"]);
-      if (forwarded) return forwarded;
-    }
-
-    return (request as any).ip || undefined;
+    return clientIpOf(this.headersOf(request), (request as any).ip);
   }
 
   protected loggerFor(log: Logger, request: REQUEST) {
@@ -0,0 +1,89 @@
+import { DecafHeaders } from "../../constants";
+import { serializeError } from "../../errors";
+import { InternalError } from "@decaf-ts/db-decorators";
+import { ServerErrorSerializer, SerializedRouteError } from "./types";
+
+/**
+ * @description Reads the correlation id of the request bound to a context
+ * @param {any} ctx - The request context
+ * @return {string|undefined} The correlation id, when the request sent one
+ * @function correlationIdOf
+ * @memberOf module:for-http.server
+ */
+export function correlationIdOf(ctx: any): string | undefined {
+  let headers: Record<string, any> | undefined;
+  try {
+    headers = ctx?.get?.("headers");
+  } catch {
+    return undefined;
+  }
+  if (!headers) return undefined;
+  const value =
+    headers[DecafHeaders.CORRELATION_ID] ??
+    Object.entries(headers).find(
+      ([key]) => key.toLowerCase() === DecafHeaders.CORRELATION_ID
+    )?.[1];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * @description Default route error serializer
+ * @summary Serializes the error with {@link serializeError}, tagging it with the request's correlation id.
+ * @param {unknown} error - The error thrown by the route implementation
+ * @param {any} [ctx] - The request context
+ * @return {{status: number, body: HttpErrorPayload}} The status code and the response body
+ * @function serializeServerError
+ * @memberOf module:for-http.server
+ */
+export const serializeServerError: ServerErrorSerializer = (
+  error: unknown,
+  ctx?: any
+) => serializeError(error, correlationIdOf(ctx));
+
+const serialized = Symbol("serialized");
+
+/**
+ * @description Wraps a route implementation so failures are serialized
+ * @summary Sync and async failures are rethrown with the serialized `status` and `body` attached
+ * (see {@link SerializedRouteError}), so framework bridges can answer with them as is while the
+ * original error class is preserved. Wrapping an already wrapped implementation returns it unchanged.
+ * @param {Function} implementation - The route implementation
+ * @param {ServerErrorSerializer} serializer - The serializer to apply
+ * @return {Function} The wrapped implementation
+ * @function withErrorSerialization
+ * @memberOf module:for-http.server
+ */
+export function withErrorSerialization(
+  implementation: (...args: any[]) => any,
+  serializer: ServerErrorSerializer
+): (...args: any[]) => any {
+  if ((implementation as any)[serialized]) return implementation;
+  const fail = (error: unknown, ctx: any): never => {
+    const failure = (
+      error instanceof Error ? error : new InternalError(String(error))
+    ) as SerializedRouteError;
+    if (failure.body) throw failure;
+    const { status, body } = serializer(error, ctx);
+    Object.defineProperties(failure, {
+      status: { value: status, configurable: true },
+      statusCode: { value: status, configurable: true },
+      body: { value: body, configurable: true },
+    });
+    throw failure;
+  };
+  const wrapped = {
+    [implementation.name](this: any, ...args: any[]) {
+      let result: any;
+      try {
+        result = implementation.apply(this, args);
+      } catch (e: unknown) {
+        return fail(e, this?.ctx);
+      }
+      if (result && typeof result.then === "function")
+        return result.then(undefined, (e: unknown) => fail(e, this?.ctx));
+      return result;
+    },
+  }[implementation.name];
+  Object.defineProperty(wrapped, serialized, { value: true });
+  return wrapped;
+}
@@ -0,0 +1,164 @@
+import { AuthorizationError, PersistenceKeys } from "@decaf-ts/core";
+import { Model } from "@decaf-ts/decorator-validation";
+import { Metadata } from "@decaf-ts/decoration";
+import type { Constructor } from "@decaf-ts/decoration";
+import {
+  InternalError,
+  NotFoundError,
+  PrimaryKeyType,
+} from "@decaf-ts/db-decorators";
+import { relatedModelOf } from "../../relations";
+import type { IncludeTree } from "../../types";
+import { AUTH_NAMESPACE_KEY } from "../auth/constants";
+
+/**
+ * @description Loads and authorizes the related records of an expansion
+ * @typedef {Object} RelationResolver
+ * @property {Function} persistenceFor - Resolves the persistence layer of a related model
+ * @property {Function} [authorize] - Rejects access to a related model, e.g. through {@link AuthHandler.authorizeModel} or {@link refuseGuardedModel}
+ * @property {any} [ctx] - The request context
+ * @memberOf module:for-http.server
+ */
+export type RelationResolver = {
+  persistenceFor: (model: Constructor<Model>) => any;
+  authorize?: (model: Constructor<Model>) => void | Promise<void>;
+  ctx?: any;
+};
+
+function isReference(value: unknown): value is PrimaryKeyType {
+  return ["string", "number", "bigint"].includes(typeof value);
+}
+
+async function loadRelated(
+  Related: Constructor<Model>,
+  ids: PrimaryKeyType[],
+  resolver: RelationResolver
+): Promise<Map<string, Record<string, any>>> {
+  const loaded = new Map<string, Record<string, any>>();
+  if (!ids.length) return loaded;
+  const persistence = resolver.persistenceFor(Related);
+  const target =
+    typeof persistence?.readAll === "function"
+      ? persistence
+      : persistence?.repo;
+  if (typeof target?.readAll !== "function")
+    throw new InternalError(`No persistence available for ${Related.name}`);
+  const pk = Model.pk(Related) as string;
+  let records: Record<string, any>[];
+  try {
+    records = await target.readAll(ids, resolver.ctx);
+  } catch (e: unknown) {
+    if (!(e instanceof NotFoundError)) throw e;
+    records = (
+      await Promise.all(
+        ids.map((id) =>
+          Promise.resolve(target.read(id, resolver.ctx)).catch(
+            (error: unknown) => {
+              if (error instanceof NotFoundError) return undefined;
+              throw error;
+            }
+          )
+        )
+      )
+    ).filter(Boolean);
+  }
+  for (const record of records || [])
+    if (record && typeof record[pk] !== "undefined")
+      loaded.set(String(record[pk]), record);
+  return loaded;
+}
+
+async function expandLevel(
+  records: Record<string, any>[],
+  ModelConstr: Constructor<Model>,
+  tree: IncludeTree,
+  resolver: RelationResolver
+): Promise<void> {
+  for (const [relation, nested] of Object.entries(tree)) {
+    const Related = relatedModelOf(ModelConstr, relation);
+    if (!Related) continue;
+    await resolver.authorize?.(Related);
+
+    const ids = new Set<PrimaryKeyType>();
+    for (const record of records)
+      for (const value of ([] as unknown[]).concat(record[relation] ?? []))
+        if (isReference(value)) ids.add(value);
+    const loaded = await loadRelated(Related, [...ids], resolver);
+
+    const related: Record<string, any>[] = [];
+    const resolve = (value: unknown) => {
+      const found = isReference(value) ? loaded.get(String(value)) : value;
+      if (!found || typeof found !== "object") return value;
+      const copy = Object.assign({}, found);
+      related.push(copy);
+      return copy;
+    };
+    for (const record of records) {
+      const value = record[relation];
+      if (value === null || typeof value === "undefined") continue;
+      record[relation] = Array.isArray(value)
+        ? value.map(resolve)
+        : resolve(value);
+    }
+    if (Object.keys(nested).length)
+      await expandLevel(related, Related, nested, resolver);
+  }
+}
+
+/**
+ * @description Refuses to expand related models guarded by roles or namespaces
+ * @summary The authorization applied when no auth handler is configured, so an expansion never
+ * exposes the records of a model declaring `@roles()` or `@namespace()`.
+ * @param {Constructor<Model>} model - The related model
+ * @throws {AuthorizationError} When the model declares roles or namespaces
+ * @function refuseGuardedModel
+ * @memberOf module:for-http.server
+ */
+export function refuseGuardedModel(model: Constructor<Model>): void {
+  const guards = [
+    Metadata.get(model, PersistenceKeys.AUTH_ROLE),
+    Metadata.get(model, AUTH_NAMESPACE_KEY),
+  ];
+  if (guards.some((guard) => Array.isArray(guard) && guard.length))
+    throw new AuthorizationError(
+      `${model.name} declares roles or namespaces and can only be expanded with an auth handler`
+    );
+}
+
+/**
+ * @description Replaces the foreign keys of a read or query result with the related records
+ * @summary Follows `tree` level by level, reading the related records of every level with one
+ * `readAll` per relation. Related models are authorized before being read; records that no
+ * longer exist are left as foreign keys. Records, lists of records and serialized pages are
+ * expanded on copies; anything else is returned as is.
+ * @param {any} result - The result
+ * @param {Constructor<Model>} ModelConstr - The model of the result
+ * @param {IncludeTree} tree - The relations to expand
+ * @param {RelationResolver} resolver - Loads and authorizes the related records
+ * @return {Promise<any>} The expanded result
+ * @function expandRelations
+ * @memberOf module:for-http.server
+ */
+export async function expandRelations(
+  result: any,
+  ModelConstr: Constructor<Model>,
+  tree: IncludeTree,
+  resolver: RelationResolver
+): Promise<any> {
+  if (!result || typeof result !== "object") return result;
+  const copy = (record: any) =>
+    record && typeof record === "object" ? Object.assign({}, record) : record;
+  if (Array.isArray(result)) {
+    const records = result.map(copy);
+    await expandLevel(records.filter(Boolean), ModelConstr, tree, resolver);
+    return records;
+  }
+  if (Array.isArray(result.data)) {
+    const records = result.data.map(copy);
+    await expandLevel(records.filter(Boolean), ModelConstr, tree, resolver);
+    return Object.assign({}, result, { data: records });
+  }
+  const record = copy(result);
+  await expandLevel([record], ModelConstr, tree, resolver);
+  return record;
+}
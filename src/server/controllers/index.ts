@@ -1,8 +1,16 @@
+export * from "./bulk";
 export * from "./ControllerBuilder";
+export * from "./codecs";
+export * from "./concurrency";
 export * from "./ModelControllerFactory";
 export * from "./ModelControllerBuilder";
 export * from "./RequestContex";
 export * from "./controllers";
+export * from "./errors";
+export * from "./expansion";
+export * from "./ip";
 export * from "./models";
 export * from "./types";
 export * from "./RouteBuilder";
+export * from "./streaming";
+export * from "./validation";
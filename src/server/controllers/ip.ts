@@ -0,0 +1,39 @@
+import { headerValue } from "../../retry";
+import type { TrustProxy } from "./types";
+
+function addressesOf(value?: string): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((segment) => segment.trim())
+    .filter(Boolean);
+}
+
+/**
+ * @description Reads the client IP of a request
+ * @summary Forwarded headers are only honored as far as `trustProxy` allows: `false` keeps the
+ * address of the peer, `true` trusts any peer and takes the first `X-Forwarded-For` (or
+ * `X-Real-IP`) address, and a list of proxy addresses honors them only when the peer is one of
+ * those proxies, taking the last `X-Forwarded-For` address that is not a trusted proxy.
+ * @param {Record<string, any>} [headers] - The request headers
+ * @param {string} [ip] - The address of the peer
+ * @param {TrustProxy} [trustProxy] - Which peers may forward the client address, any by default
+ * @return {string|undefined} The client IP, when known
+ * @function clientIpOf
+ * @memberOf module:for-http.server
+ */
+export function clientIpOf(
+  headers?: Record<string, any>,
+  ip?: string,
+  trustProxy: TrustProxy = true
+): string | undefined {
+  ip = ip || undefined;
+  if (!trustProxy || !headers) return ip;
+  const forwarded = addressesOf(headerValue(headers, "x-forwarded-for"));
+  const real = addressesOf(headerValue(headers, "x-real-ip"))[0];
+  if (trustProxy === true) return forwarded[0] ?? real ?? ip;
+  if (!ip || !trustProxy.includes(ip)) return ip;
+  const untrusted = [...forwarded]
+    .reverse()
+    .find((address) => !trustProxy.includes(address));
+  return untrusted ?? forwarded[0] ?? real ?? ip;
+}
@@ -0,0 +1,38 @@
+import { PersistenceKeys } from "@decaf-ts/core";
+import { Metadata } from "@decaf-ts/decoration";
+import { RateLimitKeys } from "../ratelimit/constants";
+import type { RateLimitRule } from "../ratelimit/types";
+
+export type RouteMetadata = Record<
+  string,
+  { path: string; httpMethod: "GET" | "POST" | "PUT" | "PATCH" | "DELETE" }
+>;
+
+export type QueryMetadata = Record<string, { fields?: string[] | undefined }>;
+
+export function metadataSource(value: any): any {
+  if (!value) return value;
+  return typeof value === "function" ? value : value.constructor;
+}
+
+export function readRouteMetadata(value: any): RouteMetadata {
+  const source = metadataSource(value);
+  return (Metadata.get(source, Metadata.key(PersistenceKeys.DECAF_ROUTE)) ??
+    {}) as RouteMetadata;
+}
+
+export function readQueryMetadata(value: any): QueryMetadata {
+  const source = metadataSource(value);
+  return (Metadata.get(source, Metadata.key(PersistenceKeys.QUERY)) ??
+    {}) as QueryMetadata;
+}
+
+export function readRateLimitMetadata(
+  value: any
+): Record<string, RateLimitRule | false> {
+  const source = metadataSource(value);
+  return (Metadata.get(source, RateLimitKeys.METHOD) ?? {}) as Record<
+    string,
+    RateLimitRule | false
+  >;
+}
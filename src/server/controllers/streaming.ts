@@ -0,0 +1,122 @@
+import { Readable } from "stream";
+import type { DirectionLimitOffset } from "@decaf-ts/core";
+import { NdjsonContentType, NdjsonErrorKey } from "../../constants";
+import { headerValue } from "../../retry";
+import { responseHeadersOf, withResponseHeaders } from "./concurrency";
+import { serializeServerError } from "./errors";
+import type { ServerErrorSerializer } from "./types";
+
+/**
+ * @description Reads one page of records from the persistence layer
+ * @summary Receives the page size as `limit`, the page number, starting at 1, as `offset` and
+ * the bookmark returned with the previous page. Answers with a serialized page or a list.
+ * @typedef {Function} RecordPageFetcher
+ * @memberOf module:for-http.server
+ */
+export type RecordPageFetcher = (
+  ref: Required<Pick<DirectionLimitOffset, "limit" | "offset">> &
+    Pick<DirectionLimitOffset, "bookmark">
+) => Promise<any>;
+
+/**
+ * @description Checks whether the request bound to a context accepts NDJSON
+ * @param {any} ctx - The request context
+ * @return {boolean} Whether the `Accept` header lists `application/x-ndjson`
+ * @function acceptsNdjson
+ * @memberOf module:for-http.server
+ */
+export function acceptsNdjson(ctx: any): boolean {
+  let accept: string | undefined;
+  try {
+    accept = headerValue(ctx?.get?.("headers"), "accept");
+  } catch {
+    return false;
+  }
+  return !!accept && accept.toLowerCase().includes(NdjsonContentType);
+}
+
+/**
+ * @description Reads the records of a query page by page
+ * @summary The next page is only read once every record of the current one was consumed. Stops
+ * after an empty or short page, or once the last page reported by the persistence layer was read.
+ * @param {RecordPageFetcher} fetchPage - Reads a page
+ * @param {number} chunkSize - The page size
+ * @return {AsyncGenerator<any>} The records
+ * @function pagedRecords
+ * @memberOf module:for-http.server
+ */
+export async function* pagedRecords(
+  fetchPage: RecordPageFetcher,
+  chunkSize: number
+): AsyncGenerator<any> {
+  let bookmark: any;
+  for (let page = 1; ; page++) {
+    const result = await fetchPage({
+      limit: chunkSize,
+      offset: page,
+      bookmark,
+    });
+    const data: any[] = Array.isArray(result) ? result : (result?.data ?? []);
+    yield* data;
+    if (data.length < chunkSize) return;
+    if (!Array.isArray(result)) {
+      if (typeof result?.total === "number" && page >= result.total) return;
+      bookmark = result?.bookmark;
+    }
+  }
+}
+
+async function* ndjsonLines(
+  records: AsyncIterable<any>,
+  ctx: any,
+  serializer: ServerErrorSerializer
+): AsyncGenerator<string> {
+  try {
+    for await (const record of records) yield `${JSON.stringify(record)}\n`;
+  } catch (e: unknown) {
+    const { body } = serializer(e, ctx);
+    yield `${JSON.stringify({ [NdjsonErrorKey]: body.error })}\n`;
+  }
+}
+
+/**
+ * @description Streams records as an NDJSON response
+ * @summary Returns a readable stream of one JSON line per record, tagged with the
+ * `Content-Type: application/x-ndjson` response header (see {@link responseHeadersOf}). Records
+ * are pulled from `records` only as fast as the stream is read, and destroying the stream (e.g.
+ * when the client disconnects) stops reading them. A failure after the response started ends it
+ * with a `{ "$error": { ... } }` line holding the serialized error. Framework bridges pipe
+ * results recognized by {@link isNdjsonResponse} to the response instead of serializing them.
+ * @param {AsyncIterable<any>} records - The records to send
+ * @param {any} [ctx] - The request context
+ * @param {ServerErrorSerializer} [serializer] - Serializes failures, {@link serializeServerError} by default
+ * @return {Readable} The response stream
+ * @function ndjsonResponse
+ * @memberOf module:for-http.server
+ */
+export function ndjsonResponse(
+  records: AsyncIterable<any>,
+  ctx?: any,
+  serializer: ServerErrorSerializer = serializeServerError
+): Readable {
+  return withResponseHeaders(
+    Readable.from(ndjsonLines(records, ctx, serializer), {
+      objectMode: false,
+    }),
+    { "Content-Type": NdjsonContentType }
+  );
+}
+
+/**
+ * @description Checks whether a route result is a streamed NDJSON response
+ * @param {unknown} result - The route result
+ * @return {boolean} Whether the result was built by {@link ndjsonResponse}
+ * @function isNdjsonResponse
+ * @memberOf module:for-http.server
+ */
+export function isNdjsonResponse(result: unknown): result is Readable {
+  return (
+    result instanceof Readable &&
+    responseHeadersOf(result)["Content-Type"] === NdjsonContentType
+  );
+}
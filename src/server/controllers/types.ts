@@ -1,3 +1,10 @@
+import type { Model } from "@decaf-ts/decorator-validation";
+import type { Constructor } from "@decaf-ts/decoration";
+import type { HttpCodec, HttpErrorPayload } from "../../types";
+import type { FileRouteOptions } from "../files/types";
+import type { AuthHandler } from "../auth/AuthHandler";
+import type { RateLimitOptions } from "../ratelimit/types";
+
 export type GroupingQueryFlags = {
   count?: boolean;
   avg?: boolean;
@@ -23,9 +30,49 @@ export interface AuthConfig {
   skipModelNamespaces?: boolean;
 }
 
+export interface RelationExpansionOptions {
+  maxDepth?: number;
+  authHandler?: AuthHandler<any, any, any>;
+  persistenceFor?: (model: Constructor<Model>) => any;
+}
+
+export type TrustProxy = boolean | string[];
+
+export interface RequestValidationOptions {
+  rejectUnknownFields?: boolean;
+}
+
+export interface RouteValidationOptions extends RequestValidationOptions {
+  model?: Constructor<Model>;
+  partial?: boolean;
+  list?: boolean;
+}
+
+export type RequestFieldErrors = Record<string, Record<string, string>>;
+
+export type ServerErrorSerializer = (
+  error: unknown,
+  ctx?: any
+) => { status: number; body: HttpErrorPayload };
+
+export type SerializedRouteError = Error & {
+  status: number;
+  statusCode: number;
+  body: HttpErrorPayload;
+};
+
 export interface ModelControllerFactoryConfig {
   allowStatementlessQuery?: boolean;
+  allowConditionQuery?: boolean;
+  streaming?: boolean | number;
+  files?: FileRouteOptions;
+  codecs?: HttpCodec[];
+  lenientBulk?: boolean;
+  relations?: boolean | RelationExpansionOptions;
   allowGroupingQueries?: boolean | GroupingQueryFlags;
   allowBulkStatement?: boolean | BulkStatementFlags;
   auth?: AuthConfig;
+  validation?: boolean | RequestValidationOptions;
+  rateLimit?: RateLimitOptions;
+  errorSerializer?: ServerErrorSerializer | false;
 }
@@ -0,0 +1,217 @@
+import { Metadata, type Constructor } from "@decaf-ts/decoration";
+import { Model, ValidationKeys } from "@decaf-ts/decorator-validation";
+import { ValidationError } from "@decaf-ts/db-decorators";
+import type { RouteParam, ServerRoute } from "./models";
+import type { RequestFieldErrors, RouteValidationOptions } from "./types";
+
+const BodyMethods = ["POST", "PUT", "PATCH"];
+
+const UnknownFieldKey = "unknown";
+
+const Invalid = Symbol("invalid");
+
+const validated = Symbol("validated");
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return (
+    !!value &&
+    typeof value === "object" &&
+    !Array.isArray(value) &&
+    !(value instanceof Date) &&
+    !Buffer.isBuffer(value)
+  );
+}
+
+function isModelType(type: unknown): type is Constructor<Model> {
+  return typeof type === "function" && type.prototype instanceof Model;
+}
+
+function coerce(value: unknown, type: string): unknown {
+  switch (type) {
+    case "string":
+      return ["string", "number", "boolean", "bigint"].includes(typeof value)
+        ? String(value)
+        : Invalid;
+    case "number": {
+      const parsed =
+        typeof value === "string" && value.trim() ? Number(value) : value;
+      return typeof parsed === "number" && Number.isFinite(parsed)
+        ? parsed
+        : Invalid;
+    }
+    case "boolean":
+      if (typeof value === "boolean") return value;
+      if (value === "true" || value === "1") return true;
+      if (value === "false" || value === "0") return false;
+      return Invalid;
+    case "array":
+      if (Array.isArray(value)) return value;
+      return typeof value === "string"
+        ? value.split(",").filter((item) => item !== "")
+        : Invalid;
+    case "object":
+      if (isPlainObject(value)) return value;
+      if (typeof value !== "string") return Invalid;
+      try {
+        const parsed = JSON.parse(value);
+        return isPlainObject(parsed) ? parsed : Invalid;
+      } catch {
+        return Invalid;
+      }
+    default:
+      return value;
+  }
+}
+
+function attributeType(
+  model: Constructor<Model> | undefined,
+  attribute: string
+): string | undefined {
+  if (!model || !(Model.getAttributes(model) as string[]).includes(attribute))
+    return undefined;
+  const type = Metadata.type(model, attribute) as any;
+  const name = (typeof type === "string" ? type : type?.name)?.toLowerCase();
+  return ["string", "number", "boolean"].includes(name) ? name : undefined;
+}
+
+async function bodyErrors(
+  model: Constructor<Model>,
+  body: unknown,
+  options: RouteValidationOptions
+): Promise<RequestFieldErrors> {
+  if (options.list) {
+    if (!Array.isArray(body))
+      return {
+        body: {
+          [ValidationKeys.TYPE]: `Expected a list of ${model.name} objects`,
+        },
+      };
+    const errors: RequestFieldErrors = {};
+    for (const [index, item] of body.entries())
+      for (const [field, rules] of Object.entries(
+        await bodyErrors(model, item, { ...options, list: false })
+      ))
+        errors[field === "body" ? `${index}` : `${index}.${field}`] = rules;
+    return errors;
+  }
+  if (!isPlainObject(body))
+    return options.partial
+      ? {}
+      : {
+          body: {
+            [ValidationKeys.TYPE]: `Expected a ${model.name} object`,
+          },
+        };
+  const errors: RequestFieldErrors = {};
+  if (options.rejectUnknownFields) {
+    const attributes = Model.getAttributes(model) as string[];
+    Object.keys(body)
+      .filter((key) => !attributes.includes(key))
+      .forEach(
+        (key) =>
+          (errors[key] = {
+            [UnknownFieldKey]: `${key} is not a ${model.name} attribute`,
+          })
+      );
+  }
+  const pk = Model.pk(model) as string;
+  const exceptions = typeof body[pk] === "undefined" ? [pk] : [];
+  const found = await new model(body).hasErrors(...(exceptions as any[]));
+  for (const [field, rules] of Object.entries(found ?? {})) {
+    if (options.partial && !(field in body)) continue;
+    errors[field] = rules as Record<string, string>;
+  }
+  return errors;
+}
+
+/**
+ * @description Wraps a route implementation with request validation
+ * @summary Before the implementation runs, path parameters (the route's `:name` segments) and the
+ * query parameters of the trailing details object are coerced to their declared {@link RouteParam}
+ * types, falling back to the type of the same-named attribute of `options.model` for path
+ * parameters. Bodies of POST, PUT and PATCH routes are validated against the route's model body
+ * schema, or `options.model`, through the model's decorator-validation rules; `partial` bodies only
+ * report the fields they carry, `list` bodies are validated item by item with the failures keyed
+ * `<index>.<field>`, and `rejectUnknownFields` reports fields that are not model attributes. All failures are reported at once as a ValidationError (422) whose `details` map each
+ * field to its failed rules. Wrapping an already wrapped implementation returns it unchanged.
+ * @param {Function} implementation - The route implementation
+ * @param {ServerRoute} route - The route, declaring the parameters and the body schema
+ * @param {RouteValidationOptions} [options] - The model and how strict the body validation is
+ * @return {Function} The wrapped implementation
+ * @throws {ValidationError} When a parameter or the body is invalid
+ * @function withRequestValidation
+ * @memberOf module:for-http.server
+ */
+export function withRequestValidation(
+  implementation: (...args: any[]) => any,
+  route: ServerRoute,
+  options: RouteValidationOptions = {}
+): (...args: any[]) => any {
+  if ((implementation as any)[validated]) return implementation;
+  const hasBody = BodyMethods.includes(route.method);
+  const bodyModel = isModelType(route.bodySchema)
+    ? route.bodySchema
+    : options.model;
+  const pathParams = route.path
+    .split("/")
+    .filter((segment) => segment.startsWith(":"))
+    .map((segment) => segment.slice(1))
+    .map((name) => ({
+      name,
+      type:
+        route.pathParams?.find((param: RouteParam) => param.name === name)
+          ?.type ?? attributeType(options.model, name),
+    }));
+  const queryParams: RouteParam[] = route.queryParams ?? [];
+
+  const wrapped = {
+    async [implementation.name](this: any, ...args: any[]) {
+      const errors: RequestFieldErrors = {};
+      const offset = hasBody ? 1 : 0;
+      pathParams.forEach(({ name, type }, i) => {
+        if (!type || args.length <= offset + i) return;
+        const value = coerce(args[offset + i], type);
+        if (value === Invalid)
+          errors[name] = { [ValidationKeys.TYPE]: `Expected a ${type}` };
+        else args[offset + i] = value;
+      });
+
+      if (queryParams.length) {
+        const last = args[args.length - 1];
+        const details =
+          args.length > offset + pathParams.length && isPlainObject(last)
+            ? last
+            : {};
+        for (const param of queryParams) {
+          if (typeof details[param.name] === "undefined") {
+            if (param.required)
+              errors[param.name] = {
+                [ValidationKeys.REQUIRED]: `${param.name} is required`,
+              };
+            continue;
+          }
+          const value = coerce(details[param.name], param.type);
+          if (value === Invalid)
+            errors[param.name] = {
+              [ValidationKeys.TYPE]: `Expected a ${param.type}`,
+            };
+          else details[param.name] = value;
+        }
+      }
+
+      if (hasBody && bodyModel)
+        Object.assign(errors, await bodyErrors(bodyModel, args[0], options));
+
+      if (Object.keys(errors).length)
+        throw Object.assign(
+          new ValidationError(
+            `Invalid request: ${Object.keys(errors).join(", ")}`
+          ),
+          { details: errors }
+        );
+      return implementation.apply(this, args);
+    },
+  }[implementation.name];
+  Object.defineProperty(wrapped, validated, { value: true });
+  return wrapped;
+}
@@ -0,0 +1,573 @@
+import { PassThrough, Readable } from "stream";
+import type {
+  Adapter,
+  Context,
+  ContextualArgs,
+  EventIds,
+  ObserverFilter,
+  PersistenceObserver,
+} from "@decaf-ts/core";
+import {
+  BadRequestError,
+  type BulkCrudOperationKeys,
+  type OperationKeys,
+} from "@decaf-ts/db-decorators";
+import type { Constructor } from "@decaf-ts/decoration";
+import { Model } from "@decaf-ts/decorator-validation";
+import { SerializationCodec } from "../../codecs";
+import {
+  DecafHeaders,
+  EventStreamContentType,
+  ServerEventNames,
+} from "../../constants";
+import {
+  encodeServerEvent,
+  formatEventId,
+  parseEventId,
+} from "../../event/payload";
+import type { ServerEvent } from "../../event/types";
+import { headerValue } from "../../retry";
+import type { HttpCodec, HttpFlags } from "../../types";
+import { ServerControllerBuilder } from "../controllers/ControllerBuilder";
+import {
+  responseHeadersOf,
+  withResponseHeaders,
+} from "../controllers/concurrency";
+import { serializeServerError } from "../controllers/errors";
+import { ServerMethodBuilder } from "../controllers/RouteBuilder";
+import { matchesTopic } from "../hooks/utils";
+import {
+  CorrelationIdParam,
+  DefaultEventBufferLimit,
+  DefaultEventReplaySize,
+  DefaultEventsPath,
+  DefaultHeartbeatInterval,
+  DefaultSubscriptionGrace,
+  EventStreamRoutes,
+} from "./constants";
+import type {
+  ServerEventBroadcasterOptions,
+  ServerEventStreamOptions,
+} from "./types";
+
+type BroadcastEvent = {
+  id: number;
+  model: Constructor | string;
+  topics: string[];
+  data: string;
+};
+
+type EventStreamClient = {
+  stream: PassThrough;
+  ctx?: any;
+  cid?: string;
+  last?: number;
+  pending: Promise<void>;
+};
+
+type EventMessage = {
+  id: number;
+  event: string;
+  data: string;
+};
+
+function requestHeader(ctx: any, name: string): string | undefined {
+  try {
+    return headerValue(ctx?.get?.("headers"), name);
+  } catch {
+    return undefined;
+  }
+}
+
+function frame(fields: {
+  id?: string;
+  event?: string;
+  data?: string;
+  retry?: number;
+}): string {
+  const lines: string[] = [];
+  if (typeof fields.retry === "number") lines.push(`retry: ${fields.retry}`);
+  if (typeof fields.id === "string") lines.push(`id: ${fields.id}`);
+  if (fields.event) lines.push(`event: ${fields.event}`);
+  if (typeof fields.data === "string")
+    lines.push(
+      ...fields.data.split(/\r\n|\r|\n/).map((line) => `data: ${line}`)
+    );
+  return `${lines.join("\n")}\n\n`;
+}
+
+function eventTopics(
+  model: Constructor | string,
+  operation: string,
+  ids: string[]
+): string[] {
+  const names =
+    typeof model === "string"
+      ? [model]
+      : Array.from(new Set([model.name, Model.tableName(model)]));
+  return names.flatMap((name) =>
+    (ids.length ? ids : [undefined]).map((id) =>
+      [name, operation, id]
+        .filter((segment) => typeof segment !== "undefined")
+        .join(".")
+        .toLowerCase()
+    )
+  );
+}
+
+/**
+ * @description Broadcasts adapter events to Server-Sent Events connections
+ * @summary Framework-agnostic producer of the events endpoint read by {@link HttpDispatcher}: it
+ * observes adapters and writes every event, as `[table, operation, id, payload, contentType]`
+ * encoded by {@link encodeServerEvent}, to the connected streams. Connections opened with a
+ * correlation id (the `cid` query parameter) only receive the events matching the topics posted to
+ * the `subscribe` sub-route, using the webhook topic patterns (`<model>.<operation>.<id>`, see
+ * {@link matchesTopic}); a new connection replaces the open one of the same correlation id, and the
+ * subscriptions of a correlation id expire `subscriptionGrace` milliseconds after its connection
+ * closes. Connections that stop reading are dropped once they queue more than `maxBuffer` bytes.
+ * With an `authHandler`, each event is only sent to connections whose auth data satisfies
+ * the model roles and namespaces; without one, every connection receives every event, so the
+ * endpoint must only be exposed to clients allowed to see all of them. Events are numbered and the
+ * latest are kept, so connections resumed with `Last-Event-ID` get the ones they missed, or a
+ * `resync` event when those are no longer kept. Message ids also name the previous message of the
+ * connection (see {@link formatEventId}), so clients notice the messages they did not receive. Connections start with a heartbeat carrying the
+ * latest event id, to resume from even before receiving an event.
+ * Payloads are only sent when the adapters emit full results (`observeFullResult`).
+ * @param {ServerEventBroadcasterOptions} [options] - Codec, heartbeat, replay and auth settings
+ * @class ServerEventBroadcaster
+ * @example
+ * ```typescript
+ * const events = new ServerEventBroadcaster({ heartbeat: 10_000, authHandler });
+ * events.observe(adapter);
+ * // GET /events, POST /events/subscribe and POST /events/unsubscribe
+ * const EventsController = events.controller();
+ *
+ * const result = await route.implementation.call({ ctx }, query);
+ * if (isEventStreamResponse(result)) {
+ *   res.writeHead(200, responseHeadersOf(result));
+ *   result.pipe(res);
+ *   req.on("close", () => result.destroy());
+ * }
+ * ```
+ * @memberOf module:for-http.server
+ */
+export class ServerEventBroadcaster implements PersistenceObserver<
+  Context<HttpFlags>
+> {
+  protected readonly codec: HttpCodec;
+  private sequence = 0;
+  private readonly buffer: BroadcastEvent[] = [];
+  private readonly clients = new Set<EventStreamClient>();
+  private readonly subscriptions = new Map<string, Set<string>>();
+  private readonly expirations = new Map<
+    string,
+    ReturnType<typeof setTimeout>
+  >();
+  private readonly observed = new Map<
+    Adapter<any, any, any, any>,
+    () => void
+  >();
+  private heartbeatTimer?: ReturnType<typeof setInterval>;
+
+  constructor(protected readonly options: ServerEventBroadcasterOptions = {}) {
+    this.codec = options.codec ?? new SerializationCodec();
+  }
+
+  /**
+   * @description Broadcasts the events of an adapter
+   * @param {Adapter} adapter - The adapter
+   * @param {ObserverFilter} [filter] - Selects the events to broadcast
+   * @return {Function} Stops broadcasting the events of the adapter
+   */
+  observe(
+    adapter: Adapter<any, any, any, any>,
+    filter?: ObserverFilter
+  ): () => void {
+    this.unObserve(adapter);
+    this.observed.set(adapter, adapter.observe(this, filter));
+    return () => this.unObserve(adapter);
+  }
+
+  /**
+   * @description Stops broadcasting the events of an adapter
+   * @param {Adapter} adapter - The adapter
+   */
+  unObserve(adapter: Adapter<any, any, any, any>): void {
+    this.observed.get(adapter)?.();
+    this.observed.delete(adapter);
+  }
+
+  /**
+   * @description Broadcasts an adapter event
+   * @summary Called by the observed adapters. The payload, when present, precedes the context.
+   * @param {Constructor|string} model - The model, or its table
+   * @param {string} operation - The operation
+   * @param {EventIds} ids - The id, or ids of bulk operations
+   * @param {...any} args - The payload and the context
+   * @return {Promise<void>} Resolves once the event was written to the connections
+   */
+  async refresh(
+    model: Constructor | string,
+    operation: OperationKeys | BulkCrudOperationKeys | string,
+    ids: EventIds,
+    ...args: ContextualArgs<Context<HttpFlags>>
+  ): Promise<void> {
+    const payload = args.length > 1 ? (args[0] as any) : undefined;
+    const idList = (Array.isArray(ids) ? ids : [ids]).map((id) => String(id));
+    const table = typeof model === "string" ? model : Model.tableName(model);
+    const event = (
+      Array.isArray(ids)
+        ? [table, operation, idList, payload]
+        : [table, operation, idList[0], payload]
+    ) as ServerEvent<any>;
+    const broadcast: BroadcastEvent = {
+      id: ++this.sequence,
+      model,
+      topics: eventTopics(model, String(operation), idList),
+      data: encodeServerEvent(event, this.codec),
+    };
+    this.buffer.push(broadcast);
+    const replay = this.options.replay ?? DefaultEventReplaySize;
+    if (this.buffer.length > replay)
+      this.buffer.splice(0, this.buffer.length - replay);
+    await Promise.all(
+      [...this.clients].map((client) => this.deliver(client, broadcast))
+    );
+  }
+
+  /**
+   * @description Opens an events connection
+   * @summary Returns the stream to send as the response, tagged with the `text/event-stream`
+   * headers (see {@link responseHeadersOf}). Destroying it, e.g. when the client disconnects,
+   * closes the connection.
+   * @param {ServerEventStreamOptions} [options] - The context, correlation id and `Last-Event-ID`
+   * @return {Readable} The response stream
+   */
+  connect(options: ServerEventStreamOptions = {}): Readable {
+    const { ctx, cid, lastEventId } = options;
+    const replaced = [...this.clients].filter(
+      (client) => cid && client.cid === cid
+    );
+
+    const stream = new PassThrough();
+    const client: EventStreamClient = {
+      stream,
+      ctx,
+      cid,
+      pending: Promise.resolve(),
+    };
+    this.clients.add(client);
+    replaced.forEach((previous) => this.disconnect(previous));
+    if (cid) this.keep(cid);
+    stream.on("close", () => this.disconnect(client));
+
+    this.write(
+      client,
+      typeof this.options.retry === "number"
+        ? frame({ retry: this.options.retry })
+        : ":\n\n"
+    );
+    if (lastEventId) this.resume(client, lastEventId);
+    void this.beat(client);
+    this.startHeartbeat();
+    return withResponseHeaders(stream, {
+      "Content-Type": EventStreamContentType,
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+  }
+
+  /**
+   * @description Sets the topics of a correlation id
+   * @summary Replaces the topics previously subscribed to. Topics are matched case-insensitively.
+   * Without an open connection of the correlation id, the topics expire after the grace period.
+   * @param {string} cid - The correlation id
+   * @param {string[]} topics - The topic patterns, e.g. `product.*`
+   * @return {string[]} The subscribed topics
+   */
+  subscribe(cid: string, topics: string[]): string[] {
+    const subscribed = new Set(topics.map((topic) => topic.toLowerCase()));
+    this.subscriptions.set(cid, subscribed);
+    if (![...this.clients].some((client) => client.cid === cid))
+      this.expire(cid);
+    return [...subscribed];
+  }
+
+  /**
+   * @description Removes topics of a correlation id
+   * @param {string} cid - The correlation id
+   * @param {string[]} [topics] - The topics to remove, all of them when omitted
+   * @return {string[]} The topics still subscribed to
+   */
+  unsubscribe(cid: string, topics?: string[]): string[] {
+    const subscribed = this.subscriptions.get(cid);
+    if (subscribed && topics?.length)
+      topics.forEach((topic) => subscribed.delete(topic.toLowerCase()));
+    if (!subscribed?.size || !topics?.length) {
+      this.keep(cid);
+      this.subscriptions.delete(cid);
+      return [];
+    }
+    return [...subscribed];
+  }
+
+  /**
+   * @description Builds the controller of the events endpoint
+   * @summary `GET <path>` opens a connection, `POST <path>/subscribe` sets the topics of the
+   * correlation id sent in the `x-correlation-id` header from a `{ topics }` body, and
+   * `POST <path>/unsubscribe` removes the given topics, or all of them.
+   * @template C - The controller type
+   * @param {string} [path] - The endpoint path, `events` by default
+   * @return {C} The controller
+   */
+  controller<C = any>(path: string = DefaultEventsPath): C {
+    const connect = this.connect.bind(this);
+    const subscribe = this.subscribe.bind(this);
+    const unsubscribe = this.unsubscribe.bind(this);
+    const correlationIdOf = (ctx: any): string => {
+      const cid = requestHeader(ctx, DecafHeaders.CORRELATION_ID);
+      if (!cid)
+        throw new BadRequestError(
+          `Missing the ${DecafHeaders.CORRELATION_ID} header`
+        );
+      return cid;
+    };
+
+    return new ServerControllerBuilder<C>()
+      .withPath(path)
+      .withErrorSerializer(serializeServerError)
+      .addMethodFromRoute(
+        new ServerMethodBuilder()
+          .withMethod("GET")
+          .withPath("")
+          .withSummary("Streams the server events")
+          .withQueryParam(CorrelationIdParam, "string")
+          .withImplementation(function listen(
+            this: any,
+            details?: Record<string, any>
+          ) {
+            return connect({
+              ctx: this?.ctx,
+              cid:
+                details?.[CorrelationIdParam] ??
+                requestHeader(this?.ctx, DecafHeaders.CORRELATION_ID),
+              lastEventId: requestHeader(this?.ctx, DecafHeaders.LAST_EVENT_ID),
+            });
+          })
+          .build(),
+        new ServerMethodBuilder()
+          .withMethod("POST")
+          .withPath(EventStreamRoutes.SUBSCRIBE)
+          .withSummary("Subscribes a connection to topics")
+          .withImplementation(async function subscribeTopics(
+            this: any,
+            body?: { topics?: unknown }
+          ) {
+            const topics = body?.topics;
+            if (
+              !Array.isArray(topics) ||
+              topics.some((topic) => typeof topic !== "string" || !topic)
+            )
+              throw new BadRequestError(`topics must be a list of topics`);
+            return { topics: subscribe(correlationIdOf(this?.ctx), topics) };
+          })
+          .build(),
+        new ServerMethodBuilder()
+          .withMethod("POST")
+          .withPath(EventStreamRoutes.UNSUBSCRIBE)
+          .withSummary("Unsubscribes a connection from topics")
+          .withImplementation(async function unsubscribeTopics(
+            this: any,
+            body?: { topics?: string[] }
+          ) {
+            return {
+              topics: unsubscribe(
+                correlationIdOf(this?.ctx),
+                Array.isArray(body?.topics) ? body.topics : undefined
+              ),
+            };
+          })
+          .build()
+      )
+      .build();
+  }
+
+  /**
+   * @description Sends a heartbeat to every connection
+   * @summary Called every `heartbeat` milliseconds while connections are open. Heartbeats carry
+   * the id of the latest event, which every connection already received or was not meant to, so
+   * clients resume from it.
+   */
+  heartbeat(): void {
+    this.clients.forEach((client) => void this.beat(client));
+  }
+
+  /**
+   * @description Closes every connection, drops the subscriptions and stops observing the adapters
+   */
+  close(): void {
+    [...this.observed.keys()].forEach((adapter) => this.unObserve(adapter));
+    [...this.clients].forEach((client) => this.disconnect(client));
+    [...this.expirations.keys()].forEach((cid) => this.keep(cid));
+    this.subscriptions.clear();
+  }
+
+  /**
+   * @description Checks whether an event is sent to a connection
+   * @summary Connections with a correlation id need a matching topic; with an `authHandler`, the
+   * auth data bound to the connection context must satisfy the model roles.
+   * @param {EventStreamClient} client - The connection
+   * @param {BroadcastEvent} event - The event
+   * @return {Promise<boolean>} Whether the event is sent
+   */
+  protected async accepts(
+    client: EventStreamClient,
+    event: BroadcastEvent
+  ): Promise<boolean> {
+    if (client.cid) {
+      const patterns = [...(this.subscriptions.get(client.cid) ?? [])];
+      if (
+        !event.topics.some((topic) =>
+          patterns.some((pattern) => matchesTopic(topic, pattern))
+        )
+      )
+        return false;
+    }
+    if (!this.options.authHandler) return true;
+    try {
+      await this.options.authHandler.authorizeModel(event.model, client.ctx);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private enqueue(
+    client: EventStreamClient,
+    message: () => Promise<EventMessage | undefined>
+  ): Promise<void> {
+    client.pending = client.pending.then(async () => {
+      const next = await message();
+      if (next) this.send(client, next);
+    });
+    return client.pending;
+  }
+
+  private send(client: EventStreamClient, message: EventMessage): void {
+    this.write(
+      client,
+      frame({ ...message, id: formatEventId(message.id, client.last) })
+    );
+    client.last = message.id;
+  }
+
+  private deliver(
+    client: EventStreamClient,
+    event: BroadcastEvent
+  ): Promise<void> {
+    return this.enqueue(client, async () =>
+      (await this.accepts(client, event))
+        ? { id: event.id, event: ServerEventNames.MESSAGE, data: event.data }
+        : undefined
+    );
+  }
+
+  private beat(client: EventStreamClient): Promise<void> {
+    const message: EventMessage = {
+      id: this.sequence,
+      event: ServerEventNames.HEARTBEAT,
+      data: String(Date.now()),
+    };
+    return this.enqueue(client, async () => message);
+  }
+
+  private resume(client: EventStreamClient, lastEventId: string): void {
+    const last = parseEventId(lastEventId)?.id;
+    const oldest = this.buffer[0]?.id ?? this.sequence + 1;
+    if (
+      typeof last === "undefined" ||
+      last > this.sequence ||
+      last + 1 < oldest
+    ) {
+      this.send(client, {
+        id: this.sequence,
+        event: ServerEventNames.RESYNC,
+        data: lastEventId,
+      });
+      return;
+    }
+    client.last = last;
+    this.buffer
+      .filter((event) => event.id > last)
+      .forEach((event) => void this.deliver(client, event));
+  }
+
+  private write(client: EventStreamClient, chunk: string): void {
+    if (client.stream.writableEnded || client.stream.destroyed) return;
+    client.stream.write(chunk);
+    if (
+      client.stream.writableLength >
+      (this.options.maxBuffer ?? DefaultEventBufferLimit)
+    ) {
+      client.stream.destroy();
+      this.disconnect(client);
+    }
+  }
+
+  private keep(cid: string): void {
+    clearTimeout(this.expirations.get(cid));
+    this.expirations.delete(cid);
+  }
+
+  private expire(cid: string): void {
+    this.keep(cid);
+    const grace = this.options.subscriptionGrace ?? DefaultSubscriptionGrace;
+    if (grace <= 0) {
+      this.subscriptions.delete(cid);
+      return;
+    }
+    const timer = setTimeout(() => {
+      this.expirations.delete(cid);
+      this.subscriptions.delete(cid);
+    }, grace);
+    timer.unref?.();
+    this.expirations.set(cid, timer);
+  }
+
+  private disconnect(client: EventStreamClient): void {
+    if (!this.clients.delete(client)) return;
+    if (
+      client.cid &&
+      ![...this.clients].some((other) => other.cid === client.cid)
+    )
+      this.expire(client.cid);
+    if (!client.stream.writableEnded && !client.stream.destroyed)
+      client.stream.end();
+    if (!this.clients.size && this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = undefined;
+    }
+  }
+
+  private startHeartbeat(): void {
+    const interval = this.options.heartbeat ?? DefaultHeartbeatInterval;
+    if (this.heartbeatTimer || interval === false) return;
+    this.heartbeatTimer = setInterval(() => this.heartbeat(), interval);
+    this.heartbeatTimer.unref?.();
+  }
+}
+
+/**
+ * @description Checks whether a route result is an events stream
+ * @param {unknown} result - The route result
+ * @return {boolean} Whether the result was built by {@link ServerEventBroadcaster.connect}
+ * @function isEventStreamResponse
+ * @memberOf module:for-http.server
+ */
+export function isEventStreamResponse(result: unknown): result is Readable {
+  return (
+    result instanceof Readable &&
+    responseHeadersOf(result)["Content-Type"] === EventStreamContentType
+  );
+}
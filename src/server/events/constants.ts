@@ -0,0 +1,51 @@
+/**
+ * @description Sub-routes of the events endpoint managing topic subscriptions
+ * @enum EventStreamRoutes
+ * @memberOf module:for-http.server
+ */
+export enum EventStreamRoutes {
+  SUBSCRIBE = "subscribe",
+  UNSUBSCRIBE = "unsubscribe",
+}
+
+/**
+ * @description Query parameter carrying the correlation id of an events connection
+ * @const CorrelationIdParam
+ * @memberOf module:for-http.server
+ */
+export const CorrelationIdParam = "cid";
+
+/**
+ * @description Default path of the events endpoint
+ * @const DefaultEventsPath
+ * @memberOf module:for-http.server
+ */
+export const DefaultEventsPath = "events";
+
+/**
+ * @description Default interval between heartbeats, in milliseconds
+ * @const DefaultHeartbeatInterval
+ * @memberOf module:for-http.server
+ */
+export const DefaultHeartbeatInterval = 15_000;
+
+/**
+ * @description Default number of events kept to resume connections from
+ * @const DefaultEventReplaySize
+ * @memberOf module:for-http.server
+ */
+export const DefaultEventReplaySize = 1000;
+
+/**
+ * @description Default time the subscriptions of a correlation id outlive its connection, in milliseconds
+ * @const DefaultSubscriptionGrace
+ * @memberOf module:for-http.server
+ */
+export const DefaultSubscriptionGrace = 30_000;
+
+/**
+ * @description Default number of bytes queued for a connection before it is dropped
+ * @const DefaultEventBufferLimit
+ * @memberOf module:for-http.server
+ */
+export const DefaultEventBufferLimit = 1024 * 1024;
@@ -0,0 +1,10 @@
+/**
+ * @description Server-Sent Events endpoint
+ * @summary Broadcasts adapter events to the connections of {@link HttpDispatcher} clients, with
+ * topic subscriptions per correlation id, heartbeats and `Last-Event-ID` resumption.
+ * @namespace events
+ * @memberOf module:for-http.server
+ */
+export * from "./constants";
+export * from "./ServerEventBroadcaster";
+export * from "./types";
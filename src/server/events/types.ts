@@ -0,0 +1,41 @@
+import type { HttpCodec } from "../../types";
+import type { AuthHandler } from "../auth";
+
+/**
+ * @description Configuration of a {@link ServerEventBroadcaster}
+ * @typedef {Object} ServerEventBroadcasterOptions
+ * @property {HttpCodec} [codec] - Encodes the event payloads, the decaf serialization by default
+ * @property {number|false} [heartbeat] - Milliseconds between heartbeats, `false` to send none
+ * @property {number} [replay] - How many events are kept to resume connections from
+ * @property {number} [retry] - Reconnection delay suggested to clients, in milliseconds
+ * @property {number} [subscriptionGrace] - Milliseconds the subscriptions of a correlation id are
+ * kept without a connection, to survive reconnections; `0` drops them on disconnect
+ * @property {number} [maxBuffer] - Bytes a connection may queue beyond its stream buffer before it
+ * is dropped as too slow
+ * @property {AuthHandler} [authHandler] - Checks the model roles of each event against the auth
+ * data bound to the connection context. Without it every connection receives every event
+ * @memberOf module:for-http.server
+ */
+export interface ServerEventBroadcasterOptions {
+  codec?: HttpCodec;
+  heartbeat?: number | false;
+  replay?: number;
+  retry?: number;
+  subscriptionGrace?: number;
+  maxBuffer?: number;
+  authHandler?: AuthHandler<any, any, any>;
+}
+
+/**
+ * @description An events connection
+ * @typedef {Object} ServerEventStreamOptions
+ * @property {any} [ctx] - The request context, carrying the auth data of the client
+ * @property {string} [cid] - The correlation id, limiting the events to the client subscriptions
+ * @property {string} [lastEventId] - The `Last-Event-ID` of a resuming client
+ * @memberOf module:for-http.server
+ */
+export type ServerEventStreamOptions = {
+  ctx?: any;
+  cid?: string;
+  lastEventId?: string;
+};
@@ -0,0 +1,130 @@
+import { createHash, randomUUID } from "crypto";
+import { createReadStream, createWriteStream, promises as fs } from "fs";
+import { join, resolve } from "path";
+import { Readable, Transform } from "stream";
+import { pipeline } from "stream/promises";
+import { BadRequestError, NotFoundError } from "@decaf-ts/db-decorators";
+import type { FileMetadata } from "../../types";
+import type { BlobMetadata, BlobRange, BlobStore } from "./types";
+
+const ContentFile = "@content";
+const MetadataFile = "@metadata.json";
+
+function isMissing(e: unknown): boolean {
+  return (e as NodeJS.ErrnoException)?.code === "ENOENT";
+}
+
+/**
+ * @description Stores files in a directory of the local filesystem
+ * @summary Every key is a directory below `root`, one per `/` separated segment, holding the
+ * content and a JSON file with its metadata. Segments are URI encoded so keys can not reach
+ * outside `root`. Files are written to a temporary file first and moved in place once complete,
+ * so readers never see a partial file. The entity tag is the SHA-1 hash of the content.
+ * @param {string} root - The storage directory
+ * @class FileSystemBlobStore
+ * @implements {BlobStore}
+ * @example
+ * ```typescript
+ * const store = new FileSystemBlobStore("/var/lib/app/files");
+ * await store.put("user/1/avatar", bytes, {
+ *   field: "avatar",
+ *   filename: "me.png",
+ *   contentType: "image/png",
+ * });
+ * const avatar = await store.read("user/1/avatar");
+ * ```
+ * @memberOf module:for-http.server
+ */
+export class FileSystemBlobStore implements BlobStore {
+  protected readonly root: string;
+
+  constructor(root: string) {
+    this.root = resolve(root);
+  }
+
+  /**
+   * @description Resolves the directory of a key
+   * @param {string} key - The file key
+   * @return {string} The directory path
+   * @throws {BadRequestError} When the key is empty
+   */
+  protected pathOf(key: string): string {
+    const segments = key
+      .split("/")
+      .filter(Boolean)
+      .map((segment) => {
+        const encoded = encodeURIComponent(segment);
+        return /^\.+$/.test(encoded) ? encoded.replace(/\./g, "%2E") : encoded;
+      });
+    if (!segments.length) throw new BadRequestError(`Invalid file key ${key}`);
+    return join(this.root, ...segments);
+  }
+
+  async put(
+    key: string,
+    data: Uint8Array | AsyncIterable<Uint8Array>,
+    meta: BlobMetadata
+  ): Promise<FileMetadata> {
+    const dir = this.pathOf(key);
+    await fs.mkdir(dir, { recursive: true });
+    const temp = join(dir, `${ContentFile}.${randomUUID()}`);
+    const hash = createHash("sha1");
+    let size = 0;
+    try {
+      await pipeline(
+        Readable.from(data instanceof Uint8Array ? [data] : data),
+        new Transform({
+          transform(chunk: Buffer, _encoding, callback) {
+            hash.update(chunk);
+            size += chunk.length;
+            callback(null, chunk);
+          },
+        }),
+        createWriteStream(temp)
+      );
+      const stored: FileMetadata = Object.assign({}, meta, {
+        size,
+        etag: `"${hash.digest("base64url")}"`,
+        updatedAt: new Date().toISOString(),
+      });
+      await fs.rename(temp, join(dir, ContentFile));
+      await fs.writeFile(join(dir, MetadataFile), JSON.stringify(stored));
+      return stored;
+    } catch (e: unknown) {
+      await fs.rm(temp, { force: true });
+      throw e;
+    }
+  }
+
+  async stat(key: string): Promise<FileMetadata | undefined> {
+    try {
+      return JSON.parse(
+        await fs.readFile(join(this.pathOf(key), MetadataFile), "utf8")
+      );
+    } catch (e: unknown) {
+      if (isMissing(e)) return undefined;
+      throw e;
+    }
+  }
+
+  async read(key: string, range?: BlobRange): Promise<Readable> {
+    const path = join(this.pathOf(key), ContentFile);
+    try {
+      await fs.access(path);
+    } catch (e: unknown) {
+      if (isMissing(e)) throw new NotFoundError(`No file stored for ${key}`);
+      throw e;
+    }
+    return createReadStream(path, { start: range?.start, end: range?.end });
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const dir = this.pathOf(key);
+    const existed = !!(await this.stat(key));
+    await fs.rm(join(dir, ContentFile), { force: true });
+    await fs.rm(join(dir, MetadataFile), { force: true });
+    // keep directories still holding nested keys
+    await fs.rmdir(dir).catch(() => undefined);
+    return existed;
+  }
+}
@@ -0,0 +1,14 @@
+/**
+ * @description Default maximum size of an uploaded file, 10 MiB
+ * @const DefaultMaxFileSize
+ * @memberOf module:for-http.server
+ */
+export const DefaultMaxFileSize = 10 * 1024 * 1024;
+
+/**
+ * @description Extra bytes accepted on top of the file size limit when reading a multipart body
+ * @summary Leaves room for the part headers, boundaries and the metadata part.
+ * @const MultipartOverhead
+ * @memberOf module:for-http.server
+ */
+export const MultipartOverhead = 64 * 1024;
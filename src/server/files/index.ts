@@ -0,0 +1,11 @@
+/**
+ * @description File attachments of models
+ * @summary Blob storage and the helpers behind the upload and download routes added by
+ * `ModelControllerBuilder.addFileRoutes`.
+ * @namespace files
+ * @memberOf module:for-http.server
+ */
+export * from "./constants";
+export * from "./FileSystemBlobStore";
+export * from "./types";
+export * from "./uploads";
@@ -0,0 +1,96 @@
+import type { Readable } from "stream";
+import type { FileMetadata } from "../../types";
+
+/**
+ * @description Inclusive byte range of a stored file
+ * @typedef {Object} BlobRange
+ * @property {number} start - The first byte
+ * @property {number} end - The last byte
+ * @memberOf module:for-http.server
+ */
+export type BlobRange = { start: number; end: number };
+
+/**
+ * @description Metadata given when storing a file
+ * @summary The size, entity tag and storage date are set by the store.
+ * @typedef {Object} BlobMetadata
+ * @memberOf module:for-http.server
+ */
+export type BlobMetadata = Omit<FileMetadata, "size" | "etag" | "updatedAt">;
+
+/**
+ * @description Storage of the files attached to records
+ * @summary Keys are `/` separated paths, `<table>/<id>/<field>` for model attachments. Storing a
+ * key again replaces its file.
+ * @interface BlobStore
+ * @memberOf module:for-http.server
+ */
+export interface BlobStore {
+  /**
+   * @description Stores a file
+   * @param {string} key - The file key
+   * @param {Uint8Array|AsyncIterable<Uint8Array>} data - The content
+   * @param {BlobMetadata} meta - The file metadata
+   * @return {Promise<FileMetadata>} The stored file
+   */
+  put(
+    key: string,
+    data: Uint8Array | AsyncIterable<Uint8Array>,
+    meta: BlobMetadata
+  ): Promise<FileMetadata>;
+
+  /**
+   * @description Reads the metadata of a file
+   * @param {string} key - The file key
+   * @return {Promise<FileMetadata|undefined>} The metadata, undefined when nothing is stored
+   */
+  stat(key: string): Promise<FileMetadata | undefined>;
+
+  /**
+   * @description Opens a stored file
+   * @param {string} key - The file key
+   * @param {BlobRange} [range] - The bytes to read, the whole file by default
+   * @return {Promise<Readable>} The content
+   * @throws {NotFoundError} When nothing is stored
+   */
+  read(key: string, range?: BlobRange): Promise<Readable>;
+
+  /**
+   * @description Removes a file
+   * @param {string} key - The file key
+   * @return {Promise<boolean>} Whether a file was removed
+   */
+  delete(key: string): Promise<boolean>;
+}
+
+/**
+ * @description Settings of the file attachment routes
+ * @typedef {Object} FileRouteOptions
+ * @property {BlobStore} store - Where the files are stored
+ * @property {number} [maxSize] - Maximum file size in bytes, {@link DefaultMaxFileSize} by default
+ * @property {string[]} [mimeTypes] - Accepted MIME types, with wildcards like `image/*`. Any type by default
+ * @property {string[]} [fields] - Fields accepting files, every model attribute by default
+ * @memberOf module:for-http.server
+ */
+export type FileRouteOptions = {
+  store: BlobStore;
+  maxSize?: number;
+  mimeTypes?: string[];
+  fields?: string[];
+};
+
+/**
+ * @description File read from an upload request
+ * @typedef {Object} FileUpload
+ * @property {Buffer} data - The content
+ * @property {string} filename - The file name, the field name when none was sent
+ * @property {string} contentType - The MIME type
+ * @property {Record<string, string>} [metadata] - The custom metadata part
+ * @memberOf module:for-http.server
+ */
+export type FileUpload = {
+  data: Buffer;
+  filename: string;
+  contentType: string;
+  metadata?: Record<string, string>;
+};
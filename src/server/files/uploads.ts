@@ -0,0 +1,248 @@
+import { BadRequestError } from "@decaf-ts/db-decorators";
+import { FileMetadataPart } from "../../constants";
+import { dispositionFilename } from "../../files";
+import { MultipartOverhead } from "./constants";
+import type { BlobRange, FileUpload } from "./types";
+
+type MultipartPart = {
+  name?: string;
+  filename?: string;
+  contentType?: string;
+  data: Buffer;
+};
+
+function tooLarge(maxSize: number) {
+  return Object.assign(
+    new BadRequestError(`File exceeds the maximum size of ${maxSize} bytes`),
+    { status: 413 }
+  );
+}
+
+async function collect(body: unknown, limit: number): Promise<Buffer> {
+  if (Buffer.isBuffer(body)) return body;
+  if (body instanceof Uint8Array) return Buffer.from(body);
+  if (typeof body === "string") return Buffer.from(body);
+  if (
+    !body ||
+    typeof (body as AsyncIterable<unknown>)[Symbol.asyncIterator] !== "function"
+  )
+    throw new BadRequestError(`Missing file content`);
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of body as AsyncIterable<Uint8Array | string>) {
+    const bytes = Buffer.from(chunk as Uint8Array);
+    size += bytes.length;
+    if (size > limit) {
+      (body as { destroy?: () => void }).destroy?.();
+      throw tooLarge(limit);
+    }
+    chunks.push(bytes);
+  }
+  return Buffer.concat(chunks);
+}
+
+function parseParts(body: Buffer, boundary: string): MultipartPart[] {
+  const delimiter = Buffer.from(`--${boundary}`);
+  const separator = Buffer.from(`\r\n--${boundary}`);
+  const parts: MultipartPart[] = [];
+  let position = body.indexOf(delimiter);
+  while (position !== -1) {
+    const start = position + delimiter.length;
+    if (body.subarray(start, start + 2).toString() === "--") break;
+    const next = body.indexOf(separator, start);
+    if (next === -1) break;
+    const part = body.subarray(start + 2, next);
+    const headerEnd = part.indexOf("\r\n\r\n");
+    if (headerEnd !== -1) {
+      const headers: Record<string, string> = {};
+      part
+        .subarray(0, headerEnd)
+        .toString("utf8")
+        .split("\r\n")
+        .forEach((line) => {
+          const colon = line.indexOf(":");
+          if (colon > 0)
+            headers[line.slice(0, colon).trim().toLowerCase()] = line
+              .slice(colon + 1)
+              .trim();
+        });
+      const disposition = headers["content-disposition"];
+      parts.push({
+        name: disposition?.match(/;\s*name="([^"]*)"/i)?.[1],
+        filename: dispositionFilename(disposition),
+        contentType: headers["content-type"],
+        data: part.subarray(headerEnd + 4),
+      });
+    }
+    position = next + 2;
+  }
+  return parts;
+}
+
+function parseMetadata(value: unknown): Record<string, string> | undefined {
+  if (typeof value === "undefined" || value === null) return undefined;
+  let parsed = value;
+  if (typeof value === "string" || Buffer.isBuffer(value)) {
+    try {
+      parsed = JSON.parse(value.toString());
+    } catch (e: unknown) {
+      throw new BadRequestError(`Invalid file metadata: ${e}`);
+    }
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed))
+    throw new BadRequestError(`File metadata must be an object`);
+  return Object.fromEntries(
+    Object.entries(parsed).map(([key, v]) => [key, String(v)])
+  );
+}
+
+function parsedUpload(
+  body: Record<string, any>,
+  field: string
+): FileUpload | undefined {
+  const file = body[field] ?? body;
+  const data = file?.buffer ?? file?.data;
+  if (!Buffer.isBuffer(data) && !(data instanceof Uint8Array)) return undefined;
+  return {
+    data: Buffer.from(data),
+    filename: file.originalname ?? file.filename ?? file.name ?? field,
+    contentType:
+      file.mimetype ?? file.contentType ?? "application/octet-stream",
+    metadata: parseMetadata(body[FileMetadataPart]),
+  };
+}
+
+/**
+ * @description Reads the file sent to an upload route
+ * @summary Accepts `multipart/form-data` bodies, raw or already parsed by the framework (objects
+ * holding the file `buffer`/`data`, as multer and similar middleware provide), where the file is
+ * the part named after the field and the custom metadata the `metadata` JSON part. Any other body
+ * is the file itself, typed by the request `Content-Type`. Raw bodies are read up to the size limit.
+ * @param {unknown} body - The request body: a buffer, string, stream or parsed form
+ * @param {string|undefined} contentType - The request `Content-Type` header
+ * @param {string} field - The field the file is uploaded to
+ * @param {number} maxSize - Maximum file size in bytes
+ * @return {Promise<FileUpload>} The file
+ * @throws {BadRequestError} When the file is missing or the form is invalid, with status 413 when it is too large
+ * @function readUpload
+ * @memberOf module:for-http.server
+ */
+export async function readUpload(
+  body: unknown,
+  contentType: string | undefined,
+  field: string,
+  maxSize: number
+): Promise<FileUpload> {
+  let upload: FileUpload | undefined;
+  if (
+    body &&
+    typeof body === "object" &&
+    !Buffer.isBuffer(body) &&
+    !(body instanceof Uint8Array) &&
+    typeof (body as AsyncIterable<unknown>)[Symbol.asyncIterator] !== "function"
+  ) {
+    upload = parsedUpload(body as Record<string, any>, field);
+    if (!upload) throw new BadRequestError(`Missing file for field ${field}`);
+  } else if (contentType?.toLowerCase().startsWith("multipart/form-data")) {
+    const boundary = contentType
+      .match(/boundary=(?:"([^"]+)"|([^;]+))/i)
+      ?.slice(1)
+      .find(Boolean);
+    if (!boundary) throw new BadRequestError(`Missing multipart boundary`);
+    const parts = parseParts(
+      await collect(body, maxSize + MultipartOverhead),
+      boundary.trim()
+    );
+    const file = parts.find((part) => part.name === field);
+    if (!file) throw new BadRequestError(`Missing file for field ${field}`);
+    upload = {
+      data: file.data,
+      filename: file.filename ?? field,
+      contentType: file.contentType ?? "application/octet-stream",
+      metadata: parseMetadata(
+        parts.find((part) => part.name === FileMetadataPart)?.data
+      ),
+    };
+  } else {
+    upload = {
+      data: await collect(body, maxSize),
+      filename: field,
+      contentType:
+        contentType?.split(";")[0].trim() || "application/octet-stream",
+    };
+  }
+  if (upload.data.length > maxSize) throw tooLarge(maxSize);
+  return upload;
+}
+
+/**
+ * @description Checks a MIME type against the accepted ones
+ * @param {string} contentType - The file MIME type
+ * @param {string[]} [accepted] - The accepted types, with wildcards like `image/*`. Any type when empty
+ * @throws {BadRequestError} With status 415 when the type is not accepted
+ * @function assertMimeType
+ * @memberOf module:for-http.server
+ */
+export function assertMimeType(contentType: string, accepted?: string[]) {
+  if (!accepted?.length) return;
+  const type = contentType.split(";")[0].trim().toLowerCase();
+  const matches = accepted.some((pattern) => {
+    const expected = pattern.trim().toLowerCase();
+    if (expected === "*/*" || expected === type) return true;
+    return expected.endsWith("/*") && type.startsWith(expected.slice(0, -1));
+  });
+  if (!matches)
+    throw Object.assign(
+      new BadRequestError(`Files of type ${type} are not accepted`),
+      { status: 415 }
+    );
+}
+
+/**
+ * @description Parses a `Range` request header
+ * @summary Supports a single `bytes=start-end`, `bytes=start-` or `bytes=-suffix` range. Other units,
+ * multiple ranges and malformed headers are ignored, answering with the whole file as RFC 9110 allows.
+ * @param {string|undefined} header - The `Range` header value
+ * @param {number} size - The file size in bytes
+ * @return {BlobRange|undefined} The inclusive byte range, undefined for the whole file
+ * @throws {BadRequestError} With status 416 when the range starts after the end of the file
+ * @function parseRange
+ * @memberOf module:for-http.server
+ */
+export function parseRange(
+  header: string | undefined,
+  size: number
+): BlobRange | undefined {
+  const match = header?.trim().match(/^bytes=(\d*)-(\d*)$/i);
+  if (!match || (!match[1] && !match[2])) return undefined;
+  let start: number;
+  let end: number;
+  if (!match[1]) {
+    start = Math.max(size - Number(match[2]), 0);
+    end = size - 1;
+  } else {
+    start = Number(match[1]);
+    end = match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+    if (end < start && match[2]) return undefined;
+  }
+  if (start >= size)
+    throw Object.assign(
+      new BadRequestError(
+        `Range ${header} is not satisfiable for ${size} bytes`
+      ),
+      { status: 416 }
+    );
+  return { start, end };
+}
+
+/**
+ * @description Builds the `Content-Disposition` header of a download
+ * @param {string} filename - The file name
+ * @return {string} An `attachment` disposition with ASCII and RFC 5987 encoded names
+ * @function contentDisposition
+ * @memberOf module:for-http.server
+ */
+export function contentDisposition(filename: string): string {
+  const ascii = filename.replace(/[^\x20-\x7e]|["\\]/g, "_");
+  return `attachment; filename="${ascii}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+}
@@ -96,6 +96,7 @@ export function keyToTopic(key: OperationKeys): string {
 
 type BookmarkPaginator<T> = {
   page: (page?: number, bookmark?: any, ...args: any[]) => Promise<T[]>;
+  pages?: (options?: object, ...args: any[]) => AsyncIterable<T[]>;
 };
 
 export async function collectPagedResults<T>(
@@ -105,6 +106,11 @@ export async function collectPagedResults<T>(
 ): Promise<T[]> {
   const paginator = await makePaginator();
   const results: T[] = [];
+  if (typeof paginator.pages === "function") {
+    for await (const page of paginator.pages({}, ...args))
+      results.push(...page);
+    return results;
+  }
   let bookmark: any = undefined;
 
   for (;;) {
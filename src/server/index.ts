@@ -5,5 +5,10 @@ export * from "./decorators";
 export * from "./types";
 export * from "./logging";
 export * from "./auth";
+export * from "./files";
+export * from "./openapi";
+export * from "./ratelimit";
+export * from "./events";
+export * from "./sdk";
 
 import "./logging/params";
@@ -0,0 +1,395 @@
+import { PersistenceKeys } from "@decaf-ts/core";
+import { Metadata, type Constructor } from "@decaf-ts/decoration";
+import { Model } from "@decaf-ts/decorator-validation";
+import { toKebabCase } from "@decaf-ts/logging";
+import { AUTH_NAMESPACE_KEY } from "../auth/constants";
+import { ServerMethodBuilder } from "../controllers/RouteBuilder";
+import type { RouteParam, ServerRoute } from "../controllers/models";
+import type { AuthConfig } from "../controllers/types";
+import {
+  DefaultOpenApiPath,
+  DefaultSecurityScheme,
+  ErrorSchemaName,
+  OpenApiVersion,
+} from "./constants";
+import { modelSchema } from "./schemas";
+import type {
+  JsonSchema,
+  OpenApiControllerOptions,
+  OpenApiDocument,
+  OpenApiOptions,
+} from "./types";
+
+const ErrorSchema: JsonSchema = {
+  type: "object",
+  required: ["error"],
+  properties: {
+    error: {
+      type: "object",
+      required: ["name", "message", "status"],
+      properties: {
+        name: { type: "string" },
+        message: { type: "string" },
+        status: { type: "integer" },
+        details: { type: "object" },
+        correlationId: { type: "string" },
+      },
+    },
+  },
+};
+
+type ControllerEntry = {
+  controller: any;
+  options: OpenApiControllerOptions;
+};
+
+function compact<T extends Record<string, any>>(value: T): T {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, v]) => typeof v !== "undefined")
+  ) as T;
+}
+
+function jsonContent(schema: JsonSchema) {
+  return { "application/json": { schema } };
+}
+
+function unique(...lists: Array<string[] | undefined>): string[] {
+  return Array.from(new Set(lists.flatMap((list) => list ?? [])));
+}
+
+/**
+ * @description Generates the OpenAPI document of built controllers
+ * @summary Walks the `__routes__` of the added controllers. Paths, models and auth requirements
+ * recorded by `ModelControllerBuilder` are used unless overridden when adding the controller.
+ * Bodies and responses of the model routes are described by JSON Schemas derived from the model
+ * validation metadata; routes carrying their own body schema or responses keep them. Routes
+ * requiring authentication are protected by the first security scheme, listing the roles of
+ * the auth config and of the model.
+ * @param {OpenApiOptions} options - The document options
+ * @class OpenApiGenerator
+ * @example
+ * ```typescript
+ * const openapi = new OpenApiGenerator({ title: "Shop", version: "1.0.0" })
+ *   .addController(ModelControllerFactory.create(Product))
+ *   .addController(ModelControllerFactory.create(Order, undefined, { auth }));
+ *
+ * const document = openapi.generate();
+ * const DocsController = new ServerControllerBuilder()
+ *   .addMethodFromRoute(openapi.buildRoute())
+ *   .build();
+ * ```
+ * @memberOf module:for-http.server
+ */
+export class OpenApiGenerator {
+  protected readonly controllers: ControllerEntry[] = [];
+  private document?: OpenApiDocument;
+
+  constructor(protected readonly options: OpenApiOptions) {}
+
+  /**
+   * @description Adds a built controller to the document
+   * @param {any} controller - The controller class
+   * @param {OpenApiControllerOptions} [options] - Overrides of what is read from the controller
+   * @return {OpenApiGenerator} The generator, for chaining
+   */
+  addController(controller: any, options: OpenApiControllerOptions = {}) {
+    this.controllers.push({ controller, options });
+    this.document = undefined;
+    return this;
+  }
+
+  /**
+   * @description Generates the document
+   * @return {OpenApiDocument} The OpenAPI document
+   */
+  generate(): OpenApiDocument {
+    const schemas: Record<string, JsonSchema> = {
+      [ErrorSchemaName]: ErrorSchema,
+    };
+    const paths: OpenApiDocument["paths"] = {};
+    const tags = new Set<string>();
+    const securitySchemes = this.options.securitySchemes ?? {
+      [DefaultSecurityScheme]: { type: "http", scheme: "bearer" },
+    };
+
+    for (const { controller, options } of this.controllers) {
+      const model: Constructor<Model> | undefined =
+        options.model ?? controller.__model__;
+      const base =
+        options.path ??
+        (controller.__path__ ||
+          (model ? toKebabCase(Model.tableName(model)) : ""));
+      const controllerTags: string[] =
+        options.tags ??
+        (controller.__tags__?.length
+          ? controller.__tags__
+          : model
+            ? [model.name]
+            : []);
+      const auth: AuthConfig | undefined = options.auth ?? controller.__auth__;
+      const names = new Map<ServerRoute, string>();
+      for (const [name, route] of controller.__routeMap__ ?? [])
+        names.set(route, name);
+
+      for (const route of (controller.__routes__ ?? []) as ServerRoute[]) {
+        const { path, parameters } = this.pathOf(base, route);
+        const operationTags = unique(controllerTags, route.tags);
+        operationTags.forEach((tag) => tags.add(tag));
+        const name = names.get(route) ?? route.method.toLowerCase();
+        (paths[path] = paths[path] ?? {})[route.method.toLowerCase()] = compact(
+          {
+            operationId: [model?.name ?? base, name].filter(Boolean).join("."),
+            summary: route.summary || undefined,
+            description: route.description || undefined,
+            tags: operationTags.length ? operationTags : undefined,
+            deprecated: route.deprecated || undefined,
+            parameters: [...parameters, ...this.queryParameters(route, model)],
+            requestBody: this.requestBody(route, model, schemas),
+            responses: this.responses(route, model, schemas),
+            ...this.security(route, model, auth, securitySchemes),
+          }
+        );
+      }
+    }
+
+    this.document = compact({
+      openapi: OpenApiVersion,
+      info: compact({
+        title: this.options.title,
+        version: this.options.version,
+        description: this.options.description,
+      }),
+      servers: this.options.servers,
+      tags: tags.size ? [...tags].map((name) => ({ name })) : undefined,
+      paths,
+      components: compact({
+        schemas,
+        securitySchemes: Object.keys(securitySchemes).length
+          ? securitySchemes
+          : undefined,
+      }),
+    });
+    return this.document;
+  }
+
+  /**
+   * @description Builds a public route serving the document
+   * @summary The document is generated on the first request and kept until a controller is added.
+   * @param {string} [path] - The route path, {@link DefaultOpenApiPath} by default
+   * @return {ServerRoute} The route
+   */
+  buildRoute(path: string = DefaultOpenApiPath): ServerRoute {
+    return new ServerMethodBuilder()
+      .withMethod("GET")
+      .withPath(path)
+      .withSummary("OpenAPI document of the API")
+      .withRequiresAuth(false)
+      .withResponse(200, "The OpenAPI document")
+      .withImplementation(() => this.document ?? this.generate())
+      .build();
+  }
+
+  /**
+   * @description Translates a route path into an OpenAPI path and its parameters
+   * @summary `:name` segments become `{name}` parameters; a trailing `*name` segment becomes a
+   * parameter holding the remaining segments.
+   * @param {string} base - The controller path
+   * @param {ServerRoute} route - The route
+   * @return {Object} The path and its parameters
+   */
+  protected pathOf(base: string, route: ServerRoute) {
+    const parameters: Record<string, any>[] = [];
+    const segments = [base, route.path]
+      .flatMap((part) => (part || "").split("/"))
+      .filter(Boolean)
+      .map((segment) => {
+        if (!/^[:*]/.test(segment)) return segment;
+        const name = segment.slice(1);
+        const declared = route.pathParams?.find(
+          (param: RouteParam) => param.name === name
+        );
+        parameters.push(
+          compact({
+            name,
+            in: "path",
+            required: true,
+            description: segment.startsWith("*")
+              ? "The remaining path segments"
+              : undefined,
+            schema: { type: declared?.type ?? "string" },
+          })
+        );
+        return `{${name}}`;
+      });
+    return { path: `/${segments.join("/")}`, parameters };
+  }
+
+  /**
+   * @description Lists the query parameters of a route
+   * @param {ServerRoute} route - The route
+   * @param {Constructor<Model>} [model] - The model of the controller
+   * @return {Array} The parameters
+   */
+  protected queryParameters(route: ServerRoute, model?: Constructor<Model>) {
+    const parameters = (route.queryParams ?? []).map((param: RouteParam) => ({
+      name: param.name,
+      in: "query",
+      required: !!param.required,
+      schema: { type: param.type },
+    }));
+    if (
+      model &&
+      route.path === "bulk" &&
+      ["GET", "DELETE"].includes(route.method)
+    )
+      parameters.push({
+        name: "ids",
+        in: "query",
+        required: true,
+        schema: { type: "array", items: { type: "string" } } as any,
+      });
+    return parameters;
+  }
+
+  /**
+   * @description Describes the body of a route
+   * @param {ServerRoute} route - The route
+   * @param {Constructor<Model>} [model] - The model of the controller
+   * @param {Record<string, JsonSchema>} schemas - The component schemas
+   * @return {Object|undefined} The request body, undefined for routes without one
+   */
+  protected requestBody(
+    route: ServerRoute,
+    model: Constructor<Model> | undefined,
+    schemas: Record<string, JsonSchema>
+  ) {
+    const schema = route.bodySchema
+      ? this.schemaOf(route.bodySchema, schemas)
+      : model && ["POST", "PUT", "PATCH"].includes(route.method)
+        ? this.modelBody(route, model, schemas)
+        : undefined;
+    return schema
+      ? { required: true, content: jsonContent(schema) }
+      : undefined;
+  }
+
+  /**
+   * @description Describes the responses of a route
+   * @param {ServerRoute} route - The route
+   * @param {Constructor<Model>} [model] - The model of the controller
+   * @param {Record<string, JsonSchema>} schemas - The component schemas
+   * @return {Object} The responses, errors included
+   */
+  protected responses(
+    route: ServerRoute,
+    model: Constructor<Model> | undefined,
+    schemas: Record<string, JsonSchema>
+  ) {
+    const error = {
+      description: "Error",
+      content: jsonContent({ $ref: `#/components/schemas/${ErrorSchemaName}` }),
+    };
+    if (route.responses && Object.keys(route.responses).length)
+      return Object.assign(
+        Object.fromEntries(
+          Object.entries(route.responses).map(([status, response]) => [
+            status,
+            compact({
+              description: response.description,
+              content:
+                response.content ??
+                (response.schema
+                  ? jsonContent(this.schemaOf(response.schema, schemas))
+                  : undefined),
+            }),
+          ])
+        ),
+        { default: error }
+      );
+    const schema = model ? this.modelResult(route, model, schemas) : undefined;
+    return {
+      200: compact({
+        description: "Successful operation",
+        content: schema ? jsonContent(schema) : undefined,
+      }),
+      default: error,
+    };
+  }
+
+  /**
+   * @description Lists the security requirements of a route
+   * @param {ServerRoute} route - The route
+   * @param {Constructor<Model>} [model] - The model of the controller
+   * @param {AuthConfig} [auth] - The auth requirements of the controller
+   * @param {Record<string, any>} securitySchemes - The security schemes of the document
+   * @return {Object} The `security` of the operation, and the namespaces it requires
+   */
+  protected security(
+    route: ServerRoute,
+    model: Constructor<Model> | undefined,
+    auth: AuthConfig | undefined,
+    securitySchemes: Record<string, any>
+  ) {
+    const [scheme] = Object.keys(securitySchemes);
+    if (!scheme) return {};
+    if (auth?.public || route.requiresAuth === false) return { security: [] };
+    const roles = unique(
+      auth?.roles,
+      model && !auth?.skipModelRoles
+        ? Metadata.get(model, PersistenceKeys.AUTH_ROLE)
+        : undefined
+    );
+    const namespaces = unique(
+      auth?.namespaces,
+      model && !auth?.skipModelNamespaces
+        ? Metadata.get(model, AUTH_NAMESPACE_KEY)
+        : undefined
+    );
+    return compact({
+      security: [{ [scheme]: roles }],
+      "x-namespaces": namespaces.length ? namespaces : undefined,
+    });
+  }
+
+  private schemaOf(schema: any, schemas: Record<string, JsonSchema>) {
+    return typeof schema === "function" && schema.prototype instanceof Model
+      ? modelSchema(schema, schemas)
+      : schema;
+  }
+
+  private isItemRoute(route: ServerRoute): boolean {
+    const segments = route.path.split("/").filter(Boolean);
+    return !!segments.length && segments.every((s) => s.startsWith(":"));
+  }
+
+  private modelBody(
+    route: ServerRoute,
+    model: Constructor<Model>,
+    schemas: Record<string, JsonSchema>
+  ): JsonSchema | undefined {
+    const ref = modelSchema(model, schemas);
+    if (route.path === "bulk") return { type: "array", items: ref };
+    if (route.method === "PATCH" && this.isItemRoute(route))
+      return {
+        type: "object",
+        properties: schemas[model.name].properties,
+      };
+    if (route.path === "" || this.isItemRoute(route)) return ref;
+    return undefined;
+  }
+
+  private modelResult(
+    route: ServerRoute,
+    model: Constructor<Model>,
+    schemas: Record<string, JsonSchema>
+  ): JsonSchema | undefined {
+    if (route.path === "bulk")
+      return { type: "array", items: modelSchema(model, schemas) };
+    if (
+      this.isItemRoute(route) ||
+      (route.path === "" && route.method === "POST")
+    )
+      return modelSchema(model, schemas);
+    return undefined;
+  }
+}
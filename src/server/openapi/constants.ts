@@ -0,0 +1,27 @@
+/**
+ * @description Version of the OpenAPI specification generated documents follow
+ * @const OpenApiVersion
+ * @memberOf module:for-http.server
+ */
+export const OpenApiVersion = "3.1.0";
+
+/**
+ * @description Default path of the route serving the OpenAPI document
+ * @const DefaultOpenApiPath
+ * @memberOf module:for-http.server
+ */
+export const DefaultOpenApiPath = "openapi.json";
+
+/**
+ * @description Name of the default security scheme, a bearer token
+ * @const DefaultSecurityScheme
+ * @memberOf module:for-http.server
+ */
+export const DefaultSecurityScheme = "bearerAuth";
+
+/**
+ * @description Name of the component schema describing error responses
+ * @const ErrorSchemaName
+ * @memberOf module:for-http.server
+ */
+export const ErrorSchemaName = "HttpError";
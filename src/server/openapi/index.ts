@@ -0,0 +1,12 @@
+/**
+ * @description OpenAPI documents of built controllers
+ * @summary Turns the routes of controllers built by `ModelControllerBuilder`, `ModelControllerFactory`
+ * or `ServerControllerBuilder` into an OpenAPI 3.1 document, with JSON Schemas derived from the
+ * model validation metadata.
+ * @namespace openapi
+ * @memberOf module:for-http.server
+ */
+export * from "./constants";
+export * from "./OpenApiGenerator";
+export * from "./schemas";
+export * from "./types";
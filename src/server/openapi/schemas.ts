@@ -0,0 +1,154 @@
+import { Metadata, type Constructor } from "@decaf-ts/decoration";
+import { Model, ValidationKeys } from "@decaf-ts/decorator-validation";
+import type { JsonSchema } from "./types";
+
+function resolveType(type: any): any {
+  return typeof type === "function" && !type.name ? type() : type;
+}
+
+function isModelType(type: any): type is Constructor<Model> {
+  return typeof type === "function" && type.prototype instanceof Model;
+}
+
+function patternSource(pattern: string): string {
+  const match = /^\/(.*)\/[a-z]*$/s.exec(pattern);
+  return match ? match[1] : pattern;
+}
+
+function typeSchema(
+  type: any,
+  schemas: Record<string, JsonSchema>
+): JsonSchema {
+  type = resolveType(type);
+  if (isModelType(type)) return modelSchema(type, schemas);
+  const name = (typeof type === "string" ? type : type?.name)?.toLowerCase();
+  switch (name) {
+    case "string":
+      return { type: "string" };
+    case "number":
+      return { type: "number" };
+    case "bigint":
+      return { type: "integer" };
+    case "boolean":
+      return { type: "boolean" };
+    case "date":
+      return { type: "string", format: "date-time" };
+    case "array":
+    case "set":
+      return { type: "array" };
+    default:
+      return {};
+  }
+}
+
+function anyOf(types: any[], schemas: Record<string, JsonSchema>) {
+  const options = types.map((type) => typeSchema(type, schemas));
+  return options.length > 1 ? { anyOf: options } : (options[0] ?? {});
+}
+
+/**
+ * @description Derives the JSON Schema of a model attribute
+ * @summary Reads the design type and the `list`, `date`, `option`, `min`/`max`,
+ * `minlength`/`maxlength`, `pattern`, `email` and `url` validations of the attribute. Models
+ * are referenced, and described in `schemas`.
+ * @param {Constructor<Model>} ModelConstr - The model
+ * @param {string} attribute - The attribute
+ * @param {Record<string, JsonSchema>} schemas - The component schemas
+ * @return {JsonSchema} The attribute schema
+ * @function attributeSchema
+ * @memberOf module:for-http.server
+ */
+export function attributeSchema(
+  ModelConstr: Constructor<Model>,
+  attribute: string,
+  schemas: Record<string, JsonSchema>
+): JsonSchema {
+  const validation = (Metadata.validationFor(
+    ModelConstr as Constructor<any>,
+    attribute as any
+  ) || {}) as Record<string, any>;
+  const { designTypes } = Metadata.getPropDesignTypes(
+    ModelConstr as Constructor<any>,
+    attribute as any
+  );
+  let schema: JsonSchema = designTypes?.length
+    ? anyOf(designTypes, schemas)
+    : typeSchema(Metadata.type(ModelConstr, attribute), schemas);
+
+  const list = validation[ValidationKeys.LIST];
+  if (list)
+    schema = {
+      type: "array",
+      items: anyOf(([] as any[]).concat(list.clazz ?? []), schemas),
+      ...(list.type === "Set" ? { uniqueItems: true } : {}),
+    };
+  if (validation[ValidationKeys.DATE])
+    schema = { type: "string", format: "date-time" };
+
+  const options = validation[ValidationKeys.ENUM]?.[ValidationKeys.ENUM];
+  if (options)
+    schema.enum = Array.isArray(options) ? options : Object.values(options);
+  for (const [key, keyword] of [
+    [ValidationKeys.MIN, "minimum"],
+    [ValidationKeys.MAX, "maximum"],
+  ]) {
+    const limit = validation[key]?.[key];
+    if (typeof limit === "number") schema[keyword] = limit;
+  }
+  for (const [key, string, array] of [
+    [ValidationKeys.MIN_LENGTH, "minLength", "minItems"],
+    [ValidationKeys.MAX_LENGTH, "maxLength", "maxItems"],
+  ]) {
+    const limit = validation[key]?.[key];
+    if (typeof limit === "number")
+      schema[schema.type === "array" ? array : string] = limit;
+  }
+  if (validation[ValidationKeys.EMAIL]) schema.format = "email";
+  else if (validation[ValidationKeys.URL]) schema.format = "uri";
+  else if (validation[ValidationKeys.PATTERN])
+    schema.pattern = patternSource(
+      validation[ValidationKeys.PATTERN][ValidationKeys.PATTERN]
+    );
+
+  const description = Metadata.description(ModelConstr, attribute as any);
+  if (description) schema.description = description;
+  return schema;
+}
+
+/**
+ * @description Describes a model as a component schema
+ * @summary The schema is added to `schemas` under the model name, once, and referenced. Attributes
+ * decorated with `required` are required.
+ * @param {Constructor<Model>} ModelConstr - The model
+ * @param {Record<string, JsonSchema>} schemas - The component schemas
+ * @return {JsonSchema} A reference to the model schema
+ * @function modelSchema
+ * @memberOf module:for-http.server
+ */
+export function modelSchema(
+  ModelConstr: Constructor<Model>,
+  schemas: Record<string, JsonSchema>
+): JsonSchema {
+  const name = ModelConstr.name;
+  if (!schemas[name]) {
+    const schema: JsonSchema = (schemas[name] = { type: "object" });
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+    for (const attribute of Model.getAttributes(ModelConstr) as string[]) {
+      properties[attribute] = attributeSchema(ModelConstr, attribute, schemas);
+      if (
+        Metadata.validationFor(
+          ModelConstr as Constructor<any>,
+          attribute as any,
+          ValidationKeys.REQUIRED
+        )
+      )
+        required.push(attribute);
+    }
+    schema.properties = properties;
+    if (required.length) schema.required = required;
+    const description = Metadata.description(ModelConstr);
+    if (description) schema.description = description;
+  }
+  return { $ref: `#/components/schemas/${name}` };
+}
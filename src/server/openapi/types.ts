@@ -0,0 +1,61 @@
+import type { Model } from "@decaf-ts/decorator-validation";
+import type { Constructor } from "@decaf-ts/decoration";
+import type { AuthConfig } from "../controllers/types";
+
+/**
+ * @description A JSON Schema, as embedded in OpenAPI 3.1 documents
+ * @typedef {Object} JsonSchema
+ * @memberOf module:for-http.server
+ */
+export type JsonSchema = Record<string, any>;
+
+/**
+ * @description Options of an {@link OpenApiGenerator}
+ * @typedef {Object} OpenApiOptions
+ * @property {string} title - The API title
+ * @property {string} version - The API version
+ * @property {string} [description] - The API description
+ * @property {Array} [servers] - The servers the API is reachable at
+ * @property {Record<string, any>} [securitySchemes] - The security schemes, a bearer token by default. The first one protects the routes requiring authentication; none leaves them unprotected
+ * @memberOf module:for-http.server
+ */
+export type OpenApiOptions = {
+  title: string;
+  version: string;
+  description?: string;
+  servers?: { url: string; description?: string }[];
+  securitySchemes?: Record<string, Record<string, any>>;
+};
+
+/**
+ * @description Overrides of what is read from a built controller
+ * @typedef {Object} OpenApiControllerOptions
+ * @property {string} [path] - The path the controller is mounted at, the kebab cased table name of its model by default
+ * @property {Constructor<Model>} [model] - The model the controller serves
+ * @property {string[]} [tags] - The tags of its operations, the model name by default
+ * @property {AuthConfig} [auth] - The auth requirements of its routes
+ * @memberOf module:for-http.server
+ */
+export type OpenApiControllerOptions = {
+  path?: string;
+  model?: Constructor<Model>;
+  tags?: string[];
+  auth?: AuthConfig;
+};
+
+/**
+ * @description An OpenAPI 3.1 document
+ * @typedef {Object} OpenApiDocument
+ * @memberOf module:for-http.server
+ */
+export type OpenApiDocument = {
+  openapi: string;
+  info: { title: string; version: string; description?: string };
+  servers?: { url: string; description?: string }[];
+  tags?: { name: string }[];
+  paths: Record<string, Record<string, any>>;
+  components: {
+    schemas: Record<string, JsonSchema>;
+    securitySchemes?: Record<string, Record<string, any>>;
+  };
+};
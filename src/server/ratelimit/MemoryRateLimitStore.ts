@@ -0,0 +1,39 @@
+import type { RateLimitStore } from "./types";
+
+/**
+ * @description In-memory rate limit counters
+ * @summary The default {@link RateLimitStore}, counting the requests of a single process. Expired
+ * counters are dropped when read, and swept every `sweepEvery` updates.
+ * @param {number} [sweepEvery] - Updates between sweeps of the expired counters
+ * @class MemoryRateLimitStore
+ * @memberOf module:for-http.server
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  protected readonly entries = new Map<
+    string,
+    { state: unknown; expiresAt: number }
+  >();
+  private updates = 0;
+
+  constructor(protected readonly sweepEvery: number = 1000) {}
+
+  update<S>(key: string, ttl: number, fn: (state: S | undefined) => S): S {
+    const now = Date.now();
+    if (++this.updates % this.sweepEvery === 0) this.sweep(now);
+    const entry = this.entries.get(key);
+    const state = fn(
+      entry && entry.expiresAt > now ? (entry.state as S) : undefined
+    );
+    this.entries.set(key, { state, expiresAt: now + ttl });
+    return state;
+  }
+
+  /**
+   * @description Drops the expired counters
+   * @param {number} [now] - The current time
+   */
+  sweep(now: number = Date.now()): void {
+    for (const [key, { expiresAt }] of this.entries)
+      if (expiresAt <= now) this.entries.delete(key);
+  }
+}
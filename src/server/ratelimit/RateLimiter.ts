@@ -0,0 +1,180 @@
+import { InternalError } from "@decaf-ts/db-decorators";
+import { DecafHeaders } from "../../constants";
+import { TooManyRequestsError } from "../../errors";
+import { withResponseHeaders } from "../controllers/concurrency";
+import { clientIpOf } from "../controllers/ip";
+import type { TrustProxy } from "../controllers/types";
+import { RateLimitCounters } from "./algorithms";
+import { AnonymousRateLimitKey, DefaultRateLimitWindow } from "./constants";
+import { MemoryRateLimitStore } from "./MemoryRateLimitStore";
+import type {
+  RateLimitAlgorithm,
+  RateLimitDecision,
+  RateLimitKeyBy,
+  RateLimitRule,
+  RateLimitStore,
+} from "./types";
+
+const limited = Symbol("limited");
+
+function contextValue(ctx: any, key: string): any {
+  try {
+    return typeof ctx?.getOrUndefined === "function"
+      ? ctx.getOrUndefined(key)
+      : ctx?.get?.(key);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * @description Resolves whom a request is counted against
+ * @summary `user` and `organization` read the auth data bound to the context, falling back to the
+ * client IP; requests with neither share the anonymous counter. The client IP is the `ip` flag of
+ * the context, or a forwarded address when its peer is trusted (see {@link clientIpOf}).
+ * @param {any} ctx - The request context
+ * @param {RateLimitKeyBy} [keyBy] - What requests are counted by, the IP by default
+ * @param {TrustProxy} [trustProxy] - Which peers may forward the client address, none by default
+ * @return {string} The counter subject
+ * @function rateLimitSubjectOf
+ * @memberOf module:for-http.server
+ */
+export function rateLimitSubjectOf(
+  ctx: any,
+  keyBy: RateLimitKeyBy = "ip",
+  trustProxy: TrustProxy = false
+): string {
+  if (typeof keyBy === "function") return keyBy(ctx) ?? AnonymousRateLimitKey;
+  const subject =
+    keyBy === "organization"
+      ? (contextValue(ctx, "organization") ?? contextValue(ctx, "user"))
+      : keyBy === "user"
+        ? contextValue(ctx, "user")
+        : undefined;
+  if (subject) return `${keyBy}:${subject}`;
+  const ip = clientIpOf(
+    contextValue(ctx, "headers"),
+    contextValue(ctx, "ip"),
+    trustProxy
+  );
+  return ip ? `ip:${ip}` : AnonymousRateLimitKey;
+}
+
+/**
+ * @description Enforces a rate limit
+ * @summary Counts requests per key with the rule's algorithm in a {@link RateLimitStore}, and
+ * describes the outcome with the `RateLimit-*` and `Retry-After` headers.
+ * @param {RateLimitRule} rule - The rate limit
+ * @param {RateLimitStore} [store] - Where counters live, in memory by default
+ * @class RateLimiter
+ * @example
+ * ```typescript
+ * const limiter = new RateLimiter({ limit: 10, window: 1000, algorithm: "token-bucket" });
+ * const decision = await limiter.consume(`ip:${ip}`);
+ * if (!decision.allowed) reply(429, limiter.headersOf(decision));
+ * ```
+ * @memberOf module:for-http.server
+ */
+export class RateLimiter {
+  readonly limit: number;
+  readonly window: number;
+  readonly algorithm: RateLimitAlgorithm;
+  readonly keyBy: RateLimitKeyBy;
+  readonly trustProxy: TrustProxy;
+
+  constructor(
+    rule: RateLimitRule,
+    protected readonly store: RateLimitStore = new MemoryRateLimitStore()
+  ) {
+    if (!(rule.limit > 0))
+      throw new InternalError(`Rate limits need a positive limit`);
+    this.limit = rule.limit;
+    this.window = rule.window ?? DefaultRateLimitWindow;
+    this.algorithm = rule.algorithm ?? "sliding-window";
+    this.keyBy = rule.keyBy ?? "ip";
+    this.trustProxy = rule.trustProxy ?? false;
+  }
+
+  /**
+   * @description Counts a request
+   * @param {string} key - The counter
+   * @param {number} [now] - The time of the request
+   * @return {Promise<RateLimitDecision>} Whether the request may proceed
+   */
+  async consume(
+    key: string,
+    now: number = Date.now()
+  ): Promise<RateLimitDecision> {
+    const counter = RateLimitCounters[this.algorithm];
+    let decision!: RateLimitDecision;
+    await this.store.update(key, this.window * 2, (state) => {
+      const counted = counter(state, this.limit, this.window, now);
+      decision = counted.decision;
+      return counted.state;
+    });
+    return decision;
+  }
+
+  /**
+   * @description Describes a decision with response headers
+   * @summary Times are in seconds. `Retry-After` is only set on denied requests.
+   * @param {RateLimitDecision} decision - The decision
+   * @return {Record<string, string>} The headers
+   */
+  headersOf(decision: RateLimitDecision): Record<string, string> {
+    const headers: Record<string, string> = {
+      [DecafHeaders.RATE_LIMIT]: String(decision.limit),
+      [DecafHeaders.RATE_LIMIT_REMAINING]: String(decision.remaining),
+      [DecafHeaders.RATE_LIMIT_RESET]: String(Math.ceil(decision.reset / 1000)),
+      [DecafHeaders.RATE_LIMIT_POLICY]: `${this.limit};w=${Math.ceil(this.window / 1000)}`,
+    };
+    if (!decision.allowed)
+      headers[DecafHeaders.RETRY_AFTER] = String(
+        Math.ceil((decision.retryAfter ?? decision.reset) / 1000)
+      );
+    return headers;
+  }
+}
+
+/**
+ * @description Wraps a route implementation with a rate limit
+ * @summary Counts every call under `scope` and the subject of the request context (see
+ * {@link rateLimitSubjectOf}). Allowed calls get the rate limit headers attached to their result;
+ * denied ones fail with a TooManyRequestsError (429) carrying them, so framework bridges send both
+ * with {@link responseHeadersOf}. Wrapping an already wrapped implementation returns it unchanged.
+ * @param {Function} implementation - The route implementation
+ * @param {RateLimiter} limiter - The rate limit
+ * @param {string} scope - Separates the counters of different limits
+ * @return {Function} The wrapped implementation
+ * @throws {TooManyRequestsError} When the limit is exceeded
+ * @function withRateLimit
+ * @memberOf module:for-http.server
+ */
+export function withRateLimit(
+  implementation: (...args: any[]) => any,
+  limiter: RateLimiter,
+  scope: string
+): (...args: any[]) => any {
+  if ((implementation as any)[limited]) return implementation;
+  const wrapped = {
+    async [implementation.name](this: any, ...args: any[]) {
+      const decision = await limiter.consume(
+        `${scope}|${rateLimitSubjectOf(this?.ctx, limiter.keyBy, limiter.trustProxy)}`
+      );
+      const headers = limiter.headersOf(decision);
+      if (!decision.allowed)
+        throw withResponseHeaders(
+          new TooManyRequestsError(
+            `Rate limit of ${decision.limit} requests exceeded, retry in ${headers[DecafHeaders.RETRY_AFTER]}s`
+          ),
+          headers
+        );
+      return withResponseHeaders(
+        await implementation.apply(this, args),
+        headers
+      );
+    },
+  }[implementation.name];
+  Object.defineProperty(wrapped, limited, { value: true });
+  return wrapped;
+}
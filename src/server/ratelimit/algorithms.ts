@@ -0,0 +1,122 @@
+import type { RateLimitAlgorithm, RateLimitDecision } from "./types";
+
+/**
+ * @description Counts a request against a counter state
+ * @summary Pure: returns the new state to store and the decision, leaving the given state untouched.
+ * @typedef {Function} RateLimitCounter
+ * @memberOf module:for-http.server
+ */
+export type RateLimitCounter<S = any> = (
+  state: S | undefined,
+  limit: number,
+  window: number,
+  now: number
+) => { state: S; decision: RateLimitDecision };
+
+type TokenBucketState = { tokens: number; updatedAt: number };
+
+type SlidingWindowState = { start: number; current: number; previous: number };
+
+/**
+ * @description Token bucket counter
+ * @summary The bucket holds up to `limit` tokens, refilled continuously at `limit` per window; every
+ * request takes one. Full buckets allow bursts of `limit` requests.
+ * @function tokenBucket
+ * @memberOf module:for-http.server
+ */
+export const tokenBucket: RateLimitCounter<TokenBucketState> = (
+  state,
+  limit,
+  window,
+  now
+) => {
+  const rate = limit / window;
+  const tokens = state
+    ? Math.min(limit, state.tokens + Math.max(now - state.updatedAt, 0) * rate)
+    : limit;
+  if (tokens < 1)
+    return {
+      state: { tokens, updatedAt: now },
+      decision: {
+        allowed: false,
+        limit,
+        remaining: 0,
+        reset: Math.ceil((limit - tokens) / rate),
+        retryAfter: Math.ceil((1 - tokens) / rate),
+      },
+    };
+  const left = tokens - 1;
+  return {
+    state: { tokens: left, updatedAt: now },
+    decision: {
+      allowed: true,
+      limit,
+      remaining: Math.floor(left),
+      reset: Math.ceil((limit - left) / rate),
+    },
+  };
+};
+
+/**
+ * @description Sliding window counter
+ * @summary Counts requests in fixed windows and estimates the sliding window as the current count
+ * plus the previous one, weighted by how much of the previous window the sliding one still covers.
+ * @function slidingWindow
+ * @memberOf module:for-http.server
+ */
+export const slidingWindow: RateLimitCounter<SlidingWindowState> = (
+  state,
+  limit,
+  window,
+  now
+) => {
+  const start = Math.floor(now / window) * window;
+  const current = state?.start === start ? state.current : 0;
+  const previous =
+    state?.start === start
+      ? state.previous
+      : state?.start === start - window
+        ? state.current
+        : 0;
+  const weight = 1 - (now - start) / window;
+  const estimate = previous * weight + current;
+  const reset = start + window - now;
+  if (estimate + 1 > limit) {
+    const room = limit - current - 1;
+    return {
+      state: { start, current, previous },
+      decision: {
+        allowed: false,
+        limit,
+        remaining: 0,
+        reset,
+        retryAfter:
+          room >= 0 && previous > 0
+            ? Math.max(
+                Math.ceil(start + window * (1 - room / previous) - now),
+                1
+              )
+            : reset,
+      },
+    };
+  }
+  return {
+    state: { start, current: current + 1, previous },
+    decision: {
+      allowed: true,
+      limit,
+      remaining: Math.max(Math.floor(limit - estimate - 1), 0),
+      reset,
+    },
+  };
+};
+
+/**
+ * @description The counter of each rate limit algorithm
+ * @const RateLimitCounters
+ * @memberOf module:for-http.server
+ */
+export const RateLimitCounters: Record<RateLimitAlgorithm, RateLimitCounter> = {
+  "token-bucket": tokenBucket,
+  "sliding-window": slidingWindow,
+};
@@ -0,0 +1,24 @@
+/**
+ * @description Metadata keys of the `@rateLimit` decorator
+ * @summary `MODEL` holds the rule of a model class, `METHOD` the rules of persistence methods.
+ * @enum RateLimitKeys
+ * @memberOf module:for-http.server
+ */
+export enum RateLimitKeys {
+  MODEL = "rate-limit",
+  METHOD = "method-rate-limit",
+}
+
+/**
+ * @description Default rate limit window, in milliseconds
+ * @const DefaultRateLimitWindow
+ * @memberOf module:for-http.server
+ */
+export const DefaultRateLimitWindow = 60_000;
+
+/**
+ * @description Subject of requests that carry neither an IP nor auth data
+ * @const AnonymousRateLimitKey
+ * @memberOf module:for-http.server
+ */
+export const AnonymousRateLimitKey = "anonymous";
@@ -0,0 +1,41 @@
+import {
+  apply,
+  Metadata,
+  metadata,
+  methodMetadata,
+} from "@decaf-ts/decoration";
+import { RateLimitKeys } from "./constants";
+import type { RateLimitRule } from "./types";
+
+/**
+ * @description Sets the rate limit of a model or of a persistence method
+ * @summary On a model, the rule is shared by every route of its generated controller. On a `@route`
+ * or `@query` method of the persistence, the route of that method gets a counter of its own;
+ * `false` exempts it from the model limit. Limits set in the controller factory configuration take
+ * precedence.
+ * @param {RateLimitRule|false} rule - The rate limit
+ * @return {Function} The decorator
+ * @function rateLimit
+ * @example
+ * ```typescript
+ * @rateLimit({ limit: 600 })
+ * @model()
+ * class Product extends BaseModel {}
+ *
+ * class ProductRepository extends Repository<Product, any> {
+ *   @rateLimit({ limit: 10, algorithm: "token-bucket", keyBy: "user" })
+ *   @route("GET", "report/:year")
+ *   report(year: number) {}
+ * }
+ * ```
+ * @memberOf module:for-http.server
+ */
+export function rateLimit(rule: RateLimitRule | false) {
+  return function rateLimit(target: any, prop?: any, descriptor?: any) {
+    if (typeof prop === "undefined")
+      return apply(metadata(RateLimitKeys.MODEL, rule))(target);
+    return apply(
+      methodMetadata(Metadata.key(RateLimitKeys.METHOD, prop), rule)
+    )(target, prop, descriptor);
+  };
+}
@@ -0,0 +1,13 @@
+/**
+ * @description Rate limiting of generated controllers
+ * @summary Token bucket and sliding window limits, counted per IP, user or organization in a
+ * pluggable {@link RateLimitStore}, configured per controller, model or route.
+ * @namespace ratelimit
+ * @memberOf module:for-http.server
+ */
+export * from "./algorithms";
+export * from "./constants";
+export * from "./decorators";
+export * from "./MemoryRateLimitStore";
+export * from "./RateLimiter";
+export * from "./types";
@@ -0,0 +1,97 @@
+import type { TrustProxy } from "../controllers/types";
+
+/**
+ * @description Algorithms counting the requests of a rate limit
+ * @summary `token-bucket` refills `limit` tokens per window and allows bursts up to `limit`;
+ * `sliding-window` weighs the previous window into the current one.
+ * @typedef {("token-bucket"|"sliding-window")} RateLimitAlgorithm
+ * @memberOf module:for-http.server
+ */
+export type RateLimitAlgorithm = "token-bucket" | "sliding-window";
+
+/**
+ * @description What requests are counted by
+ * @summary `user` and `organization` read the auth data bound to the request context, falling back
+ * to the IP. A function receives the request context and returns the subject.
+ * @typedef {("ip"|"user"|"organization"|Function)} RateLimitKeyBy
+ * @memberOf module:for-http.server
+ */
+export type RateLimitKeyBy =
+  "ip" | "user" | "organization" | ((ctx: any) => string | undefined);
+
+/**
+ * @description A rate limit
+ * @summary `trustProxy` decides when `X-Forwarded-For` and `X-Real-IP` are honored: never by
+ * default, so clients cannot pick their counter, from any peer with `true`, or only from the listed
+ * proxy addresses.
+ * @typedef {Object} RateLimitRule
+ * @property {number} limit - Requests allowed per window
+ * @property {number} [window] - The window, in milliseconds, defaults to a minute
+ * @property {RateLimitAlgorithm} [algorithm] - Defaults to `sliding-window`
+ * @property {RateLimitKeyBy} [keyBy] - Defaults to `ip`
+ * @property {TrustProxy} [trustProxy] - Which peers may forward the client address
+ * @memberOf module:for-http.server
+ */
+export interface RateLimitRule {
+  limit: number;
+  window?: number;
+  algorithm?: RateLimitAlgorithm;
+  keyBy?: RateLimitKeyBy;
+  trustProxy?: TrustProxy;
+}
+
+/**
+ * @description Rate limits of a controller
+ * @summary The top level rule, when it sets a `limit`, is shared by every route of the controller.
+ * `routes` gives routes, keyed by `"<METHOD> <path>"` (e.g. `"GET groupOf/:field"`), a counter of
+ * their own, inheriting the unset fields from the top level, or exempts them with `false`.
+ * @typedef {Object} RateLimitOptions
+ * @property {Record<string, RateLimitRule|false>} [routes] - Per route rules
+ * @property {RateLimitStore} [store] - Where counters live, in memory by default
+ * @memberOf module:for-http.server
+ */
+export interface RateLimitOptions extends Partial<RateLimitRule> {
+  routes?: Record<string, Partial<RateLimitRule> | false>;
+  store?: RateLimitStore;
+}
+
+/**
+ * @description The outcome of counting a request
+ * @typedef {Object} RateLimitDecision
+ * @property {boolean} allowed - Whether the request may proceed
+ * @property {number} limit - Requests allowed per window
+ * @property {number} remaining - Requests left
+ * @property {number} reset - Milliseconds until the quota is fully available again
+ * @property {number} [retryAfter] - Milliseconds until a denied request may be retried
+ * @memberOf module:for-http.server
+ */
+export type RateLimitDecision = {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  reset: number;
+  retryAfter?: number;
+};
+
+/**
+ * @description Storage of rate limit counters
+ * @summary `update` must apply `fn` atomically to the state of `key`, e.g. with a compare-and-set
+ * loop on shared stores, and may expire the state `ttl` milliseconds after the update. `fn` is pure
+ * and may be called more than once.
+ * @interface RateLimitStore
+ * @memberOf module:for-http.server
+ */
+export interface RateLimitStore {
+  /**
+   * @description Updates the state of a counter
+   * @param {string} key - The counter
+   * @param {number} ttl - Milliseconds the state must be kept for
+   * @param {Function} fn - Computes the new state from the current one, undefined when unknown
+   * @return {S|Promise<S>} The new state
+   */
+  update<S>(
+    key: string,
+    ttl: number,
+    fn: (state: S | undefined) => S
+  ): S | Promise<S>;
+}
@@ -0,0 +1,314 @@
+import { Metadata, type Constructor } from "@decaf-ts/decoration";
+import { Model } from "@decaf-ts/decorator-validation";
+import { toKebabCase } from "@decaf-ts/logging";
+import {
+  metadataSource,
+  readQueryMetadata,
+  readRouteMetadata,
+} from "../controllers/metadata";
+import type { RouteParam, ServerRoute } from "../controllers/models";
+import { DefaultClientPackage, DefaultModelsModule } from "./constants";
+import type { ClientGeneratorOptions } from "./types";
+
+const BodyMethods = ["POST", "PUT", "PATCH"];
+
+const QueryParamTypes: Record<string, string> = {
+  string: "string",
+  number: "number",
+  boolean: "boolean",
+  array: "unknown[]",
+  object: "Record<string, unknown>",
+};
+
+const ContextArgs = "...args: MaybeContextualArg<ContextOf<A>>";
+
+function trimPath(path: string): string {
+  return path.replace(/^\/+|\/+$/g, "");
+}
+
+function identifier(name: string): string {
+  const camel = name.replace(/\W+(\w)?/g, (_, c?: string) =>
+    c ? c.toUpperCase() : ""
+  );
+  return /^\d/.test(camel) ? `_${camel}` : camel;
+}
+
+function queryType(params: RouteParam[]): string {
+  const fields = params.map(
+    ({ name, type, required }) =>
+      `${/^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name)}${required ? "" : "?"}: ${QueryParamTypes[type] ?? "unknown"}`
+  );
+  return `{ ${fields.join("; ")} }`;
+}
+
+function isModelType(type: any): type is Constructor<Model> {
+  return typeof type === "function" && type.prototype instanceof Model;
+}
+
+function scalarType(type: any): string | undefined {
+  type = typeof type === "function" && !type.name ? type() : type;
+  switch ((typeof type === "string" ? type : type?.name)?.toLowerCase()) {
+    case "string":
+      return "string";
+    case "number":
+      return "number";
+    case "bigint":
+      return "bigint";
+    case "boolean":
+      return "boolean";
+    case "date":
+      return "Date";
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * @description Generates typed clients of built model controllers
+ * @summary Emits a TypeScript module holding one class per model, extending `RestService` with a
+ * method for every custom route (`@route` methods of the controller persistence) and every
+ * prepared statement (`@query` methods) the controller exposes. Path parameters and statement
+ * arguments named after model attributes get the attribute type; bodies get the model type of
+ * the persistence method parameter. CRUD, bulk and the generic statements are inherited from
+ * `RestService`.
+ * @param {ClientGeneratorOptions} [options] - Where the generated module imports from
+ * @class ClientGenerator
+ * @example
+ * ```typescript
+ * const source = new ClientGenerator({ modelsModule: "@shop/models" })
+ *   .addController(ModelControllerFactory.create(Product, new ProductRepository()))
+ *   .generate();
+ * await fs.writeFile("src/client.ts", source);
+ * ```
+ * @memberOf module:for-http.server
+ */
+export class ClientGenerator {
+  protected readonly controllers: any[] = [];
+
+  constructor(protected readonly options: ClientGeneratorOptions = {}) {}
+
+  /**
+   * @description Adds a controller built by `ModelControllerBuilder` or `ModelControllerFactory`
+   * @param {any} controller - The controller class
+   * @return {ClientGenerator} The generator, for chaining
+   */
+  addController(controller: any): this {
+    this.controllers.push(controller);
+    return this;
+  }
+
+  /**
+   * @description Generates the client module
+   * @return {string} The TypeScript source
+   */
+  generate(): string {
+    const models = new Set<Constructor<Model>>();
+    const classes = this.controllers
+      .filter((controller) => isModelType(controller?.__model__))
+      .map((controller) => this.clientClass(controller, models));
+
+    const imports = new Map<string, string[]>();
+    for (const model of models) {
+      const module =
+        this.options.imports?.[model.name] ??
+        this.options.modelsModule ??
+        DefaultModelsModule;
+      imports.set(module, [...(imports.get(module) ?? []), model.name]);
+    }
+
+    return [
+      "/* Generated by @decaf-ts/for-http. Do not edit. */",
+      `import type { ContextOf, MaybeContextualArg } from "@decaf-ts/core";`,
+      `import { RestService, type HttpAdapter } from "${this.options.packageName ?? DefaultClientPackage}";`,
+      ...[...imports].map(
+        ([module, names]) =>
+          `import { ${names.sort().join(", ")} } from "${module}";`
+      ),
+      "",
+      classes.join("\n\n"),
+      "",
+    ].join("\n");
+  }
+
+  /**
+   * @description Generates the client class of a controller
+   * @param {any} controller - The controller class
+   * @param {Set<Constructor<Model>>} models - Collects the models to import
+   * @return {string} The class source
+   */
+  protected clientClass(
+    controller: any,
+    models: Set<Constructor<Model>>
+  ): string {
+    const model: Constructor<Model> = controller.__model__;
+    const source = controller.__persistence__;
+    const name = this.options.className?.(model) ?? `${model.name}Service`;
+    const exposed = new Map(
+      ((controller.__routes__ ?? []) as ServerRoute[]).map((route) => [
+        `${route.method} ${trimPath(route.path)}`,
+        route,
+      ])
+    );
+    models.add(model);
+
+    const methods: string[] = [];
+    for (const [method, { path, httpMethod }] of Object.entries(
+      readRouteMetadata(source)
+    )) {
+      const route = exposed.get(`${httpMethod} ${trimPath(path)}`);
+      if (route)
+        methods.push(
+          this.routeMethod(
+            model,
+            source,
+            method,
+            httpMethod,
+            path,
+            models,
+            route.queryParams
+          )
+        );
+    }
+    for (const [method, { fields = [] }] of Object.entries(
+      readQueryMetadata(source)
+    ))
+      if (
+        exposed.has(
+          `GET ${["query", method, ...fields.map((f) => `:${f}`)].join("/")}`
+        )
+      )
+        methods.push(this.statementMethod(model, method, fields));
+
+    return [
+      `/**`,
+      ` * @description Client of the ${model.name} routes`,
+      ` */`,
+      `export class ${name}<`,
+      `  A extends HttpAdapter<any, any, any, any, any> = HttpAdapter<any, any, any, any, any>,`,
+      `> extends RestService<${model.name}, A> {`,
+      `  constructor(adapter: A) {`,
+      `    super(adapter, ${model.name});`,
+      `  }`,
+      ...methods.map((method) => `\n${method}`),
+      `}`,
+    ].join("\n");
+  }
+
+  /**
+   * @description Generates the method of a custom route
+   * @summary Methods sending a body take it after the path parameters; the others take the query
+   * parameters instead, typed after the query parameters the route declares. The query defaults
+   * to an empty object unless one of them is required.
+   * @param {Constructor<Model>} model - The model of the controller
+   * @param {any} source - The persistence declaring the route
+   * @param {string} name - The persistence method
+   * @param {string} httpMethod - The HTTP method of the route
+   * @param {string} path - The route path
+   * @param {Set<Constructor<Model>>} models - Collects the models to import
+   * @param {RouteParam[]} [queryParams] - The query parameters the route declares
+   * @return {string} The method source
+   */
+  protected routeMethod(
+    model: Constructor<Model>,
+    source: any,
+    name: string,
+    httpMethod: string,
+    path: string,
+    models: Set<Constructor<Model>>,
+    queryParams: RouteParam[] = []
+  ): string {
+    const segments = trimPath(path).split("/").filter(Boolean);
+    const params = segments
+      .filter((segment) => segment.startsWith(":"))
+      .map((segment) => segment.slice(1))
+      .map(
+        (param) =>
+          `${identifier(param)}: ${this.attributeType(model, param) ?? "string | number"}`
+      );
+    const hasBody = BodyMethods.includes(httpMethod);
+    if (hasBody) params.push(`body: ${this.bodyType(source, name, models)}`);
+    else if (!queryParams.length)
+      params.push("query: Record<string, unknown> = {}");
+    else
+      params.push(
+        `query: ${queryType(queryParams)}${queryParams.some((param) => param.required) ? "" : " = {}"}`
+      );
+    const pathArg = segments
+      .map((segment) =>
+        segment.startsWith(":")
+          ? identifier(segment.slice(1))
+          : JSON.stringify(segment)
+      )
+      .join(", ");
+    const url = [toKebabCase(Model.tableName(model)), ...segments].join("/");
+    return [
+      `  /**`,
+      `   * @description Calls ${httpMethod} /${url}`,
+      `   */`,
+      `  ${identifier(name)}<R = any>(`,
+      ...[...params, ContextArgs].map((param) => `    ${param},`),
+      `  ): Promise<R> {`,
+      `    return this.callRoute<R>(`,
+      `      "${httpMethod}",`,
+      `      [${pathArg}],`,
+      `      { ${hasBody ? "body" : "query"} },`,
+      `      ...args`,
+      `    );`,
+      `  }`,
+    ].join("\n");
+  }
+
+  /**
+   * @description Generates the method of a prepared statement
+   * @param {Constructor<Model>} model - The model of the controller
+   * @param {string} name - The `@query` method
+   * @param {string[]} fields - The attributes the statement takes as arguments
+   * @return {string} The method source
+   */
+  protected statementMethod(
+    model: Constructor<Model>,
+    name: string,
+    fields: string[]
+  ): string {
+    const params = fields.map(
+      (field) =>
+        `${identifier(field)}: ${this.attributeType(model, field) ?? "unknown"}`
+    );
+    return [
+      `  /**`,
+      `   * @description Executes the ${name} prepared statement`,
+      `   */`,
+      `  ${identifier(name)}<R = ${model.name}[]>(`,
+      ...[...params, ContextArgs].map((param) => `    ${param},`),
+      `  ): Promise<R> {`,
+      `    return this.callStatement<R>(`,
+      `      "${name}",`,
+      ...fields.map((field) => `      ${identifier(field)},`),
+      `      ...args`,
+      `    );`,
+      `  }`,
+    ].join("\n");
+  }
+
+  private attributeType(
+    model: Constructor<Model>,
+    attribute: string
+  ): string | undefined {
+    if (!(Model.getAttributes(model) as string[]).includes(attribute))
+      return undefined;
+    return scalarType(Metadata.type(model, attribute));
+  }
+
+  private bodyType(
+    source: any,
+    method: string,
+    models: Set<Constructor<Model>>
+  ): string {
+    const target = metadataSource(source);
+    const params = (target && Metadata.params(target, method)) || [];
+    const body = (params as any[]).find(isModelType);
+    if (!body) return "unknown";
+    models.add(body);
+    return body.name;
+  }
+}
@@ -0,0 +1,75 @@
+import { promises as fs } from "fs";
+import { dirname, extname, relative, resolve } from "path";
+import { pathToFileURL } from "url";
+import { InternalError } from "@decaf-ts/db-decorators";
+import { ClientGenerator } from "./ClientGenerator";
+import type { ClientGeneratorOptions } from "./types";
+
+const Usage =
+  "Usage: for-http-client <module> [--out <file>] [--models <module>] [--package <name>]";
+
+function controllersOf(exports: Record<string, any>): any[] {
+  const values = Object.values(exports).flatMap((value) =>
+    Array.isArray(value)
+      ? value
+      : value && typeof value === "object"
+        ? Object.values(value)
+        : [value]
+  );
+  return Array.from(
+    new Set(
+      values.filter(
+        (value) =>
+          typeof value === "function" &&
+          Array.isArray(value.__routes__) &&
+          value.__model__
+      )
+    )
+  );
+}
+
+function modulePath(from: string, to: string): string {
+  const path = relative(from, to.slice(0, -extname(to).length || undefined));
+  return path.startsWith(".") ? path : `./${path}`;
+}
+
+/**
+ * @description Runs the client generator from the command line
+ * @summary Imports `<module>`, generates the client of every model controller it exports (alone,
+ * in a list or in an exported object) and writes it to `--out`, or to the standard output. Models
+ * are imported from `--models`, the controller module itself by default.
+ * @param {string[]} argv - The command line arguments, after the script
+ * @return {Promise<string>} The generated source
+ * @throws {InternalError} When the module is missing or exports no model controller
+ * @function runClientGenerator
+ * @memberOf module:for-http.server
+ */
+export async function runClientGenerator(argv: string[]): Promise<string> {
+  const positional: string[] = [];
+  const flags: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith("--")) flags[argv[i].slice(2)] = argv[++i];
+    else positional.push(argv[i]);
+  }
+  const [module] = positional;
+  if (!module) throw new InternalError(Usage);
+
+  const path = resolve(module);
+  const controllers = controllersOf(await import(pathToFileURL(path).href));
+  if (!controllers.length)
+    throw new InternalError(`${module} exports no model controller`);
+
+  const out = flags.out ? resolve(flags.out) : undefined;
+  const options: ClientGeneratorOptions = {
+    modelsModule:
+      flags.models ?? modulePath(out ? dirname(out) : process.cwd(), path),
+    packageName: flags.package,
+  };
+  const generator = new ClientGenerator(options);
+  controllers.forEach((controller) => generator.addController(controller));
+  const source = generator.generate();
+
+  if (out) await fs.writeFile(out, source);
+  else process.stdout.write(source);
+  return source;
+}
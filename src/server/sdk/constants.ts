@@ -0,0 +1,13 @@
+/**
+ * @description Default module generated clients import `RestService` from
+ * @const DefaultClientPackage
+ * @memberOf module:for-http.server
+ */
+export const DefaultClientPackage = "@decaf-ts/for-http";
+
+/**
+ * @description Default module generated clients import the models from
+ * @const DefaultModelsModule
+ * @memberOf module:for-http.server
+ */
+export const DefaultModelsModule = "./models";
@@ -0,0 +1,11 @@
+/**
+ * @description Typed clients of built controllers
+ * @summary Generates the TypeScript client of model controllers, programmatically through
+ * {@link ClientGenerator} or from the command line through {@link runClientGenerator}.
+ * @namespace sdk
+ * @memberOf module:for-http.server
+ */
+export * from "./cli";
+export * from "./ClientGenerator";
+export * from "./constants";
+export * from "./types";
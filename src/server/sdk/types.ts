@@ -0,0 +1,18 @@
+import type { Model } from "@decaf-ts/decorator-validation";
+import type { Constructor } from "@decaf-ts/decoration";
+
+/**
+ * @description Options of a {@link ClientGenerator}
+ * @typedef {Object} ClientGeneratorOptions
+ * @property {string} [modelsModule] - The module the models are imported from, `./models` by default
+ * @property {Record<string, string>} [imports] - The module of specific models, by model name
+ * @property {string} [packageName] - The module `RestService` is imported from
+ * @property {Function} [className] - Names the client class of a model, `<Model>Service` by default
+ * @memberOf module:for-http.server
+ */
+export type ClientGeneratorOptions = {
+  modelsModule?: string;
+  imports?: Record<string, string>;
+  packageName?: string;
+  className?: (model: Constructor<Model>) => string;
+};
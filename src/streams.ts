@@ -0,0 +1,93 @@
+import { abortable, abortReason } from "./retry";
+
+/**
+ * @description Body of a streamed response or upload
+ * @summary Node streams and other async iterables of chunks, or a web `ReadableStream`.
+ * @typedef {(AsyncIterable|ReadableStream)} StreamBody
+ * @memberOf module:for-http
+ */
+export type StreamBody =
+  AsyncIterable<Uint8Array | string> | ReadableStream<Uint8Array>;
+
+type ChunkReader = {
+  next: () => Promise<IteratorResult<Uint8Array | string>>;
+  release: (reason?: unknown) => void;
+};
+
+function chunkReader(body: StreamBody): ChunkReader {
+  if (typeof (body as ReadableStream).getReader === "function") {
+    const reader = (body as ReadableStream<Uint8Array>).getReader();
+    return {
+      next: () => reader.read() as Promise<IteratorResult<Uint8Array | string>>,
+      release: (reason?: unknown) => {
+        reader.cancel(reason).catch(() => undefined);
+      },
+    };
+  }
+  const iterator = (body as AsyncIterable<Uint8Array | string>)[
+    Symbol.asyncIterator
+  ]();
+  return {
+    next: () => iterator.next(),
+    release: (reason?: unknown) => {
+      if (typeof (body as any).destroy === "function")
+        return (body as any).destroy(
+          reason instanceof Error ? reason : undefined
+        );
+      iterator.return?.()?.catch(() => undefined);
+    },
+  };
+}
+
+/**
+ * @description Reads the chunks of a streamed body
+ * @summary Chunks are only read when the next one is requested, so a slow consumer holds the
+ * producer back. Stopping the iteration early or aborting `signal` releases the body; aborting
+ * rejects the pending read with the abort reason.
+ * @param {StreamBody} body - The body
+ * @param {AbortSignal} [signal] - Optional cancellation signal
+ * @return {AsyncGenerator<Uint8Array|string>} The chunks
+ * @function readChunks
+ * @memberOf module:for-http
+ */
+export async function* readChunks(
+  body: StreamBody,
+  signal?: AbortSignal
+): AsyncGenerator<Uint8Array | string> {
+  const reader = chunkReader(body);
+  let done = false;
+  try {
+    for (;;) {
+      if (signal?.aborted) throw abortReason(signal);
+      const chunk = await abortable(reader.next(), signal);
+      if (chunk.done) {
+        done = true;
+        return;
+      }
+      yield chunk.value;
+    }
+  } finally {
+    if (!done) reader.release(signal?.reason);
+  }
+}
+
+/**
+ * @description Reads a whole streamed body as text
+ * @summary Used for bodies that turn out not to be streamed content, e.g. error responses.
+ * @param {StreamBody|string} [body] - The body
+ * @return {Promise<string>} The body text
+ * @function readText
+ * @memberOf module:for-http
+ */
+export async function readText(body?: StreamBody | string): Promise<string> {
+  if (typeof body === "undefined" || body === null) return "";
+  if (typeof body === "string") return body;
+  const decoder = new TextDecoder();
+  let text = "";
+  for await (const chunk of readChunks(body))
+    text +=
+      typeof chunk === "string"
+        ? chunk
+        : decoder.decode(chunk, { stream: true });
+  return text + decoder.decode();
+}
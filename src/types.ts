@@ -1,4 +1,12 @@
-import { AdapterFlags, Context } from "@decaf-ts/core";
+import {
+  AdapterFlags,
+  Context,
+  GroupOperator,
+  Operator,
+  OrderDirection,
+} from "@decaf-ts/core";
+import type { PrimaryKeyType } from "@decaf-ts/db-decorators";
+import type { PatchContentType } from "./constants";
 
 export type ResponseParser = <
   C extends Context<HttpFlags> = Context<HttpFlags>,
@@ -14,6 +22,17 @@ export type ResponseParser = <
  * @property {('http'|'https')} protocol - The HTTP protocol to use
  * @property {string} host - The host address
  * @property {boolean} [idInUrl=true] - When true (default), write operations (create, update) include the resource id (and composed pk parts) in the URL path, matching REST semantics. Set to false to POST/PUT against the collection URL only.
+ * @property {Partial<RetryPolicy>} [retry] - Optional retry policy applied to every request. When omitted, requests are sent exactly once.
+ * @property {PatchContentType} [patchFormat] - Format of the partial updates sent by `RestRepository.patch`. Defaults to JSON Merge Patch.
+ * @property {number} [patchVersions] - Number of record versions each `RestRepository` keeps to diff patches against, least recently used are dropped first. Defaults to {@link DefaultPatchVersions}.
+ * @property {boolean|Partial<HttpCacheConfig>} [cache] - Opt-in client-side cache of GET responses. `true` uses the defaults.
+ * @property {HttpInterceptor[]} [interceptors] - Ordered interceptors applied to every request (see {@link HttpInterceptor})
+ * @property {CredentialProvider} [credentials] - Supplies the `Authorization` header of every request and of the events stream
+ * @property {boolean|Partial<HttpBatchConfig>} [batch] - Opt-in coalescing of concurrent reads into bulk reads. `true` uses the defaults.
+ * @property {boolean|Partial<OfflineConfig>} [offline] - Opt-in queueing of writes that fail while the server is unreachable. `true` uses the defaults.
+ * @property {HttpCodec[]} [codecs] - Body codecs, in order of preference. The first one encodes request bodies; JSON is always accepted. Plain JSON when omitted.
+ * @property {boolean|Partial<HttpCompressionConfig>} [compression] - Opt-in compression of large request bodies and `Accept-Encoding` negotiation. `true` uses the defaults.
+ * @property {boolean|Partial<HttpChunkingConfig>} [chunking] - Opt-in splitting of large bulk operations into several bulk requests. `true` uses the defaults.
  * @memberOf module:for-http
  */
 export type HttpConfig = {
@@ -28,9 +47,570 @@ export type HttpConfig = {
     | Promise<Record<string, string>>
     | Record<string, string>;
   idInUrl?: boolean;
+  retry?: Partial<RetryPolicy>;
+  patchFormat?: PatchContentType;
+  patchVersions?: number;
+  cache?: boolean | Partial<HttpCacheConfig>;
+  interceptors?: HttpInterceptor[];
+  credentials?: CredentialProvider;
+  batch?: boolean | Partial<HttpBatchConfig>;
+  offline?: boolean | Partial<OfflineConfig>;
+  codecs?: HttpCodec[];
+  compression?: boolean | Partial<HttpCompressionConfig>;
+  chunking?: boolean | Partial<HttpChunkingConfig>;
 };
 
-export type HttpMethod = "GET" | "POST" | "PUT" | "DELETE";
+/**
+ * @description Encodes and decodes request and response bodies of a content type
+ * @summary Registered in `HttpConfig.codecs` on the client and with `withCodecs` on the server,
+ * selected by the `Content-Type` and `Accept` headers. `contentType` is the media type produced,
+ * `aliases` other media types decoded. Binary codecs encode to bytes, the others to strings.
+ * @interface HttpCodec
+ * @memberOf module:for-http
+ */
+export interface HttpCodec {
+  readonly contentType: string;
+  readonly aliases?: string[];
+  readonly binary: boolean;
+  encode(value: unknown): string | Uint8Array;
+  decode(body: string | Uint8Array): unknown;
+}
+
+export type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+/**
+ * @description The query parameters and body of a custom route call
+ * @typedef {Object} HttpRouteCall
+ * @property {Record<string, unknown>} [query] - The query parameters, lists being repeated
+ * @property {unknown} [body] - The request body
+ * @memberOf module:for-http
+ */
+export type HttpRouteCall = {
+  query?: Record<string, unknown>;
+  body?: unknown;
+};
+
+/**
+ * @description A single JSON Patch (RFC 6902) operation
+ * @typedef {Object} JsonPatchOperation
+ * @property {string} op - The operation: add, remove, replace, move, copy or test
+ * @property {string} path - The JSON pointer targeted by the operation
+ * @property {any} [value] - The value for add, replace and test
+ * @property {string} [from] - The source JSON pointer for move and copy
+ * @memberOf module:for-http
+ */
+export type JsonPatchOperation = {
+  op: "add" | "remove" | "replace" | "move" | "copy" | "test";
+  path: string;
+  value?: any;
+  from?: string;
+};
+
+/**
+ * @description Retry policy for HttpAdapter requests
+ * @summary Controls how many times a failed request is re-sent and how long to wait between attempts.
+ * Delays grow exponentially from `baseDelay` by `factor`, are capped at `maxDelay` and, when `jitter`
+ * is enabled, are randomized between 0 and the computed value (full jitter).
+ * Requests using a method outside `methods` (e.g. POST) are only retried when safe: when they carry an
+ * idempotency key, when the server answered 429/503 (request not processed) or when the connection
+ * failed before the request was sent.
+ * @typedef {Object} RetryPolicy
+ * @property {number} maxAttempts - Total number of attempts, including the first one
+ * @property {number} baseDelay - Delay in ms before the first retry
+ * @property {number} maxDelay - Upper bound in ms for any single delay, including `Retry-After`
+ * @property {number} factor - Exponential growth factor between attempts
+ * @property {boolean} jitter - Whether to randomize delays (full jitter)
+ * @property {number[]} retryOn - HTTP status codes considered transient
+ * @property {HttpMethod[]} methods - Idempotent methods that can always be retried
+ * @property {boolean} respectRetryAfter - Whether to honor the server's `Retry-After` header
+ * @property {boolean} idempotencyKey - Whether to send an idempotency key on create requests so they become safely retryable
+ * @memberOf module:for-http
+ */
+export type RetryPolicy = {
+  maxAttempts: number;
+  baseDelay: number;
+  maxDelay: number;
+  factor: number;
+  jitter: boolean;
+  retryOn: number[];
+  methods: HttpMethod[];
+  respectRetryAfter: boolean;
+  idempotencyKey: boolean;
+};
+
+/**
+ * @description A cached HTTP response
+ * @summary Entries are plain serializable objects so any {@link HttpCacheStorage} can persist them.
+ * @typedef {Object} HttpCacheEntry
+ * @property {string} url - The request URL
+ * @property {string} [table] - The table segment of the URL, when it targets the adapter's host
+ * @property {string[]} resource - The URL path segments after the table
+ * @property {boolean} record - Whether the URL addresses a single record
+ * @property {number} status - The response status
+ * @property {Record<string, string>} headers - The response headers
+ * @property {any} data - The response body. Binary bodies (e.g. MessagePack or CBOR) are kept as an `ArrayBuffer`
+ * @property {string} [etag] - The `ETag` validator
+ * @property {string} [lastModified] - The `Last-Modified` validator
+ * @property {number} storedAt - When the response was stored or last revalidated (ms)
+ * @property {number} accessedAt - When the entry was last used (ms), for LRU eviction
+ * @memberOf module:for-http
+ */
+export type HttpCacheEntry = {
+  url: string;
+  table?: string;
+  resource: string[];
+  record: boolean;
+  status: number;
+  headers: Record<string, string>;
+  data: any;
+  etag?: string;
+  lastModified?: string;
+  storedAt: number;
+  accessedAt: number;
+};
+
+/**
+ * @description Storage backend of the HTTP response cache
+ * @summary Implementations may be synchronous (e.g. {@link MemoryCacheStorage}) or asynchronous
+ * (e.g. IndexedDB, a key-value store).
+ * @interface HttpCacheStorage
+ * @memberOf module:for-http
+ */
+export interface HttpCacheStorage {
+  get(
+    key: string
+  ): HttpCacheEntry | undefined | Promise<HttpCacheEntry | undefined>;
+  set(key: string, entry: HttpCacheEntry): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+  keys(): string[] | Promise<string[]>;
+  clear(): void | Promise<void>;
+}
+
+/**
+ * @description HTTP response cache configuration
+ * @typedef {Object} HttpCacheConfig
+ * @property {number} ttl - Time in ms a response is served without revalidation
+ * @property {number} maxEntries - Maximum number of cached responses, least recently used are evicted first
+ * @property {HttpCacheStorage} storage - The storage backend, in memory by default
+ * @property {string[]} ignoreHeaders - Request headers left out of the cache key (e.g. per-request ids)
+ * @memberOf module:for-http
+ */
+export type HttpCacheConfig = {
+  ttl: number;
+  maxEntries: number;
+  storage: HttpCacheStorage;
+  ignoreHeaders: string[];
+};
+
+/**
+ * @description Read batching settings
+ * @summary Concurrent `read` calls for the same table and headers, made within `window`
+ * milliseconds of the first one, are sent as a single bulk read of at most `maxBatchSize` ids.
+ * @typedef {Object} HttpBatchConfig
+ * @property {number} window - How long to collect reads before sending them, in ms. `0` collects the reads of the current tick
+ * @property {number} maxBatchSize - Maximum number of ids per bulk read. Full batches are sent right away
+ * @memberOf module:for-http
+ */
+export type HttpBatchConfig = {
+  window: number;
+  maxBatchSize: number;
+};
+
+/**
+ * @description A `Content-Encoding` the adapter can compress request bodies with
+ * @typedef {("gzip"|"deflate"|"br")} HttpContentEncoding
+ * @memberOf module:for-http
+ */
+export type HttpContentEncoding = "gzip" | "deflate" | "br";
+
+/**
+ * @description Request compression settings
+ * @summary String and binary request bodies of at least `threshold` bytes are sent compressed with
+ * `encoding`, unless the request already sets a `Content-Encoding`. Outside browsers, which manage
+ * `Accept-Encoding` themselves, every request advertises `acceptEncoding` unless it sets its own.
+ * @typedef {Object} HttpCompressionConfig
+ * @property {HttpContentEncoding} encoding - The encoding of compressed bodies. Browsers only compress with `gzip` and `deflate`
+ * @property {number} threshold - Minimum body size to compress, in bytes
+ * @property {HttpContentEncoding[]} acceptEncoding - Encodings accepted for responses, by preference. Empty leaves the header to the HTTP client
+ * @memberOf module:for-http
+ */
+export type HttpCompressionConfig = {
+  encoding: HttpContentEncoding;
+  threshold: number;
+  acceptEncoding: HttpContentEncoding[];
+};
+
+/**
+ * @description Bulk operation chunking settings
+ * @summary `createAll`, `updateAll`, `readAll` and `deleteAll` calls over more than `maxItems` ids,
+ * or whose records encode to more than `maxBytes`, are sent as several bulk requests, one after the
+ * other, and their results merged in order.
+ * @typedef {Object} HttpChunkingConfig
+ * @property {number} maxItems - Maximum number of ids or records per bulk request
+ * @property {number} maxBytes - Maximum encoded size of the records of one bulk request, in bytes. A larger record is sent alone
+ * @memberOf module:for-http
+ */
+export type HttpChunkingConfig = {
+  maxItems: number;
+  maxBytes: number;
+};
+
+/**
+ * @description A write waiting in the offline queue
+ * @summary Mutations are plain serializable objects so any {@link OfflineQueueStorage} can
+ * persist them. They hold the request as sent by the adapter, context headers included.
+ * @typedef {Object} OfflineMutation
+ * @property {string} id - Unique id of the mutation
+ * @property {string} table - The table segment of the URL
+ * @property {string} [record] - The record addressed by the URL (its path after the table), when any
+ * @property {HttpMethod} method - The HTTP method
+ * @property {string} url - The request URL, including its query
+ * @property {Record<string, string>} headers - The request headers
+ * @property {unknown} [data] - The request payload
+ * @property {number} queuedAt - When the mutation was queued (ms)
+ * @property {number} attempts - How many times the mutation was replayed
+ * @memberOf module:for-http
+ */
+export type OfflineMutation = {
+  id: string;
+  table: string;
+  record?: string;
+  method: HttpMethod;
+  url: string;
+  headers: Record<string, string>;
+  data?: unknown;
+  queuedAt: number;
+  attempts: number;
+};
+
+/**
+ * @description Durable storage of the offline queue
+ * @summary Keeps the mutations in insertion order. Implementations may be synchronous (e.g.
+ * {@link MemoryQueueStorage}) or asynchronous (e.g. {@link KeyValueQueueStorage},
+ * {@link FileQueueStorage}).
+ * @interface OfflineQueueStorage
+ * @memberOf module:for-http
+ */
+export interface OfflineQueueStorage {
+  all(): OfflineMutation[] | Promise<OfflineMutation[]>;
+  push(mutation: OfflineMutation): void | Promise<void>;
+  update(mutation: OfflineMutation): void | Promise<void>;
+  remove(id: string): void | Promise<void>;
+  clear(): void | Promise<void>;
+}
+
+/**
+ * @description Outcome of a replay conflict
+ * @summary `"discard"` drops the mutation, `"halt"` keeps it at the head of the queue and stops
+ * the replay. An object re-sends the mutation with the given payload and/or headers (e.g. a merged
+ * record and its new `If-Match`).
+ * @typedef {("discard"|"halt"|Object)} OfflineConflictResolution
+ * @memberOf module:for-http
+ */
+export type OfflineConflictResolution =
+  | "discard"
+  | "halt"
+  | { data?: unknown; headers?: Record<string, string> };
+
+/**
+ * @description Resolves a mutation rejected with `409 Conflict` or `412 Precondition Failed` on replay
+ * @typedef {Function} OfflineConflictHandler
+ * @memberOf module:for-http
+ */
+export type OfflineConflictHandler = (
+  mutation: OfflineMutation,
+  error: Error
+) =>
+  | OfflineConflictResolution
+  | void
+  | Promise<OfflineConflictResolution | void>;
+
+/**
+ * @description Offline queue settings
+ * @typedef {Object} OfflineConfig
+ * @property {OfflineQueueStorage} storage - Where queued mutations are kept, in memory by default
+ * @property {number} retryInterval - Delay in ms before replaying again after the server was unreachable
+ * @property {OfflineConflictHandler} [onConflict] - Resolves replay conflicts. Conflicting mutations are discarded when omitted
+ * @memberOf module:for-http
+ */
+export type OfflineConfig = {
+  storage: OfflineQueueStorage;
+  retryInterval: number;
+  onConflict?: OfflineConflictHandler;
+};
+
+/**
+ * @description Value compared by a serialized condition
+ * @summary JSON values, plus Dates encoded as `{ "$date": "<ISO 8601>" }`.
+ * @typedef {(string|number|boolean|null|Object|Array)} ConditionValue
+ * @memberOf module:for-http
+ */
+export type ConditionValue =
+  | string
+  | number
+  | boolean
+  | null
+  | { $date: string }
+  | ConditionValue[];
+
+/**
+ * @description JSON form of a core `Condition`
+ * @summary Comparisons name the attribute, the `Operator` and the compared value. `AND`/`OR` groups
+ * hold their conditions, `NOT` the negated condition and the value given to `not()`, if any.
+ * @typedef {Object} ConditionNode
+ * @memberOf module:for-http
+ */
+export type ConditionNode =
+  | {
+      attr: string;
+      op: Exclude<Operator, Operator.NOT>;
+      value: ConditionValue;
+    }
+  | { op: GroupOperator; conditions: ConditionNode[] }
+  | { op: Operator.NOT; condition: ConditionNode; value?: ConditionValue };
+
+/**
+ * @description Query parameters of the generic condition query route
+ * @summary Sent as `GET /<table>/query`: `where` travels as JSON and `select` as repeated parameters.
+ * @typedef {Object} ConditionQueryParams
+ * @property {ConditionNode} [where] - The condition
+ * @property {string[]} [select] - The attributes to return
+ * @property {string} [orderBy] - The attribute to sort by
+ * @property {OrderDirection} [direction] - The sort direction
+ * @property {number} [limit] - The maximum number of records
+ * @property {number} [offset] - The number of records to skip
+ * @memberOf module:for-http
+ */
+export type ConditionQueryParams = {
+  where?: ConditionNode;
+  select?: string[];
+  orderBy?: string;
+  direction?: OrderDirection;
+  limit?: number;
+  offset?: number;
+};
+
+/**
+ * @description Settings for iterating every page of an {@link HttpPaginator}
+ * @typedef {Object} HttpPaginationOptions
+ * @property {number} window - Maximum number of pages requested at once. Only applies to offset-based pagination, pages following a bookmark are always requested one at a time
+ * @property {boolean} prefetch - Whether the next page is requested while the current one is consumed
+ * @property {AbortSignal} [signal] - Stops the iteration when aborted
+ * @memberOf module:for-http
+ */
+export type HttpPaginationOptions = {
+  window: number;
+  prefetch: boolean;
+  signal?: AbortSignal;
+};
+
+/**
+ * @description Progress of a transfer
+ * @typedef {Object} HttpProgressEvent
+ * @property {number} loaded - Bytes transferred so far
+ * @property {number} [total] - Total bytes, when known
+ * @property {number} [progress] - `loaded / total`, when the total is known
+ * @memberOf module:for-http
+ */
+export type HttpProgressEvent = {
+  loaded: number;
+  total?: number;
+  progress?: number;
+};
+
+/**
+ * @description Content of an uploaded file
+ * @summary Streams are read whole before sending, as multipart bodies need their size upfront.
+ * @typedef {(Blob|ArrayBuffer|ArrayBufferView|string|ReadableStream|AsyncIterable)} HttpFileData
+ * @memberOf module:for-http
+ */
+export type HttpFileData =
+  | Blob
+  | ArrayBuffer
+  | ArrayBufferView
+  | string
+  | ReadableStream<Uint8Array>
+  | AsyncIterable<Uint8Array | string>;
+
+/**
+ * @description Stored file attached to a record
+ * @typedef {Object} FileMetadata
+ * @property {string} field - The model attribute the file belongs to
+ * @property {string} filename - The original file name
+ * @property {string} contentType - The file MIME type
+ * @property {number} size - The size in bytes
+ * @property {string} etag - The quoted entity tag of the content
+ * @property {string|Date} updatedAt - When the file was stored
+ * @property {Record<string, string>} [metadata] - Custom metadata sent with the upload
+ * @memberOf module:for-http
+ */
+export type FileMetadata = {
+  field: string;
+  filename: string;
+  contentType: string;
+  size: number;
+  etag: string;
+  updatedAt: string | Date;
+  metadata?: Record<string, string>;
+};
+
+/**
+ * @description Settings of a file upload
+ * @typedef {Object} HttpUploadOptions
+ * @property {string} [filename] - The file name, defaults to the file's own name or the field
+ * @property {string} [contentType] - The MIME type, defaults to the file's own type
+ * @property {Record<string, string>} [metadata] - Custom metadata stored with the file
+ * @property {Function} [onProgress] - Called as the body is sent
+ * @property {AbortSignal} [signal] - Cancels the upload
+ * @memberOf module:for-http
+ */
+export type HttpUploadOptions = {
+  filename?: string;
+  contentType?: string;
+  metadata?: Record<string, string>;
+  onProgress?: (event: HttpProgressEvent) => void;
+  signal?: AbortSignal;
+};
+
+/**
+ * @description Settings of a file download
+ * @typedef {Object} HttpDownloadOptions
+ * @property {Object} [range] - The byte range to read, `end` inclusive and defaulting to the end of the file
+ * @property {Function} [onProgress] - Called as the body is received
+ * @property {AbortSignal} [signal] - Cancels the download
+ * @memberOf module:for-http
+ */
+export type HttpDownloadOptions = {
+  range?: { start: number; end?: number };
+  onProgress?: (event: HttpProgressEvent) => void;
+  signal?: AbortSignal;
+};
+
+/**
+ * @description Downloaded file
+ * @summary The body is read from the connection as it is consumed.
+ * @typedef {Object} HttpFileDownload
+ * @property {string} contentType - The file MIME type
+ * @property {number} [size] - The size of the body in bytes, when sent by the server
+ * @property {string} [filename] - The file name sent by the server
+ * @property {string} [etag] - The entity tag of the content
+ * @property {Object} [range] - The returned byte range and the total file size, for partial responses
+ * @property {AsyncIterable<Uint8Array>} body - The content
+ * @memberOf module:for-http
+ */
+export type HttpFileDownload = {
+  contentType: string;
+  size?: number;
+  filename?: string;
+  etag?: string;
+  range?: { start: number; end: number; total?: number };
+  body: AsyncIterable<Uint8Array>;
+};
+
+/**
+ * @description Client-independent view of an outgoing request
+ * @summary Built from the flavour's native request before the interceptors run and merged back
+ * into it afterwards, so interceptors work the same for every flavour.
+ * @typedef {Object} HttpInterceptedRequest
+ * @property {HttpMethod} method - The HTTP method
+ * @property {string} url - The request URL
+ * @property {Record<string, any>} headers - The request headers
+ * @property {Record<string, any>} [params] - The query parameters
+ * @property {unknown} [data] - The request payload
+ * @memberOf module:for-http
+ */
+export type HttpInterceptedRequest = {
+  method: HttpMethod;
+  url: string;
+  headers: Record<string, any>;
+  params?: Record<string, any>;
+  data?: unknown;
+};
+
+/**
+ * @description Client-independent view of a received response
+ * @summary Both flavours resolve responses of this shape. Interceptors may also build one to
+ * answer a request without sending it.
+ * @typedef {Object} HttpInterceptedResponse
+ * @property {number} status - The HTTP status code
+ * @property {string} [statusText] - The HTTP status text
+ * @property {Record<string, any>} [headers] - The response headers
+ * @property {any} [data] - The response payload
+ * @memberOf module:for-http
+ */
+export type HttpInterceptedResponse = {
+  status: number;
+  statusText?: string;
+  headers?: Record<string, any>;
+  data?: any;
+};
+
+/**
+ * @description Request, response and error hooks applied around every HttpAdapter request
+ * @summary Interceptors run in order for every call going through `HttpAdapter.request`: CRUD,
+ * bulk, prepared statements and the raw `get/post/put/patch/delete` helpers. Every hook may be
+ * async and receives the request context.
+ * - `request` may return a modified request, or a response to answer without sending it
+ *   (the remaining request hooks are skipped).
+ * - `response` may return a replacement response.
+ * - `error` runs for thrown errors and for responses with an error status. It may return a
+ *   response to recover, throw to replace the error, or return nothing to pass it on.
+ * @interface HttpInterceptor
+ * @template C - The context type
+ * @memberOf module:for-http
+ */
+export interface HttpInterceptor<
+  C extends Context<HttpFlags> = Context<HttpFlags>,
+> {
+  request?(
+    request: HttpInterceptedRequest,
+    ctx: C
+  ):
+    | HttpInterceptedRequest
+    | HttpInterceptedResponse
+    | void
+    | Promise<HttpInterceptedRequest | HttpInterceptedResponse | void>;
+  response?(
+    response: HttpInterceptedResponse,
+    request: HttpInterceptedRequest,
+    ctx: C
+  ): HttpInterceptedResponse | void | Promise<HttpInterceptedResponse | void>;
+  error?(
+    error: any,
+    request: HttpInterceptedRequest,
+    ctx: C
+  ): HttpInterceptedResponse | void | Promise<HttpInterceptedResponse | void>;
+}
+
+/**
+ * @description An access token and its lifetime
+ * @typedef {Object} BearerToken
+ * @property {string} accessToken - The access token
+ * @property {string} [tokenType] - The authorization scheme, `Bearer` by default
+ * @property {number} [expiresAt] - Expiry as epoch milliseconds. Tokens without it never expire
+ * @property {string} [refreshToken] - The refresh token issued with the access token
+ * @memberOf module:for-http
+ */
+export type BearerToken = {
+  accessToken: string;
+  tokenType?: string;
+  expiresAt?: number;
+  refreshToken?: string;
+};
+
+/**
+ * @description Source of the credentials sent by an HttpAdapter
+ * @summary `headers` resolves the authorization headers of the current token, refreshing it when
+ * needed. `invalidate` drops a token the server rejected, so the next call obtains a new one.
+ * `onRotate` notifies listeners (e.g. the events stream) whenever a new token is issued.
+ * @interface CredentialProvider
+ * @memberOf module:for-http
+ */
+export interface CredentialProvider {
+  headers(): Promise<Record<string, string>>;
+  invalidate(authorization?: string): void | Promise<void>;
+  onRotate(listener: (token: BearerToken) => void): () => void;
+}
 
 export type HttpRequestTransform = (
   data: any,
@@ -62,18 +642,129 @@ export interface HttpRequestOptions {
   validateStatus?: (status: number) => boolean;
   includeCredentials?: boolean;
   withCredentials?: boolean;
+  onUploadProgress?: (event: HttpProgressEvent) => void;
 }
 
 /**
  * @description Generic HTTP response shape used by simple HttpAdapter helpers
  * @summary for-http owned response envelope aligned with Axios semantics by default.
- * `code` maps to HTTP status code, `data` to response payload, and `error` to failure details.
+ * `code` maps to HTTP status code, `data` to response payload, `error` to failure details
+ * and `headers` to the response headers.
  * @interface HttpResponse
  */
 export interface HttpResponse<T = any, E = unknown> {
   code: number;
   data?: T;
   error?: E;
+  headers?: Record<string, any>;
+}
+
+/**
+ * @description Persistence metadata attached by the HttpAdapter to the records it returns
+ * @summary Carried by reverted models under `PersistenceKeys.METADATA` and sent back on writes.
+ * @typedef {Object} HttpPersistenceMetadata
+ * @property {string} [etag] - The entity tag received with the record, sent back as `If-Match`
+ * @memberOf module:for-http
+ */
+export type HttpPersistenceMetadata = {
+  etag?: string;
+};
+
+/**
+ * @description Machine-readable description of a failed request
+ * @summary Emitted by the server side controllers and decoded by {@link HttpAdapter.parseError}
+ * to rebuild the original error on the client.
+ * @interface HttpErrorBody
+ * @property {string} name - The error class name (e.g. `NotFoundError`)
+ * @property {string} message - The original error message
+ * @property {number} status - The HTTP status code
+ * @property {Record<string, any>} [details] - Field-level validation details
+ * @property {string} [correlationId] - The correlation id of the failed request
+ * @memberOf module:for-http
+ */
+export interface HttpErrorBody {
+  name: string;
+  message: string;
+  status: number;
+  details?: Record<string, any>;
+  correlationId?: string;
+}
+
+/**
+ * @description HTTP error response body
+ * @interface HttpErrorPayload
+ * @property {HttpErrorBody} error - The error description
+ * @memberOf module:for-http
+ */
+export interface HttpErrorPayload {
+  error: HttpErrorBody;
+}
+
+/**
+ * @description The outcome of one item of a lenient bulk request
+ * @typedef {Object} BulkItemOutcome
+ * @property {number} index - The position of the item in the request
+ * @property {PrimaryKeyType} [id] - The id of the item, when known
+ * @property {number} status - The HTTP status of the item
+ * @property {M} [result] - The stored record, for successful items
+ * @property {HttpErrorBody} [error] - The error description, for failed items
+ * @memberOf module:for-http
+ */
+export type BulkItemOutcome<M = Record<string, any>> = {
+  index: number;
+  id?: PrimaryKeyType;
+  status: number;
+  result?: M;
+  error?: HttpErrorBody;
+};
+
+/**
+ * @description Response body of a bulk route processing every item on its own
+ * @typedef {Object} BulkEnvelope
+ * @property {BulkItemOutcome[]} items - The outcome of every item, in request order
+ * @memberOf module:for-http
+ */
+export type BulkEnvelope<M = Record<string, any>> = {
+  items: BulkItemOutcome<M>[];
+};
+
+/**
+ * @description Partial-success result of a bulk operation
+ * @summary Splits the items into those the server stored, with their result, and those that
+ * failed, with their error rebuilt as on a single request. `index` is the position of the item
+ * in the call.
+ * @typedef {Object} BulkResult
+ * @property {Array<{index: number, id?: PrimaryKeyType, status: number, result: M}>} succeeded - The successful items
+ * @property {Array<{index: number, id?: PrimaryKeyType, status: number, error: Error}>} failed - The failed items
+ * @memberOf module:for-http
+ */
+export type BulkResult<M> = {
+  succeeded: {
+    index: number;
+    id?: PrimaryKeyType;
+    status: number;
+    result: M;
+  }[];
+  failed: {
+    index: number;
+    id?: PrimaryKeyType;
+    status: number;
+    error: Error;
+  }[];
+};
+
+/**
+ * @description Transport metadata attached to errors decoded from HTTP responses
+ * @interface HttpErrorMetadata
+ * @property {number} [status] - The HTTP status code
+ * @property {Record<string, any>} [details] - Field-level validation details
+ * @property {string} [correlationId] - The correlation id of the failed request
+ * @memberOf module:for-http
+ */
+export interface HttpErrorMetadata {
+  status?: number;
+  details?: Record<string, any>;
+  correlationId?: string;
 }
 
 /**
@@ -81,8 +772,21 @@ export interface HttpResponse<T = any, E = unknown> {
  * @summary Interface extending RepositoryFlags with HTTP-specific options
  * @interface HttpFlags
  * @property {Record<string, string>} [headers] - Optional HTTP headers to include with requests
+ * @property {string[]} [fields] - Optional sparse fieldset of reads and queries; the records are returned partial
+ * @property {string[]} [include] - Optional relations to expand in reads and queries, e.g. `comments.author`
  * @memberOf module:for-http
  */
 export interface HttpFlags extends AdapterFlags {
   headers?: Record<string, string>;
+  fields?: string[];
+  include?: string[];
 }
+
+/**
+ * @description The relations to expand in a read, by relation name
+ * @summary Each relation maps to the relations to expand in turn in its related records, e.g.
+ * `include=author,comments.author` reads as `{ author: {}, comments: { author: {} } }`.
+ * @typedef {Object} IncludeTree
+ * @memberOf module:for-http
+ */
+export type IncludeTree = { [relation: string]: IncludeTree };
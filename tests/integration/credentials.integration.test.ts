@@ -0,0 +1,325 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { AddressInfo } from "net";
+import { AuthorizationError, Context, pk } from "@decaf-ts/core";
+import { Model, ModelArg, model } from "@decaf-ts/decorator-validation";
+import { prop } from "@decaf-ts/decoration";
+import { Logging, toKebabCase } from "@decaf-ts/logging";
+import { AxiosHttpAdapter } from "../../src/axios";
+import { FetchHttpAdapter } from "../../src/fetch";
+import { HttpDispatcher } from "../../src/HttpDispatcher";
+import { ServerEventConnector } from "../../src/event";
+import {
+  ClientCredentialsProvider,
+  RefreshTokenProvider,
+  StaticTokenProvider,
+  TokenCredentialProvider,
+} from "../../src/credentials";
+import type { BearerToken, HttpConfig } from "../../src/types";
+
+@model()
+class SecuredModel extends Model {
+  @pk()
+  id!: string;
+
+  @prop()
+  name?: string;
+
+  constructor(arg?: ModelArg<SecuredModel>) {
+    super(arg);
+  }
+}
+
+type Grant = Record<string, string> & { authorization?: string };
+
+const table = toKebabCase(Model.tableName(SecuredModel));
+const ctx = () => new Context().accumulate({ logger: Logging.get() });
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("credential providers against a local token endpoint", () => {
+  let server: Server;
+  let base: string;
+  let grants: Grant[];
+  let resourceAuth: (string | undefined)[];
+  let valid: Set<string>;
+  let issued: number;
+  let expiresIn: number | undefined;
+  let rejectGrants: boolean;
+
+  const send = (res: ServerResponse, status: number, body: unknown) => {
+    res.statusCode = status;
+    res.setHeader("content-type", "application/json");
+    res.end(JSON.stringify(body));
+  };
+
+  const tokenEndpoint = (
+    req: IncomingMessage,
+    body: string,
+    res: ServerResponse
+  ) => {
+    const grant: Grant = Object.fromEntries(new URLSearchParams(body));
+    grant.authorization = req.headers.authorization;
+    grants.push(grant);
+    if (rejectGrants)
+      return send(res, 400, {
+        error: "invalid_grant",
+        error_description: "revoked",
+      });
+    const token = `token-${++issued}`;
+    valid.add(token);
+    return send(res, 200, {
+      access_token: token,
+      token_type: "bearer",
+      expires_in: expiresIn,
+      refresh_token:
+        grant.grant_type === "refresh_token" ? `refresh-${issued}` : undefined,
+    });
+  };
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        if (req.url === "/oauth/token") return tokenEndpoint(req, body, res);
+        const auth = req.headers.authorization;
+        resourceAuth.push(auth);
+        if (!auth || !valid.has(auth.replace(/^Bearer /, "")))
+          return send(res, 401, { error: "unauthorized" });
+        const id = (req.url as string).split("/").pop();
+        return send(res, 200, { id, name: `name-${id}` });
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    base = `localhost:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    grants = [];
+    resourceAuth = [];
+    valid = new Set(["static"]);
+    issued = 0;
+    expiresIn = 3600;
+    rejectGrants = false;
+  });
+
+  const flavours: [string, new (config: HttpConfig, alias?: string) => any][] =
+    [
+      ["axios", AxiosHttpAdapter],
+      ["fetch", FetchHttpAdapter],
+    ];
+
+  describe.each(flavours)("%s flavour", (name, Clazz) => {
+    const adapterWith = (credentials: TokenCredentialProvider) =>
+      new Clazz(
+        { protocol: "http", host: base, events: false, credentials },
+        `${name}-credentials-${Math.random()}`
+      );
+
+    it("authorizes requests with client credentials, single-flighting the token request", async () => {
+      const credentials = new ClientCredentialsProvider({
+        tokenUrl: `http://${base}/oauth/token`,
+        clientId: "client",
+        clientSecret: "secret",
+        scope: "read write",
+      });
+      const adapter = adapterWith(credentials);
+
+      const records = await Promise.all(
+        ["1", "2", "3"].map((id) => adapter.read(SecuredModel, id, ctx()))
+      );
+
+      expect(records.map((r: any) => r.name)).toEqual([
+        "name-1",
+        "name-2",
+        "name-3",
+      ]);
+      expect(grants).toHaveLength(1);
+      expect(grants[0]).toMatchObject({
+        grant_type: "client_credentials",
+        scope: "read write",
+        authorization: `Basic ${Buffer.from("client:secret").toString("base64")}`,
+      });
+      expect(resourceAuth).toEqual([
+        "Bearer token-1",
+        "Bearer token-1",
+        "Bearer token-1",
+      ]);
+      credentials.dispose();
+    });
+
+    it("replays a request once with a fresh token on 401", async () => {
+      const credentials = new ClientCredentialsProvider({
+        tokenUrl: `http://${base}/oauth/token`,
+        clientId: "client",
+        clientSecret: "secret",
+        authMethod: "post",
+      });
+      const adapter = adapterWith(credentials);
+      await adapter.read(SecuredModel, "1", ctx());
+
+      valid.clear();
+      const record = await adapter.read(SecuredModel, "2", ctx());
+
+      expect(record.name).toEqual("name-2");
+      expect(grants).toHaveLength(2);
+      expect(grants[1]).toMatchObject({
+        client_id: "client",
+        client_secret: "secret",
+      });
+      expect(resourceAuth.slice(1)).toEqual([
+        "Bearer token-1",
+        "Bearer token-2",
+      ]);
+      credentials.dispose();
+    });
+
+    it("gives up after a single replay", async () => {
+      const adapter = adapterWith(new StaticTokenProvider("revoked"));
+      await expect(
+        adapter.read(SecuredModel, "1", ctx())
+      ).rejects.toBeInstanceOf(AuthorizationError);
+      expect(resourceAuth).toEqual(["Bearer revoked", "Bearer revoked"]);
+    });
+
+    it("keeps explicit Authorization headers", async () => {
+      const adapter = adapterWith(new StaticTokenProvider("unused"));
+      await adapter.get(
+        `http://${base}/${table}/1`,
+        { headers: { Authorization: "Bearer static" } },
+        ctx()
+      );
+      expect(resourceAuth).toEqual(["Bearer static"]);
+    });
+  });
+
+  it("refreshes tokens proactively before they expire", async () => {
+    expiresIn = 1;
+    const credentials = new ClientCredentialsProvider({
+      tokenUrl: `http://${base}/oauth/token`,
+      clientId: "client",
+      clientSecret: "secret",
+    });
+    const rotated: BearerToken[] = [];
+    credentials.onRotate((token) => rotated.push(token));
+
+    await credentials.headers();
+    await wait(700);
+
+    expect(grants).toHaveLength(2);
+    expect(rotated.map((t) => t.accessToken)).toEqual(["token-1", "token-2"]);
+    expect(await credentials.headers()).toEqual({
+      Authorization: "Bearer token-2",
+    });
+    credentials.dispose();
+  });
+
+  it("exchanges and rotates refresh tokens", async () => {
+    const onRefreshToken = jest.fn();
+    const credentials = new RefreshTokenProvider({
+      tokenUrl: `http://${base}/oauth/token`,
+      refreshToken: "refresh-0",
+      onRefreshToken,
+    });
+
+    expect(await credentials.headers()).toEqual({
+      Authorization: "Bearer token-1",
+    });
+    credentials.invalidate("Bearer token-1");
+    await credentials.headers();
+
+    expect(grants.map((g) => g.refresh_token)).toEqual([
+      "refresh-0",
+      "refresh-1",
+    ]);
+    expect(onRefreshToken.mock.calls).toEqual([["refresh-1"], ["refresh-2"]]);
+    credentials.dispose();
+  });
+
+  it("ignores invalidations of tokens already replaced", async () => {
+    const credentials = new ClientCredentialsProvider({
+      tokenUrl: `http://${base}/oauth/token`,
+      clientId: "client",
+    });
+    await credentials.headers();
+    credentials.invalidate("Bearer token-1");
+    await credentials.headers();
+    credentials.invalidate("Bearer token-1");
+    await credentials.headers();
+    expect(grants).toHaveLength(2);
+    credentials.dispose();
+  });
+
+  it("raises an AuthorizationError when the grant is rejected", async () => {
+    rejectGrants = true;
+    const credentials = new ClientCredentialsProvider({
+      tokenUrl: `http://${base}/oauth/token`,
+      clientId: "client",
+    });
+    await expect(credentials.headers()).rejects.toThrow(/revoked/);
+    await expect(credentials.headers()).rejects.toBeInstanceOf(
+      AuthorizationError
+    );
+  });
+});
+
+describe("HttpDispatcher credentials", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("authorizes the events stream and reopens it when the token rotates", async () => {
+    let token = "first";
+    let rotate!: (token: BearerToken) => void;
+    const credentials = {
+      headers: async () => ({ Authorization: `Bearer ${token}` }),
+      invalidate: jest.fn(),
+      onRotate: jest.fn((listener: (token: BearerToken) => void) => {
+        rotate = listener;
+        return () => {};
+      }),
+    };
+    const adapter = new AxiosHttpAdapter(
+      {
+        protocol: "http",
+        host: "127.0.0.1:9999",
+        eventsListenerPath: "/events",
+        events: false,
+        credentials,
+      },
+      `credentials-events-${Math.random()}`
+    );
+    (adapter.config as any).events = true;
+
+    let resolveHeaders!: () => Promise<Record<string, string>>;
+    const connector = {
+      addListener: jest.fn(() => () => {}),
+      ensureListening: jest.fn().mockResolvedValue(undefined),
+      reconnect: jest.fn().mockResolvedValue(undefined),
+      close: jest.fn(),
+    };
+    jest
+      .spyOn(ServerEventConnector, "open")
+      .mockImplementation((url: string, headers: any) => {
+        resolveHeaders = headers;
+        return connector as unknown as ServerEventConnector;
+      });
+
+    const dispatcher = new HttpDispatcher() as any;
+    dispatcher.adapter = adapter;
+    dispatcher.initialized = true;
+    await dispatcher.startListening();
+
+    expect(await resolveHeaders()).toEqual({ Authorization: "Bearer first" });
+
+    token = "second";
+    rotate({ accessToken: token });
+    expect(connector.reconnect).toHaveBeenCalledTimes(1);
+    expect(await resolveHeaders()).toEqual({ Authorization: "Bearer second" });
+
+    await dispatcher.close();
+  });
+});
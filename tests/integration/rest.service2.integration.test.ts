@@ -1,12 +1,17 @@
-import { AxiosHttpAdapter } from "../../src/index";
+import {
+  AxiosHttpAdapter,
+  FetchHttpAdapter,
+  HttpAdapter,
+} from "../../src/index";
 import { RestService } from "../../src/RestService";
 import type { HttpConfig } from "../../src/types";
 import { Context, PreparedStatementKeys } from "@decaf-ts/core";
-import { id } from "@decaf-ts/db-decorators";
+import { ConflictError, id } from "@decaf-ts/db-decorators";
 import { Model, ModelArg, model } from "@decaf-ts/decorator-validation";
 import { prop } from "@decaf-ts/decoration";
 import { Logging, toKebabCase } from "@decaf-ts/logging";
 import { DecafHeaders } from "../../src/constants";
+import { serializeError } from "../../src/errors";
 import { OrderDirection, PersistenceKeys } from "@decaf-ts/core";
 
 @model()
@@ -22,23 +27,70 @@ class Dummy extends Model {
   }
 }
 
-describe("RestService integration", () => {
+type Sent = {
+  method?: string;
+  url?: string;
+  data?: unknown;
+  headers?: Record<string, any>;
+};
+type Reply = {
+  status: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+};
+
+// Each flavour gets a client of its own shape, recording what it is asked to send
+const flavours: [
+  string,
+  new (
+    config: HttpConfig,
+    alias?: string
+  ) => HttpAdapter<any, any, any, any, any>,
+  (respond: (req: Sent) => Reply) => unknown,
+][] = [
+  [
+    "axios",
+    AxiosHttpAdapter,
+    (respond) => ({
+      request: async (opts: any) => respond(opts),
+    }),
+  ],
+  [
+    "fetch",
+    FetchHttpAdapter,
+    (respond) => async (url: string, init: RequestInit) => {
+      const { status, body, headers } = respond({
+        method: init.method,
+        url,
+        data: init.body,
+        headers: init.headers as Record<string, string>,
+      });
+      return new Response(
+        typeof body === "undefined" ? null : JSON.stringify(body),
+        {
+          status,
+          headers: { "content-type": "application/json", ...headers },
+        }
+      );
+    },
+  ],
+];
+
+describe.each(flavours)("RestService integration (%s)", (name, Clazz, stub) => {
   const config: HttpConfig = { protocol: "http", host: "localhost" };
-  let adapter: AxiosHttpAdapter;
+  let adapter: HttpAdapter<any, any, any, any, any>;
   let repo: RestService<Dummy, any, any>;
+  let reply: (req: Sent) => Reply;
 
   const mock = jest.fn();
 
-  const client = {
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    request: async (opts: any, ctx: any) => {
-      mock(opts);
-      return { status: 200, body: opts.url.includes("bulk") ? [] : {} };
-    },
-  };
+  const client = stub((req) => {
+    mock(req);
+    return reply(req);
+  });
 
   beforeAll(() => {
-    adapter = new AxiosHttpAdapter(config);
+    adapter = new Clazz(config, `${name}-service-${Math.random()}`);
     adapter["_client" as any] = client;
     repo = new RestService(adapter, Dummy);
   });
@@ -47,6 +99,10 @@ describe("RestService integration", () => {
     jest.clearAllMocks();
     jest.resetAllMocks();
     jest.restoreAllMocks();
+    reply = (req) => ({
+      status: 200,
+      body: req.url?.includes("bulk") ? [] : {},
+    });
   });
 
   test("CRUD operations", async () => {
@@ -166,17 +222,14 @@ describe("RestService integration", () => {
       affectedTables: [],
     });
 
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    const mock = jest.spyOn(client, "request").mockImplementation((req) => {
-      return {
-        status: 200,
-        body: {
-          current: 1,
-          total: 8,
-          count: 8,
-          data: [{}],
-        },
-      } as any;
+    reply = () => ({
+      status: 200,
+      body: {
+        current: 1,
+        total: 8,
+        count: 8,
+        data: [{}],
+      },
     });
     const paginator = await repo
       .select()
@@ -198,4 +251,64 @@ describe("RestService integration", () => {
       })
     );
   });
+
+  it("collects pending tasks announced in response headers", async () => {
+    reply = () => ({
+      status: 200,
+      body: { id: "1", name: "A" },
+      headers: {
+        [DecafHeaders.PENDING_TASK]: JSON.stringify({ tasks: ["t1", "t2"] }),
+      },
+    });
+    const ctx = new Context().accumulate({ logger: Logging.get() });
+    const pushed = jest
+      .spyOn(ctx, "pushPending")
+      .mockImplementation(() => ctx as any);
+
+    await adapter.get(
+      `http://localhost/${toKebabCase(Model.tableName(Dummy))}/1`,
+      {},
+      ctx
+    );
+    expect(pushed).toHaveBeenCalledWith("tasks", "t1");
+    expect(pushed).toHaveBeenCalledWith("tasks", "t2");
+  });
+
+  it("round-trips entity tags and surfaces failed preconditions", async () => {
+    reply = (req) =>
+      req.method === "GET"
+        ? {
+            status: 200,
+            body: { id: "1", name: "A" },
+            headers: { etag: '"v2"' },
+          }
+        : {
+            status: 412,
+            body: serializeError(
+              Object.assign(new ConflictError("modified"), { status: 412 })
+            ).body,
+          };
+    const ctx = new Context().accumulate({ logger: Logging.get() });
+
+    const record = await adapter.read(Dummy, "1", ctx);
+    const model = adapter.revert(record, Dummy, "1", undefined as any, ctx);
+    expect((model as any)[PersistenceKeys.METADATA]).toEqual({ etag: '"v2"' });
+
+    const failure = await adapter
+      .update(Dummy, "1", model, ctx)
+      .catch((e: any) => e);
+    expect(mock).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        method: "PUT",
+        headers: expect.objectContaining({ [DecafHeaders.IF_MATCH]: '"v2"' }),
+      })
+    );
+    expect(failure).toBeInstanceOf(ConflictError);
+    expect(failure.status).toEqual(412);
+  });
+
+  it("raises errors for failed statuses", async () => {
+    reply = () => ({ status: 404, body: { error: "not found" } });
+    await expect(repo.read("missing")).rejects.toThrow();
+  });
 });
@@ -0,0 +1,188 @@
+import { Context, PersistenceKeys, pk } from "@decaf-ts/core";
+import { NotFoundError } from "@decaf-ts/db-decorators";
+import {
+  model,
+  Model,
+  ModelArg,
+  required,
+} from "@decaf-ts/decorator-validation";
+import { Logging, toKebabCase } from "@decaf-ts/logging";
+import { AxiosHttpAdapter } from "../../src/axios";
+import { DecafHeaders } from "../../src/constants";
+import { HttpBatchConfig } from "../../src/types";
+import { adapterWith } from "./fixtures";
+
+@model()
+class BatchedModel extends Model {
+  @pk()
+  id!: string;
+
+  @required()
+  name!: string;
+
+  constructor(arg?: ModelArg<BatchedModel>) {
+    super(arg);
+  }
+}
+
+const table = toKebabCase(Model.tableName(BatchedModel));
+const ctx = (headers?: Record<string, string>) =>
+  new Context().accumulate({ logger: Logging.get(), headers } as any);
+
+describe("HttpAdapter read batching", () => {
+  let adapter: AxiosHttpAdapter;
+  let requestMock: jest.SpyInstance;
+  let stored: Record<string, { id: string; name: string }>;
+  let rejectPartialBulk: boolean;
+
+  function connect(batch: boolean | Partial<HttpBatchConfig>) {
+    ({ adapter, requestMock } = adapterWith("batch", { batch }));
+    requestMock.mockImplementation(async (details: any) => {
+      const url = new URL(details.url);
+      const segments = url.pathname.split("/").filter(Boolean);
+      if (segments[1] === "bulk") {
+        const ids = url.searchParams.getAll("ids");
+        if (rejectPartialBulk && ids.some((id) => !stored[id]))
+          return { status: 404, headers: {}, data: "" } as any;
+        return {
+          status: 200,
+          headers: {},
+          data: ids
+            .reverse()
+            .filter((id) => stored[id])
+            .map((id) => stored[id]),
+        } as any;
+      }
+      const record = stored[segments[1]];
+      return record
+        ? ({ status: 200, headers: {}, data: record } as any)
+        : ({ status: 404, headers: {}, data: "" } as any);
+    });
+  }
+
+  const urls = () =>
+    requestMock.mock.calls.map(([details]) =>
+      decodeURIComponent(details.url.replace(/^http:\/\/localhost:8080/, ""))
+    );
+
+  beforeEach(() => {
+    rejectPartialBulk = false;
+    stored = Object.fromEntries(
+      ["1", "2", "3", "4", "5"].map((id) => [id, { id, name: `name-${id}` }])
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("is disabled unless configured", async () => {
+    connect(false);
+    await Promise.all([
+      adapter.read(BatchedModel, "1", ctx()),
+      adapter.read(BatchedModel, "2", ctx()),
+    ]);
+    expect(urls()).toEqual([`/${table}/1`, `/${table}/2`]);
+  });
+
+  it("coalesces concurrent reads into one bulk read", async () => {
+    connect(true);
+    const records = await Promise.all(
+      ["1", "2", "3", "2"].map((id) => adapter.read(BatchedModel, id, ctx()))
+    );
+    expect(records.map((r) => r.id)).toEqual(["1", "2", "3", "2"]);
+    expect(urls()).toEqual([`/${table}/bulk?ids=1&ids=2&ids=3`]);
+  });
+
+  it("keeps the entity tag of each coalesced record", async () => {
+    connect(true);
+    requestMock.mockResolvedValueOnce({
+      status: 200,
+      headers: { [DecafHeaders.ENTITY_TAGS]: '"v2", "v1"' },
+      data: [stored["2"], stored["1"]],
+    });
+    const records = await Promise.all(
+      ["1", "2"].map((id) => adapter.read(BatchedModel, id, ctx()))
+    );
+    expect(urls()).toEqual([`/${table}/bulk?ids=1&ids=2`]);
+    expect(records.map((r) => r[PersistenceKeys.METADATA])).toEqual([
+      { etag: '"v1"' },
+      { etag: '"v2"' },
+    ]);
+  });
+
+  it("sends lone reads on their own", async () => {
+    connect(true);
+    const record = await adapter.read(BatchedModel, "1", ctx());
+    expect(record.name).toEqual("name-1");
+    expect(urls()).toEqual([`/${table}/1`]);
+  });
+
+  it("rejects only the reads of missing records", async () => {
+    connect(true);
+    const results = await Promise.allSettled(
+      ["1", "9", "2"].map((id) => adapter.read(BatchedModel, id, ctx()))
+    );
+    expect(results.map((r) => r.status)).toEqual([
+      "fulfilled",
+      "rejected",
+      "fulfilled",
+    ]);
+    expect((results[1] as PromiseRejectedResult).reason).toBeInstanceOf(
+      NotFoundError
+    );
+  });
+
+  it("falls back to single reads when the server rejects the batch", async () => {
+    connect(true);
+    rejectPartialBulk = true;
+    const results = await Promise.allSettled(
+      ["1", "9"].map((id) => adapter.read(BatchedModel, id, ctx()))
+    );
+    expect((results[0] as PromiseFulfilledResult<any>).value.id).toEqual("1");
+    expect((results[1] as PromiseRejectedResult).reason).toBeInstanceOf(
+      NotFoundError
+    );
+    expect(urls()).toEqual([
+      `/${table}/bulk?ids=1&ids=9`,
+      `/${table}/1`,
+      `/${table}/9`,
+    ]);
+  });
+
+  it("splits batches at the maximum size", async () => {
+    connect({ maxBatchSize: 2 });
+    await Promise.all(
+      ["1", "2", "3", "4", "5"].map((id) =>
+        adapter.read(BatchedModel, id, ctx())
+      )
+    );
+    expect(urls()).toEqual([
+      `/${table}/bulk?ids=1&ids=2`,
+      `/${table}/bulk?ids=3&ids=4`,
+      `/${table}/5`,
+    ]);
+  });
+
+  it("never merges reads with different headers", async () => {
+    connect(true);
+    await Promise.all([
+      adapter.read(BatchedModel, "1", ctx({ Authorization: "Bearer a" })),
+      adapter.read(BatchedModel, "2", ctx({ Authorization: "Bearer b" })),
+      adapter.read(BatchedModel, "3", ctx({ Authorization: "Bearer a" })),
+    ]);
+    expect(urls()).toEqual([`/${table}/bulk?ids=1&ids=3`, `/${table}/2`]);
+    expect(requestMock.mock.calls[1][0].headers.Authorization).toEqual(
+      "Bearer b"
+    );
+  });
+
+  it("collects reads within the configured window", async () => {
+    connect({ window: 30 });
+    const first = adapter.read(BatchedModel, "1", ctx());
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const second = adapter.read(BatchedModel, "2", ctx());
+    await Promise.all([first, second]);
+    expect(urls()).toEqual([`/${table}/bulk?ids=1&ids=2`]);
+  });
+});
@@ -0,0 +1,281 @@
+import { Context, pk } from "@decaf-ts/core";
+import {
+  BulkCrudOperationKeys,
+  ConflictError,
+  NotFoundError,
+  onCreate,
+  ValidationError,
+} from "@decaf-ts/db-decorators";
+import { prop } from "@decaf-ts/decoration";
+import {
+  model,
+  Model,
+  ModelArg,
+  required,
+} from "@decaf-ts/decorator-validation";
+import { Logging } from "@decaf-ts/logging";
+import { Axios } from "axios";
+import { AxiosHttpAdapter } from "../../src/axios";
+import { LenientBulkPreference } from "../../src/constants";
+import { RestRepository } from "../../src/RestRepository";
+import {
+  ModelControllerBuilder,
+  responseHeadersOf,
+  responseStatusOf,
+} from "../../src/server";
+
+@model()
+class BulkItemModel extends Model {
+  @pk()
+  id!: string;
+
+  @required()
+  name!: string;
+
+  constructor(arg?: ModelArg<BulkItemModel>) {
+    super(arg);
+  }
+}
+
+async function stampItem(ctx: any, data: any, key: any, model: any) {
+  model[key] = `stamped-${model.id}`;
+}
+
+@model()
+class StampedItemModel extends Model {
+  @pk()
+  id!: string;
+
+  @required()
+  name!: string;
+
+  @onCreate(stampItem)
+  @prop()
+  stamp?: string;
+
+  constructor(arg?: ModelArg<StampedItemModel>) {
+    super(arg);
+  }
+}
+
+const ctx = () => new Context().accumulate({ logger: Logging.get() } as any);
+
+describe("lenient bulk routes", () => {
+  const request = (headers: Record<string, string>) => ({
+    get: (key: string) => (key === "headers" ? headers : undefined),
+  });
+
+  function bulkRoute(persistence: any, method: string) {
+    const Controller = new ModelControllerBuilder(BulkItemModel, persistence)
+      .withLenientBulk()
+      .addBulkCreateRoute()
+      .addBulkDeleteRoute()
+      .build() as any;
+    return Controller.__routes__.find(
+      (route: any) => route.method === method && route.path.endsWith("bulk")
+    );
+  }
+
+  it("processes every item on its own when asked to", async () => {
+    const persistence = {
+      create: jest.fn(async (item: any) => {
+        if (item.id === "2") throw new ConflictError("already exists");
+        return item;
+      }),
+      createAll: jest.fn(),
+    };
+    const route = bulkRoute(persistence, "POST");
+
+    const result = await route.implementation.call(
+      { ctx: request({ prefer: `return=minimal, ${LenientBulkPreference}` }) },
+      [{ id: "1" }, { id: "2" }, { id: "3" }]
+    );
+
+    expect(persistence.createAll).not.toHaveBeenCalled();
+    expect(responseStatusOf(result)).toEqual(207);
+    expect(responseHeadersOf(result)["Preference-Applied"]).toEqual(
+      LenientBulkPreference
+    );
+    expect(result.items).toEqual([
+      { index: 0, id: "1", status: 201, result: { id: "1" } },
+      {
+        index: 1,
+        id: "2",
+        status: 409,
+        error: expect.objectContaining({
+          name: ConflictError.name,
+          message: "already exists",
+        }),
+      },
+      { index: 2, id: "3", status: 201, result: { id: "3" } },
+    ]);
+  });
+
+  it("stays all or nothing by default", async () => {
+    const persistence = {
+      delete: jest.fn(),
+      deleteAll: jest.fn(async (ids: string[]) => ids.map((id) => ({ id }))),
+    };
+    const route = bulkRoute(persistence, "DELETE");
+
+    const result = await route.implementation.call({ ctx: request({}) }, [
+      "1",
+      "2",
+    ]);
+
+    expect(result).toEqual([{ id: "1" }, { id: "2" }]);
+    expect(persistence.delete).not.toHaveBeenCalled();
+  });
+});
+
+describe("settled bulk operations", () => {
+  let adapter: AxiosHttpAdapter;
+  let requestMock: jest.SpyInstance;
+
+  beforeEach(() => {
+    adapter = new AxiosHttpAdapter(
+      { protocol: "http", host: "localhost:8080", events: false },
+      `settled-${Math.random()}`
+    );
+    requestMock = jest.spyOn(adapter.client as Axios, "request");
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("sorts the items of the envelope", async () => {
+    requestMock.mockResolvedValue({
+      status: 207,
+      headers: { "preference-applied": LenientBulkPreference },
+      data: {
+        items: [
+          { index: 0, id: "1", status: 200, result: { id: "1", name: "a" } },
+          {
+            index: 1,
+            id: "2",
+            status: 404,
+            error: { name: "NotFoundError", message: "gone", status: 404 },
+          },
+        ],
+      },
+    });
+
+    const result = await adapter.bulkSettled(
+      BulkCrudOperationKeys.READ_ALL,
+      BulkItemModel,
+      ["1", "2"],
+      undefined,
+      ctx()
+    );
+
+    expect(requestMock.mock.calls[0][0].headers.Prefer).toEqual(
+      LenientBulkPreference
+    );
+    expect(result.succeeded).toEqual([
+      { index: 0, id: "1", status: 200, result: { id: "1", name: "a" } },
+    ]);
+    expect(result.failed).toHaveLength(1);
+    expect(result.failed[0].error).toBeInstanceOf(NotFoundError);
+  });
+
+  it("reads answers of servers ignoring the preference", async () => {
+    adapter = new AxiosHttpAdapter(
+      {
+        protocol: "http",
+        host: "localhost:8080",
+        events: false,
+        chunking: { maxItems: 2 },
+      },
+      `settled-${Math.random()}`
+    );
+    requestMock = jest
+      .spyOn(adapter.client as Axios, "request")
+      .mockImplementation(async (req: any) => {
+        const ids = new URL(req.url).searchParams.getAll("ids");
+        return ids.includes("3")
+          ? { status: 503, headers: {}, data: "" }
+          : { status: 200, headers: {}, data: ids.map((id) => ({ id })) };
+      });
+
+    const result = await adapter.bulkSettled(
+      BulkCrudOperationKeys.DELETE_ALL,
+      BulkItemModel,
+      ["1", "2", "3"],
+      undefined,
+      ctx()
+    );
+
+    expect(result.succeeded.map(({ index, id }) => [index, id])).toEqual([
+      [0, "1"],
+      [1, "2"],
+    ]);
+    expect(result.failed).toEqual([
+      expect.objectContaining({ index: 2, id: "3", status: 503 }),
+    ]);
+  });
+
+  it("reports invalid models without sending them", async () => {
+    const repo = new RestRepository(adapter, BulkItemModel);
+    requestMock.mockImplementation(async (req: any) => ({
+      status: 200,
+      headers: {},
+      data: {
+        items: JSON.parse(req.data).map((result: any, index: number) => ({
+          index,
+          id: result.id,
+          status: 201,
+          result,
+        })),
+      },
+    }));
+
+    const result = await repo.createAllSettled(
+      [
+        new BulkItemModel({ id: "1", name: "a" }),
+        new BulkItemModel({ id: "2" }),
+        new BulkItemModel({ id: "3", name: "c" }),
+      ],
+      ctx()
+    );
+
+    expect(JSON.parse(requestMock.mock.calls[0][0].data)).toHaveLength(2);
+    expect(result.succeeded.map(({ index }) => index)).toEqual([0, 2]);
+    expect(result.succeeded[1].result).toBeInstanceOf(BulkItemModel);
+    expect(result.failed).toHaveLength(1);
+    expect(result.failed[0]).toMatchObject({ index: 1, id: "2", status: 422 });
+    expect(result.failed[0].error).toBeInstanceOf(ValidationError);
+  });
+
+  it("runs the create handlers of every item", async () => {
+    const repo = new RestRepository(adapter, StampedItemModel);
+    requestMock.mockImplementation(async (req: any) => ({
+      status: 200,
+      headers: {},
+      data: {
+        items: JSON.parse(req.data).map((result: any, index: number) => ({
+          index,
+          id: result.id,
+          status: 201,
+          result,
+        })),
+      },
+    }));
+
+    const result = await repo.createAllSettled(
+      [
+        new StampedItemModel({ id: "1", name: "a" }),
+        new StampedItemModel({ id: "2", name: "b" }),
+      ],
+      ctx()
+    );
+
+    expect(
+      JSON.parse(requestMock.mock.calls[0][0].data).map((r: any) => r.stamp)
+    ).toEqual(["stamped-1", "stamped-2"]);
+    expect(result.succeeded.map(({ result }) => result.stamp)).toEqual([
+      "stamped-1",
+      "stamped-2",
+    ]);
+  });
+});
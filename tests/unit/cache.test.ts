@@ -0,0 +1,289 @@
+import { Context, pk } from "@decaf-ts/core";
+import {
+  model,
+  Model,
+  ModelArg,
+  required,
+} from "@decaf-ts/decorator-validation";
+import { Logging, toKebabCase } from "@decaf-ts/logging";
+import { AxiosHttpAdapter } from "../../src/axios";
+import { HttpResponseCache, MemoryCacheStorage } from "../../src/cache";
+import { MessagePackCodec } from "../../src/codecs";
+import {
+  CodecContentType,
+  DecafHeaders,
+  DefaultCacheConfig,
+} from "../../src/constants";
+import { HttpDispatcher } from "../../src/HttpDispatcher";
+import { ServerEventConnector } from "../../src/event";
+import { encodeMessagePack } from "../../src/msgpack";
+import type { HttpCacheConfig, HttpCacheEntry } from "../../src/types";
+import { adapterWith } from "./fixtures";
+
+@model()
+class CachedModel extends Model {
+  @pk()
+  id!: string;
+
+  @required()
+  name!: string;
+
+  constructor(arg?: ModelArg<CachedModel>) {
+    super(arg);
+  }
+}
+
+const table = toKebabCase(Model.tableName(CachedModel));
+const base = "http://localhost:8080";
+const ctx = () => new Context().accumulate({ logger: Logging.get() });
+
+function ok(data: any, headers: Record<string, string> = {}) {
+  return { status: 200, headers, data };
+}
+
+describe("HttpResponseCache", () => {
+  function cacheWith(config: Partial<HttpCacheConfig> = {}) {
+    return new HttpResponseCache(
+      Object.assign(
+        { storage: new MemoryCacheStorage() },
+        DefaultCacheConfig,
+        config
+      ),
+      `${base}/`
+    );
+  }
+
+  it("keys requests by url and headers, ignoring per-request ids", () => {
+    const cache = cacheWith();
+    const url = `${base}/${table}/1`;
+    expect(
+      cache.key("GET", url, {
+        Authorization: "a",
+        [DecafHeaders.CORRELATION_ID]: "1",
+      })
+    ).toEqual(
+      cache.key("GET", url, {
+        authorization: "a",
+        [DecafHeaders.CORRELATION_ID]: "2",
+      })
+    );
+    expect(cache.key("GET", url, { Authorization: "a" })).not.toEqual(
+      cache.key("GET", url, { Authorization: "b" })
+    );
+  });
+
+  it("maps urls to tables and records", () => {
+    const cache = cacheWith();
+    expect(cache.target(`${base}/${table}/1`)).toEqual({
+      table,
+      resource: ["1"],
+      record: true,
+    });
+    expect(cache.target(`${base}/${table}/bulk?ids=1`).record).toBe(false);
+    expect(cache.target(`${base}/${table}/statement/findBy/name`).record).toBe(
+      false
+    );
+    expect(cache.target("https://elsewhere/x").table).toBeUndefined();
+  });
+
+  it("evicts the least recently used entries", async () => {
+    const cache = cacheWith({ maxEntries: 2 });
+    await cache.store("a", `${base}/${table}/a`, ok({ id: "a" }));
+    await cache.store("b", `${base}/${table}/b`, ok({ id: "b" }));
+    await cache.get("a");
+    await cache.store("c", `${base}/${table}/c`, ok({ id: "c" }));
+
+    expect(await cache.get("a")).toBeDefined();
+    expect(await cache.get("b")).toBeUndefined();
+    expect(await cache.get("c")).toBeDefined();
+  });
+
+  it("does not store failed or no-store responses", async () => {
+    const cache = cacheWith();
+    await cache.store("a", `${base}/${table}/a`, { status: 404, data: {} });
+    await cache.store(
+      "b",
+      `${base}/${table}/b`,
+      ok({}, { "Cache-Control": "no-store" })
+    );
+    expect(await cache.config.storage.keys()).toEqual([]);
+  });
+});
+
+describe("HttpAdapter response cache", () => {
+  let adapter: AxiosHttpAdapter;
+  let requestMock: jest.SpyInstance;
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("is disabled unless configured", async () => {
+    ({ adapter, requestMock } = adapterWith("cache", { cache: false }));
+    requestMock.mockResolvedValue(ok({ id: "1", name: "a" }));
+    await adapter.read(CachedModel, "1", ctx());
+    await adapter.read(CachedModel, "1", ctx());
+    expect(adapter.responseCache).toBeUndefined();
+    expect(requestMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("serves fresh responses without a request", async () => {
+    ({ adapter, requestMock } = adapterWith("cache", { cache: true }));
+    requestMock.mockResolvedValue(ok({ id: "1", name: "a" }));
+    const first = await adapter.read(CachedModel, "1", ctx());
+    first.name = "mutated";
+    const second = await adapter.read(CachedModel, "1", ctx());
+    expect(requestMock).toHaveBeenCalledTimes(1);
+    expect(second).toEqual({ id: "1", name: "a" });
+  });
+
+  it("revalidates stale responses with their validators", async () => {
+    ({ adapter, requestMock } = adapterWith("cache", { cache: { ttl: 0 } }));
+    const modified = new Date(0).toUTCString();
+    requestMock.mockResolvedValueOnce(
+      ok({ id: "1", name: "a" }, { ETag: '"v1"', "Last-Modified": modified })
+    );
+    await adapter.read(CachedModel, "1", ctx());
+
+    requestMock.mockResolvedValueOnce({ status: 304, headers: {}, data: "" });
+    const revalidated = await adapter.read(CachedModel, "1", ctx());
+
+    const headers = requestMock.mock.calls[1][0].headers;
+    expect(headers[DecafHeaders.IF_NONE_MATCH]).toEqual('"v1"');
+    expect(headers[DecafHeaders.IF_MODIFIED_SINCE]).toEqual(modified);
+    expect(revalidated).toEqual({ id: "1", name: "a" });
+  });
+
+  it("caches prepared statements and drops them on local writes", async () => {
+    ({ adapter, requestMock } = adapterWith("cache", { cache: true }));
+    requestMock.mockImplementation(async (details: any) =>
+      ok(
+        details.method === "GET" && details.url.includes("statement")
+          ? [{ id: "1", name: "a" }]
+          : { id: details.url.split("/").pop(), name: "a" }
+      )
+    );
+    const statement = `${base}/${table}/statement/findBy/name/a`;
+    await adapter.get(statement, undefined, ctx());
+    await adapter.read(CachedModel, "1", ctx());
+    await adapter.read(CachedModel, "2", ctx());
+    await adapter.get(statement, undefined, ctx());
+    expect(requestMock).toHaveBeenCalledTimes(3);
+
+    await adapter.update(CachedModel, "1", { id: "1", name: "b" }, ctx());
+    requestMock.mockClear();
+
+    await adapter.get(statement, undefined, ctx());
+    await adapter.read(CachedModel, "1", ctx());
+    await adapter.read(CachedModel, "2", ctx());
+    expect(requestMock.mock.calls.map((c) => c[0].url)).toEqual([
+      statement,
+      `${base}/${table}/1`,
+    ]);
+  });
+
+  it("serves binary bodies intact", async () => {
+    ({ adapter, requestMock } = adapterWith("cache", {
+      cache: true,
+      codecs: [new MessagePackCodec()],
+    }));
+    requestMock.mockResolvedValue(
+      ok(Buffer.from(encodeMessagePack({ id: "1", name: "a" })), {
+        "content-type": CodecContentType.MSGPACK,
+      })
+    );
+    await adapter.read(CachedModel, "1", ctx());
+    const cached = await adapter.read(CachedModel, "1", ctx());
+    expect(requestMock).toHaveBeenCalledTimes(1);
+    expect(cached).toEqual({ id: "1", name: "a" });
+  });
+
+  it("invalidates records changed remotely", async () => {
+    ({ adapter, requestMock } = adapterWith("cache", { cache: true }));
+    requestMock.mockResolvedValue(ok({ id: "1", name: "a" }));
+    await adapter.read(CachedModel, "1", ctx());
+    await adapter.invalidateCache(Model.tableName(CachedModel), "1");
+    await adapter.read(CachedModel, "1", ctx());
+    expect(requestMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("uses the configured storage", async () => {
+    const entries = new Map<string, HttpCacheEntry>();
+    const storage = {
+      get: async (key: string) => entries.get(key),
+      set: async (key: string, entry: HttpCacheEntry) => {
+        entries.set(key, entry);
+      },
+      delete: async (key: string) => {
+        entries.delete(key);
+      },
+      keys: async () => [...entries.keys()],
+      clear: async () => entries.clear(),
+    };
+    ({ adapter, requestMock } = adapterWith("cache", { cache: { storage } }));
+    requestMock.mockResolvedValue(ok({ id: "1", name: "a" }));
+    await adapter.read(CachedModel, "1", ctx());
+    expect([...entries.values()][0]).toMatchObject({
+      table,
+      resource: ["1"],
+      record: true,
+      data: { id: "1", name: "a" },
+    });
+  });
+});
+
+describe("HttpDispatcher cache invalidation", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("invalidates the cache for received server events", async () => {
+    const dispatcher = new HttpDispatcher() as any;
+    dispatcher.initialized = true;
+    const contextual = {
+      log: {
+        error: () => {},
+        warn: () => {},
+        info: () => {},
+        debug: () => {},
+        verbose: () => {},
+        silly: () => {},
+      },
+      ctx: {},
+      ctxArgs: [],
+      for() {
+        return this;
+      },
+    };
+    const invalidateCache = jest.fn().mockResolvedValue(undefined);
+    dispatcher.adapter = {
+      config: {
+        protocol: "http",
+        host: "127.0.0.1:9999",
+        eventsListenerPath: "/events",
+        events: true,
+      },
+      getEventHeaders: jest.fn().mockResolvedValue({}),
+      invalidateCache,
+      logCtx: () => contextual,
+      toString: () => "test-http-adapter",
+    };
+    dispatcher.logCtx = () => contextual;
+    dispatcher.updateObservers = jest.fn().mockResolvedValue(undefined);
+
+    let listener: any;
+    jest.spyOn(ServerEventConnector, "open").mockReturnValue({
+      addListener: jest.fn((l: any) => {
+        listener = l;
+        return () => {};
+      }),
+      ensureListening: jest.fn().mockResolvedValue(undefined),
+      close: jest.fn(),
+    } as unknown as ServerEventConnector);
+
+    await dispatcher.startListening();
+    await listener.onEvent([table, "update", "1"]);
+
+    expect(invalidateCache).toHaveBeenCalledWith(table, "1");
+  });
+});
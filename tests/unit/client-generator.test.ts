@@ -0,0 +1,174 @@
+import {
+  BaseModel,
+  Context,
+  column,
+  pk,
+  query,
+  route,
+  table,
+} from "@decaf-ts/core";
+import { model, required, type ModelArg } from "@decaf-ts/decorator-validation";
+import { Logging } from "@decaf-ts/logging";
+import { Axios } from "axios";
+import { AxiosHttpAdapter } from "../../src/axios";
+import { RestService } from "../../src/RestService";
+import {
+  ClientGenerator,
+  ModelControllerFactory,
+  RouteParam,
+} from "../../src/server";
+
+@table("sdk_product")
+@model()
+class SdkProduct extends BaseModel {
+  @pk()
+  id!: string;
+
+  @required()
+  @column()
+  name!: string;
+
+  constructor(arg?: ModelArg<SdkProduct>) {
+    super(arg);
+  }
+}
+
+class SdkProductRepository {
+  class = SdkProduct;
+
+  @route("GET", "by-name/:name")
+  lookup(name: string) {
+    return name;
+  }
+
+  @route("POST", "import")
+  importOne(body: SdkProduct) {
+    return body;
+  }
+
+  @query()
+  findByName(name: string) {
+    return name;
+  }
+}
+
+describe("ClientGenerator", () => {
+  const generate = () =>
+    new ClientGenerator({ modelsModule: "@shop/models" })
+      .addController(
+        ModelControllerFactory.create(SdkProduct, new SdkProductRepository())
+      )
+      .generate();
+
+  it("emits a RestService per model", () => {
+    const source = generate();
+
+    expect(source).toContain(
+      `import { RestService, type HttpAdapter } from "@decaf-ts/for-http";`
+    );
+    expect(source).toContain(`import { SdkProduct } from "@shop/models";`);
+    expect(source).toContain("export class SdkProductService<");
+    expect(source).toContain("> extends RestService<SdkProduct, A> {");
+    expect(source).toContain("super(adapter, SdkProduct);");
+  });
+
+  it("types custom routes by the model attributes", () => {
+    const source = generate();
+
+    expect(source).toContain("  lookup<R = any>(\n    name: string,\n");
+    expect(source).toContain("query: Record<string, unknown> = {},");
+    expect(source).toContain(
+      `"GET",\n      ["by-name", name],\n      { query },`
+    );
+    expect(source).toContain("  importOne<R = any>(\n    body: ");
+    expect(source).toContain(`"POST",\n      ["import"],\n      { body },`);
+  });
+
+  it("types the query parameters a route declares", () => {
+    const controller: any = ModelControllerFactory.create(
+      SdkProduct,
+      new SdkProductRepository()
+    );
+    controller.__routes__.find(
+      (route: any) => route.path === "by-name/:name"
+    ).queryParams = [
+      new RouteParam({ name: "limit", type: "number", required: true }),
+      new RouteParam({ name: "sort-by", type: "string", required: false }),
+    ];
+    const source = new ClientGenerator({ modelsModule: "@shop/models" })
+      .addController(controller)
+      .generate();
+
+    expect(source).toContain(`query: { limit: number; "sort-by"?: string },`);
+  });
+
+  it("calls prepared statements", () => {
+    const source = generate();
+
+    expect(source).toContain("  findByName<R = SdkProduct[]>(");
+    expect(source).toContain(
+      `return this.callStatement<R>(\n      "findByName",`
+    );
+  });
+});
+
+describe("generated client calls", () => {
+  class SdkProductService extends RestService<SdkProduct, AxiosHttpAdapter> {
+    lookup(name: string, query: Record<string, unknown> = {}, ctx?: Context) {
+      return this.callRoute("GET", ["by-name", name], { query }, ctx as any);
+    }
+
+    findByName(name: string, ctx?: Context) {
+      return this.callStatement<SdkProduct[]>("findByName", name, ctx as any);
+    }
+  }
+
+  let service: SdkProductService;
+  let requestMock: jest.SpyInstance;
+
+  beforeEach(() => {
+    const adapter = new AxiosHttpAdapter(
+      { protocol: "http", host: "localhost:8080", events: false },
+      `sdk-${Math.random()}`
+    );
+    service = new SdkProductService(adapter, SdkProduct);
+    requestMock = jest.spyOn(adapter.client as Axios, "request");
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const ctx = () => new Context().accumulate({ logger: Logging.get() } as any);
+
+  it("sends custom routes below the model path", async () => {
+    requestMock.mockResolvedValue({
+      status: 200,
+      headers: {},
+      data: { found: true },
+    });
+
+    const result = await service.lookup("a b", { limit: 2 }, ctx());
+
+    const url = new URL(requestMock.mock.calls[0][0].url);
+    expect(requestMock.mock.calls[0][0].method).toEqual("GET");
+    expect(url.pathname).toEqual("/sdk-product/by-name/a%20b");
+    expect(url.searchParams.get("limit")).toEqual("2");
+    expect(result).toEqual({ found: true });
+  });
+
+  it("rebuilds the records of prepared statements", async () => {
+    requestMock.mockResolvedValue({
+      status: 200,
+      headers: {},
+      data: [{ id: "1", name: "a" }],
+    });
+
+    const found = await service.findByName("a", ctx());
+
+    expect(new URL(requestMock.mock.calls[0][0].url).pathname).toEqual(
+      "/sdk-product/statement/findByName/a"
+    );
+    expect(found[0]).toBeInstanceOf(SdkProduct);
+  });
+});
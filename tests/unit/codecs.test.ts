@@ -0,0 +1,261 @@
+import { Context, pk } from "@decaf-ts/core";
+import { NotFoundError } from "@decaf-ts/db-decorators";
+import {
+  model,
+  Model,
+  ModelArg,
+  required,
+} from "@decaf-ts/decorator-validation";
+import { Logging } from "@decaf-ts/logging";
+import { Axios } from "axios";
+import { AxiosHttpAdapter } from "../../src/axios";
+import { decodeCbor, encodeCbor } from "../../src/cbor";
+import {
+  CborCodec,
+  CodecRegistry,
+  JsonCodec,
+  MessagePackCodec,
+} from "../../src/codecs";
+import { CodecContentType } from "../../src/constants";
+import { decodeServerEvent, encodeServerEvent } from "../../src/event";
+import { decodeMessagePack, encodeMessagePack } from "../../src/msgpack";
+import {
+  ModelControllerBuilder,
+  responseHeadersOf,
+  responseStatusOf,
+} from "../../src/server";
+
+@model()
+class CodecModel extends Model {
+  @pk()
+  id!: string;
+
+  @required()
+  name!: string;
+
+  constructor(arg?: ModelArg<CodecModel>) {
+    super(arg);
+  }
+}
+
+const ctx = () => new Context().accumulate({ logger: Logging.get() } as any);
+
+const value = {
+  id: "1",
+  at: new Date("2024-02-29T12:34:56.789Z"),
+  big: BigInt("9007199254740993"),
+  negative: -BigInt("9007199254740993"),
+  bytes: Uint8Array.from([0, 1, 255]),
+  nested: {
+    numbers: [0, 31, -32, 200, -300, 70000, -70000, 2 ** 40, 1.5],
+    text: "é".repeat(40),
+    none: null,
+  },
+};
+
+describe("binary codecs", () => {
+  it.each([
+    ["MessagePack", encodeMessagePack, decodeMessagePack],
+    ["CBOR", encodeCbor, decodeCbor],
+  ])("round-trips %s values", (_name, encode, decode) => {
+    const decoded = decode(encode(value)) as typeof value;
+
+    expect(decoded).toEqual(value);
+    expect(decoded.at).toBeInstanceOf(Date);
+    expect(typeof decoded.big).toEqual("bigint");
+    expect(decode(encode({ skipped: undefined, kept: 1 }))).toEqual({
+      kept: 1,
+    });
+  });
+
+  it("decodes the other CBOR encodings", () => {
+    // indefinite length array holding 1 and the half float 1.0
+    expect(
+      decodeCbor(Uint8Array.from([0x9f, 0x01, 0xf9, 0x3c, 0x00, 0xff]))
+    ).toEqual([1, 1]);
+    // epoch based date/time
+    expect(
+      decodeCbor(Uint8Array.from([0xc1, 0x1a, 0x51, 0x4b, 0x67, 0xb0]))
+    ).toEqual(new Date(1363896240000));
+  });
+
+  it("decodes the compact MessagePack timestamps", () => {
+    expect(
+      decodeMessagePack(Uint8Array.from([0xd6, 0xff, 0x51, 0x4b, 0x67, 0xb0]))
+    ).toEqual(new Date(1363896240000));
+    expect(() => decodeMessagePack(Uint8Array.from([0xc1]))).toThrow();
+  });
+});
+
+describe("CodecRegistry", () => {
+  const codecs = new CodecRegistry([new MessagePackCodec(), new CborCodec()]);
+
+  it("always understands JSON", () => {
+    expect(codecs.codecs.map((codec) => codec.contentType)).toEqual([
+      CodecContentType.MSGPACK,
+      CodecContentType.CBOR,
+      CodecContentType.JSON,
+    ]);
+    expect(codecs.accept).toEqual(
+      "application/msgpack, application/cbor;q=0.9, application/json;q=0.8"
+    );
+    expect(codecs.binary).toBe(true);
+    expect(new CodecRegistry().default).toBeInstanceOf(JsonCodec);
+  });
+
+  it("finds codecs by content type", () => {
+    expect(codecs.forContentType("application/x-msgpack")).toBe(codecs.default);
+    expect(
+      codecs.forContentType("application/problem+json; charset=utf-8")
+    ).toBeInstanceOf(JsonCodec);
+    expect(codecs.forContentType("text/plain")).toBeUndefined();
+  });
+
+  it("negotiates the Accept header by quality", () => {
+    expect(
+      codecs.negotiate("application/json;q=0.5, application/cbor")
+    ).toBeInstanceOf(CborCodec);
+    expect(codecs.negotiate("text/html, */*;q=0.1")).toBe(codecs.default);
+    expect(codecs.negotiate("application/*")).toBe(codecs.default);
+    expect(codecs.negotiate("text/html")).toBeUndefined();
+  });
+});
+
+describe("HttpAdapter codecs", () => {
+  let adapter: AxiosHttpAdapter;
+  let requestMock: jest.SpyInstance;
+
+  beforeEach(() => {
+    adapter = new AxiosHttpAdapter(
+      {
+        protocol: "http",
+        host: "localhost:8080",
+        events: false,
+        codecs: [new MessagePackCodec()],
+      },
+      `codecs-${Math.random()}`
+    );
+    requestMock = jest.spyOn(adapter.client as Axios, "request");
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("sends and reads bodies with the preferred codec", async () => {
+    const record = { id: "1", name: "a", at: value.at, big: value.big };
+    requestMock.mockImplementation(async (req: any) => ({
+      status: 201,
+      headers: { "content-type": CodecContentType.MSGPACK },
+      data: Buffer.from(req.data),
+    }));
+
+    const created = await adapter.create(CodecModel, "1", record, ctx());
+
+    expect(created).toEqual(record);
+    const req = requestMock.mock.calls[0][0];
+    expect(req.data).toBeInstanceOf(ArrayBuffer);
+    expect(decodeMessagePack(new Uint8Array(req.data))).toEqual(record);
+    expect(req.headers["Content-Type"]).toEqual(CodecContentType.MSGPACK);
+    expect(req.headers.Accept).toEqual(
+      "application/msgpack, application/json;q=0.9"
+    );
+    expect(req.responseType).toEqual("arraybuffer");
+  });
+
+  it("decodes binary error bodies", async () => {
+    requestMock.mockResolvedValue({
+      status: 404,
+      headers: { "content-type": "application/json" },
+      data: Buffer.from(
+        '{"error":{"name":"NotFoundError","message":"gone","status":404}}'
+      ),
+    });
+
+    await expect(adapter.read(CodecModel, "1", ctx())).rejects.toBeInstanceOf(
+      NotFoundError
+    );
+  });
+});
+
+describe("server codec negotiation", () => {
+  const request = (headers: Record<string, string>) => ({
+    get: (key: string) => (key === "headers" ? headers : undefined),
+  });
+
+  function createRoute(persistence: any) {
+    const Controller = new ModelControllerBuilder(CodecModel, persistence)
+      .withCodecs([new MessagePackCodec()])
+      .addCreateRoute()
+      .build() as any;
+    return Controller.__routes__.find((route: any) => route.method === "POST");
+  }
+
+  it("decodes bodies and encodes results by content negotiation", async () => {
+    const create = jest.fn(async (data: any) => data);
+    const route = createRoute({ create });
+    const body = { id: "1", name: "a", at: value.at };
+
+    const result = await route.implementation.call(
+      {
+        ctx: request({
+          "content-type": CodecContentType.MSGPACK,
+          accept: "application/msgpack",
+        }),
+      },
+      Buffer.from(encodeMessagePack(body))
+    );
+
+    expect(create.mock.calls[0][0]).toEqual(body);
+    expect(responseHeadersOf(result)["Content-Type"]).toEqual(
+      CodecContentType.MSGPACK
+    );
+    expect(responseStatusOf(result)).toBeUndefined();
+    expect(decodeMessagePack(result)).toEqual(body);
+
+    expect(
+      await route.implementation.call(
+        { ctx: request({ accept: "application/json" }) },
+        body
+      )
+    ).toEqual(body);
+  });
+
+  it("rejects bodies the codec can not read", async () => {
+    const route = createRoute({ create: jest.fn() });
+
+    await expect(
+      route.implementation.call(
+        { ctx: request({ "content-type": CodecContentType.MSGPACK }) },
+        Buffer.from([0xc1])
+      )
+    ).rejects.toMatchObject({ status: 400 });
+  });
+});
+
+describe("server event payloads", () => {
+  it("round-trips payloads through their codec", () => {
+    const payload = { id: "1", at: value.at, big: value.big };
+    const data = encodeServerEvent(
+      ["codec_model", "create", "1", payload],
+      new CborCodec()
+    );
+
+    expect(JSON.parse(data)[4]).toEqual(CodecContentType.CBOR);
+    expect(decodeServerEvent(data)).toEqual([
+      "codec_model",
+      "create",
+      "1",
+      payload,
+    ]);
+  });
+
+  it("keeps reading events without a content type", () => {
+    expect(
+      decodeServerEvent(JSON.stringify(["t", "update", "1", '{"id":"1"}']))
+    ).toEqual(["t", "update", "1", { id: "1" }]);
+    expect(
+      decodeServerEvent(JSON.stringify(["t", "create", "1", "x", "text/x"]))
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,202 @@
+import { Context, pk } from "@decaf-ts/core";
+import { ConflictError } from "@decaf-ts/db-decorators";
+import {
+  model,
+  Model,
+  ModelArg,
+  required,
+} from "@decaf-ts/decorator-validation";
+import { Logging } from "@decaf-ts/logging";
+import { brotliDecompressSync, gunzipSync } from "zlib";
+import { AxiosHttpAdapter } from "../../src/axios";
+import { BulkChunkError, chunkRanges } from "../../src/chunking";
+import { adapterWith } from "./fixtures";
+
+@model()
+class BulkModel extends Model {
+  @pk()
+  id!: string;
+
+  @required()
+  name!: string;
+
+  constructor(arg?: ModelArg<BulkModel>) {
+    super(arg);
+  }
+}
+
+const ctx = () => new Context().accumulate({ logger: Logging.get() } as any);
+
+const records = (count: number, size = 1) =>
+  Array.from({ length: count }, (_, i) => ({
+    id: String(i),
+    name: "x".repeat(size),
+  }));
+
+describe("bulk requests", () => {
+  let adapter: AxiosHttpAdapter;
+  let requestMock: jest.SpyInstance;
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe("compression", () => {
+    it("compresses bodies above the threshold", async () => {
+      ({ adapter, requestMock } = adapterWith("compression", {
+        compression: { threshold: 1024 },
+      }));
+      requestMock.mockImplementation(async (req: any) => ({
+        status: 201,
+        headers: {},
+        data: JSON.parse(gunzipSync(Buffer.from(req.data)).toString()),
+      }));
+
+      const sent = records(50, 100);
+      const created = await adapter.createAll(
+        BulkModel,
+        sent.map(({ id }) => id),
+        sent,
+        ctx()
+      );
+
+      expect(created).toEqual(sent);
+      const req = requestMock.mock.calls[0][0];
+      expect(req.data).toBeInstanceOf(ArrayBuffer);
+      expect(req.data.byteLength).toBeLessThan(JSON.stringify(sent).length);
+      expect(req.headers["Content-Encoding"]).toEqual("gzip");
+      expect(req.headers["Accept-Encoding"]).toEqual("br, gzip, deflate");
+    });
+
+    it("sends small bodies as they are", async () => {
+      ({ adapter, requestMock } = adapterWith("compression", {
+        compression: { threshold: 1024, acceptEncoding: [] },
+      }));
+      requestMock.mockResolvedValue({ status: 201, headers: {}, data: {} });
+
+      await adapter.create(BulkModel, "1", { id: "1", name: "a" }, ctx());
+
+      const req = requestMock.mock.calls[0][0];
+      expect(req.data).toEqual(JSON.stringify({ id: "1", name: "a" }));
+      expect(req.headers["Content-Encoding"]).toBeUndefined();
+      expect(req.headers["Accept-Encoding"]).toBeUndefined();
+    });
+
+    it("uses the configured encoding", async () => {
+      ({ adapter, requestMock } = adapterWith("compression", {
+        compression: { encoding: "br", threshold: 0 },
+      }));
+      requestMock.mockResolvedValue({ status: 200, headers: {}, data: [] });
+
+      await adapter.updateAll(BulkModel, ["1"], records(1), ctx());
+
+      const req = requestMock.mock.calls[0][0];
+      expect(req.headers["Content-Encoding"]).toEqual("br");
+      expect(
+        JSON.parse(brotliDecompressSync(Buffer.from(req.data)).toString())
+      ).toEqual(records(1));
+    });
+  });
+
+  describe("chunking", () => {
+    it("splits ranges by item count and size", () => {
+      expect(chunkRanges(5, { maxItems: 2, maxBytes: 100 })).toEqual([
+        [0, 2],
+        [2, 4],
+        [4, 5],
+      ]);
+      expect(
+        chunkRanges(
+          4,
+          { maxItems: 10, maxBytes: 100 },
+          (i) => [60, 30, 200, 10][i]
+        )
+      ).toEqual([
+        [0, 2],
+        [2, 3],
+        [3, 4],
+      ]);
+      expect(chunkRanges(0, { maxItems: 2, maxBytes: 100 })).toEqual([]);
+    });
+
+    it("merges the results of every chunk in order", async () => {
+      ({ adapter, requestMock } = adapterWith("compression", {
+        chunking: { maxItems: 2 },
+      }));
+      requestMock.mockImplementation(async (req: any) => ({
+        status: 201,
+        headers: {},
+        data: JSON.parse(req.data),
+      }));
+
+      const sent = records(5);
+      const created = await adapter.createAll(
+        BulkModel,
+        sent.map(({ id }) => id),
+        sent,
+        ctx()
+      );
+
+      expect(created).toEqual(sent);
+      expect(
+        requestMock.mock.calls.map(([req]) => JSON.parse(req.data).length)
+      ).toEqual([2, 2, 1]);
+    });
+
+    it("chunks bulk reads and deletes by ids", async () => {
+      ({ adapter, requestMock } = adapterWith("compression", {
+        chunking: { maxItems: 3 },
+      }));
+      requestMock.mockImplementation(async (req: any) => ({
+        status: 200,
+        headers: {},
+        data: new URL(req.url).searchParams
+          .getAll("ids")
+          .map((id) => ({ id, name: "a" })),
+      }));
+      const ids = records(7).map(({ id }) => id);
+
+      const read = await adapter.readAll(BulkModel, ids, ctx());
+      const deleted = await adapter.deleteAll(BulkModel, ids, ctx());
+
+      expect(read.map(({ id }) => id)).toEqual(ids);
+      expect(deleted.map(({ id }) => id)).toEqual(ids);
+      expect(requestMock).toHaveBeenCalledTimes(6);
+    });
+
+    it("reports the chunks that failed", async () => {
+      ({ adapter, requestMock } = adapterWith("compression", {
+        chunking: { maxItems: 10, maxBytes: 250 },
+      }));
+      requestMock.mockImplementation(async (req: any) => {
+        const body = JSON.parse(req.data);
+        return body.some(({ id }: any) => id === "3")
+          ? {
+              status: 409,
+              headers: {},
+              data: { error: { name: "ConflictError", message: "exists" } },
+            }
+          : { status: 200, headers: {}, data: body };
+      });
+
+      const sent = records(6, 80);
+      const error = await adapter
+        .updateAll(
+          BulkModel,
+          sent.map(({ id }) => id),
+          sent,
+          ctx()
+        )
+        .catch((e: unknown) => e);
+
+      expect(requestMock).toHaveBeenCalledTimes(3);
+      expect(error).toBeInstanceOf(BulkChunkError);
+      const { results, failures, chunks, failedIds } = error as BulkChunkError;
+      expect(chunks).toEqual(3);
+      expect(results.map(({ id }) => id)).toEqual(["0", "1", "4", "5"]);
+      expect(failedIds).toEqual(["2", "3"]);
+      expect(failures[0].chunk).toEqual(1);
+      expect(failures[0].error).toBeInstanceOf(ConflictError);
+    });
+  });
+});
@@ -0,0 +1,239 @@
+import { ConflictError } from "@decaf-ts/db-decorators";
+import { Context, pk, PersistenceKeys } from "@decaf-ts/core";
+import {
+  model,
+  Model,
+  ModelArg,
+  required,
+} from "@decaf-ts/decorator-validation";
+import { Logging } from "@decaf-ts/logging";
+import { Axios } from "axios";
+import { AxiosHttpAdapter } from "../../src/axios";
+import { DecafHeaders } from "../../src/constants";
+import { serializeError } from "../../src/errors";
+import { ModelControllerBuilder } from "../../src/server/controllers/ModelControllerBuilder";
+import {
+  etagOf,
+  matchesEtag,
+  responseHeadersOf,
+} from "../../src/server/controllers/concurrency";
+
+@model()
+class VersionedModel extends Model {
+  @pk()
+  id!: string;
+
+  @required()
+  name!: string;
+
+  updatedAt?: Date;
+
+  constructor(arg?: ModelArg<VersionedModel>) {
+    super(arg);
+  }
+}
+
+describe("entity tags", () => {
+  it("derives tags from the version, updatedAt or the content", () => {
+    const updatedAt = new Date();
+    expect(etagOf({ id: "1", version: 2 })).toEqual(
+      etagOf({ id: "1", version: 2, name: "other" })
+    );
+    expect(etagOf({ id: "1", updatedAt })).not.toEqual(
+      etagOf({ id: "1", updatedAt: new Date(updatedAt.getTime() + 1) })
+    );
+    expect(etagOf({ id: "1", name: "a" })).not.toEqual(
+      etagOf({ id: "1", name: "b" })
+    );
+    expect(etagOf(undefined)).toBeUndefined();
+  });
+
+  it("matches If-Match lists, wildcards and weak tags", () => {
+    expect(matchesEtag('"a", "b"', '"b"')).toBe(true);
+    expect(matchesEtag('W/"a"', '"a"')).toBe(true);
+    expect(matchesEtag("*", '"a"')).toBe(true);
+    expect(matchesEtag('"a"', '"c"')).toBe(false);
+  });
+});
+
+describe("ModelControllerBuilder optimistic concurrency", () => {
+  let stored: VersionedModel;
+  let persistence: any;
+  let routes: Record<string, any>;
+
+  function ctxWith(headers: Record<string, string>) {
+    return { get: (key: string) => (key === "headers" ? headers : undefined) };
+  }
+
+  beforeEach(() => {
+    stored = new VersionedModel({
+      id: "1",
+      name: "a",
+      updatedAt: new Date(1000),
+    });
+    persistence = {
+      class: VersionedModel,
+      read: jest.fn(async () => stored),
+      update: jest.fn(
+        async (m: VersionedModel) =>
+          new VersionedModel({ ...m, updatedAt: new Date(2000) })
+      ),
+      delete: jest.fn(async () => stored),
+    };
+    const Controller = new ModelControllerBuilder(VersionedModel, persistence)
+      .addReadRoute()
+      .addUpdateRoute()
+      .addDeleteRoute()
+      .build() as any;
+    routes = Object.fromEntries(
+      Controller.__routes__.map((r: any) => [r.method, r.implementation])
+    );
+  });
+
+  it("emits the ETag of read records", async () => {
+    const result = await routes.GET.call({ persistence }, "1");
+    expect(responseHeadersOf(result)[DecafHeaders.ETAG]).toEqual(
+      etagOf(stored)
+    );
+    expect(Object.keys(result)).not.toContain(DecafHeaders.ETAG);
+  });
+
+  it("lists the ETags of bulk read records", async () => {
+    const other = new VersionedModel({
+      id: "2",
+      name: "b",
+      updatedAt: new Date(3000),
+    });
+    persistence.readAll = jest.fn(async () => [stored, other]);
+    const Controller = new ModelControllerBuilder(VersionedModel, persistence)
+      .addBulkReadRoute()
+      .build() as any;
+    const result = await Controller.__routes__[0].implementation.call(
+      { persistence },
+      ["1", "2"]
+    );
+    expect(result).toEqual([stored, other]);
+    expect(responseHeadersOf(result)[DecafHeaders.ENTITY_TAGS]).toEqual(
+      `${etagOf(stored)}, ${etagOf(other)}`
+    );
+  });
+
+  it("updates when If-Match holds and returns the new ETag", async () => {
+    const result = await routes.PUT.call(
+      { persistence, ctx: ctxWith({ "If-Match": etagOf(stored) as string }) },
+      { name: "b" },
+      "1"
+    );
+    expect(persistence.update).toHaveBeenCalledTimes(1);
+    expect(responseHeadersOf(result)[DecafHeaders.ETAG]).toEqual(
+      etagOf(result)
+    );
+    expect(etagOf(result)).not.toEqual(etagOf(stored));
+  });
+
+  it("rejects stale updates and deletes with 412", async () => {
+    const ctx = ctxWith({ [DecafHeaders.IF_MATCH]: '"stale"' });
+
+    const failure = await routes.PUT.call(
+      { persistence, ctx },
+      { name: "b" },
+      "1"
+    ).catch((e: any) => e);
+    expect(failure).toBeInstanceOf(ConflictError);
+    expect(failure.status).toBe(412);
+    expect(failure.body.error.status).toBe(412);
+    expect(persistence.update).not.toHaveBeenCalled();
+
+    await expect(routes.DELETE.call({ persistence, ctx }, "1")).rejects.toThrow(
+      ConflictError
+    );
+    expect(persistence.delete).not.toHaveBeenCalled();
+  });
+
+  it("skips the precondition without If-Match", async () => {
+    await routes.PUT.call({ persistence }, { name: "b" }, "1");
+    expect(persistence.read).not.toHaveBeenCalled();
+    expect(persistence.update).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("HttpAdapter entity tags", () => {
+  let adapter: AxiosHttpAdapter;
+  let requestMock: jest.SpyInstance;
+  const ctx = () => new Context().accumulate({ logger: Logging.get() });
+
+  beforeEach(() => {
+    adapter = new AxiosHttpAdapter(
+      { protocol: "http", host: "localhost:8080", events: false },
+      `etag-${Math.random()}`
+    );
+    requestMock = jest.spyOn(adapter.client as Axios, "request");
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("keeps the ETag in the persistence metadata and sends it back", async () => {
+    requestMock.mockResolvedValueOnce({
+      status: 200,
+      headers: { etag: '"v1"' },
+      data: { id: "1", name: "a" },
+    });
+    const record = await adapter.read(VersionedModel, "1", ctx());
+    const model = adapter.revert(
+      record,
+      VersionedModel,
+      "1",
+      undefined as any,
+      ctx()
+    );
+    expect((model as any)[PersistenceKeys.METADATA]).toEqual({ etag: '"v1"' });
+    expect(Object.keys(model)).not.toContain(PersistenceKeys.METADATA);
+
+    requestMock.mockResolvedValueOnce({
+      status: 200,
+      headers: { etag: '"v2"' },
+      data: { id: "1", name: "b" },
+    });
+    model.name = "b";
+    const updated = await adapter.update(VersionedModel, "1", model, ctx());
+    expect(requestMock.mock.calls[1][0].headers[DecafHeaders.IF_MATCH]).toBe(
+      '"v1"'
+    );
+    expect(updated[PersistenceKeys.METADATA]).toEqual({ etag: '"v2"' });
+  });
+
+  it("keeps the ETag of each bulk read record", async () => {
+    requestMock.mockResolvedValueOnce({
+      status: 200,
+      headers: { [DecafHeaders.ENTITY_TAGS]: '"v1", "v2"' },
+      data: [
+        { id: "1", name: "a" },
+        { id: "2", name: "b" },
+      ],
+    });
+    const records = await adapter.readAll(VersionedModel, ["1", "2"], ctx());
+    expect(records.map((r) => r[PersistenceKeys.METADATA])).toEqual([
+      { etag: '"v1"' },
+      { etag: '"v2"' },
+    ]);
+  });
+
+  it("raises a ConflictError when the precondition fails", async () => {
+    requestMock.mockResolvedValue({
+      status: 412,
+      headers: {},
+      data: JSON.stringify(
+        serializeError(
+          Object.assign(new ConflictError("modified"), { status: 412 })
+        ).body
+      ),
+    });
+    const failure = await adapter
+      .update(VersionedModel, "1", { id: "1", name: "b" }, ctx())
+      .catch((e) => e);
+    expect(failure).toBeInstanceOf(ConflictError);
+    expect(failure.status).toBe(412);
+  });
+});
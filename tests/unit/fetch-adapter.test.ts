@@ -0,0 +1,109 @@
+import { FetchHttpAdapter } from "../../src/fetch";
+import { Context } from "@decaf-ts/core";
+import { Logging } from "@decaf-ts/logging";
+
+function ctx() {
+  return new Context().accumulate({ logger: Logging.get() });
+}
+
+function respond(body: string, init?: ResponseInit) {
+  return Promise.resolve(
+    new Response(body, Object.assign({ status: 200 }, init || {}))
+  );
+}
+
+describe("FetchHttpAdapter", () => {
+  let adapter: FetchHttpAdapter;
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    adapter = new FetchHttpAdapter(
+      { protocol: "https", host: "example.com", events: false },
+      `fetch-${Math.random()}`
+    );
+    fetchMock = jest.fn(() => respond(JSON.stringify({ ok: true })));
+    adapter["_client" as any] = fetchMock;
+  });
+
+  it("resolves urls against the base url and appends params", async () => {
+    await adapter.get("/things", { params: { a: 1, b: ["x", "y"] } }, ctx());
+    expect(fetchMock.mock.calls[0][0]).toEqual(
+      "https://example.com/things?a=1&b=x&b=y"
+    );
+
+    await adapter.get("items", { baseURL: "http://other.host/api/" }, ctx());
+    expect(fetchMock.mock.calls[1][0]).toEqual("http://other.host/api/items");
+  });
+
+  it("maps auth, credentials and headers onto the request init", async () => {
+    await adapter.get(
+      "https://example.com/secure",
+      {
+        auth: { username: "user", password: "pass" },
+        withCredentials: true,
+        headers: { "x-custom": "1" },
+      },
+      ctx()
+    );
+    const init = fetchMock.mock.calls[0][1] as RequestInit;
+    const headers = init.headers as Record<string, string>;
+    expect(headers["Authorization"]).toEqual(`Basic ${btoa("user:pass")}`);
+    expect(headers["x-custom"]).toEqual("1");
+    expect(init.credentials).toEqual("include");
+    expect(init.method).toEqual("GET");
+  });
+
+  it("serializes objects and applies request and response transforms", async () => {
+    const res = await adapter.post(
+      "https://example.com/things",
+      { name: "a" },
+      {
+        transformRequest: (data: any) => Object.assign({}, data, { t: 1 }),
+        transformResponse: (data: any) => data.replace("true", "false"),
+      },
+      ctx()
+    );
+    const init = fetchMock.mock.calls[0][1] as RequestInit;
+    expect(init.body).toEqual(JSON.stringify({ name: "a", t: 1 }));
+    expect((init.headers as Record<string, string>)["Content-Type"]).toEqual(
+      "application/json"
+    );
+    expect(res.data).toEqual({ ok: false });
+  });
+
+  it("reads bodies according to the response type", async () => {
+    fetchMock.mockImplementation(() => respond("abc"));
+    const res = await adapter.get(
+      "https://example.com/raw",
+      { responseType: "arraybuffer" },
+      ctx()
+    );
+    expect(res.data).toBeInstanceOf(ArrayBuffer);
+    expect(new TextDecoder().decode(res.data)).toEqual("abc");
+  });
+
+  it("rejects statuses refused by validateStatus", async () => {
+    fetchMock.mockImplementation(() => respond("{}", { status: 418 }));
+    await expect(
+      adapter.get(
+        "https://example.com/teapot",
+        { validateStatus: (status) => status < 400 },
+        ctx()
+      )
+    ).rejects.toThrow();
+  });
+
+  it("aborts requests exceeding the timeout", async () => {
+    fetchMock.mockImplementation(
+      (url: string, init: RequestInit) =>
+        new Promise((resolve, reject) =>
+          init.signal?.addEventListener("abort", () =>
+            reject(new DOMException("aborted", "AbortError"))
+          )
+        )
+    );
+    await expect(
+      adapter.get("https://example.com/slow", { timeout: 10 }, ctx())
+    ).rejects.toThrow(/timeout/);
+  });
+});
@@ -0,0 +1,388 @@
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Readable } from "stream";
+import { pk } from "@decaf-ts/core";
+import { BadRequestError, NotFoundError } from "@decaf-ts/db-decorators";
+import {
+  model,
+  Model,
+  ModelArg,
+  required,
+} from "@decaf-ts/decorator-validation";
+import { toKebabCase } from "@decaf-ts/logging";
+import { Axios } from "axios";
+import { AxiosHttpAdapter } from "../../src/axios";
+import { RestRepository } from "../../src/RestRepository";
+import {
+  FileSystemBlobStore,
+  ModelControllerBuilder,
+  parseRange,
+  readUpload,
+  responseHeadersOf,
+  responseStatusOf,
+} from "../../src/server";
+
+@model()
+class Document extends Model {
+  @pk({ type: "Number" })
+  id!: number;
+
+  @required()
+  name!: string;
+
+  @required()
+  attachment!: string;
+
+  constructor(arg?: ModelArg<Document>) {
+    super(arg);
+  }
+}
+
+const table = toKebabCase(Model.tableName(Document));
+
+async function bytesOf(stream: AsyncIterable<any>): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(Buffer.from(chunk));
+  return Buffer.concat(chunks).toString();
+}
+
+function multipart(
+  boundary: string,
+  parts: { name: string; filename?: string; type?: string; data: string }[]
+): Buffer {
+  return Buffer.from(
+    parts
+      .map(
+        ({ name, filename, type, data }) =>
+          `--${boundary}\r\nContent-Disposition: form-data; name="${name}"${
+            filename ? `; filename="${filename}"` : ""
+          }\r\n${type ? `Content-Type: ${type}\r\n` : ""}\r\n${data}\r\n`
+      )
+      .join("") + `--${boundary}--\r\n`
+  );
+}
+
+describe("FileSystemBlobStore", () => {
+  let root: string;
+  let store: FileSystemBlobStore;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), "blobs-"));
+    store = new FileSystemBlobStore(root);
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it("stores, reads ranges of and removes files", async () => {
+    const stored = await store.put("doc/1/attachment", Buffer.from("hello"), {
+      field: "attachment",
+      filename: "a.txt",
+      contentType: "text/plain",
+    });
+
+    expect(stored).toMatchObject({ size: 5, filename: "a.txt" });
+    expect(stored.etag).toMatch(/^".+"$/);
+    expect(await store.stat("doc/1/attachment")).toEqual(stored);
+    expect(await bytesOf(await store.read("doc/1/attachment"))).toEqual(
+      "hello"
+    );
+    expect(
+      await bytesOf(await store.read("doc/1/attachment", { start: 1, end: 3 }))
+    ).toEqual("ell");
+
+    expect(await store.delete("doc/1/attachment")).toBe(true);
+    expect(await store.stat("doc/1/attachment")).toBeUndefined();
+    await expect(store.read("doc/1/attachment")).rejects.toBeInstanceOf(
+      NotFoundError
+    );
+  });
+
+  it("keeps keys inside the root directory", async () => {
+    await store.put("../../escape", Buffer.from("x"), {
+      field: "f",
+      filename: "f",
+      contentType: "text/plain",
+    });
+
+    expect(await store.stat("../../escape")).toBeDefined();
+    expect(await store.stat("escape")).toBeUndefined();
+    expect(() => store["pathOf"]("/")).toThrow(BadRequestError);
+  });
+});
+
+describe("file upload helpers", () => {
+  it.each([
+    ["bytes=0-4", { start: 0, end: 4 }],
+    ["bytes=5-", { start: 5, end: 9 }],
+    ["bytes=-3", { start: 7, end: 9 }],
+    ["bytes=8-100", { start: 8, end: 9 }],
+    ["bytes=0-1,4-5", undefined],
+    ["items=0-1", undefined],
+    [undefined, undefined],
+  ])("parses the range %s", (header, expected) => {
+    expect(parseRange(header, 10)).toEqual(expected);
+  });
+
+  it("rejects ranges past the end of the file", () => {
+    expect(() => parseRange("bytes=10-", 10)).toThrow(BadRequestError);
+    try {
+      parseRange("bytes=-0", 10);
+    } catch (e: unknown) {
+      expect((e as { status: number }).status).toEqual(416);
+    }
+    expect.assertions(2);
+  });
+
+  it("reads the field and metadata parts of multipart bodies", async () => {
+    const body = multipart("xyz", [
+      { name: "other", data: "ignored" },
+      {
+        name: "attachment",
+        filename: "notes.txt",
+        type: "text/plain",
+        data: "line 1\r\nline 2",
+      },
+      { name: "metadata", data: '{"author":"me"}' },
+    ]);
+
+    const upload = await readUpload(
+      Readable.from([body.subarray(0, 20), body.subarray(20)]),
+      "multipart/form-data; boundary=xyz",
+      "attachment",
+      1024
+    );
+
+    expect(upload.data.toString()).toEqual("line 1\r\nline 2");
+    expect(upload).toMatchObject({
+      filename: "notes.txt",
+      contentType: "text/plain",
+      metadata: { author: "me" },
+    });
+    await expect(
+      readUpload(body, "multipart/form-data; boundary=xyz", "attachment", 4)
+    ).rejects.toMatchObject({ status: 413 });
+    await expect(
+      readUpload(body, "multipart/form-data; boundary=xyz", "missing", 1024)
+    ).rejects.toBeInstanceOf(BadRequestError);
+  });
+});
+
+describe("ModelControllerBuilder file routes", () => {
+  let root: string;
+  let store: FileSystemBlobStore;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), "files-"));
+    store = new FileSystemBlobStore(root);
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  function fileRoutes(persistence: any, mimeTypes?: string[]) {
+    const Controller = new ModelControllerBuilder(Document, persistence)
+      .addFileRoutes({
+        store,
+        mimeTypes,
+        maxSize: 1024,
+        fields: ["attachment"],
+      })
+      .build() as any;
+    const routes = Controller.__routes__.filter(
+      (route: any) => route.path === ":id/files/:field"
+    );
+    return {
+      upload: routes.find((route: any) => route.method === "POST"),
+      download: routes.find((route: any) => route.method === "GET"),
+    };
+  }
+
+  const withHeaders = (headers: Record<string, string>) => ({
+    get: (key: string) => (key === "headers" ? headers : undefined),
+  });
+
+  it("stores uploads and serves them with range support", async () => {
+    const read = jest.fn(async (id: string) => ({ id, name: "doc" }));
+    const { upload, download } = fileRoutes({ read }, ["text/*"]);
+
+    const stored = await upload.implementation.call(
+      {
+        ctx: withHeaders({
+          "content-type": "multipart/form-data; boundary=b1",
+        }),
+      },
+      multipart("b1", [
+        {
+          name: "attachment",
+          filename: "résumé.txt",
+          type: "text/plain",
+          data: "0123456789",
+        },
+      ]),
+      "1",
+      "attachment"
+    );
+    expect(read).toHaveBeenCalledWith("1", expect.anything());
+    expect(responseStatusOf(stored)).toEqual(201);
+    expect(responseHeadersOf(stored).etag).toEqual(stored.etag);
+    expect(
+      await store.stat(`${Model.tableName(Document)}/1/attachment`)
+    ).toEqual(stored);
+
+    const partial = await download.implementation.call(
+      { ctx: withHeaders({ range: "bytes=2-5" }) },
+      "1",
+      "attachment"
+    );
+    expect(responseStatusOf(partial)).toEqual(206);
+    expect(responseHeadersOf(partial)).toMatchObject({
+      "Content-Type": "text/plain",
+      "Content-Length": "4",
+      "Content-Range": "bytes 2-5/10",
+      "Accept-Ranges": "bytes",
+      etag: stored.etag,
+    });
+    expect(responseHeadersOf(partial)["Content-Disposition"]).toContain(
+      "filename*=UTF-8''r%C3%A9sum%C3%A9.txt"
+    );
+    expect(await bytesOf(partial)).toEqual("2345");
+  });
+
+  it("rejects unknown fields, refused types and missing records", async () => {
+    const read = jest.fn(async (id: string) => {
+      if (id === "2") throw new NotFoundError("missing");
+      return { id };
+    });
+    const { upload, download } = fileRoutes({ read }, ["image/*"]);
+    const ctx = withHeaders({ "content-type": "text/plain" });
+
+    await expect(
+      upload.implementation.call({ ctx }, "text", "1", "password")
+    ).rejects.toBeInstanceOf(BadRequestError);
+    await expect(
+      upload.implementation.call({ ctx }, "text", "1", "attachment")
+    ).rejects.toMatchObject({ status: 415 });
+    await expect(
+      download.implementation.call({ ctx }, "2", "attachment")
+    ).rejects.toBeInstanceOf(NotFoundError);
+    await expect(
+      download.implementation.call({ ctx }, "1", "attachment")
+    ).rejects.toBeInstanceOf(NotFoundError);
+  });
+});
+
+describe("RestRepository files", () => {
+  let adapter: AxiosHttpAdapter;
+  let repo: RestRepository<Document, AxiosHttpAdapter>;
+  let requestMock: jest.SpyInstance;
+
+  beforeEach(() => {
+    adapter = new AxiosHttpAdapter(
+      { protocol: "http", host: "localhost:8080", events: false },
+      `files-${Math.random()}`
+    );
+    repo = new RestRepository(adapter, Document);
+    requestMock = jest.spyOn(adapter.client as Axios, "request");
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("uploads streams as multipart forms", async () => {
+    const stored = {
+      field: "attachment",
+      filename: "a.txt",
+      contentType: "text/plain",
+      size: 5,
+      etag: '"e"',
+      updatedAt: "2024-01-01T00:00:00.000Z",
+    };
+    requestMock.mockImplementation(async (req: any) => {
+      req.onUploadProgress({ loaded: 5, total: 10 });
+      return { status: 201, headers: {}, data: stored };
+    });
+    const onProgress = jest.fn();
+
+    const result = await repo.upload(
+      1,
+      "attachment",
+      Readable.from([Buffer.from("he"), Buffer.from("llo")]),
+      {
+        filename: "a.txt",
+        contentType: "text/plain",
+        metadata: { author: "me" },
+        onProgress,
+      }
+    );
+
+    expect(result).toEqual(stored);
+    expect(onProgress).toHaveBeenCalledWith({
+      loaded: 5,
+      total: 10,
+      progress: 0.5,
+    });
+    const req = requestMock.mock.calls[0][0];
+    expect(req.method).toEqual("POST");
+    expect(new URL(req.url).pathname).toEqual(`/${table}/1/files/attachment`);
+    const file = req.data.get("attachment") as File;
+    expect(file.name).toEqual("a.txt");
+    expect(file.type).toEqual("text/plain");
+    expect(await file.text()).toEqual("hello");
+    expect(JSON.parse(req.data.get("metadata"))).toEqual({ author: "me" });
+  });
+
+  it("streams downloads, reporting the progress", async () => {
+    requestMock.mockResolvedValue({
+      status: 206,
+      headers: {
+        "content-type": "text/plain",
+        "content-length": "4",
+        "content-range": "bytes 2-5/10",
+        "content-disposition":
+          "attachment; filename*=UTF-8''r%C3%A9sum%C3%A9.txt",
+        etag: '"e"',
+      },
+      data: Readable.from([Buffer.from("23"), Buffer.from("45")]),
+    });
+    const onProgress = jest.fn();
+
+    const file = await repo.download(1, "attachment", {
+      range: { start: 2, end: 5 },
+      onProgress,
+    });
+
+    const req = requestMock.mock.calls[0][0];
+    expect(req.headers.Range).toEqual("bytes=2-5");
+    expect(req.responseType).toEqual("stream");
+    expect(file).toMatchObject({
+      contentType: "text/plain",
+      size: 4,
+      filename: "résumé.txt",
+      etag: '"e"',
+      range: { start: 2, end: 5, total: 10 },
+    });
+    expect(await bytesOf(file.body)).toEqual("2345");
+    expect(onProgress.mock.calls.map(([event]) => event.progress)).toEqual([
+      0.5, 1,
+    ]);
+  });
+
+  it("raises the error of failed downloads", async () => {
+    requestMock.mockResolvedValue({
+      status: 404,
+      headers: { "content-type": "application/json" },
+      data: Readable.from([
+        '{"error":{"name":"NotFoundError","message":"gone","status":404}}',
+      ]),
+    });
+
+    await expect(repo.download(1, "attachment")).rejects.toBeInstanceOf(
+      NotFoundError
+    );
+  });
+});
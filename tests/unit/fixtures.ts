@@ -0,0 +1,24 @@
+import { Axios } from "axios";
+import { AxiosHttpAdapter } from "../../src/axios";
+import { HttpConfig } from "../../src/types";
+
+/**
+ * @description Builds an axios adapter against a local host with its requests spied
+ * @summary Each call gets a fresh alias so the adapters never collide in the registry.
+ * @param {string} alias - The alias prefix, named after the suite
+ * @param {Partial<HttpConfig>} [config] - The configuration on top of the local host
+ * @return The adapter and the spy on its client's requests
+ */
+export function adapterWith(alias: string, config: Partial<HttpConfig> = {}) {
+  const adapter = new AxiosHttpAdapter(
+    {
+      protocol: "http",
+      host: "localhost:8080",
+      events: false,
+      ...config,
+    } as HttpConfig,
+    `${alias}-${Math.random()}`
+  );
+  const requestMock = jest.spyOn(adapter.client as Axios, "request");
+  return { adapter, requestMock };
+}
@@ -0,0 +1,55 @@
+import { Dispatch } from "@decaf-ts/core";
+import { HttpDispatcher } from "../../src/HttpDispatcher";
+import { ResyncOperation } from "../../src/constants";
+
+describe("HttpDispatcher.resync", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test("invalidates and updates every observed table", async () => {
+    const dispatcher = new HttpDispatcher() as any;
+    const contextual = {
+      log: {
+        error: () => {},
+        warn: () => {},
+        info: () => {},
+        debug: () => {},
+        verbose: () => {},
+        silly: () => {},
+      },
+      ctx: {},
+      ctxArgs: [],
+      for() {
+        return this;
+      },
+    };
+    dispatcher.logCtx = () => contextual;
+    dispatcher.adapter = {
+      invalidateCache: jest.fn(),
+      observerHandler: {
+        observers: [
+          { observer: { class: "tasks" } },
+          { observer: { class: "tasks" } },
+          { observer: { class: "users" } },
+          { observer: {} },
+        ],
+      },
+      toString: () => "test-http-adapter",
+    };
+    const updateObservers = jest
+      .spyOn(Dispatch.prototype, "updateObservers")
+      .mockResolvedValue(undefined);
+
+    await dispatcher.resync("the server restarted");
+
+    expect(dispatcher.adapter.invalidateCache.mock.calls).toEqual([
+      ["tasks"],
+      ["users"],
+    ]);
+    expect(updateObservers.mock.calls).toEqual([
+      ["tasks", ResyncOperation, []],
+      ["users", ResyncOperation, []],
+    ]);
+  });
+});
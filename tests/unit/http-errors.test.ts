@@ -0,0 +1,184 @@
+import {
+  BadRequestError,
+  ConflictError,
+  InternalError,
+  NotFoundError,
+  ValidationError,
+} from "@decaf-ts/db-decorators";
+import { AuthorizationError } from "@decaf-ts/core";
+import {
+  model,
+  Model,
+  ModelArg,
+  required,
+} from "@decaf-ts/decorator-validation";
+import { pk } from "@decaf-ts/core";
+import { AxiosHttpAdapter } from "../../src/axios";
+import { HttpAdapter } from "../../src/adapter";
+import { DecafHeaders } from "../../src/constants";
+import {
+  deserializeError,
+  serializeError,
+  stripErrorPrefix,
+} from "../../src/errors";
+import { ModelControllerBuilder } from "../../src/server/controllers/ModelControllerBuilder";
+import { Axios } from "axios";
+import { Context } from "@decaf-ts/core";
+import { Logging } from "@decaf-ts/logging";
+
+@model()
+class ErrorModel extends Model {
+  @pk()
+  id!: string;
+
+  @required()
+  name!: string;
+
+  constructor(arg?: ModelArg<ErrorModel>) {
+    super(arg);
+  }
+}
+
+describe("HTTP error serialization", () => {
+  it("serializes errors with their class, status and original message", () => {
+    const { status, body } = serializeError(
+      new NotFoundError("record 1 not found"),
+      "cid-1"
+    );
+    expect(status).toBe(404);
+    expect(body.error).toEqual({
+      name: NotFoundError.name,
+      message: "record 1 not found",
+      status: 404,
+      correlationId: "cid-1",
+    });
+  });
+
+  it("reports unknown errors as internal errors", () => {
+    const { status, body } = serializeError(new Error("boom"));
+    expect(status).toBe(500);
+    expect(body.error.name).toBe(InternalError.name);
+  });
+
+  it("keeps field level validation details", () => {
+    const details = { name: { required: "name is required" } };
+    const { status, body } = serializeError(
+      new ValidationError(JSON.stringify(details))
+    );
+    expect(status).toBe(422);
+    expect(body.error.details).toEqual(details);
+  });
+
+  it("rebuilds the exact error class from the payload", () => {
+    const { body } = serializeError(
+      new AuthorizationError("token expired"),
+      "cid-2"
+    );
+    const error = deserializeError(401, JSON.stringify(body));
+    expect(error).toBeInstanceOf(AuthorizationError);
+    expect(stripErrorPrefix(error!.message)).toBe("token expired");
+    expect(error!.correlationId).toBe("cid-2");
+    expect(error!.status).toBe(401);
+  });
+
+  it("falls back to the status code without a payload", () => {
+    expect(deserializeError(404, "missing")).toBeInstanceOf(NotFoundError);
+    expect(deserializeError(412)).toBeInstanceOf(ConflictError);
+    expect(deserializeError(418)).toBeInstanceOf(BadRequestError);
+    expect(deserializeError(undefined, "nothing")).toBeUndefined();
+  });
+
+  it("no longer maps errors by digits found in their message", () => {
+    const error = HttpAdapter.parseError(new Error("cannot import 400 items"));
+    expect(error).toBeInstanceOf(InternalError);
+  });
+});
+
+describe("HttpAdapter error decoding", () => {
+  let adapter: AxiosHttpAdapter;
+
+  beforeAll(() => {
+    adapter = new AxiosHttpAdapter(
+      { protocol: "http", host: "localhost:8080", events: false },
+      `errors-${Math.random()}`
+    );
+  });
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("reconstructs the server error from a failed response", async () => {
+    const details = { name: { required: "name is required" } };
+    jest.spyOn(adapter.client as Axios, "request").mockResolvedValue({
+      status: 422,
+      headers: {},
+      data: JSON.stringify(
+        serializeError(new ValidationError(JSON.stringify(details)), "cid-3")
+          .body
+      ),
+    } as any);
+
+    const ctx = new Context().accumulate({ logger: Logging.get() });
+    const failure = await adapter
+      .create(ErrorModel, "1", { id: "1" }, ctx)
+      .catch((e) => e);
+    expect(failure).toBeInstanceOf(ValidationError);
+    expect(failure.details).toEqual(details);
+    expect(failure.correlationId).toBe("cid-3");
+  });
+});
+
+describe("ModelControllerBuilder error serialization", () => {
+  it("attaches the serialized payload to route failures", async () => {
+    const persistence = {
+      class: ErrorModel,
+      read: async (id: string) => {
+        throw new NotFoundError(`${id} not found`);
+      },
+    } as any;
+    const Controller = new ModelControllerBuilder(ErrorModel, persistence)
+      .addReadRoute()
+      .build() as any;
+    const route = Controller.__routes__[0];
+    const ctx = {
+      get: (key: string) =>
+        key === "headers"
+          ? { [DecafHeaders.CORRELATION_ID]: "cid-4" }
+          : undefined,
+    };
+
+    const failure = await route.implementation
+      .call({ ctx, persistence }, "7")
+      .catch((e: any) => e);
+    expect(failure).toBeInstanceOf(NotFoundError);
+    expect(failure.status).toBe(404);
+    expect(failure.body).toEqual({
+      error: {
+        name: NotFoundError.name,
+        message: "7 not found",
+        status: 404,
+        correlationId: "cid-4",
+      },
+    });
+  });
+
+  it("can be disabled", async () => {
+    const persistence = {
+      class: ErrorModel,
+      read: async () => {
+        throw new NotFoundError("gone");
+      },
+    } as any;
+    const Controller = new ModelControllerBuilder(ErrorModel, persistence)
+      .withErrorSerializer(undefined)
+      .addReadRoute()
+      .build() as any;
+
+    const failure = await Controller.__routes__[0].implementation
+      .call({ persistence }, "1")
+      .catch((e: any) => e);
+    expect(failure).toBeInstanceOf(NotFoundError);
+    expect(failure.body).toBeUndefined();
+  });
+});
@@ -0,0 +1,177 @@
+import { Context, pk } from "@decaf-ts/core";
+import { ConflictError } from "@decaf-ts/db-decorators";
+import {
+  model,
+  Model,
+  ModelArg,
+  required,
+} from "@decaf-ts/decorator-validation";
+import { Logging } from "@decaf-ts/logging";
+import { AxiosHttpAdapter } from "../../src/axios";
+import { DecafHeaders } from "../../src/constants";
+import { TaskInterceptor } from "../../src/interceptors";
+import { adapterWith } from "./fixtures";
+
+@model()
+class InterceptedModel extends Model {
+  @pk()
+  id!: string;
+
+  @required()
+  name!: string;
+
+  constructor(arg?: ModelArg<InterceptedModel>) {
+    super(arg);
+  }
+}
+
+describe("HttpAdapter interceptors", () => {
+  let adapter: AxiosHttpAdapter;
+  let requestMock: jest.SpyInstance;
+  const ctx = () => new Context().accumulate({ logger: Logging.get() });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("rewrites requests for CRUD and raw calls alike", async () => {
+    ({ adapter, requestMock } = adapterWith("interceptors", {
+      interceptors: [
+        {
+          request: async (req, context) => {
+            expect(context).toBeInstanceOf(Context);
+            return { ...req, headers: { ...req.headers, "x-tenant": "t1" } };
+          },
+        },
+      ],
+    }));
+    requestMock.mockResolvedValue({
+      status: 200,
+      headers: {},
+      data: { id: "1", name: "a" },
+    });
+
+    await adapter.read(InterceptedModel, "1", ctx());
+    await adapter.get("http://localhost:8080/other", undefined, ctx());
+
+    for (const [details] of requestMock.mock.calls) {
+      expect(details.headers["x-tenant"]).toEqual("t1");
+      expect(details.headers[DecafHeaders.CORRELATION_ID]).toBeDefined();
+    }
+  });
+
+  it("runs hooks in order and answers short-circuited requests", async () => {
+    const calls: string[] = [];
+    ({ adapter, requestMock } = adapterWith("interceptors", {
+      interceptors: [
+        {
+          request: () => {
+            calls.push("first");
+            return { status: 200, data: { id: "1", name: "cached" } };
+          },
+          response: (res) => {
+            calls.push("response");
+            return res;
+          },
+        },
+        {
+          request: () => {
+            calls.push("second");
+          },
+        },
+      ],
+    }));
+
+    const record = await adapter.read(InterceptedModel, "1", ctx());
+    expect(record).toEqual({ id: "1", name: "cached" });
+    expect(calls).toEqual(["first", "response"]);
+    expect(requestMock).not.toHaveBeenCalled();
+  });
+
+  it("replaces responses", async () => {
+    ({ adapter, requestMock } = adapterWith("interceptors", {
+      interceptors: [
+        {
+          response: (res) => ({ ...res, data: res.data.envelope }),
+        },
+      ],
+    }));
+    requestMock.mockResolvedValue({
+      status: 200,
+      headers: {},
+      data: { envelope: { id: "1", name: "a" } },
+    });
+    const record = await adapter.read(InterceptedModel, "1", ctx());
+    expect(record).toEqual({ id: "1", name: "a" });
+  });
+
+  it("recovers from thrown errors", async () => {
+    ({ adapter, requestMock } = adapterWith("interceptors", {
+      interceptors: [
+        {
+          error: (error) =>
+            error.code === "ECONNREFUSED"
+              ? { status: 200, data: { id: "1", name: "offline" } }
+              : undefined,
+        },
+      ],
+    }));
+    requestMock.mockRejectedValue(
+      Object.assign(new Error("refused"), { code: "ECONNREFUSED" })
+    );
+    const record = await adapter.read(InterceptedModel, "1", ctx());
+    expect(record.name).toEqual("offline");
+  });
+
+  it("transforms error statuses", async () => {
+    const error = jest.fn((e: any) => {
+      if (e.status === 423) throw new ConflictError("locked");
+    });
+    ({ adapter, requestMock } = adapterWith("interceptors", {
+      interceptors: [{ error }],
+    }));
+    requestMock.mockResolvedValue({ status: 423, headers: {}, data: "" });
+
+    await expect(
+      adapter.read(InterceptedModel, "1", ctx())
+    ).rejects.toBeInstanceOf(ConflictError);
+    expect(error.mock.calls[0][0].response.status).toBe(423);
+  });
+
+  it("registers and removes interceptors at runtime", async () => {
+    ({ adapter, requestMock } = adapterWith("interceptors"));
+    requestMock.mockResolvedValue({ status: 200, headers: {}, data: {} });
+    const request = jest.fn();
+    const remove = adapter.intercept({ request });
+
+    await adapter.get("http://localhost:8080/a", undefined, ctx());
+    remove();
+    await adapter.get("http://localhost:8080/a", undefined, ctx());
+
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it("collects pending tasks and keeps response parsers working", async () => {
+    const parser = jest.fn();
+    ({ adapter, requestMock } = adapterWith("interceptors", {
+      interceptors: [TaskInterceptor],
+      parsers: [parser],
+    }));
+    requestMock.mockResolvedValue({
+      status: 200,
+      headers: {
+        [DecafHeaders.PENDING_TASK]: JSON.stringify({ migration: ["t1"] }),
+      },
+      data: { id: "1", name: "a" },
+    });
+    const pushPending = jest.spyOn(Context.prototype, "pushPending");
+
+    await adapter.read(InterceptedModel, "1", ctx());
+
+    expect(pushPending).toHaveBeenCalledWith("migration", "t1");
+    expect(parser).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 200 }),
+      expect.any(Context)
+    );
+  });
+});
@@ -82,6 +82,7 @@ describe("server/controllers/ModelControllerFactory", () => {
       .addCreateRoute()
       .addReadRoute()
       .addUpdateRoute()
+      .addPatchRoute()
       .addDeleteRoute()
       .addBulkCreateRoute()
       .addBulkReadRoute()
@@ -95,6 +96,7 @@ describe("server/controllers/ModelControllerFactory", () => {
       .addFindOneByRoute()
       .addFindByRoute()
       .addComplexQueries(persistence)
+      .addQueryRoute()
       .addGroupingQueryRoute()
       .build();
 
@@ -115,6 +117,7 @@ describe("server/controllers/ModelControllerFactory", () => {
           .addCreateRoute()
           .addReadRoute()
           .addUpdateRoute()
+          .addPatchRoute()
           .addDeleteRoute()
           .addBulkCreateRoute()
           .addBulkReadRoute()
@@ -127,6 +130,7 @@ describe("server/controllers/ModelControllerFactory", () => {
           .addPageRoute()
           .addFindOneByRoute()
           .addFindByRoute()
+          .addQueryRoute()
           .addGroupingQueryRoute()
           .build()
       )
@@ -141,6 +145,7 @@ describe("server/controllers/ModelControllerFactory", () => {
       .addCreateRoute()
       .addReadRoute()
       .addUpdateRoute()
+      .addPatchRoute()
       .addDeleteRoute()
       .addBulkCreateRoute()
       .addBulkReadRoute()
@@ -152,6 +157,7 @@ describe("server/controllers/ModelControllerFactory", () => {
       .addPageRoute()
       .addFindOneByRoute()
       .addFindByRoute()
+      .addQueryRoute()
       .addGroupingQueryRoute()
       .build();
 
@@ -172,6 +178,8 @@ describe("server/controllers/ModelControllerFactory", () => {
         { method: "GET", path: ":productCode/:marketId" },
         { method: "PUT", path: ":productCode" },
         { method: "PUT", path: ":productCode/:marketId" },
+        { method: "PATCH", path: ":productCode" },
+        { method: "PATCH", path: ":productCode/:marketId" },
         { method: "DELETE", path: ":productCode" },
         { method: "DELETE", path: ":productCode/:marketId" },
       ])
@@ -192,6 +200,7 @@ describe("server/controllers/ModelControllerFactory", () => {
     ]) {
       expect(hasRoute("GET", path)).toBe(true);
       expect(hasRoute("PUT", path)).toBe(true);
+      expect(hasRoute("PATCH", path)).toBe(true);
       expect(hasRoute("DELETE", path)).toBe(true);
     }
   });
@@ -0,0 +1,349 @@
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ConnectionError, Context, pk } from "@decaf-ts/core";
+import { ConflictError, InternalError } from "@decaf-ts/db-decorators";
+import {
+  model,
+  Model,
+  ModelArg,
+  required,
+} from "@decaf-ts/decorator-validation";
+import { Logging, toKebabCase } from "@decaf-ts/logging";
+import { AxiosHttpAdapter } from "../../src/axios";
+import { OfflineEvents } from "../../src/constants";
+import {
+  FileQueueStorage,
+  KeyValueQueueStorage,
+  MemoryQueueStorage,
+} from "../../src/offline";
+import { OfflineConfig, OfflineMutation } from "../../src/types";
+import { adapterWith } from "./fixtures";
+
+@model()
+class OfflineModel extends Model {
+  @pk()
+  id!: string;
+
+  @required()
+  name!: string;
+
+  constructor(arg?: ModelArg<OfflineModel>) {
+    super(arg);
+  }
+}
+
+const table = toKebabCase(Model.tableName(OfflineModel));
+const ctx = (headers?: Record<string, string>) =>
+  new Context().accumulate({ logger: Logging.get(), headers } as any);
+const refused = () =>
+  Object.assign(new Error("connect ECONNREFUSED"), { code: "ECONNREFUSED" });
+
+describe("HttpAdapter offline queue", () => {
+  let adapter: AxiosHttpAdapter;
+  let requestMock: jest.SpyInstance;
+  let observed: jest.SpyInstance;
+  let online: boolean;
+  let answer: (details: any) => any;
+
+  function connect(offline: boolean | Partial<OfflineConfig>) {
+    ({ adapter, requestMock } = adapterWith("offline", { offline }));
+    requestMock.mockImplementation(async (details: any) => {
+      if (!online) throw refused();
+      return answer(details);
+    });
+    observed = jest
+      .spyOn(adapter, "updateObservers")
+      .mockResolvedValue(undefined);
+  }
+
+  const sent = () =>
+    requestMock.mock.calls.map(
+      ([details]) =>
+        `${details.method.toUpperCase()} ${details.url.replace(/^http:\/\/localhost:8080/, "")}`
+    );
+  const events = () =>
+    observed.mock.calls.map(([, event, id, payload]) => [
+      event,
+      id,
+      payload.pending,
+    ]);
+
+  beforeEach(() => {
+    online = true;
+    answer = (details) => ({
+      status: 200,
+      headers: {},
+      data: details.data ?? { id: "1", name: "stored" },
+    });
+  });
+
+  afterEach(() => {
+    adapter.offlineQueue?.dispose();
+    jest.restoreAllMocks();
+  });
+
+  it("queues writes the server could not be reached for", async () => {
+    connect({ retryInterval: 60_000 });
+    online = false;
+
+    const created = await adapter.create(
+      OfflineModel,
+      "1",
+      { id: "1", name: "draft" },
+      ctx({ Authorization: "Bearer a" })
+    );
+
+    expect(created).toEqual({ id: "1", name: "draft" });
+    const [mutation] = (await adapter.offlineQueue?.pending()) ?? [];
+    expect(mutation).toMatchObject({
+      table,
+      record: "1",
+      method: "POST",
+      url: `http://localhost:8080/${table}/1`,
+      attempts: 0,
+    });
+    expect(mutation.headers).toMatchObject({ Authorization: "Bearer a" });
+    expect(Object.keys(mutation.headers)).not.toContain("x-correlation-id");
+    expect(events()).toEqual([[OfflineEvents.QUEUED, "1", 1]]);
+  });
+
+  it("queues every write behind pending ones and replays them in order", async () => {
+    connect({ retryInterval: 60_000 });
+    online = false;
+    await adapter.create(OfflineModel, "1", { id: "1", name: "a" }, ctx());
+    online = true;
+    await adapter.update(OfflineModel, "1", { id: "1", name: "b" }, ctx());
+    await adapter.delete(OfflineModel, "2", ctx());
+
+    expect(requestMock).toHaveBeenCalledTimes(1);
+    expect(await adapter.offlineQueue?.size()).toBe(3);
+
+    await adapter.replayOfflineQueue();
+
+    expect(sent()).toEqual([
+      `POST /${table}/1`,
+      `POST /${table}/1`,
+      `PUT /${table}/1`,
+      `DELETE /${table}/2`,
+    ]);
+    expect(await adapter.offlineQueue?.size()).toBe(0);
+    expect(events().slice(3)).toEqual([
+      [OfflineEvents.REPLAYED, "1", 2],
+      [OfflineEvents.REPLAYED, "1", 1],
+      [OfflineEvents.REPLAYED, "2", 0],
+    ]);
+  });
+
+  it("keeps mutations queued while the server is still unreachable", async () => {
+    connect({ retryInterval: 60_000 });
+    online = false;
+    await adapter.create(OfflineModel, "1", { id: "1", name: "a" }, ctx());
+
+    await adapter.replayOfflineQueue();
+
+    const pending = (await adapter.offlineQueue?.pending()) ?? [];
+    expect(pending).toHaveLength(1);
+    expect(pending[0].attempts).toBe(1);
+  });
+
+  it("replays on its own after the retry interval", async () => {
+    connect({ retryInterval: 10 });
+    online = false;
+    await adapter.create(OfflineModel, "1", { id: "1", name: "a" }, ctx());
+    online = true;
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(sent()).toEqual([`POST /${table}/1`, `POST /${table}/1`]);
+    expect(await adapter.offlineQueue?.size()).toBe(0);
+  });
+
+  it("resends conflicting mutations as resolved by onConflict", async () => {
+    const onConflict = jest.fn(() => ({
+      data: JSON.stringify({ id: "1", name: "merged" }),
+      headers: { "if-match": '"v2"' },
+    }));
+    connect({ retryInterval: 60_000, onConflict });
+    online = false;
+    await adapter.update(OfflineModel, "1", { id: "1", name: "b" }, ctx());
+    online = true;
+    answer = (details) =>
+      details.headers["if-match"] === '"v2"'
+        ? { status: 200, headers: {}, data: details.data }
+        : { status: 412, headers: {}, data: "" };
+
+    await adapter.replayOfflineQueue();
+
+    expect(onConflict).toHaveBeenCalledTimes(1);
+    const [mutation, error] = onConflict.mock.calls[0] as unknown as [
+      OfflineMutation,
+      Error,
+    ];
+    expect(mutation.method).toEqual("PUT");
+    expect(error).toBeInstanceOf(ConflictError);
+    expect(JSON.parse(requestMock.mock.calls[2][0].data)).toEqual({
+      id: "1",
+      name: "merged",
+    });
+    expect(await adapter.offlineQueue?.size()).toBe(0);
+    expect(events().map(([event]) => event)).toEqual([
+      OfflineEvents.QUEUED,
+      OfflineEvents.CONFLICT,
+      OfflineEvents.REPLAYED,
+    ]);
+  });
+
+  it("halts the replay when onConflict asks to", async () => {
+    connect({ retryInterval: 60_000, onConflict: () => "halt" });
+    online = false;
+    await adapter.update(OfflineModel, "1", { id: "1", name: "b" }, ctx());
+    await adapter.delete(OfflineModel, "2", ctx());
+    online = true;
+    answer = () => ({ status: 409, headers: {}, data: "" });
+
+    await adapter.replayOfflineQueue();
+
+    expect(await adapter.offlineQueue?.size()).toBe(2);
+    expect(sent()).toEqual([`PUT /${table}/1`, `PUT /${table}/1`]);
+  });
+
+  it("discards conflicting mutations without onConflict, and rejected ones", async () => {
+    connect({ retryInterval: 60_000 });
+    online = false;
+    await adapter.update(OfflineModel, "1", { id: "1", name: "b" }, ctx());
+    await adapter.update(OfflineModel, "2", { id: "2", name: "c" }, ctx());
+    online = true;
+    answer = (details) =>
+      details.url.endsWith("/1")
+        ? { status: 409, headers: {}, data: "" }
+        : { status: 400, headers: {}, data: "" };
+
+    await adapter.replayOfflineQueue();
+
+    expect(await adapter.offlineQueue?.size()).toBe(0);
+    expect(events().slice(2)).toEqual([
+      [OfflineEvents.CONFLICT, "1", 1],
+      [OfflineEvents.FAILED, "2", 0],
+    ]);
+  });
+
+  it("does not queue requests the server answered", async () => {
+    connect({ retryInterval: 60_000 });
+    answer = () => ({ status: 500, headers: {}, data: "" });
+
+    await expect(
+      adapter.create(OfflineModel, "1", { id: "1", name: "a" }, ctx())
+    ).rejects.toBeInstanceOf(InternalError);
+    expect(await adapter.offlineQueue?.size()).toBe(0);
+  });
+
+  it("raises a ConnectionError when disabled", async () => {
+    connect(false);
+    online = false;
+    await expect(
+      adapter.create(OfflineModel, "1", { id: "1", name: "a" }, ctx())
+    ).rejects.toBeInstanceOf(ConnectionError);
+    expect(adapter.offlineQueue).toBeUndefined();
+  });
+
+  it("serves reads from the last cached response while offline", async () => {
+    connect(true);
+    const first = await adapter.read(OfflineModel, "1", ctx());
+    online = false;
+
+    const second = await adapter.read(OfflineModel, "1", ctx());
+
+    expect(second).toEqual(first);
+    expect(requestMock).toHaveBeenCalledTimes(2);
+    await expect(adapter.read(OfflineModel, "2", ctx())).rejects.toBeInstanceOf(
+      ConnectionError
+    );
+  });
+});
+
+describe("offline queue storages", () => {
+  const mutation = (id: string): OfflineMutation => ({
+    id,
+    table,
+    record: id,
+    method: "PUT",
+    url: `http://localhost:8080/${table}/${id}`,
+    headers: {},
+    data: JSON.stringify({ id }),
+    queuedAt: Date.now(),
+    attempts: 0,
+  });
+
+  it("keeps mutations in memory", async () => {
+    const storage = new MemoryQueueStorage();
+    storage.push(mutation("1"));
+    storage.push(mutation("2"));
+    storage.update(Object.assign(mutation("1"), { attempts: 2 }));
+    storage.remove("2");
+    expect(storage.all().map((m) => [m.id, m.attempts])).toEqual([["1", 2]]);
+  });
+
+  it("persists mutations in a key-value store", async () => {
+    const values = new Map<string, string>();
+    const store = {
+      getItem: async (key: string) => values.get(key),
+      setItem: async (key: string, value: string) => {
+        values.set(key, value);
+      },
+      removeItem: async (key: string) => {
+        values.delete(key);
+      },
+    };
+    const storage = new KeyValueQueueStorage(store, "queue");
+    await Promise.all([
+      storage.push(mutation("1")),
+      storage.push(mutation("2")),
+    ]);
+
+    const reopened = new KeyValueQueueStorage(store, "queue");
+    expect((await reopened.all()).map((m) => m.id)).toEqual(["1", "2"]);
+    await reopened.clear();
+    expect(values.has("queue")).toBe(false);
+  });
+
+  it("persists binary payloads", async () => {
+    const values = new Map<string, string>();
+    const store = {
+      getItem: (key: string) => values.get(key),
+      setItem: (key: string, value: string) => {
+        values.set(key, value);
+      },
+      removeItem: (key: string) => {
+        values.delete(key);
+      },
+    };
+    const bytes = Uint8Array.from([0x82, 0xa2, 0x69, 0x64, 0x00, 0xff]);
+    await new KeyValueQueueStorage(store).push(
+      Object.assign(mutation("1"), { data: bytes.buffer })
+    );
+
+    const [stored] = await new KeyValueQueueStorage(store).all();
+    expect(stored.data).toBeInstanceOf(ArrayBuffer);
+    expect(new Uint8Array(stored.data as ArrayBuffer)).toEqual(bytes);
+  });
+
+  it("persists mutations in a file", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "offline-queue-"));
+    const path = join(dir, "queue.json");
+    try {
+      const storage = new FileQueueStorage(path);
+      expect(await storage.all()).toEqual([]);
+      await storage.push(mutation("1"));
+      await storage.push(mutation("2"));
+      await storage.remove("1");
+
+      expect(JSON.parse(await readFile(path, "utf8"))).toHaveLength(1);
+      expect((await new FileQueueStorage(path).all()).map((m) => m.id)).toEqual(
+        ["2"]
+      );
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
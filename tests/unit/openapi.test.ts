@@ -0,0 +1,127 @@
+import { BaseModel, column, pk, table } from "@decaf-ts/core";
+import {
+  date,
+  email,
+  list,
+  max,
+  min,
+  model,
+  option,
+  required,
+  type ModelArg,
+} from "@decaf-ts/decorator-validation";
+import {
+  ModelControllerFactory,
+  OpenApiGenerator,
+  ServerControllerBuilder,
+} from "../../src/server";
+
+@table("openapi_customer")
+@model()
+class OpenApiCustomer extends BaseModel {
+  @pk()
+  id!: string;
+
+  @required()
+  @email()
+  @column()
+  email!: string;
+
+  @option(["basic", "gold"])
+  @column()
+  tier?: string;
+
+  @min(0)
+  @max(120)
+  @column()
+  age?: number;
+
+  @date()
+  @column()
+  since?: Date;
+
+  @list(String)
+  @column()
+  tags?: string[];
+
+  constructor(arg?: ModelArg<OpenApiCustomer>) {
+    super(arg);
+  }
+}
+
+describe("OpenApiGenerator", () => {
+  const controller = () =>
+    ModelControllerFactory.create(
+      OpenApiCustomer,
+      {},
+      {
+        auth: { roles: ["sales"] },
+      }
+    );
+
+  it("describes models from their validation metadata", () => {
+    const document = new OpenApiGenerator({ title: "Shop", version: "1.0.0" })
+      .addController(controller())
+      .generate();
+
+    expect(document.openapi).toEqual("3.1.0");
+    const schema = document.components.schemas.OpenApiCustomer;
+    expect(schema.required).toEqual(["email"]);
+    expect(schema.properties.email).toMatchObject({
+      type: "string",
+      format: "email",
+    });
+    expect(schema.properties.tier.enum).toEqual(["basic", "gold"]);
+    expect(schema.properties.age).toMatchObject({ minimum: 0, maximum: 120 });
+    expect(schema.properties.since).toMatchObject({ format: "date-time" });
+    expect(schema.properties.tags).toMatchObject({
+      type: "array",
+      items: { type: "string" },
+    });
+  });
+
+  it("describes the routes of model controllers", () => {
+    const { paths } = new OpenApiGenerator({ title: "Shop", version: "1.0.0" })
+      .addController(controller())
+      .generate();
+
+    const read = paths["/openapi-customer/{id}"].get;
+    expect(read.parameters).toEqual([
+      { name: "id", in: "path", required: true, schema: { type: "string" } },
+    ]);
+    expect(read.responses[200].content["application/json"].schema).toEqual({
+      $ref: "#/components/schemas/OpenApiCustomer",
+    });
+    expect(read.security).toEqual([{ bearerAuth: ["sales"] }]);
+    expect(read.tags).toEqual(["OpenApiCustomer"]);
+    expect(
+      paths["/openapi-customer/bulk"].post.requestBody.content[
+        "application/json"
+      ].schema
+    ).toEqual({
+      type: "array",
+      items: { $ref: "#/components/schemas/OpenApiCustomer" },
+    });
+    expect(
+      paths["/openapi-customer/statement/{method}/{args}"].get
+    ).toBeDefined();
+  });
+
+  it("serves the document on a public route", async () => {
+    const openapi = new OpenApiGenerator({
+      title: "Shop",
+      version: "1.0.0",
+    }).addController(controller());
+    const Docs = new ServerControllerBuilder()
+      .withPath("docs")
+      .addMethodFromRoute(openapi.buildRoute())
+      .build() as any;
+    openapi.addController(Docs);
+
+    const route = Docs.__routes__[0];
+    const document = await route.implementation();
+
+    expect(document.paths["/docs/openapi.json"].get.security).toEqual([]);
+    expect(document).toBe(await route.implementation());
+  });
+});
@@ -0,0 +1,184 @@
+import {
+  OrderDirection,
+  PersistenceKeys,
+  pk,
+  PreparedStatement,
+} from "@decaf-ts/core";
+import {
+  model,
+  Model,
+  ModelArg,
+  required,
+} from "@decaf-ts/decorator-validation";
+import { toKebabCase } from "@decaf-ts/logging";
+import { Axios } from "axios";
+import { AxiosHttpAdapter } from "../../src/axios";
+import { HttpPaginator } from "../../src/HttpPaginator";
+import { RestRepository } from "../../src/RestRepository";
+
+@model()
+class PagedModel extends Model {
+  @pk({ type: "Number" })
+  id!: number;
+
+  @required()
+  name!: string;
+
+  constructor(arg?: ModelArg<PagedModel>) {
+    super(arg);
+  }
+}
+
+const table = toKebabCase(Model.tableName(PagedModel));
+const records = [1, 2, 3, 4, 5].map((id) => ({ id, name: `n${id}` }));
+
+describe("HttpPaginator iteration", () => {
+  let adapter: AxiosHttpAdapter;
+  let repo: RestRepository<PagedModel, AxiosHttpAdapter>;
+  let requestMock: jest.SpyInstance;
+
+  function paginator(query: Partial<PreparedStatement<PagedModel>>) {
+    return adapter.Paginator(
+      Object.assign({ class: PagedModel, args: [], params: {} }, query) as any,
+      2,
+      PagedModel
+    ) as unknown as HttpPaginator<PagedModel, any, any>;
+  }
+
+  function bookmarkedPages() {
+    requestMock.mockImplementation(async (req: any) => {
+      const url = new URL(req.url);
+      const current = Number(url.searchParams.get("offset"));
+      return {
+        status: 200,
+        headers: {},
+        data: {
+          data: records.slice((current - 1) * 2, current * 2),
+          current,
+          count: records.length,
+          total: 3,
+          bookmark: current < 3 ? `bk-${current}` : undefined,
+        },
+      };
+    });
+  }
+
+  beforeEach(() => {
+    adapter = new AxiosHttpAdapter(
+      { protocol: "http", host: "localhost:8080", events: false },
+      `pages-${Math.random()}`
+    );
+    repo = new RestRepository(adapter, PagedModel);
+    requestMock = jest.spyOn(adapter.client as Axios, "request");
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("iterates every record following the returned bookmarks", async () => {
+    bookmarkedPages();
+
+    const ids: number[] = [];
+    for await (const record of repo.iterate("listBy", ["name"], {
+      size: 2,
+      direction: OrderDirection.DSC,
+    })) {
+      expect(record).toBeInstanceOf(PagedModel);
+      ids.push(record.id);
+    }
+
+    expect(ids).toEqual([1, 2, 3, 4, 5]);
+    expect(requestMock).toHaveBeenCalledTimes(3);
+    const urls = requestMock.mock.calls.map(([req]) => new URL(req.url));
+    expect(urls[0].pathname).toEqual(`/${table}/statement/paginateBy/name`);
+    expect(urls[0].searchParams.get("direction")).toEqual(OrderDirection.DSC);
+    expect(urls[0].searchParams.get("limit")).toEqual("2");
+    expect(urls[0].searchParams.get("bookmark")).toBeNull();
+    expect(urls[1].searchParams.get("bookmark")).toEqual("bk-1");
+    expect(urls[2].searchParams.get("bookmark")).toEqual("bk-2");
+  });
+
+  it("keeps a window of offset pages in flight", async () => {
+    requestMock.mockImplementation(async (req: any) => {
+      const offset = Number(new URL(req.url).searchParams.get("offset"));
+      return {
+        status: 200,
+        headers: {},
+        data: records.slice(offset, offset + 2),
+      };
+    });
+    const pages = paginator({
+      method: PersistenceKeys.QUERY,
+      params: { where: { attr: "id", op: "BIGGER", value: 0 } },
+    });
+
+    const seen: number[][] = [];
+    for await (const page of pages.pages({ window: 3 })) {
+      if (!seen.length) expect(requestMock).toHaveBeenCalledTimes(4);
+      seen.push(page.map((record) => record.id));
+    }
+
+    expect(seen).toEqual([[1, 2], [3, 4], [5]]);
+    expect(
+      requestMock.mock.calls.map(([req]) => {
+        const url = new URL(req.url);
+        expect(url.pathname).toEqual(`/${table}/${PersistenceKeys.QUERY}`);
+        return url.searchParams.get("offset");
+      })
+    ).toEqual(["0", "2", "4", "6", "8"]);
+    expect(pages.current).toEqual(3);
+  });
+
+  it("pages custom query methods and default queries", async () => {
+    requestMock.mockImplementation(async (req: any) => {
+      const url = new URL(req.url);
+      const current = Number(url.searchParams.get("offset"));
+      const data = records.slice((current - 1) * 2, current * 2);
+      return {
+        status: 200,
+        headers: {},
+        data: url.pathname.includes("/page/")
+          ? { data, current, count: records.length, total: 3 }
+          : data,
+      };
+    });
+
+    const custom: number[] = [];
+    for await (const record of repo.iterate("findActive", [true], {
+      size: 2,
+      prefetch: false,
+    }))
+      custom.push(record.id);
+    expect(custom).toEqual([1, 2, 3, 4, 5]);
+    expect(new URL(requestMock.mock.calls[0][0].url).pathname).toEqual(
+      `/${table}/statement/findActive/true`
+    );
+
+    requestMock.mockClear();
+    const byDefault = paginator({
+      method: "find",
+      args: ["n", OrderDirection.ASC],
+    });
+    await byDefault.page(2);
+    expect(byDefault.current).toEqual(2);
+    expect(byDefault.total).toEqual(3);
+    expect(new URL(requestMock.mock.calls[0][0].url).pathname).toEqual(
+      `/${table}/statement/page/n/${OrderDirection.ASC}`
+    );
+  });
+
+  it("stops when the signal is aborted", async () => {
+    bookmarkedPages();
+    const controller = new AbortController();
+    const reason = new Error("stop");
+    const iterator = paginator({ method: "listBy", args: ["name"] }).pages({
+      signal: controller.signal,
+    });
+
+    expect((await iterator.next()).value).toHaveLength(2);
+    controller.abort(reason);
+    await expect(iterator.next()).rejects.toBe(reason);
+    expect((await iterator.next()).done).toBe(true);
+  });
+});
@@ -0,0 +1,324 @@
+import { ConflictError, BadRequestError } from "@decaf-ts/db-decorators";
+import { pk } from "@decaf-ts/core";
+import {
+  model,
+  Model,
+  ModelArg,
+  required,
+} from "@decaf-ts/decorator-validation";
+import { prop } from "@decaf-ts/decoration";
+import { toKebabCase } from "@decaf-ts/logging";
+import { Axios } from "axios";
+import { AxiosHttpAdapter } from "../../src/axios";
+import { RestRepository } from "../../src/RestRepository";
+import { PatchContentType } from "../../src/constants";
+import {
+  applyJsonPatch,
+  applyMergePatch,
+  diffJsonPatch,
+  diffMergePatch,
+  patchFormatOf,
+} from "../../src/patch";
+import { ModelControllerBuilder } from "../../src/server/controllers/ModelControllerBuilder";
+
+@model()
+class PatchModel extends Model {
+  @pk()
+  id!: string;
+
+  @required()
+  name!: string;
+
+  @prop()
+  nickname?: string;
+
+  @prop()
+  address?: { city?: string; street?: string };
+
+  constructor(arg?: ModelArg<PatchModel>) {
+    super(arg);
+  }
+}
+
+describe("patch documents", () => {
+  const previous = {
+    id: "1",
+    name: "a",
+    nickname: "nick",
+    address: { city: "x", street: "y" },
+  };
+
+  it("diffs merge patches", () => {
+    expect(
+      diffMergePatch(previous, {
+        ...previous,
+        name: "b",
+        nickname: undefined,
+        address: { city: "z", street: "y" },
+      })
+    ).toEqual({ name: "b", nickname: null, address: { city: "z" } });
+    expect(diffMergePatch(previous, { ...previous })).toEqual({});
+  });
+
+  it("diffs json patches", () => {
+    expect(
+      diffJsonPatch(previous, {
+        ...previous,
+        name: "b",
+        nickname: undefined,
+        address: { city: "x", street: "y", "a/b": 1 } as any,
+      })
+    ).toEqual([
+      { op: "remove", path: "/nickname" },
+      { op: "replace", path: "/name", value: "b" },
+      { op: "add", path: "/address/a~1b", value: 1 },
+    ]);
+  });
+
+  it("applies merge patches", () => {
+    expect(
+      applyMergePatch(previous, { nickname: null, address: { city: "z" } })
+    ).toEqual({ id: "1", name: "a", address: { city: "z", street: "y" } });
+  });
+
+  it("applies json patches", () => {
+    const result = applyJsonPatch({ ...previous, tags: ["a"] }, [
+      { op: "test", path: "/name", value: "a" },
+      { op: "replace", path: "/name", value: "b" },
+      { op: "add", path: "/tags/-", value: "b" },
+      { op: "move", from: "/nickname", path: "/alias" },
+      { op: "copy", from: "/address/city", path: "/city" },
+      { op: "remove", path: "/address/street" },
+    ]);
+    expect(result).toEqual({
+      id: "1",
+      name: "b",
+      alias: "nick",
+      city: "x",
+      tags: ["a", "b"],
+      address: { city: "x" },
+    });
+    expect(previous.name).toBe("a");
+  });
+
+  it("rejects failed tests and malformed operations", () => {
+    expect(() =>
+      applyJsonPatch(previous, [{ op: "test", path: "/name", value: "b" }])
+    ).toThrow(ConflictError);
+    expect(() =>
+      applyJsonPatch(previous, [{ op: "remove", path: "/missing" }])
+    ).toThrow(ConflictError);
+    expect(() =>
+      applyJsonPatch(previous, [{ op: "replace", path: "name" } as any])
+    ).toThrow(BadRequestError);
+    expect(() => applyJsonPatch(previous, {} as any)).toThrow(BadRequestError);
+  });
+
+  it("refuses keys reaching the prototype chain", () => {
+    for (const path of [
+      "/__proto__/polluted",
+      "/constructor/prototype/polluted",
+    ])
+      expect(() =>
+        applyJsonPatch({ name: "a" }, [{ op: "add", path, value: "yes" }])
+      ).toThrow(BadRequestError);
+    expect(() =>
+      applyMergePatch(
+        { name: "a" },
+        JSON.parse('{"__proto__": {"polluted": "yes"}}')
+      )
+    ).toThrow(BadRequestError);
+    expect(({} as any).polluted).toBeUndefined();
+  });
+
+  it("resolves the patch format", () => {
+    expect(
+      patchFormatOf("application/json-patch+json; charset=utf-8", {})
+    ).toBe(PatchContentType.JSON);
+    expect(patchFormatOf(PatchContentType.MERGE, [])).toBe(
+      PatchContentType.MERGE
+    );
+    expect(patchFormatOf("application/json", [])).toBe(PatchContentType.JSON);
+    expect(patchFormatOf(undefined, {})).toBe(PatchContentType.MERGE);
+  });
+});
+
+describe("RestRepository.patch", () => {
+  let adapter: AxiosHttpAdapter;
+  let repo: RestRepository<PatchModel, AxiosHttpAdapter>;
+  let requestMock: jest.SpyInstance;
+
+  beforeEach(() => {
+    adapter = new AxiosHttpAdapter(
+      { protocol: "http", host: "localhost:8080", events: false },
+      `patch-${Math.random()}`
+    );
+    repo = new RestRepository(adapter, PatchModel);
+    requestMock = jest.spyOn(adapter.client as Axios, "request");
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("sends only the fields changed since the last read", async () => {
+    const stored = { id: "1", name: "a", nickname: "nick" };
+    requestMock.mockImplementation(async (details: any) =>
+      details.method === "GET"
+        ? { status: 200, body: stored }
+        : { status: 200, body: { ...stored, name: "b", nickname: undefined } }
+    );
+
+    await repo.read("1");
+    const patched = await repo.patch("1", { name: "b", nickname: undefined });
+
+    expect(requestMock).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        url: `http://localhost:8080/${toKebabCase(Model.tableName(PatchModel))}/1`,
+        method: "PATCH",
+        headers: expect.objectContaining({
+          "Content-Type": PatchContentType.MERGE,
+        }),
+      })
+    );
+    const sent = requestMock.mock.calls[1][0];
+    expect(JSON.parse(sent.data)).toEqual({ name: "b", nickname: null });
+    expect(patched).toBeInstanceOf(PatchModel);
+    expect(patched.name).toBe("b");
+
+    requestMock.mockClear();
+    await repo.patch("1", { name: "b" });
+    expect(requestMock).not.toHaveBeenCalled();
+  });
+
+  it("keeps a bounded number of record versions", async () => {
+    (adapter.config as any).patchVersions = 1;
+    requestMock.mockImplementation(async (details: any) => ({
+      status: 200,
+      body: { id: details.url.split("/").pop(), name: "a", nickname: "n" },
+    }));
+
+    await repo.read("1");
+    await repo.read("2");
+    requestMock.mockClear();
+    await repo.patch("2", { name: "a" });
+    await repo.patch("1", { name: "a" });
+
+    expect(requestMock).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(requestMock.mock.calls[0][0].data)).toEqual({
+      name: "a",
+    });
+  });
+
+  it("sends json patch operations when configured", async () => {
+    (adapter.config as any).patchFormat = PatchContentType.JSON;
+    requestMock.mockResolvedValue({
+      status: 200,
+      body: { id: "2", name: "c" },
+    });
+
+    await repo.patch("2", { name: "c" });
+    const sent = requestMock.mock.calls[0][0];
+    expect(sent.headers["Content-Type"]).toBe(PatchContentType.JSON);
+    expect(JSON.parse(sent.data)).toEqual([
+      { op: "add", path: "/name", value: "c" },
+    ]);
+  });
+});
+
+describe("ModelControllerBuilder.addPatchRoute", () => {
+  function controllerFor(stored: Record<string, any>) {
+    const persistence = {
+      class: PatchModel,
+      read: jest.fn(async () => new PatchModel(stored)),
+      update: jest.fn(async (m: PatchModel) => m),
+    };
+    const Controller = new ModelControllerBuilder(PatchModel, persistence)
+      .addPatchRoute()
+      .build() as any;
+    return { persistence, route: Controller.__routes__[0] };
+  }
+
+  function ctxWith(contentType?: string) {
+    return {
+      get: (key: string) =>
+        key === "headers" && contentType
+          ? { "Content-Type": contentType }
+          : undefined,
+    };
+  }
+
+  it("registers a PATCH route on the model id", () => {
+    const { route } = controllerFor({});
+    expect(route.method).toBe("PATCH");
+    expect(route.path).toBe(":id");
+  });
+
+  it("merges a merge patch into the stored model before updating", async () => {
+    const { persistence, route } = controllerFor({
+      id: "1",
+      name: "a",
+      nickname: "nick",
+    });
+
+    const result = await route.implementation.call(
+      { persistence, ctx: ctxWith(PatchContentType.MERGE) },
+      { nickname: null, name: "b" },
+      "1"
+    );
+
+    expect(persistence.read).toHaveBeenCalledWith("1", expect.anything());
+    expect(result).toBeInstanceOf(PatchModel);
+    expect(result.name).toBe("b");
+    expect(result.nickname).toBeUndefined();
+  });
+
+  it("applies json patch operations", async () => {
+    const { persistence, route } = controllerFor({ id: "1", name: "a" });
+
+    const result = await route.implementation.call(
+      { persistence, ctx: ctxWith(PatchContentType.JSON) },
+      [{ op: "add", path: "/nickname", value: "n" }],
+      "1"
+    );
+
+    expect(persistence.update).toHaveBeenCalledTimes(1);
+    expect(result.nickname).toBe("n");
+    expect(result.id).toBe("1");
+  });
+
+  it("refuses patches reaching the prototype chain", async () => {
+    const { persistence, route } = controllerFor({ id: "1", name: "a" });
+    const patches: [PatchContentType, unknown][] = [
+      [
+        PatchContentType.JSON,
+        [{ op: "add", path: "/__proto__/polluted", value: "yes" }],
+      ],
+      [
+        PatchContentType.MERGE,
+        JSON.parse('{"__proto__": {"polluted": "yes"}}'),
+      ],
+    ];
+
+    for (const [contentType, patch] of patches) {
+      const failure = await route.implementation
+        .call({ persistence, ctx: ctxWith(contentType) }, patch, "1")
+        .catch((e: any) => e);
+      expect(failure).toBeInstanceOf(BadRequestError);
+    }
+    expect(({} as any).polluted).toBeUndefined();
+    expect(persistence.update).not.toHaveBeenCalled();
+  });
+
+  it("rejects failed json patch tests", async () => {
+    const { persistence, route } = controllerFor({ id: "1", name: "a" });
+
+    const failure = await route.implementation
+      .call({ persistence }, [{ op: "test", path: "/name", value: "z" }], "1")
+      .catch((e: any) => e);
+
+    expect(failure).toBeInstanceOf(ConflictError);
+    expect(failure.status).toBe(409);
+    expect(persistence.update).not.toHaveBeenCalled();
+  });
+});
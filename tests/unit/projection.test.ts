@@ -0,0 +1,197 @@
+import { Condition, Context, pk } from "@decaf-ts/core";
+import { BadRequestError, ValidationError } from "@decaf-ts/db-decorators";
+import {
+  model,
+  Model,
+  ModelArg,
+  required,
+} from "@decaf-ts/decorator-validation";
+import { Logging } from "@decaf-ts/logging";
+import { Axios } from "axios";
+import { AxiosHttpAdapter } from "../../src/axios";
+import { isPartial, parseFields, partialFieldsOf } from "../../src/projection";
+import { RestRepository } from "../../src/RestRepository";
+import { ModelControllerBuilder } from "../../src/server";
+
+@model()
+class ProjectedModel extends Model {
+  @pk()
+  id!: string;
+
+  @required()
+  name!: string;
+
+  @required()
+  email!: string;
+
+  constructor(arg?: ModelArg<ProjectedModel>) {
+    super(arg);
+  }
+}
+
+const ctx = (fields?: string[]) =>
+  new Context().accumulate({ logger: Logging.get(), fields } as any);
+
+describe("parseFields", () => {
+  const attributes = ["id", "name", "email"];
+
+  it("reads comma separated and repeated fields, adding the primary key", () => {
+    expect(parseFields("name,email", attributes, "id")).toEqual([
+      "id",
+      "name",
+      "email",
+    ]);
+    expect(parseFields(["name", "id"], attributes, "id")).toEqual([
+      "id",
+      "name",
+    ]);
+    expect(parseFields(undefined, attributes, "id")).toBeUndefined();
+    expect(parseFields("", attributes, "id")).toBeUndefined();
+  });
+
+  it("rejects unknown attributes", () => {
+    expect(() => parseFields("password", attributes, "id")).toThrow(
+      BadRequestError
+    );
+  });
+});
+
+describe("projected routes", () => {
+  function routes(persistence: any) {
+    const Controller = new ModelControllerBuilder(ProjectedModel, persistence)
+      .addReadRoute()
+      .addStatementRoute()
+      .build() as any;
+    return Object.fromEntries(
+      Controller.__routes__.map((route: any) => [
+        route.path.startsWith("statement") ? "statement" : "read",
+        route.implementation,
+      ])
+    );
+  }
+
+  function statementMock(results: any[]) {
+    const statement: Record<string, jest.Mock> = {};
+    statement.where = jest.fn(() => statement);
+    statement.execute = jest.fn(async () => results);
+    return statement;
+  }
+
+  it("selects the fields of a read on the persistence layer", async () => {
+    const statement = statementMock([{ id: "1", name: "a" }]);
+    const persistence = { select: jest.fn(() => statement), read: jest.fn() };
+
+    const record = await routes(persistence).read.call({ ctx: {} }, "1", {
+      fields: "name",
+    });
+
+    expect(record).toEqual({ id: "1", name: "a" });
+    expect(persistence.select).toHaveBeenCalledWith(["id", "name"]);
+    expect(statement.where.mock.calls[0][0]).toBeInstanceOf(Condition);
+    expect(persistence.read).not.toHaveBeenCalled();
+  });
+
+  it("projects pages in memory", async () => {
+    const persistence = {
+      page: jest.fn(async () => ({
+        current: 1,
+        total: 1,
+        count: 1,
+        data: [{ id: "1", name: "a", email: "a@b.c" }],
+      })),
+    };
+
+    const page = await routes(persistence).statement.call(
+      { ctx: {} },
+      "page",
+      ["a", "asc"],
+      { limit: 10, offset: 1, fields: "email" }
+    );
+
+    expect(page.data).toEqual([{ id: "1", email: "a@b.c" }]);
+    expect(page.count).toEqual(1);
+  });
+
+  it("refuses unknown fields", async () => {
+    const persistence = { findBy: jest.fn() };
+    await expect(
+      routes(persistence).statement.call({ ctx: {} }, "findBy", ["name", "a"], {
+        fields: "password",
+      })
+    ).rejects.toBeInstanceOf(BadRequestError);
+    expect(persistence.findBy).not.toHaveBeenCalled();
+  });
+});
+
+describe("partial reads", () => {
+  let adapter: AxiosHttpAdapter;
+  let repo: RestRepository<ProjectedModel, AxiosHttpAdapter>;
+  let requestMock: jest.SpyInstance;
+
+  beforeEach(() => {
+    adapter = new AxiosHttpAdapter(
+      { protocol: "http", host: "localhost:8080", events: false },
+      `projection-${Math.random()}`
+    );
+    repo = new RestRepository(adapter, ProjectedModel);
+    requestMock = jest.spyOn(adapter.client as Axios, "request");
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("asks for the fields and flags the model as partial", async () => {
+    requestMock.mockResolvedValue({
+      status: 200,
+      headers: {},
+      data: { id: "1", name: "a" },
+    });
+
+    const read = await repo.read("1", ctx(["name"]));
+
+    expect(
+      new URL(requestMock.mock.calls[0][0].url).searchParams.get("fields")
+    ).toEqual("name");
+    expect(read).toBeInstanceOf(ProjectedModel);
+    expect(read.name).toEqual("a");
+    expect(partialFieldsOf(read)).toEqual(["name"]);
+    expect(Object.keys(read)).not.toContain("__fields");
+    expect(JSON.stringify(read)).not.toContain("__fields");
+  });
+
+  it("projects statement results", async () => {
+    requestMock.mockResolvedValue({
+      status: 200,
+      headers: {},
+      data: [{ id: "1", name: "a" }],
+    });
+
+    const found = await repo.findBy("name", "a", ctx(["name"]));
+
+    const url = new URL(requestMock.mock.calls[0][0].url);
+    expect(url.pathname).toContain("statement/findBy/name/a");
+    expect(url.searchParams.get("fields")).toEqual("name");
+    expect(found.every(isPartial)).toBe(true);
+  });
+
+  it("never sends partial models in a full update", async () => {
+    requestMock.mockResolvedValue({
+      status: 200,
+      headers: {},
+      data: { id: "1", name: "a" },
+    });
+    const read = await repo.read("1", ctx(["name"]));
+    requestMock.mockClear();
+
+    await expect(repo.update(read, ctx())).rejects.toBeInstanceOf(
+      ValidationError
+    );
+    await expect(repo.updateAll([read], ctx())).rejects.toBeInstanceOf(
+      ValidationError
+    );
+    const settled = await repo.updateAllSettled([read], ctx());
+    expect(settled.failed[0]).toMatchObject({ index: 0, status: 422 });
+    expect(requestMock).not.toHaveBeenCalled();
+  });
+});
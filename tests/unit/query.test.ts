@@ -0,0 +1,308 @@
+import {
+  Condition,
+  GroupOperator,
+  Operator,
+  OrderDirection,
+  PersistenceKeys,
+  pk,
+} from "@decaf-ts/core";
+import { BadRequestError } from "@decaf-ts/db-decorators";
+import {
+  model,
+  Model,
+  ModelArg,
+  required,
+} from "@decaf-ts/decorator-validation";
+import { toKebabCase } from "@decaf-ts/logging";
+import { Axios } from "axios";
+import { AxiosHttpAdapter } from "../../src/axios";
+import {
+  deserializeCondition,
+  parseConditionQuery,
+  serializeCondition,
+} from "../../src/query";
+import { RestRepository } from "../../src/RestRepository";
+import { ModelControllerBuilder } from "../../src/server";
+import { ConditionNode } from "../../src/types";
+
+@model()
+class QueriedModel extends Model {
+  @pk({ type: "Number" })
+  id!: number;
+
+  @required()
+  name!: string;
+
+  @required()
+  age!: number;
+
+  @required()
+  bornAt!: Date;
+
+  constructor(arg?: ModelArg<QueriedModel>) {
+    super(arg);
+  }
+}
+
+const table = toKebabCase(Model.tableName(QueriedModel));
+const fields = ["id", "name", "age", "bornAt"];
+const attr = (name: keyof QueriedModel) => Condition.attr<QueriedModel>(name);
+
+describe("condition serialization", () => {
+  it("serializes comparisons, groups and negations", () => {
+    const bornAt = new Date("2000-01-01T00:00:00.000Z");
+    const condition = attr("name")
+      .eq("a")
+      .and(attr("age").in([1, 2]).or(attr("bornAt").lte(bornAt)))
+      .and(attr("name").regexp("^a").not(undefined));
+
+    expect(serializeCondition(condition)).toEqual({
+      op: GroupOperator.AND,
+      conditions: [
+        {
+          op: GroupOperator.AND,
+          conditions: [
+            { attr: "name", op: Operator.EQUAL, value: "a" },
+            {
+              op: GroupOperator.OR,
+              conditions: [
+                { attr: "age", op: Operator.IN, value: [1, 2] },
+                {
+                  attr: "bornAt",
+                  op: Operator.SMALLER_EQ,
+                  value: { $date: bornAt.toISOString() },
+                },
+              ],
+            },
+          ],
+        },
+        {
+          op: Operator.NOT,
+          condition: { attr: "name", op: Operator.REGEXP, value: "^a" },
+        },
+      ],
+    });
+  });
+
+  it("rebuilds the same condition", () => {
+    const condition = attr("age")
+      .gt(18)
+      .or(attr("bornAt").gte(new Date("2000-01-01T00:00:00.000Z")))
+      .and(attr("name").dif("b"));
+    const node = JSON.parse(JSON.stringify(serializeCondition(condition)));
+
+    const rebuilt = deserializeCondition<QueriedModel>(node, fields);
+
+    expect(rebuilt).toBeInstanceOf(Condition);
+    expect(serializeCondition(rebuilt)).toEqual(node);
+    expect((rebuilt as any).attr1.comparison.comparison).toBeInstanceOf(Date);
+  });
+
+  it("joins groups of more than two conditions", () => {
+    const rebuilt = deserializeCondition<QueriedModel>({
+      op: GroupOperator.OR,
+      conditions: [
+        { attr: "id", op: Operator.EQUAL, value: 1 },
+        { attr: "id", op: Operator.EQUAL, value: 2 },
+        { attr: "id", op: Operator.EQUAL, value: 3 },
+      ],
+    });
+    expect(serializeCondition(rebuilt)).toEqual({
+      op: GroupOperator.OR,
+      conditions: [
+        {
+          op: GroupOperator.OR,
+          conditions: [
+            { attr: "id", op: Operator.EQUAL, value: 1 },
+            { attr: "id", op: Operator.EQUAL, value: 2 },
+          ],
+        },
+        { attr: "id", op: Operator.EQUAL, value: 3 },
+      ],
+    });
+  });
+
+  it.each([
+    [
+      "an attribute outside the model",
+      { attr: "password", op: "EQUAL", value: 1 },
+    ],
+    ["an unknown operator", { attr: "name", op: "LIKE", value: "a" }],
+    [
+      "a lone group member",
+      { op: "AND", conditions: [{ attr: "id", op: "EQUAL", value: 1 }] },
+    ],
+    ["a non-list IN", { attr: "id", op: "IN", value: 1 }],
+    ["an object value", { attr: "name", op: "EQUAL", value: { $where: "1" } }],
+  ])("rejects %s", (_, node) => {
+    expect(() =>
+      deserializeCondition(node as unknown as ConditionNode, fields)
+    ).toThrow(BadRequestError);
+  });
+
+  it("rejects deeply nested conditions", () => {
+    let node: ConditionNode = { attr: "id", op: Operator.EQUAL, value: 1 };
+    for (let i = 0; i < 40; i++) node = { op: Operator.NOT, condition: node };
+    expect(() => deserializeCondition(node, fields)).toThrow(BadRequestError);
+  });
+
+  it("parses the query parameters received by the server", () => {
+    const query = parseConditionQuery<QueriedModel>(
+      {
+        where: JSON.stringify({ attr: "age", op: "BIGGER", value: 18 }),
+        select: "name",
+        orderBy: "age",
+        direction: "DESC",
+        limit: "10",
+        offset: "20",
+      },
+      fields
+    );
+    expect(query).toMatchObject({
+      select: ["name"],
+      orderBy: "age",
+      direction: OrderDirection.DSC,
+      limit: 10,
+      offset: 20,
+    });
+    expect(query.condition).toBeInstanceOf(Condition);
+    expect(() => parseConditionQuery({ orderBy: "password" }, fields)).toThrow(
+      BadRequestError
+    );
+    expect(() => parseConditionQuery({ limit: "-1" }, fields)).toThrow(
+      BadRequestError
+    );
+  });
+});
+
+describe("HttpStatement condition queries", () => {
+  let adapter: AxiosHttpAdapter;
+  let repo: RestRepository<QueriedModel, AxiosHttpAdapter>;
+  let requestMock: jest.SpyInstance;
+
+  beforeEach(() => {
+    adapter = new AxiosHttpAdapter(
+      { protocol: "http", host: "localhost:8080", events: false },
+      `query-${Math.random()}`
+    );
+    repo = new RestRepository(adapter, QueriedModel);
+    requestMock = jest
+      .spyOn(adapter.client as Axios, "request")
+      .mockResolvedValue({
+        status: 200,
+        headers: {},
+        data: [{ id: 1, name: "a", age: 30 }],
+      } as any);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("sends conditions prepared statements can not express to the query route", async () => {
+    const results = await repo
+      .select(["name", "age"])
+      .where(attr("age").gte(18).and(attr("name").eq("b").not(undefined)))
+      .orderBy(["age", OrderDirection.DSC])
+      .limit(10)
+      .offset(5)
+      .execute();
+
+    const url = new URL(requestMock.mock.calls[0][0].url);
+    expect(url.pathname).toEqual(`/${table}/${PersistenceKeys.QUERY}`);
+    expect(JSON.parse(url.searchParams.get("where") as string)).toEqual({
+      op: GroupOperator.AND,
+      conditions: [
+        { attr: "age", op: Operator.BIGGER_EQ, value: 18 },
+        {
+          op: Operator.NOT,
+          condition: { attr: "name", op: Operator.EQUAL, value: "b" },
+        },
+      ],
+    });
+    expect(url.searchParams.getAll("select")).toEqual(["name", "age"]);
+    expect(url.searchParams.get("orderBy")).toEqual("age");
+    expect(url.searchParams.get("direction")).toEqual(OrderDirection.DSC);
+    expect(url.searchParams.get("limit")).toEqual("10");
+    expect(url.searchParams.get("offset")).toEqual("5");
+    expect(results[0]).toBeInstanceOf(QueriedModel);
+  });
+
+  it("builds condition queries from the adapter", () => {
+    const query = Object.assign(adapter.parseCondition(attr("name").eq("a")), {
+      class: QueriedModel,
+    });
+    const details = adapter.toRequest(query);
+    expect(details.method).toEqual("GET");
+    expect(
+      decodeURIComponent(details.url as string).replace(
+        /^http:\/\/localhost:8080/,
+        ""
+      )
+    ).toEqual(
+      `/${table}/${PersistenceKeys.QUERY}?where=${JSON.stringify({
+        attr: "name",
+        op: Operator.EQUAL,
+        value: "a",
+      })}`
+    );
+  });
+});
+
+describe("ModelControllerBuilder query route", () => {
+  function queryRoute(persistence: any) {
+    const Controller = new ModelControllerBuilder(QueriedModel, persistence)
+      .addQueryRoute()
+      .build() as any;
+    return Controller.__routes__.find(
+      (route: any) => route.path === PersistenceKeys.QUERY
+    );
+  }
+
+  function statementMock(results: any[]) {
+    const statement: Record<string, jest.Mock> = {};
+    for (const method of ["where", "orderBy", "limit", "offset"])
+      statement[method] = jest.fn(() => statement);
+    statement.execute = jest.fn(async () => results);
+    return statement;
+  }
+
+  it("rebuilds the condition and runs it on the persistence layer", async () => {
+    const statement = statementMock([{ id: 1 }]);
+    const select = jest.fn(() => statement);
+    const route = queryRoute({ class: QueriedModel, select });
+    const ctx = { requestId: "query" };
+
+    const results = await route.implementation.call(
+      { ctx },
+      {
+        where: JSON.stringify({ attr: "name", op: "EQUAL", value: "a" }),
+        select: ["id", "name"],
+        orderBy: "name",
+        limit: "5",
+      }
+    );
+
+    expect(results).toEqual([{ id: 1 }]);
+    expect(route.method).toEqual("GET");
+    expect(select).toHaveBeenCalledWith(["id", "name"]);
+    expect(statement.where.mock.calls[0][0]).toBeInstanceOf(Condition);
+    expect(statement.orderBy).toHaveBeenCalledWith("name", OrderDirection.ASC);
+    expect(statement.limit).toHaveBeenCalledWith(5);
+    expect(statement.offset).not.toHaveBeenCalled();
+    expect(statement.execute).toHaveBeenCalledWith(ctx);
+  });
+
+  it("rejects attributes outside the model before querying", () => {
+    const select = jest.fn();
+    const route = queryRoute({ class: QueriedModel, select });
+
+    expect(() =>
+      route.implementation.call(
+        { ctx: {} },
+        { where: JSON.stringify({ attr: "secret", op: "EQUAL", value: 1 }) }
+      )
+    ).toThrow(BadRequestError);
+    expect(select).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,262 @@
+import { Context, pk, route } from "@decaf-ts/core";
+import {
+  model,
+  Model,
+  ModelArg,
+  required,
+} from "@decaf-ts/decorator-validation";
+import { Logging } from "@decaf-ts/logging";
+import { Axios } from "axios";
+import { AxiosHttpAdapter } from "../../src/axios";
+import { TooManyRequestsError } from "../../src/errors";
+import {
+  ModelControllerBuilder,
+  ModelControllerFactory,
+  rateLimit,
+  RateLimiter,
+  rateLimitSubjectOf,
+  responseHeadersOf,
+  slidingWindow,
+  tokenBucket,
+} from "../../src/server";
+
+@model()
+class LimitedModel extends Model {
+  @pk()
+  id!: string;
+
+  @required()
+  name!: string;
+
+  constructor(arg?: ModelArg<LimitedModel>) {
+    super(arg);
+  }
+}
+
+const request = (ip: string, extra: Record<string, any> = {}) => ({
+  ctx: {
+    get: (key: string) => (key === "ip" ? ip : extra[key]),
+  },
+});
+
+describe("rate limit algorithms", () => {
+  it("refills token buckets continuously", () => {
+    let state: any;
+    const take = (now: number) => {
+      const counted = tokenBucket(state, 2, 1000, now);
+      state = counted.state;
+      return counted.decision;
+    };
+
+    expect(take(0)).toMatchObject({ allowed: true, remaining: 1 });
+    expect(take(0)).toMatchObject({ allowed: true, remaining: 0 });
+    expect(take(0)).toMatchObject({ allowed: false, retryAfter: 500 });
+    expect(take(500)).toMatchObject({ allowed: true, remaining: 0 });
+  });
+
+  it("weighs the previous window in sliding windows", () => {
+    let state: any;
+    const count = (now: number) => {
+      const counted = slidingWindow(state, 2, 1000, now);
+      state = counted.state;
+      return counted.decision;
+    };
+
+    expect(count(900).allowed).toBe(true);
+    expect(count(950).allowed).toBe(true);
+    expect(count(990)).toMatchObject({ allowed: false, reset: 10 });
+    expect(count(1200).allowed).toBe(false);
+    expect(count(1600).allowed).toBe(true);
+  });
+});
+
+describe("RateLimiter", () => {
+  it("describes decisions with rate limit headers", async () => {
+    const limiter = new RateLimiter({ limit: 1, window: 10_000 });
+
+    const allowed = await limiter.consume("a", 0);
+    expect(limiter.headersOf(allowed)).toEqual({
+      "ratelimit-limit": "1",
+      "ratelimit-remaining": "0",
+      "ratelimit-reset": "10",
+      "ratelimit-policy": "1;w=10",
+    });
+
+    const denied = await limiter.consume("a", 1000);
+    expect(denied.allowed).toBe(false);
+    expect(limiter.headersOf(denied)["retry-after"]).toEqual("9");
+    expect((await limiter.consume("b", 1000)).allowed).toBe(true);
+  });
+
+  it("counts users before falling back to the client IP", () => {
+    expect(rateLimitSubjectOf(request("1.2.3.4").ctx)).toEqual("ip:1.2.3.4");
+    expect(
+      rateLimitSubjectOf(request("1.2.3.4", { user: "ana" }).ctx, "user")
+    ).toEqual("user:ana");
+    expect(rateLimitSubjectOf(request("1.2.3.4").ctx, "user")).toEqual(
+      "ip:1.2.3.4"
+    );
+    expect(rateLimitSubjectOf(undefined)).toEqual("anonymous");
+  });
+
+  it("only honors forwarded addresses from trusted proxies", () => {
+    const proxied = (ip: string) =>
+      request(ip, {
+        headers: { "X-Forwarded-For": "6.6.6.6, 1.2.3.4, 10.0.0.2" },
+      }).ctx;
+
+    expect(rateLimitSubjectOf(proxied("10.0.0.1"))).toEqual("ip:10.0.0.1");
+    expect(rateLimitSubjectOf(proxied("10.0.0.1"), "ip", true)).toEqual(
+      "ip:6.6.6.6"
+    );
+    const proxies = ["10.0.0.1", "10.0.0.2"];
+    expect(rateLimitSubjectOf(proxied("10.0.0.1"), "ip", proxies)).toEqual(
+      "ip:1.2.3.4"
+    );
+    expect(rateLimitSubjectOf(proxied("5.5.5.5"), "ip", proxies)).toEqual(
+      "ip:5.5.5.5"
+    );
+  });
+});
+
+describe("controller rate limits", () => {
+  let persistence: any;
+
+  function routesOf(builder: ModelControllerBuilder<LimitedModel>) {
+    const Controller = builder.addCreateRoute().addReadRoute().build() as any;
+    return Object.fromEntries(
+      Controller.__routes__.map((r: any) => [r.method, r.implementation])
+    );
+  }
+
+  beforeEach(() => {
+    persistence = {
+      class: LimitedModel,
+      create: jest.fn(async (m: any) => m),
+      read: jest.fn(async (id: any) => new LimitedModel({ id, name: "a" })),
+    };
+  });
+
+  it("answers 429 with Retry-After once the limit is spent", async () => {
+    const routes = routesOf(
+      new ModelControllerBuilder(LimitedModel, persistence).withRateLimit({
+        limit: 2,
+      })
+    );
+
+    const first = await routes.GET.call(request("1.2.3.4"), "1");
+    expect(responseHeadersOf(first)["ratelimit-remaining"]).toEqual("1");
+    await routes.POST.call(request("1.2.3.4"), { name: "b" });
+
+    const failure = await routes.GET.call(request("1.2.3.4"), "1").catch(
+      (e: any) => e
+    );
+    expect(failure).toBeInstanceOf(TooManyRequestsError);
+    expect(failure.status).toBe(429);
+    expect(Number(responseHeadersOf(failure)["retry-after"])).toBeGreaterThan(
+      0
+    );
+    expect(persistence.read).toHaveBeenCalledTimes(1);
+
+    await routes.GET.call(request("5.6.7.8"), "1");
+    expect(persistence.read).toHaveBeenCalledTimes(2);
+  });
+
+  it("gives routes their own limits or exempts them", async () => {
+    const Controller = ModelControllerFactory.create(
+      LimitedModel,
+      persistence,
+      {
+        rateLimit: {
+          limit: 1,
+          routes: { "GET :id": { limit: 3 }, "POST ": false },
+        },
+      }
+    ) as any;
+    const find = (method: string, path: string) =>
+      Controller.__routes__.find(
+        (r: any) =>
+          r.method === method && r.path.replace(/^\/+|\/+$/g, "") === path
+      ).implementation;
+    const read = find("GET", ":id");
+    const create = find("POST", "");
+
+    for (let i = 0; i < 3; i++) {
+      await read.call(request("1.2.3.4"), "1");
+      await create.call(request("1.2.3.4"), { name: "b" });
+    }
+    await expect(read.call(request("1.2.3.4"), "1")).rejects.toBeInstanceOf(
+      TooManyRequestsError
+    );
+    expect(persistence.create).toHaveBeenCalledTimes(3);
+  });
+
+  it("reads limits from persistence decorators", async () => {
+    class LimitedRepository {
+      class = LimitedModel;
+
+      @rateLimit({ limit: 1 })
+      @route("GET", "report/:year")
+      report(year: string) {
+        return { year };
+      }
+    }
+
+    const Controller = ModelControllerFactory.create(
+      LimitedModel,
+      new LimitedRepository()
+    ) as any;
+    const report = Controller.__routes__.find((r: any) =>
+      r.path.includes("report")
+    ).implementation;
+
+    await report.call(request("1.2.3.4"), "2024");
+    await expect(
+      report.call(request("1.2.3.4"), "2024")
+    ).rejects.toBeInstanceOf(TooManyRequestsError);
+  });
+});
+
+describe("client rate limit back-off", () => {
+  let adapter: AxiosHttpAdapter;
+  let requestMock: jest.SpyInstance;
+
+  const ctx = () => new Context().accumulate({ logger: Logging.get() } as any);
+
+  beforeEach(() => {
+    adapter = new AxiosHttpAdapter(
+      { protocol: "http", host: "localhost:8080", retry: { maxAttempts: 1 } },
+      `ratelimit-${Math.random()}`
+    );
+    requestMock = jest.spyOn(adapter.client as Axios, "request");
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("waits out the Retry-After of a 429", async () => {
+    requestMock
+      .mockResolvedValueOnce({ status: 429, headers: { "retry-after": "1" } })
+      .mockResolvedValueOnce({ status: 200, body: { id: "1", name: "a" } });
+
+    await expect(adapter.read(LimitedModel, "1", ctx())).rejects.toThrow();
+    const started = Date.now();
+    await adapter.read(LimitedModel, "1", ctx());
+    expect(Date.now() - started).toBeGreaterThanOrEqual(900);
+    expect(requestMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("fails right away when the back-off exceeds maxDelay", async () => {
+    requestMock.mockResolvedValueOnce({
+      status: 429,
+      headers: { "ratelimit-reset": "60" },
+    });
+
+    await expect(adapter.read(LimitedModel, "1", ctx())).rejects.toThrow();
+    await expect(adapter.read(LimitedModel, "1", ctx())).rejects.toBeInstanceOf(
+      TooManyRequestsError
+    );
+    expect(requestMock).toHaveBeenCalledTimes(1);
+  });
+});
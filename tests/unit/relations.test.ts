@@ -0,0 +1,250 @@
+import {
+  AuthorizationError,
+  Cascade,
+  Context,
+  manyToOne,
+  oneToMany,
+  pk,
+} from "@decaf-ts/core";
+import { BadRequestError } from "@decaf-ts/db-decorators";
+import {
+  model,
+  Model,
+  ModelArg,
+  required,
+} from "@decaf-ts/decorator-validation";
+import { Metadata } from "@decaf-ts/decoration";
+import { Logging } from "@decaf-ts/logging";
+import { Axios } from "axios";
+import { AxiosHttpAdapter } from "../../src/axios";
+import { parseIncludes } from "../../src/relations";
+import { RestRepository } from "../../src/RestRepository";
+import { AUTH_NAMESPACE_KEY, ModelControllerBuilder } from "../../src/server";
+
+const cascade = { update: Cascade.NONE, delete: Cascade.NONE };
+
+@model()
+class WriterModel extends Model {
+  @pk()
+  id!: string;
+
+  @required()
+  name!: string;
+
+  constructor(arg?: ModelArg<WriterModel>) {
+    super(arg);
+  }
+}
+
+@model()
+class NoteModel extends Model {
+  @pk()
+  id!: string;
+
+  @required()
+  text!: string;
+
+  @manyToOne(() => WriterModel, cascade, false)
+  writer!: string | WriterModel;
+
+  constructor(arg?: ModelArg<NoteModel>) {
+    super(arg);
+  }
+}
+
+@model()
+class ArticleModel extends Model {
+  @pk()
+  id!: string;
+
+  @required()
+  title!: string;
+
+  @manyToOne(() => WriterModel, cascade, false)
+  writer!: string | WriterModel;
+
+  @oneToMany(() => NoteModel, cascade, false)
+  notes!: string[] | NoteModel[];
+
+  constructor(arg?: ModelArg<ArticleModel>) {
+    super(arg);
+  }
+}
+
+const article = { id: "a1", title: "t", writer: "w1", notes: ["n1", "n2"] };
+
+describe("parseIncludes", () => {
+  it("builds the tree of the relations to expand", () => {
+    expect(parseIncludes("writer,notes.writer", ArticleModel, 3)).toEqual({
+      writer: {},
+      notes: { writer: {} },
+    });
+    expect(parseIncludes(["writer", "writer"], ArticleModel)).toEqual({
+      writer: {},
+    });
+    expect(parseIncludes(undefined, ArticleModel)).toBeUndefined();
+  });
+
+  it("rejects attributes that are not relations and deep paths", () => {
+    expect(() => parseIncludes("title", ArticleModel)).toThrow(BadRequestError);
+    expect(() => parseIncludes("notes.writer", ArticleModel, 1)).toThrow(
+      BadRequestError
+    );
+  });
+});
+
+describe("expanded routes", () => {
+  function persistenceOf(records: Record<string, any>[]) {
+    return {
+      readAll: jest.fn(async (ids: string[]) =>
+        records.filter((record) => ids.includes(record.id))
+      ),
+    };
+  }
+
+  const writers = persistenceOf([{ id: "w1", name: "ana" }]);
+  const notes = persistenceOf([
+    { id: "n1", text: "a", writer: "w1" },
+    { id: "n2", text: "b", writer: "w1" },
+  ]);
+
+  function readRoute(persistence: any, authHandler?: any) {
+    const Controller = new ModelControllerBuilder(ArticleModel, persistence)
+      .withRelationExpansion({
+        maxDepth: 2,
+        authHandler,
+        persistenceFor: (Related) =>
+          Related === WriterModel ? writers : notes,
+      })
+      .addReadRoute()
+      .build() as any;
+    return Controller.__routes__.find((route: any) => route.method === "GET");
+  }
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("replaces foreign keys with the related records", async () => {
+    const persistence = { read: jest.fn(async () => ({ ...article })) };
+
+    const record = await readRoute(persistence).implementation.call(
+      { ctx: {} },
+      "a1",
+      { include: "writer,notes.writer" }
+    );
+
+    expect(record.writer).toEqual({ id: "w1", name: "ana" });
+    expect(record.notes).toEqual([
+      { id: "n1", text: "a", writer: { id: "w1", name: "ana" } },
+      { id: "n2", text: "b", writer: { id: "w1", name: "ana" } },
+    ]);
+    expect(notes.readAll).toHaveBeenCalledTimes(1);
+    expect(writers.readAll).toHaveBeenCalledTimes(2);
+  });
+
+  it("enforces the depth limit", async () => {
+    const persistence = { read: jest.fn() };
+    await expect(
+      readRoute(persistence).implementation.call({ ctx: {} }, "a1", {
+        include: "notes.writer.id",
+      })
+    ).rejects.toBeInstanceOf(BadRequestError);
+    expect(persistence.read).not.toHaveBeenCalled();
+  });
+
+  it("authorizes every related model", async () => {
+    const persistence = { read: jest.fn(async () => ({ ...article })) };
+    const authHandler = {
+      authorizeModel: jest.fn(async (Related: any) => {
+        if (Related === WriterModel)
+          throw new AuthorizationError("writers are restricted");
+      }),
+    };
+
+    await expect(
+      readRoute(persistence, authHandler).implementation.call(
+        { ctx: {} },
+        "a1",
+        { include: "writer" }
+      )
+    ).rejects.toBeInstanceOf(AuthorizationError);
+    expect(authHandler.authorizeModel).toHaveBeenCalledWith(WriterModel, {});
+    expect(writers.readAll).not.toHaveBeenCalled();
+  });
+
+  it("refuses guarded models without an auth handler", async () => {
+    const persistence = { read: jest.fn(async () => ({ ...article })) };
+    Metadata.set(WriterModel, AUTH_NAMESPACE_KEY, ["staff"]);
+    try {
+      await expect(
+        readRoute(persistence).implementation.call({ ctx: {} }, "a1", {
+          include: "writer",
+        })
+      ).rejects.toBeInstanceOf(AuthorizationError);
+      expect(writers.readAll).not.toHaveBeenCalled();
+    } finally {
+      Metadata.set(WriterModel, AUTH_NAMESPACE_KEY, undefined);
+    }
+  });
+});
+
+describe("included reads", () => {
+  let adapter: AxiosHttpAdapter;
+  let repo: RestRepository<ArticleModel, AxiosHttpAdapter>;
+  let requestMock: jest.SpyInstance;
+
+  beforeEach(() => {
+    adapter = new AxiosHttpAdapter(
+      { protocol: "http", host: "localhost:8080", events: false },
+      `relations-${Math.random()}`
+    );
+    repo = new RestRepository(adapter, ArticleModel);
+    requestMock = jest.spyOn(adapter.client as Axios, "request");
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("asks for the relations and hydrates them", async () => {
+    requestMock.mockResolvedValue({
+      status: 200,
+      headers: {},
+      data: {
+        ...article,
+        writer: { id: "w1", name: "ana" },
+        notes: [{ id: "n1", text: "a", writer: { id: "w1", name: "ana" } }],
+      },
+    });
+
+    const read = await repo.read(
+      "a1",
+      new Context().accumulate({
+        logger: Logging.get(),
+        include: ["writer", "notes.writer"],
+      } as any)
+    );
+
+    expect(
+      new URL(requestMock.mock.calls[0][0].url).searchParams.get("include")
+    ).toEqual("writer,notes.writer");
+    expect(read.writer).toBeInstanceOf(WriterModel);
+    expect(read.notes[0]).toBeInstanceOf(NoteModel);
+    expect((read.notes[0] as NoteModel).writer).toBeInstanceOf(WriterModel);
+  });
+
+  it("keeps foreign keys servers did not expand", async () => {
+    requestMock.mockResolvedValue({ status: 200, headers: {}, data: article });
+
+    const read = await repo.read(
+      "a1",
+      new Context().accumulate({
+        logger: Logging.get(),
+        include: ["writer"],
+      } as any)
+    );
+
+    expect(read.writer).toEqual("w1");
+  });
+});
@@ -0,0 +1,172 @@
+import { AxiosHttpAdapter } from "../../src/axios";
+import { Axios } from "axios";
+import {
+  DecafHeaders,
+  HttpConfig,
+  parseRetryAfter,
+  retryDelay,
+  DefaultRetryPolicy,
+} from "../../src";
+import { Context, pk } from "@decaf-ts/core";
+import { Logging } from "@decaf-ts/logging";
+import { Model, ModelArg, required } from "@decaf-ts/decorator-validation";
+
+class RetryModel extends Model {
+  @pk()
+  id!: string;
+
+  @required()
+  name!: string;
+
+  constructor(arg?: ModelArg<RetryModel>) {
+    super(arg);
+  }
+}
+
+function ctx() {
+  return new Context().accumulate({ logger: Logging.get() });
+}
+
+describe("HttpAdapter retry policy", () => {
+  const cfg: HttpConfig = {
+    protocol: "http",
+    host: "localhost:8080",
+    retry: { maxAttempts: 3, baseDelay: 1, maxDelay: 5, jitter: false },
+  };
+
+  let adapter: AxiosHttpAdapter;
+  let requestMock: jest.SpyInstance;
+
+  beforeAll(() => {
+    adapter = new AxiosHttpAdapter(cfg, `retry-${Math.random()}`);
+  });
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    requestMock = jest.spyOn(adapter.client as Axios, "request");
+  });
+
+  it("retries transient statuses for idempotent methods", async () => {
+    requestMock
+      .mockResolvedValueOnce({ status: 503, headers: { "retry-after": "0" } })
+      .mockResolvedValueOnce({ status: 502, headers: {} })
+      .mockResolvedValueOnce({ status: 200, body: { id: "1", name: "a" } });
+
+    const read = await adapter.read(RetryModel, "1", ctx());
+    expect(read).toEqual({ id: "1", name: "a" });
+    expect(requestMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("retries network errors and gives up after maxAttempts", async () => {
+    const err = Object.assign(new Error("socket hang up"), {
+      code: "ECONNRESET",
+    });
+    requestMock.mockRejectedValue(err);
+
+    await expect(adapter.read(RetryModel, "1", ctx())).rejects.toThrow();
+    expect(requestMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("does not retry non-idempotent requests that may have been processed", async () => {
+    requestMock.mockResolvedValue({ status: 500, headers: {} });
+
+    await expect(
+      adapter.create(RetryModel, "1", { id: "1", name: "a" }, ctx())
+    ).rejects.toThrow();
+    expect(requestMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries non-idempotent requests when the server did not process them", async () => {
+    requestMock
+      .mockResolvedValueOnce({ status: 429, headers: {} })
+      .mockResolvedValueOnce({ status: 201, body: { id: "1", name: "a" } });
+
+    const created = await adapter.create(
+      RetryModel,
+      "1",
+      { id: "1", name: "a" },
+      ctx()
+    );
+    expect(created).toEqual({ id: "1", name: "a" });
+    expect(requestMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("retries creates carrying an idempotency key", async () => {
+    const keyed = new AxiosHttpAdapter(
+      Object.assign({}, cfg, {
+        retry: Object.assign({}, cfg.retry, { idempotencyKey: true }),
+      }),
+      `retry-${Math.random()}`
+    );
+    const mock = jest
+      .spyOn(keyed.client as Axios, "request")
+      .mockResolvedValueOnce({ status: 500, headers: {} } as any)
+      .mockResolvedValueOnce({
+        status: 201,
+        body: { id: "1", name: "a" },
+      } as any);
+
+    await keyed.create(RetryModel, "1", { id: "1", name: "a" }, ctx());
+    expect(mock).toHaveBeenCalledTimes(2);
+    const [first, second] = mock.mock.calls.map((c: any[]) => c[0].headers);
+    expect(first[DecafHeaders.IDEMPOTENCY_KEY]).toBeDefined();
+    expect(second[DecafHeaders.IDEMPOTENCY_KEY]).toEqual(
+      first[DecafHeaders.IDEMPOTENCY_KEY]
+    );
+  });
+
+  it("stops retrying when the request signal is aborted", async () => {
+    const slow = new AxiosHttpAdapter(
+      Object.assign({}, cfg, {
+        retry: { maxAttempts: 5, baseDelay: 1000, jitter: false },
+      }),
+      `retry-${Math.random()}`
+    );
+    const mock = jest
+      .spyOn(slow.client as Axios, "request")
+      .mockResolvedValue({ status: 503, headers: {} } as any);
+    const controller = new AbortController();
+    const pending = slow.get(
+      "http://localhost:8080/test",
+      { signal: controller.signal },
+      ctx()
+    );
+    setTimeout(() => controller.abort(), 10);
+
+    await expect(pending).rejects.toThrow();
+    expect(mock).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not retry when no policy is configured", async () => {
+    const plain = new AxiosHttpAdapter(
+      { protocol: "http", host: "localhost:8080" },
+      `retry-${Math.random()}`
+    );
+    const mock = jest
+      .spyOn(plain.client as Axios, "request")
+      .mockResolvedValue({ status: 503, headers: {} } as any);
+
+    await expect(plain.read(RetryModel, "1", ctx())).rejects.toThrow();
+    expect(mock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("retry helpers", () => {
+  it("parses Retry-After seconds and dates", () => {
+    expect(parseRetryAfter("2")).toBe(2000);
+    expect(parseRetryAfter(new Date(Date.now() - 1000).toUTCString())).toBe(0);
+    expect(parseRetryAfter("soon")).toBeUndefined();
+  });
+
+  it("computes capped exponential delays", () => {
+    const policy = Object.assign({}, DefaultRetryPolicy, {
+      baseDelay: 100,
+      maxDelay: 350,
+      jitter: false,
+    });
+    expect(retryDelay(1, policy)).toBe(100);
+    expect(retryDelay(2, policy)).toBe(200);
+    expect(retryDelay(3, policy)).toBe(350);
+    expect(retryDelay(1, policy, 10_000)).toBe(350);
+  });
+});
@@ -0,0 +1,121 @@
+import { EventSourcePlus } from "event-source-plus";
+import { EventConnectionState } from "../../src/constants";
+import { ServerEventConnector } from "../../src/event";
+
+describe("ServerEventConnector resumption", () => {
+  let sources: EventSourcePlus[];
+  let hooks: any[];
+  let connector: ServerEventConnector;
+
+  const connection = async (count: number) => {
+    for (let i = 0; i < 100 && hooks.length < count; i++)
+      await new Promise((resolve) => setImmediate(resolve));
+    return hooks[count - 1];
+  };
+
+  const handlers = () => ({
+    onEvent: jest.fn(),
+    onError: jest.fn(),
+    onResync: jest.fn(),
+    onStateChange: jest.fn(),
+  });
+
+  const open = async (url: string, listener = handlers()) => {
+    connector = ServerEventConnector.open(url);
+    connector.addListener(listener);
+    await (await connection(1)).onResponse({ response: { ok: true } });
+    return listener;
+  };
+
+  beforeEach(() => {
+    sources = [];
+    hooks = [];
+    jest
+      .spyOn(EventSourcePlus.prototype, "listen")
+      .mockImplementation(function (this: EventSourcePlus, listen: any) {
+        sources.push(this);
+        hooks.push(listen);
+        return { abort: jest.fn() } as any;
+      });
+  });
+
+  afterEach(() => {
+    connector?.close(true);
+    jest.restoreAllMocks();
+  });
+
+  it("resumes from the last received event id", async () => {
+    const listener = await open("http://localhost/events/resume");
+
+    hooks[0].onMessage({ id: "3", event: "heartbeat", data: "0" });
+    const reopening = connector.reconnect();
+    const reopened = await connection(2);
+
+    expect(sources[1].lastEventId).toEqual("3");
+    expect(connector.state).toEqual(EventConnectionState.RECONNECTING);
+    await reopened.onResponse({ response: { ok: true } });
+    await reopening;
+
+    expect(listener.onResync).not.toHaveBeenCalled();
+    expect(listener.onStateChange.mock.calls.map(([state]) => state)).toEqual([
+      EventConnectionState.CONNECTING,
+      EventConnectionState.OPEN,
+      EventConnectionState.RECONNECTING,
+      EventConnectionState.OPEN,
+    ]);
+  });
+
+  it("signals a resync when events may have been missed", async () => {
+    const listener = await open("http://localhost/events/resync");
+
+    hooks[0].onMessage({ id: "4", event: "resync", data: "1" });
+    expect(listener.onResync).toHaveBeenCalledTimes(1);
+
+    hooks[0].onMessage({ id: "2", event: "heartbeat", data: "0" });
+    expect(listener.onResync).toHaveBeenCalledTimes(2);
+    expect(listener.onEvent).not.toHaveBeenCalled();
+  });
+
+  it("signals a resync when a message follows one it did not receive", async () => {
+    const listener = await open("http://localhost/events/gaps");
+
+    hooks[0].onMessage({ id: "1", event: "heartbeat", data: "0" });
+    hooks[0].onMessage({ id: "1-5", event: "heartbeat", data: "0" });
+    expect(listener.onResync).not.toHaveBeenCalled();
+
+    hooks[0].onMessage({ id: "7-8", event: "heartbeat", data: "0" });
+    expect(listener.onResync).toHaveBeenCalledTimes(1);
+    expect(listener.onResync).toHaveBeenCalledWith(
+      "the events after 5 up to 7 were not received"
+    );
+  });
+
+  it("signals a resync when reconnected without an event id", async () => {
+    const listener = await open("http://localhost/events/unknown");
+
+    const reopening = connector.reconnect();
+    await (await connection(2)).onResponse({ response: { ok: true } });
+    await reopening;
+
+    expect(sources[1].lastEventId).toBeUndefined();
+    expect(listener.onResync).toHaveBeenCalledTimes(1);
+  });
+
+  it("reports retries and closing", async () => {
+    const states: EventConnectionState[] = [];
+    await open("http://localhost/events/state");
+    connector.onStateChange((state) => states.push(state));
+
+    hooks[0].onRequest({});
+    await hooks[0].onResponse({ response: { ok: false } });
+    hooks[0].onResponseError({ response: { status: 503 } });
+    await hooks[0].onResponse({ response: { ok: true } });
+    connector.close(true);
+
+    expect(states).toEqual([
+      EventConnectionState.RECONNECTING,
+      EventConnectionState.OPEN,
+      EventConnectionState.CLOSED,
+    ]);
+  });
+});
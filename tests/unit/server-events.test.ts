@@ -0,0 +1,282 @@
+import { Readable } from "stream";
+import { pk } from "@decaf-ts/core";
+import {
+  model,
+  Model,
+  ModelArg,
+  required,
+} from "@decaf-ts/decorator-validation";
+import { decodeServerEvent } from "../../src/event";
+import {
+  isEventStreamResponse,
+  responseHeadersOf,
+  ServerEventBroadcaster,
+} from "../../src/server";
+
+@model()
+class EventModel extends Model {
+  @pk()
+  id!: string;
+
+  @required()
+  name!: string;
+
+  constructor(arg?: ModelArg<EventModel>) {
+    super(arg);
+  }
+}
+
+type Frame = { id?: string; event?: string; data?: string };
+
+function reader(stream: Readable, events = ["message", "resync"]) {
+  let received = "";
+  stream.on("data", (chunk) => (received += chunk.toString()));
+  return async (): Promise<Frame[]> => {
+    await new Promise((resolve) => setImmediate(resolve));
+    const frames = received
+      .split("\n\n")
+      .filter((block) => block && !block.startsWith(":"))
+      .map((block) =>
+        Object.fromEntries(
+          block.split("\n").map((line) => {
+            const at = line.indexOf(": ");
+            return [line.slice(0, at), line.slice(at + 2)];
+          })
+        )
+      )
+      .filter((frame) => events.includes(frame.event));
+    received = "";
+    return frames;
+  };
+}
+
+const ctx = {} as any;
+
+describe("ServerEventBroadcaster", () => {
+  let events: ServerEventBroadcaster;
+
+  beforeEach(() => {
+    events = new ServerEventBroadcaster({ heartbeat: false, replay: 2 });
+  });
+
+  afterEach(() => events.close());
+
+  it("sends events in the format the connector parses", async () => {
+    const stream = events.connect();
+    const read = reader(stream);
+
+    expect(isEventStreamResponse(stream)).toBe(true);
+    expect(responseHeadersOf(stream)["Cache-Control"]).toEqual("no-cache");
+
+    await events.refresh(
+      EventModel,
+      "create",
+      "1",
+      new EventModel({ id: "1", name: "a" }),
+      ctx
+    );
+    await events.refresh(EventModel, "deleteAll", ["2", "3"], ctx);
+
+    const [created, deleted] = await read();
+    expect(created).toMatchObject({ id: "0-1", event: "message" });
+    const event = decodeServerEvent(created.data);
+    expect(event?.slice(0, 3)).toEqual([
+      Model.tableName(EventModel),
+      "create",
+      "1",
+    ]);
+    expect(event?.[3]).toMatchObject({ id: "1", name: "a" });
+    expect(decodeServerEvent(deleted.data)?.slice(0, 3)).toEqual([
+      Model.tableName(EventModel),
+      "deleteAll",
+      ["2", "3"],
+    ]);
+  });
+
+  it("only sends correlated connections the topics they subscribed to", async () => {
+    const subscribed = reader(events.connect({ cid: "a" }));
+    const other = reader(events.connect({ cid: "b" }));
+    events.subscribe("a", ["EventModel.*"]);
+    events.subscribe("b", ["other.*"]);
+
+    await events.refresh(EventModel, "update", "1", ctx);
+
+    expect(await subscribed()).toHaveLength(1);
+    expect(await other()).toHaveLength(0);
+
+    expect(events.unsubscribe("a")).toEqual([]);
+    await events.refresh(EventModel, "update", "1", ctx);
+    expect(await subscribed()).toHaveLength(0);
+  });
+
+  it("names the previous message of the connection in every id", async () => {
+    const read = reader(events.connect({ cid: "a" }), ["message", "heartbeat"]);
+    events.subscribe("a", ["EventModel.create.*"]);
+
+    await events.refresh(EventModel, "create", "1", ctx);
+    await events.refresh(EventModel, "update", "1", ctx);
+    await events.refresh(EventModel, "create", "2", ctx);
+    events.heartbeat();
+
+    expect((await read()).map(({ id }) => id)).toEqual([
+      "0",
+      "0-1",
+      "1-3",
+      "3-3",
+    ]);
+  });
+
+  it("replaces the connection of the same correlation id", async () => {
+    const first = events.connect({ cid: "a" });
+    events.connect({ cid: "a" });
+
+    expect(first.writableEnded).toBe(true);
+  });
+
+  it("replays missed events and asks for a resync past the buffer", async () => {
+    for (const id of ["1", "2", "3"])
+      await events.refresh(EventModel, "create", id, ctx);
+
+    const resumed = await reader(events.connect({ lastEventId: "1" }))();
+    expect(resumed.map((frame) => frame.id)).toEqual(["1-2", "2-3"]);
+
+    const stale = await reader(events.connect({ lastEventId: "0" }))();
+    expect(stale).toEqual([{ id: "3", event: "resync", data: "0" }]);
+  });
+
+  it("checks the model roles of every event", async () => {
+    const authHandler = {
+      authorizeModel: jest.fn(async (_model: any, ctx: any) => {
+        if (!ctx?.admin) throw new Error("Missing required roles: admin");
+      }),
+    };
+    events = new ServerEventBroadcaster({
+      heartbeat: false,
+      authHandler: authHandler as any,
+    });
+    const admin = reader(events.connect({ ctx: { admin: true } }));
+    const guest = reader(events.connect({ ctx: {} }));
+
+    await events.refresh(EventModel, "create", "1", ctx);
+
+    expect(await admin()).toHaveLength(1);
+    expect(await guest()).toHaveLength(0);
+    expect(authHandler.authorizeModel).toHaveBeenCalledWith(EventModel, {
+      admin: true,
+    });
+  });
+
+  it("expires the subscriptions of closed connections", async () => {
+    events = new ServerEventBroadcaster({
+      heartbeat: false,
+      subscriptionGrace: 20,
+    });
+    const wait = (ms: number) =>
+      new Promise((resolve) => setTimeout(resolve, ms));
+    const topicsOf = (cid: string) => events.unsubscribe(cid, ["none"]);
+
+    events.connect({ cid: "a" }).destroy();
+    events.subscribe("a", ["EventModel.*"]);
+    events.subscribe("b", ["EventModel.*"]);
+    await wait(5);
+    events.connect({ cid: "a" });
+    await wait(30);
+
+    expect(topicsOf("a")).toEqual(["eventmodel.*"]);
+    expect(topicsOf("b")).toEqual([]);
+
+    events.connect({ cid: "a" }).destroy();
+    await wait(30);
+    expect(topicsOf("a")).toEqual([]);
+  });
+
+  it("drops connections that stop reading", async () => {
+    events = new ServerEventBroadcaster({
+      heartbeat: false,
+      maxBuffer: 48 * 1024,
+    });
+    const slow = events.connect();
+    const read = reader(events.connect());
+    const name = "x".repeat(32 * 1024);
+
+    for (const id of ["1", "2", "3"]) {
+      await events.refresh(
+        EventModel,
+        "create",
+        id,
+        new EventModel({ id, name }),
+        ctx
+      );
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+
+    expect(slow.destroyed).toBe(true);
+    expect(await read()).toHaveLength(3);
+  });
+
+  it("sends heartbeats carrying the latest event id", async () => {
+    const read = reader(events.connect(), ["heartbeat"]);
+
+    expect(await read()).toMatchObject([{ id: "0", event: "heartbeat" }]);
+
+    await events.refresh(EventModel, "create", "1", ctx);
+    events.heartbeat();
+
+    expect(await read()).toMatchObject([{ id: "1-1", event: "heartbeat" }]);
+  });
+
+  it("starts resumed connections with a heartbeat after the replay", async () => {
+    await events.refresh(EventModel, "create", "1", ctx);
+    await events.refresh(EventModel, "create", "2", ctx);
+
+    const frames = await reader(events.connect({ lastEventId: "1" }), [
+      "message",
+      "heartbeat",
+    ])();
+    expect(frames.map(({ id, event }) => [id, event])).toEqual([
+      ["1-2", "message"],
+      ["2-2", "heartbeat"],
+    ]);
+  });
+});
+
+describe("ServerEventBroadcaster controller", () => {
+  const request = (headers: Record<string, string>) => ({
+    ctx: { get: (key: string) => (key === "headers" ? headers : undefined) },
+  });
+
+  it("manages subscriptions by correlation id", async () => {
+    const events = new ServerEventBroadcaster({ heartbeat: false });
+    const Controller = events.controller() as any;
+    const route = (method: string, path: string) =>
+      Controller.__routes__.find(
+        (r: any) => r.method === method && r.path === path
+      ).implementation;
+
+    expect(Controller.__path__).toEqual("events");
+    await expect(
+      route("POST", "subscribe").call(request({ "x-correlation-id": "a" }), {
+        topics: ["EventModel.*"],
+      })
+    ).resolves.toEqual({ topics: ["eventmodel.*"] });
+    await expect(
+      route("POST", "subscribe").call(request({}), { topics: ["a.*"] })
+    ).rejects.toMatchObject({ status: 400 });
+
+    const stream = await route("GET", "").call(
+      request({ "last-event-id": "0" }),
+      { cid: "a" }
+    );
+    const read = reader(stream);
+    await events.refresh(EventModel, "create", "1", ctx);
+    expect(await read()).toHaveLength(1);
+
+    await route("POST", "unsubscribe").call(
+      request({ "x-correlation-id": "a" }),
+      {}
+    );
+    await events.refresh(EventModel, "create", "2", ctx);
+    expect(await read()).toHaveLength(0);
+    events.close();
+  });
+});
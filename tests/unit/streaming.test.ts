@@ -0,0 +1,250 @@
+import { Readable } from "stream";
+import { OrderDirection, pk, PreparedStatementKeys } from "@decaf-ts/core";
+import { NotFoundError } from "@decaf-ts/db-decorators";
+import {
+  model,
+  Model,
+  ModelArg,
+  required,
+} from "@decaf-ts/decorator-validation";
+import { toKebabCase } from "@decaf-ts/logging";
+import { Axios } from "axios";
+import { AxiosHttpAdapter } from "../../src/axios";
+import { NdjsonContentType } from "../../src/constants";
+import { readNdjson } from "../../src/ndjson";
+import { RestRepository } from "../../src/RestRepository";
+import {
+  isNdjsonResponse,
+  ModelControllerBuilder,
+  responseHeadersOf,
+} from "../../src/server";
+
+@model()
+class StreamedModel extends Model {
+  @pk({ type: "Number" })
+  id!: number;
+
+  @required()
+  name!: string;
+
+  constructor(arg?: ModelArg<StreamedModel>) {
+    super(arg);
+  }
+}
+
+const table = toKebabCase(Model.tableName(StreamedModel));
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const values: T[] = [];
+  for await (const value of iterable) values.push(value);
+  return values;
+}
+
+describe("readNdjson", () => {
+  it("parses lines split across chunks", async () => {
+    const bytes = Buffer.from('{"id":1,"name":"é"}\n\n{"id":2}\n{"id":3}');
+    const body = Readable.from([bytes.subarray(0, 17), bytes.subarray(17)]);
+
+    expect(await collect(readNdjson(body))).toEqual([
+      { id: 1, name: "é" },
+      { id: 2 },
+      { id: 3 },
+    ]);
+  });
+
+  it("cancels web streams when aborted", async () => {
+    const cancel = jest.fn();
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode('{"id":1}\n'));
+      },
+      cancel,
+    });
+    const controller = new AbortController();
+    const reason = new Error("stop");
+    const lines = readNdjson(body, controller.signal);
+
+    expect((await lines.next()).value).toEqual({ id: 1 });
+    const pending = lines.next();
+    controller.abort(reason);
+
+    await expect(pending).rejects.toBe(reason);
+    expect(cancel).toHaveBeenCalledWith(reason);
+  });
+});
+
+describe("RestRepository.stream", () => {
+  let adapter: AxiosHttpAdapter;
+  let repo: RestRepository<StreamedModel, AxiosHttpAdapter>;
+  let requestMock: jest.SpyInstance;
+
+  beforeEach(() => {
+    adapter = new AxiosHttpAdapter(
+      { protocol: "http", host: "localhost:8080", events: false },
+      `stream-${Math.random()}`
+    );
+    repo = new RestRepository(adapter, StreamedModel);
+    requestMock = jest.spyOn(adapter.client as Axios, "request");
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("reverts records as lines arrive", async () => {
+    requestMock.mockResolvedValue({
+      status: 200,
+      headers: { "content-type": NdjsonContentType },
+      data: Readable.from(['{"id":1,"name":"a"}\n{"id":2,', '"name":"b"}\n']),
+    });
+
+    const records = await collect(
+      repo.stream("listBy", ["name"], { direction: OrderDirection.DSC })
+    );
+
+    expect(records.map((record) => record.id)).toEqual([1, 2]);
+    expect(records[0]).toBeInstanceOf(StreamedModel);
+    const req = requestMock.mock.calls[0][0];
+    expect(req.responseType).toEqual("stream");
+    expect(req.headers.Accept).toEqual(NdjsonContentType);
+    const url = new URL(req.url);
+    expect(url.pathname).toEqual(`/${table}/statement/listBy/name`);
+    expect(url.searchParams.get("direction")).toEqual(OrderDirection.DSC);
+  });
+
+  it("raises the error ending a failed stream", async () => {
+    requestMock.mockResolvedValue({
+      status: 200,
+      headers: { "content-type": NdjsonContentType },
+      data: Readable.from([
+        '{"id":1,"name":"a"}\n',
+        '{"$error":{"name":"NotFoundError","message":"gone","status":404}}\n',
+      ]),
+    });
+
+    const received: number[] = [];
+    await expect(async () => {
+      for await (const record of repo.stream("find", ["a"]))
+        received.push(record.id);
+    }).rejects.toBeInstanceOf(NotFoundError);
+    expect(received).toEqual([1]);
+  });
+
+  it("falls back to plain JSON lists and errors", async () => {
+    requestMock.mockResolvedValueOnce({
+      status: 200,
+      headers: { "content-type": "application/json" },
+      data: Readable.from(['[{"id":1,"name":"a"}]']),
+    });
+    const records = await collect(repo.stream("find", ["a"]));
+    expect(records).toHaveLength(1);
+    expect(records[0]).toBeInstanceOf(StreamedModel);
+
+    requestMock.mockResolvedValueOnce({
+      status: 404,
+      headers: { "content-type": "application/json" },
+      data: Readable.from([
+        '{"error":{"name":"NotFoundError","message":"gone","status":404}}',
+      ]),
+    });
+    await expect(collect(repo.stream("find", ["a"]))).rejects.toBeInstanceOf(
+      NotFoundError
+    );
+  });
+});
+
+describe("ModelControllerBuilder streaming", () => {
+  const records = [1, 2, 3, 4, 5].map((id) => ({ id, name: `n${id}` }));
+  const accepting = (accept?: string) => ({
+    get: (key: string) =>
+      key === "headers" && accept ? { accept } : undefined,
+  });
+
+  function listByRoute(persistence: any, chunkSize?: number) {
+    const builder = new ModelControllerBuilder(StreamedModel, persistence);
+    if (chunkSize) builder.withStreaming(chunkSize);
+    const Controller = builder.addListByRoute().build() as any;
+    return Controller.__routes__.find(
+      (route: any) => route.path === `${PreparedStatementKeys.LIST_BY}/:key`
+    );
+  }
+
+  it("streams pages read from the persistence layer", async () => {
+    const paginateBy = jest.fn(
+      async (key: string, direction: string, ref: any) => ({
+        data: records.slice(
+          (ref.offset - 1) * ref.limit,
+          ref.offset * ref.limit
+        ),
+        current: ref.offset,
+        total: 3,
+        count: records.length,
+        bookmark: `bk-${ref.offset}`,
+      })
+    );
+    const listBy = jest.fn();
+    const route = listByRoute({ paginateBy, listBy }, 2);
+
+    const stream = await route.implementation.call(
+      { ctx: accepting(NdjsonContentType) },
+      "name",
+      { direction: OrderDirection.ASC }
+    );
+
+    expect(isNdjsonResponse(stream)).toBe(true);
+    expect(responseHeadersOf(stream)["Content-Type"]).toEqual(
+      NdjsonContentType
+    );
+    expect(paginateBy).not.toHaveBeenCalled();
+    expect(await collect(readNdjson(stream))).toEqual(records);
+    expect(paginateBy).toHaveBeenCalledTimes(3);
+    expect(paginateBy.mock.calls[1][2]).toEqual({
+      limit: 2,
+      offset: 2,
+      bookmark: "bk-1",
+    });
+    expect(listBy).not.toHaveBeenCalled();
+  });
+
+  it("ends the stream with the serialized failure", async () => {
+    const paginateBy = jest
+      .fn()
+      .mockResolvedValueOnce(records.slice(0, 2))
+      .mockRejectedValueOnce(new NotFoundError("gone"));
+    const route = listByRoute({ paginateBy }, 2);
+
+    const stream = await route.implementation.call(
+      { ctx: accepting(NdjsonContentType) },
+      "name",
+      {}
+    );
+
+    const lines = await collect(readNdjson<any>(stream));
+    expect(lines.slice(0, 2)).toEqual(records.slice(0, 2));
+    expect(lines[2].$error).toMatchObject({
+      name: NotFoundError.name,
+      status: 404,
+    });
+  });
+
+  it("answers with the whole list unless streaming is enabled and accepted", async () => {
+    const listBy = jest.fn(async () => records);
+    const paginateBy = jest.fn();
+
+    expect(
+      await listByRoute({ listBy, paginateBy }).implementation.call(
+        { ctx: accepting(NdjsonContentType) },
+        "name",
+        {}
+      )
+    ).toEqual(records);
+    expect(
+      await listByRoute({ listBy, paginateBy }, 2).implementation.call(
+        { ctx: accepting("application/json") },
+        "name",
+        {}
+      )
+    ).toEqual(records);
+    expect(paginateBy).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,199 @@
+import { ValidationError } from "@decaf-ts/db-decorators";
+import { pk } from "@decaf-ts/core";
+import {
+  max,
+  maxlength,
+  model,
+  Model,
+  ModelArg,
+  required,
+} from "@decaf-ts/decorator-validation";
+import { ModelControllerBuilder } from "../../src/server/controllers/ModelControllerBuilder";
+import { ServerMethodBuilder } from "../../src/server/controllers/RouteBuilder";
+
+@model()
+class ValidatedModel extends Model {
+  @pk()
+  id!: number;
+
+  @required()
+  @maxlength(5)
+  name!: string;
+
+  @max(10)
+  quantity?: number;
+
+  constructor(arg?: ModelArg<ValidatedModel>) {
+    super(arg);
+  }
+}
+
+describe("ModelControllerBuilder request validation", () => {
+  let persistence: any;
+
+  function routesOf(builder: ModelControllerBuilder<ValidatedModel>) {
+    const Controller = builder
+      .addCreateRoute()
+      .addReadRoute()
+      .addUpdateRoute()
+      .addPatchRoute()
+      .build() as any;
+    return Object.fromEntries(
+      Controller.__routes__.map((r: any) => [r.method, r.implementation])
+    );
+  }
+
+  beforeEach(() => {
+    persistence = {
+      class: ValidatedModel,
+      create: jest.fn(async (m: any) => new ValidatedModel({ ...m, id: 1 })),
+      read: jest.fn(async (id: any) => new ValidatedModel({ id, name: "a" })),
+      update: jest.fn(async (m: any) => m),
+    };
+  });
+
+  it("rejects invalid bodies with a 422 per field", async () => {
+    const routes = routesOf(
+      new ModelControllerBuilder(ValidatedModel, persistence).withValidation()
+    );
+
+    const failure = await routes.POST.call(
+      { persistence },
+      { name: "too long", quantity: 20 }
+    ).catch((e: any) => e);
+
+    expect(failure).toBeInstanceOf(ValidationError);
+    expect(failure.status).toBe(422);
+    expect(Object.keys(failure.body.error.details).sort()).toEqual([
+      "name",
+      "quantity",
+    ]);
+    expect(failure.body.error.details.name).toHaveProperty("maxlength");
+    expect(persistence.create).not.toHaveBeenCalled();
+
+    await routes.POST.call({ persistence }, { name: "ok" });
+    expect(persistence.create).toHaveBeenCalledTimes(1);
+  });
+
+  it("coerces path parameters to the model attribute types", async () => {
+    const routes = routesOf(
+      new ModelControllerBuilder(ValidatedModel, persistence).withValidation()
+    );
+
+    await routes.GET.call({ persistence }, "7");
+    expect(persistence.read.mock.calls[0][0]).toBe("7");
+
+    const failure = await routes.GET.call({ persistence }, "seven").catch(
+      (e: any) => e
+    );
+    expect(failure.status).toBe(422);
+    expect(failure.body.error.details).toEqual({
+      id: { type: "Expected a number" },
+    });
+    expect(persistence.read).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects unknown fields when configured", async () => {
+    const routes = routesOf(
+      new ModelControllerBuilder(ValidatedModel, persistence).withValidation({
+        rejectUnknownFields: true,
+      })
+    );
+
+    const failure = await routes.PUT.call(
+      { persistence },
+      { name: "b", color: "red" },
+      "1"
+    ).catch((e: any) => e);
+    expect(failure.status).toBe(422);
+    expect(failure.body.error.details).toEqual({
+      color: { unknown: "color is not a ValidatedModel attribute" },
+    });
+    expect(persistence.update).not.toHaveBeenCalled();
+  });
+
+  it("only validates the fields patches carry", async () => {
+    const routes = routesOf(
+      new ModelControllerBuilder(ValidatedModel, persistence).withValidation()
+    );
+
+    await routes.PATCH.call({ persistence }, { quantity: 3 }, "1");
+    expect(persistence.update).toHaveBeenCalledTimes(1);
+
+    await expect(
+      routes.PATCH.call({ persistence }, { quantity: 30 }, "1")
+    ).rejects.toThrow(ValidationError);
+    expect(persistence.update).toHaveBeenCalledTimes(1);
+  });
+
+  it("validates each item of bulk bodies", async () => {
+    persistence.createAll = jest.fn(async (models: any[]) => models);
+    persistence.updateAll = jest.fn(async (models: any[]) => models);
+    const Controller = new ModelControllerBuilder(ValidatedModel, persistence)
+      .withValidation()
+      .addBulkCreateRoute()
+      .addBulkUpdateRoute()
+      .build() as any;
+    const routes = Object.fromEntries(
+      Controller.__routes__.map((r: any) => [r.method, r.implementation])
+    );
+
+    const failure = await routes.POST.call({ persistence }, [
+      { name: "ok" },
+      { name: "too long", quantity: 20 },
+      "item",
+    ]).catch((e: any) => e);
+    expect(failure.status).toBe(422);
+    expect(Object.keys(failure.body.error.details).sort()).toEqual([
+      "1.name",
+      "1.quantity",
+      "2",
+    ]);
+    expect(persistence.createAll).not.toHaveBeenCalled();
+
+    await expect(
+      routes.PUT.call({ persistence }, { id: 1, name: "a" })
+    ).rejects.toThrow(ValidationError);
+    await routes.PUT.call({ persistence }, [{ id: 1, name: "a" }]);
+    expect(persistence.updateAll).toHaveBeenCalledTimes(1);
+  });
+
+  it("leaves requests unchecked without validation", async () => {
+    const routes = routesOf(
+      new ModelControllerBuilder(ValidatedModel, persistence)
+    );
+
+    await routes.GET.call({ persistence }, "seven");
+    expect(persistence.read).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("ServerMethodBuilder request validation", () => {
+  it("coerces declared query parameters and reports missing ones", async () => {
+    const implementation = jest.fn(
+      (name: string, details: Record<string, any>) => ({ name, ...details })
+    );
+    const route = new ServerMethodBuilder()
+      .withMethod("GET")
+      .withPath("search/:name")
+      .withQueryParam("limit", "number", true)
+      .withQueryParam("exact", "boolean")
+      .withValidation()
+      .withImplementation(implementation)
+      .build();
+
+    await expect(
+      route.implementation!("a", { limit: "5", exact: "true" })
+    ).resolves.toEqual({ name: "a", limit: 5, exact: true });
+
+    const failure = await route.implementation!("a", { exact: "maybe" }).catch(
+      (e: any) => e
+    );
+    expect(failure).toBeInstanceOf(ValidationError);
+    expect(failure.details).toEqual({
+      limit: { required: "limit is required" },
+      exact: { type: "Expected a boolean" },
+    });
+    expect(implementation).toHaveBeenCalledTimes(1);
+  });
+});